@@ -0,0 +1,127 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/budget.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/budget/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const {
+    planEviction,
+    planQuotaEviction,
+    summarizeCacheUsage,
+    getBudgetLimit,
+  } = await import(`file://${outFile}`);
+
+  const MB = 1024 * 1024;
+  const records = [
+    { id: "a", source: "unsplash", timestamp: 1, size: 3 * MB, keyword: "sea" },
+    { id: "b", source: "pexels", timestamp: 2, size: 3 * MB, keyword: "sky" },
+    { id: "c", source: "unsplash", timestamp: 3, size: 3 * MB, keyword: "sea" },
+    { id: "fav", source: "pexels", timestamp: 0, size: 3 * MB, favorite: true },
+    { id: "local_1", source: "local", timestamp: 0, size: 3 * MB },
+  ];
+  const sizeBudget = { mode: "size", maxMb: 16, maxImages: 100 };
+
+  if (getBudgetLimit(sizeBudget) !== 16 * MB) {
+    throw new Error("A size budget should be measured in bytes");
+  }
+
+  // Within budget: nothing is evicted
+  const none = planEviction(records, new Map(), sizeBudget, {
+    count: 0,
+    bytes: 0,
+  });
+  if (none.length !== 0) {
+    throw new Error(`Nothing should be evicted, got ${none.join()}`);
+  }
+
+  // "a" was viewed most recently, so "b" (never viewed, stored at 2) and then
+  // "c" (viewed at 5) go first
+  const lastViewed = new Map([
+    ["a", 10],
+    ["c", 5],
+  ]);
+  const evicted = planEviction(records, lastViewed, sizeBudget, {
+    count: 2,
+    bytes: 6 * MB,
+  });
+  if (evicted.join() !== "b,c") {
+    throw new Error(`Expected b,c to be evicted, got ${evicted.join()}`);
+  }
+
+  // Favourites and local images survive even when the budget can't be met
+  const all = planEviction(records, lastViewed, sizeBudget, {
+    count: 1,
+    bytes: 100 * MB,
+  });
+  if (all.join() !== "b,c,a") {
+    throw new Error(`Only unprotected images should be evicted, got ${all}`);
+  }
+
+  // Count budgets ignore sizes
+  const countBudget = { mode: "count", maxMb: 1, maxImages: 4 };
+  const byCount = planEviction(records, lastViewed, countBudget, {
+    count: 1,
+    bytes: 500 * MB,
+  });
+  if (byCount.join() !== "b,c") {
+    throw new Error(`Expected b,c to be evicted by count, got ${byCount}`);
+  }
+
+  // Quota eviction frees the requested bytes, oldest stored first
+  const forQuota = planQuotaEviction(records, 4 * MB);
+  if (forQuota.join() !== "a,b") {
+    throw new Error(`Expected a,b to be evicted for quota, got ${forQuota}`);
+  }
+  if (planQuotaEviction(records, 0).length !== 0) {
+    throw new Error("Nothing should be evicted when no space is needed");
+  }
+
+  const usage = summarizeCacheUsage(records);
+  if (usage.total.count !== 5 || usage.total.bytes !== 15 * MB) {
+    throw new Error(`Unexpected usage total: ${JSON.stringify(usage.total)}`);
+  }
+  if (
+    usage.bySource.unsplash?.count !== 2 ||
+    usage.bySource.pexels?.bytes !== 6 * MB ||
+    usage.byKeyword.sea?.count !== 2 ||
+    usage.byKeyword.none?.count !== 2
+  ) {
+    throw new Error(`Unexpected usage breakdown: ${JSON.stringify(usage)}`);
+  }
+  if (usage.savedBytes !== 0) {
+    throw new Error("Nothing should count as saved without transcoding");
+  }
+
+  // Transcoded images count what they saved; a larger result saves nothing
+  const transcoded = summarizeCacheUsage([
+    { ...records[0], size: 1 * MB, originalSize: 4 * MB },
+    { ...records[1], size: 2 * MB, originalSize: 1 * MB },
+  ]);
+  if (transcoded.savedBytes !== 3 * MB) {
+    throw new Error(`Expected 3 MB saved, got ${transcoded.savedBytes}`);
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ cache budget tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ cache budget test failed:", err);
+  process.exit(1);
+});
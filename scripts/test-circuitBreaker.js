@@ -0,0 +1,101 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/circuitBreaker.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/circuitBreaker/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const {
+    classifyFailure,
+    getCircuitState,
+    recordFailure,
+    summarizeCircuits,
+  } = await import(`file://${outFile}`);
+
+  const now = 1_700_000_000_000;
+  const MINUTE = 60 * 1000;
+  const details = { scope: "provider", label: "Unsplash" };
+
+  // Failure classification
+  if (classifyFailure(new Error("HTTP 401 Unauthorized")) !== "key") {
+    throw new Error("401 should count against the key");
+  }
+  if (classifyFailure(new Error("HTTP 429 Too Many Requests")) !== "key") {
+    throw new Error("429 should count against the key");
+  }
+  if (
+    classifyFailure(new Error("HTTP 503 Service Unavailable")) !== "provider"
+  ) {
+    throw new Error("503 should count against the provider");
+  }
+  if (classifyFailure(new TypeError("Failed to fetch")) !== "provider") {
+    throw new Error("Network errors should count against the provider");
+  }
+
+  // Trips after the threshold
+  let record = recordFailure(undefined, details, "HTTP 500", now);
+  record = recordFailure(record, details, "HTTP 500", now);
+  if (getCircuitState(record, now) !== "closed") {
+    throw new Error("Circuit should stay closed below the threshold");
+  }
+  record = recordFailure(record, details, "HTTP 500", now);
+  if (getCircuitState(record, now) !== "open") {
+    throw new Error("Circuit should open at the threshold");
+  }
+  const firstBackoff = record.retryAt - now;
+
+  // Half-open once the backoff ends
+  if (getCircuitState(record, record.retryAt) !== "half-open") {
+    throw new Error("Circuit should be half-open after its backoff");
+  }
+
+  // A failed probe re-opens with a longer backoff
+  const probeTime = record.retryAt;
+  record = recordFailure(record, details, "HTTP 502", probeTime);
+  if (
+    getCircuitState(record, probeTime) !== "open" ||
+    record.retryAt - probeTime !== firstBackoff * 2
+  ) {
+    throw new Error(
+      `Failed probe should double the backoff: ${JSON.stringify(record)}`,
+    );
+  }
+
+  // Summaries only list circuits that are not closed
+  const closed = recordFailure(undefined, details, "HTTP 500", now);
+  const summary = summarizeCircuits(
+    { "provider:unsplash": record, "provider:pexels": closed },
+    probeTime + MINUTE,
+  );
+  if (
+    summary.length !== 1 ||
+    summary[0].label !== "Unsplash" ||
+    summary[0].state !== "open" ||
+    summary[0].lastError !== "HTTP 502"
+  ) {
+    throw new Error(`Unexpected summary: ${JSON.stringify(summary)}`);
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ circuit breaker tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ circuit breaker test failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,146 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/daily.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/daily/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const { getDailyProvider, getDaysToFetch, formatDay, addDays } = await import(
+    `file://${outFile}`
+  );
+
+  // Day ranges
+  const backfill = getDaysToFetch(undefined, "2024-03-02", 3, 30);
+  if (backfill.join() !== "2024-02-29,2024-03-01,2024-03-02") {
+    throw new Error(`Unexpected backfill range: ${backfill}`);
+  }
+  const gap = getDaysToFetch("2024-03-01", "2024-03-02", 7, 30);
+  if (gap.join() !== "2024-03-02") {
+    throw new Error(`Unexpected catch-up range: ${gap}`);
+  }
+  if (getDaysToFetch("2024-03-02", "2024-03-02", 7, 30).length !== 0) {
+    throw new Error("Expected no days when already up to date");
+  }
+  if (getDaysToFetch(undefined, "2024-03-02", 30, 8).length !== 8) {
+    throw new Error("Backfill should be capped by the provider limit");
+  }
+
+  // Mocked service responses, keyed by URL prefix
+  let responses = {};
+  const requested = [];
+  global.fetch = async (url) => {
+    requested.push(String(url));
+    const key = Object.keys(responses).find((k) => String(url).startsWith(k));
+    if (!key) return { ok: false, status: 404, statusText: "Not Found" };
+    return { ok: true, status: 200, json: async () => responses[key] };
+  };
+
+  // NASA APOD
+  responses = {
+    "https://api.nasa.gov/planetary/apod": {
+      date: "2024-03-01",
+      title: "A Galaxy",
+      media_type: "image",
+      url: "https://apod.nasa.gov/apod/image/galaxy_small.jpg",
+      hdurl: "https://apod.nasa.gov/apod/image/galaxy.jpg",
+      copyright: "\nJane\nAstro ",
+    },
+  };
+  const apod = await getDailyProvider("apod").fetchDay("2024-03-01", "");
+  if (
+    apod.id !== "apod_2024-03-01" ||
+    apod.url !== "https://apod.nasa.gov/apod/image/galaxy.jpg" ||
+    apod.author !== "Jane Astro" ||
+    apod.license !== "© Jane Astro" ||
+    apod.attribution !== "A Galaxy" ||
+    apod.downloadUrl !== "https://apod.nasa.gov/apod/ap240301.html"
+  ) {
+    throw new Error(`Unexpected APOD photo: ${JSON.stringify(apod)}`);
+  }
+  if (!requested.at(-1).includes("api_key=DEMO_KEY")) {
+    throw new Error("APOD should fall back to the demo key");
+  }
+
+  responses["https://api.nasa.gov/planetary/apod"].media_type = "video";
+  if ((await getDailyProvider("apod").fetchDay("2024-03-01")) !== null) {
+    throw new Error("APOD video days should be skipped");
+  }
+
+  // Wikimedia Commons POTD
+  responses = {
+    "https://api.wikimedia.org/feed/v1/wikipedia/en/featured/2024/03/01": {
+      image: {
+        title: "File:Sunset over lake.jpg",
+        file_page: "https://commons.wikimedia.org/wiki/File:Sunset_over_lake.jpg",
+        artist: { text: "Photographer X" },
+        license: {
+          type: "CC BY-SA 4.0",
+          url: "https://creativecommons.org/licenses/by-sa/4.0",
+        },
+        description: { text: "Sunset over a lake" },
+      },
+    },
+  };
+  const potd = await getDailyProvider("wikimedia").fetchDay("2024-03-01");
+  if (
+    potd.id !== "wikimedia_2024-03-01" ||
+    !potd.url.includes("Special:FilePath/Sunset%20over%20lake.jpg?width=") ||
+    potd.author !== "Photographer X" ||
+    potd.license !== "CC BY-SA 4.0" ||
+    potd.licenseUrl !== "https://creativecommons.org/licenses/by-sa/4.0" ||
+    potd.attribution !== "Sunset over a lake"
+  ) {
+    throw new Error(`Unexpected Wikimedia photo: ${JSON.stringify(potd)}`);
+  }
+
+  // Bing, addressed by days ago
+  const today = formatDay(new Date());
+  responses = {
+    "https://www.bing.com/HPImageArchive.aspx": {
+      images: [
+        {
+          startdate: "20240301",
+          urlbase: "/th?id=OHR.Lake_EN-US123",
+          copyright: "Lake Bled, Slovenia (© Jane Doe/Getty Images)",
+          copyrightlink: "https://www.bing.com/search?q=Lake+Bled",
+          title: "Island church",
+        },
+      ],
+    },
+  };
+  const bing = await getDailyProvider("bing").fetchDay(addDays(today, -2));
+  if (
+    !requested.at(-1).includes("idx=2") ||
+    bing.url !== "https://www.bing.com/th?id=OHR.Lake_EN-US123_1920x1080.jpg" ||
+    bing.author !== "Jane Doe/Getty Images" ||
+    bing.attribution !== "Island church — Lake Bled, Slovenia"
+  ) {
+    throw new Error(`Unexpected Bing photo: ${JSON.stringify(bing)}`);
+  }
+  if ((await getDailyProvider("bing").fetchDay(addDays(today, -20))) !== null) {
+    throw new Error("Bing days outside its archive should be skipped");
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ daily provider tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ daily provider test failed:", err);
+  process.exit(1);
+});
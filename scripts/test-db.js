@@ -0,0 +1,358 @@
+import "fake-indexeddb/auto";
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DB_NAME = "randomWallpaperExtension";
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Opens the database without the module, e.g. to seed an older schema
+ * @param version - Version to open at; the current one if omitted
+ * @param upgrade - Creates the stores when the database is new
+ */
+function openRaw(version, upgrade) {
+  return new Promise((resolve, reject) => {
+    const request =
+      version === undefined
+        ? indexedDB.open(DB_NAME)
+        : indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = () => upgrade?.(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Keys of every record in a store, read on a connection of its own
+ */
+async function readKeys(storeName) {
+  const raw = await openRaw();
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = raw
+        .transaction(storeName, "readonly")
+        .objectStore(storeName)
+        .getAllKeys();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    raw.close();
+  }
+}
+
+/**
+ * Writes records straight into a store, e.g. history at chosen times
+ */
+async function putRecords(storeName, records) {
+  const raw = await openRaw();
+  try {
+    await new Promise((resolve, reject) => {
+      const tx = raw.transaction(storeName, "readwrite");
+      for (const record of records) tx.objectStore(storeName).put(record);
+      tx.oncomplete = resolve;
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    raw.close();
+  }
+}
+
+function deleteDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function image(id, extra = {}) {
+  const now = Date.now();
+  return {
+    id,
+    url: `https://example.com/${id}.jpg`,
+    source: "unsplash",
+    timestamp: now,
+    expiresAt: now + 24 * HOUR,
+    blob: new Blob([`pixels of ${id}`], { type: "image/jpeg" }),
+    ...extra,
+  };
+}
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/db.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/db/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  // In-memory chrome.storage.local for settings and lock leases
+  const store = {};
+  global.chrome = {
+    storage: {
+      local: {
+        get: (keys, callback) => {
+          const result = {};
+          const wanted =
+            keys === null
+              ? Object.keys(store)
+              : typeof keys === "string"
+                ? [keys]
+                : keys;
+          for (const key of wanted) {
+            if (key in store) result[key] = structuredClone(store[key]);
+          }
+          setTimeout(() => callback(result), 0);
+        },
+        set: (items, callback) => {
+          Object.assign(store, structuredClone(items));
+          setTimeout(() => callback?.(), 0);
+        },
+        remove: (keys, callback) => {
+          for (const key of typeof keys === "string" ? [keys] : keys) {
+            delete store[key];
+          }
+          setTimeout(() => callback?.(), 0);
+        },
+      },
+    },
+  };
+
+  const db = await import(`file://${outFile}`);
+
+  // ── v5 migration: blobs move out of image records ──────────────────────
+  // A database as schema v4 left it, with blobs inside the image records
+  const legacy = await openRaw(4, (raw) => {
+    const images = raw.createObjectStore("imagesStore", { keyPath: "id" });
+    images.createIndex("timestamp", "timestamp", { unique: false });
+    images.createIndex("expiresAt", "expiresAt", { unique: false });
+    images.createIndex("contentHash", "contentHash", { unique: false });
+    raw.createObjectStore("metadataStore", { keyPath: "key" });
+    const history = raw.createObjectStore("historyStore", {
+      keyPath: "id",
+      autoIncrement: true,
+    });
+    history.createIndex("viewedAt", "viewedAt", { unique: false });
+    history.createIndex("source", "source", { unique: false });
+    history.createIndex("sourceViewedAt", ["source", "viewedAt"], {
+      unique: false,
+    });
+    const retryQueue = raw.createObjectStore("retryQueueStore", {
+      keyPath: "id",
+    });
+    retryQueue.createIndex("nextAttemptAt", "nextAttemptAt", {
+      unique: false,
+    });
+    retryQueue.createIndex("firstFailedAt", "firstFailedAt", {
+      unique: false,
+    });
+    raw.createObjectStore("refreshJobStore", { keyPath: "id" });
+  });
+  await new Promise((resolve, reject) => {
+    const tx = legacy.transaction("imagesStore", "readwrite");
+    tx.objectStore("imagesStore").put(image("old_1"));
+    tx.objectStore("imagesStore").put(image("old_2", { size: 1234 }));
+    tx.oncomplete = resolve;
+    tx.onerror = () => reject(tx.error);
+  });
+  legacy.close();
+
+  const listed = await db.getAllValidImages();
+  if (listed.length !== 2) {
+    throw new Error(`Expected both legacy images, got ${listed.length}`);
+  }
+  if (listed.some((record) => "blob" in record)) {
+    throw new Error("Listing images should not load their blobs");
+  }
+  const old1 = listed.find((record) => record.id === "old_1");
+  if (old1.size !== "pixels of old_1".length) {
+    throw new Error(`The migration should record the blob size: ${old1.size}`);
+  }
+  if (listed.find((record) => record.id === "old_2").size !== 1234) {
+    throw new Error("The migration should keep a size already recorded");
+  }
+  const migrated = await db.getImageById("old_1");
+  if (!migrated || (await migrated.blob.text()) !== "pixels of old_1") {
+    throw new Error("A migrated image should keep its blob");
+  }
+
+  // ── round trip through the split stores ────────────────────────────────
+  await db.storeImages([image("new_1")]);
+  const stored = await db.getImageById("new_1");
+  if ((await stored?.blob.text()) !== "pixels of new_1") {
+    throw new Error("A stored image should read back with its blob");
+  }
+  if ((await db.getAllImageMetadata()).some((record) => "blob" in record)) {
+    throw new Error("Image metadata should be stored without the blob");
+  }
+
+  // Deletes remove the record and the blob together
+  await db.deleteImage("old_1");
+  if ((await readKeys("imageBlobsStore")).includes("old_1")) {
+    throw new Error("Deleting an image should delete its blob");
+  }
+  await db.deleteImagesBySource("unsplash");
+  const [records, blobs] = await Promise.all([
+    readKeys("imagesStore"),
+    readKeys("imageBlobsStore"),
+  ]);
+  if (records.length !== 0 || blobs.length !== 0) {
+    throw new Error(
+      `Deleting by source should clear both stores, left ${records} and ${blobs}`,
+    );
+  }
+
+  // ── expiry cleanup ─────────────────────────────────────────────────────
+  const expired = { expiresAt: Date.now() - HOUR };
+  await db.storeImages([
+    image("expired_plain", expired),
+    image("expired_favorite", expired),
+    image("expired_local", { ...expired, source: "local" }),
+    image("fresh"),
+  ]);
+  await db.setImageFavorite("expired_favorite", true);
+  const cleaned = await db.cleanExpiredImages();
+  const kept = (await readKeys("imagesStore")).sort().join();
+  if (cleaned !== 1 || kept !== "expired_favorite,expired_local,fresh") {
+    throw new Error(
+      `Expiry should only delete unprotected images; deleted ${cleaned}, kept ${kept}`,
+    );
+  }
+  if ((await readKeys("imageBlobsStore")).includes("expired_plain")) {
+    throw new Error("Expiry should delete the blob with the record");
+  }
+
+  // ── one cache read shared by a series of stores ──────────────────────
+  await db.clearAllImages();
+  store.settings = {
+    cache: { budget: { mode: "count", maxImages: 2, maxMb: 100 } },
+  };
+  const state = await db.readImageStoreState();
+  const series = [
+    image("series_1", { contentHash: "hash_1" }),
+    image("series_2", { contentHash: "hash_2" }),
+    image("series_copy", { contentHash: "hash_2" }),
+    image("series_3", { contentHash: "hash_3" }),
+  ];
+  let evictedInSeries = 0;
+  let duplicatesInSeries = 0;
+  for (const next of series) {
+    const result = await db.storeImages([next], state);
+    evictedInSeries += result.evicted;
+    duplicatesInSeries += result.duplicates;
+  }
+  const inCache = (await readKeys("imagesStore")).sort().join();
+  if (duplicatesInSeries !== 1 || inCache !== "series_2,series_3") {
+    throw new Error(
+      `Stores sharing a state should dedupe and fit the budget: ${inCache}`,
+    );
+  }
+  if (
+    evictedInSeries !== 1 ||
+    state.records.map((record) => record.id).sort().join() !== inCache
+  ) {
+    throw new Error("The shared state should follow what was stored");
+  }
+  delete store.settings;
+
+  // ── history queries ────────────────────────────────────────────────────
+  await db.clearHistory();
+  const view = (id, imageId, viewedAt, source = "unsplash") => ({
+    id,
+    imageId,
+    viewedAt,
+    source,
+  });
+  await putRecords("historyStore", [
+    view(1, "a", 1000),
+    view(2, "b", 2000, "pexels"),
+    view(3, "a", 3000),
+    view(4, "c", 4000),
+    view(5, "c", 4000),
+  ]);
+
+  if ((await db.getLastSeenTime("a")) !== 3000) {
+    throw new Error("The last-seen time should be the latest view");
+  }
+  if ((await db.getLastSeenTime("never_seen")) !== null) {
+    throw new Error("An image never viewed should have no last-seen time");
+  }
+  if (
+    (await db.getViewCount("a")) !== 2 ||
+    (await db.getViewCount("z")) !== 0
+  ) {
+    throw new Error("View counts should count every view of the image");
+  }
+  const counts = [...(await db.getViewCounts())].sort().join(";");
+  if (counts !== "a,2;b,1;c,2") {
+    throw new Error(`Unexpected view counts: ${counts}`);
+  }
+  const lastViewed = [...(await db.readImageStoreState()).lastViewed]
+    .sort()
+    .join(";");
+  if (lastViewed !== "a,3000;b,2000;c,4000") {
+    throw new Error(`Eviction should see each latest view: ${lastViewed}`);
+  }
+
+  const ids = (entries) => entries.map((entry) => entry.id).join();
+  const inRange = await db.getHistoryByDateRange(1500, 3500);
+  if (ids(inRange) !== "3,2") {
+    throw new Error(`Range should be newest first, got ${ids(inRange)}`);
+  }
+  const pexelsInRange = await db.getHistoryByDateRange(0, 5000, "pexels");
+  if (ids(pexelsInRange) !== "2") {
+    throw new Error(`Range should filter by source: ${ids(pexelsInRange)}`);
+  }
+
+  const pages = [];
+  let cursor;
+  do {
+    const page = await db.getHistoryPage({ limit: 2, cursor });
+    pages.push(ids(page.entries));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && pages.length < 5);
+  if (pages.join(" | ") !== "5,4 | 3,2 | 1") {
+    throw new Error(`Pages should not overlap or skip: ${pages.join(" | ")}`);
+  }
+  // An entry added after the first page does not shift the later ones
+  const first = await db.getHistoryPage({ limit: 3 });
+  await putRecords("historyStore", [view(6, "d", 5000)]);
+  const second = await db.getHistoryPage({
+    limit: 3,
+    cursor: first.nextCursor,
+  });
+  if (ids(first.entries) !== "5,4,3" || ids(second.entries) !== "2,1") {
+    throw new Error(
+      `New entries should not shift pages: ${ids(second.entries)}`,
+    );
+  }
+  const unsplashPage = await db.getHistoryPage({ source: "unsplash" });
+  if (ids(unsplashPage.entries) !== "6,5,4,3,1" || unsplashPage.nextCursor) {
+    throw new Error(
+      `Pages should filter by source: ${ids(unsplashPage.entries)}`,
+    );
+  }
+
+  await db.closeDB();
+  await deleteDatabase();
+
+  rmSync(outFile, { force: true });
+  console.log("✅ database tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ database test failed:", err);
+  process.exit(1);
+});
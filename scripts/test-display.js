@@ -0,0 +1,145 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/display.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/display/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const {
+    getCoverSize,
+    readDisplaySize,
+    shouldReplaceDisplaySize,
+    getImageSizeTarget,
+    getTargetPixels,
+  } = await import(`file://${outFile}`);
+
+  // Cover size fills the screen without upscaling
+  const cases = [
+    // 6000×4000 landscape on a 1920×1080 screen: height 1280 still covers
+    [[6000, 4000, 1920, 1080], "1920×1280"],
+    // Portrait photo on a landscape screen: width must match
+    [[3000, 4500, 1920, 1080], "1920×2880"],
+    // Ultrawide screen: width decides
+    [[6000, 4000, 3440, 1440], "3440×2293"],
+    // Smaller than the screen: left alone
+    [[1280, 720, 1920, 1080], "1280×720"],
+  ];
+  for (const [args, expected] of cases) {
+    const { width, height } = getCoverSize(...args);
+    if (`${width}×${height}` !== expected) {
+      throw new Error(
+        `getCoverSize(${args}) gave ${width}×${height}, expected ${expected}`,
+      );
+    }
+  }
+
+  // Reported sizes are validated and rounded
+  const reported = readDisplaySize(
+    { width: 1440.4, height: 900, devicePixelRatio: 2.0000001 },
+    1000,
+  );
+  if (
+    JSON.stringify(reported) !==
+    '{"width":1440,"height":900,"devicePixelRatio":2,"reportedAt":1000}'
+  ) {
+    throw new Error(`Unexpected reported size: ${JSON.stringify(reported)}`);
+  }
+  const bogus = [
+    null,
+    "1920x1080",
+    { width: 1920, height: 1080 },
+    { width: 0, height: 1080, devicePixelRatio: 1 },
+    { width: 1e6, height: 1080, devicePixelRatio: 1 },
+    { width: 1920, height: 1080, devicePixelRatio: -1 },
+  ];
+  for (const value of bogus) {
+    if (readDisplaySize(value, 0) !== null) {
+      throw new Error(`Should reject ${JSON.stringify(value)}`);
+    }
+  }
+
+  // The largest screen wins; smaller ones only once it has gone stale
+  const laptop = {
+    width: 1440,
+    height: 900,
+    devicePixelRatio: 2,
+    reportedAt: 0,
+  };
+  const monitor = {
+    width: 1920,
+    height: 1080,
+    devicePixelRatio: 1,
+    reportedAt: DAY,
+  };
+  if (!shouldReplaceDisplaySize(undefined, monitor)) {
+    throw new Error("The first report should always be stored");
+  }
+  if (shouldReplaceDisplaySize(laptop, monitor)) {
+    throw new Error("A screen with fewer device pixels should not win");
+  }
+  if (!shouldReplaceDisplaySize(monitor, { ...laptop, reportedAt: DAY })) {
+    throw new Error("A screen with more device pixels should win");
+  }
+  const monthLater = { ...monitor, reportedAt: 31 * DAY };
+  if (!shouldReplaceDisplaySize(laptop, monthLater)) {
+    throw new Error("A stale stored screen should be replaced");
+  }
+  const sameScreen = { ...monitor, reportedAt: DAY + 1 };
+  if (shouldReplaceDisplaySize(monitor, sameScreen)) {
+    throw new Error("Re-reporting the same screen should not rewrite settings");
+  }
+  const daysLater = { ...monitor, reportedAt: 3 * DAY };
+  if (!shouldReplaceDisplaySize(monitor, daysLater)) {
+    throw new Error("Re-reporting the same screen should renew it daily");
+  }
+
+  // Quality tiers cap the pixel density
+  const saver = getImageSizeTarget(laptop, "saver");
+  const balanced = getImageSizeTarget(laptop);
+  const high = getImageSizeTarget({ ...laptop, devicePixelRatio: 4 }, "high");
+  if (saver.dpr !== 1 || balanced.dpr !== 2 || high.dpr !== 3) {
+    throw new Error(
+      `Unexpected densities: ${saver.dpr}, ${balanced.dpr}, ${high.dpr}`,
+    );
+  }
+  if (!(saver.quality < balanced.quality && balanced.quality < high.quality)) {
+    throw new Error("Higher tiers should ask for higher JPEG quality");
+  }
+  const { width, height } = getTargetPixels(balanced);
+  if (width !== 2880 || height !== 1800) {
+    throw new Error(`Expected 2880×1800 device pixels, got ${width}×${height}`);
+  }
+  const fallback = getImageSizeTarget();
+  if (
+    fallback.width !== 1920 ||
+    fallback.height !== 1080 ||
+    fallback.dpr !== 1
+  ) {
+    throw new Error("Without a report, downloads should be sized for 1080p");
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ display sizing tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ display sizing test failed:", err);
+  process.exit(1);
+});
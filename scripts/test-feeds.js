@@ -0,0 +1,221 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+import { createServer } from "http";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const JSON_FEED = {
+  data: {
+    photos: [
+      {
+        uid: "a1",
+        urls: { full: "/img/a1.jpg" },
+        credit: { name: "Ada", link: "https://example.com/ada" },
+      },
+      { uid: "no-image", urls: {} },
+    ],
+  },
+};
+
+const RSS_FEED = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:media="http://search.yahoo.com/mrss/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <item>
+      <guid>rss-1</guid>
+      <link>https://example.com/posts/1</link>
+      <dc:creator><![CDATA[Grace & Co]]></dc:creator>
+      <enclosure url="https://cdn.example.com/1.jpg?a=1&amp;b=2" type="image/jpeg" length="1" />
+    </item>
+    <item>
+      <guid>rss-2</guid>
+      <media:content url="https://cdn.example.com/2.png" medium="image" />
+    </item>
+    <item>
+      <guid>podcast</guid>
+      <enclosure url="https://cdn.example.com/ep.mp3" type="audio/mpeg" />
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM_FEED = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <id>urn:atom:1</id>
+    <link href="https://example.com/atom/1" />
+    <link rel="enclosure" type="image/webp" href="/atom/1.webp" />
+    <author><name>Linus</name><uri>https://example.com/linus</uri></author>
+  </entry>
+</feed>`;
+
+const MAPPING = {
+  items: "$.data.photos",
+  id: "uid",
+  imageUrl: "urls.full",
+  author: "credit.name",
+  authorUrl: "credit.link",
+  downloadUrl: "",
+};
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/feeds.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/api/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+  const feedsFile = resolve(__dirname, "../dist/feedsParser.test.js");
+  await build({
+    entryPoints: [resolve(__dirname, "../src/feeds/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: feedsFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  // Report a fast connection so downloadFile skips its network speed probe
+  Object.defineProperty(global, "navigator", {
+    value: { onLine: true, connection: { effectiveType: "4g" } },
+    configurable: true,
+    writable: true,
+  });
+
+  // Local stand-in for a self-hosted feed server
+  let flakyHits = 0;
+  const server = createServer((req, res) => {
+    if (req.url === "/feed.json") {
+      if (req.headers["x-feed-token"] !== "secret") {
+        res.writeHead(401).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(JSON_FEED));
+    } else if (req.url === "/feed.xml") {
+      res.writeHead(200, { "Content-Type": "application/rss+xml" });
+      res.end(RSS_FEED);
+    } else if (req.url === "/atom.xml") {
+      // Fails once with a retryable status to exercise downloadFile's backoff
+      if (flakyHits++ === 0) {
+        res.writeHead(504).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/atom+xml" });
+      res.end(ATOM_FEED);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise((r) => server.listen(0, "127.0.0.1", r));
+  const base = `http://127.0.0.1:${server.address().port}`;
+
+  const { fetchCustomFeed } = await import(`file://${outFile}`);
+
+  // JSON feed with mapping and auth header
+  const jsonFeed = {
+    enabled: true,
+    url: `${base}/feed.json`,
+    format: "auto",
+    authHeader: { name: "X-Feed-Token", value: "secret" },
+    mapping: MAPPING,
+  };
+  const jsonPhotos = await fetchCustomFeed(jsonFeed);
+  if (jsonPhotos.length !== 1) {
+    throw new Error(`Expected 1 JSON photo, got ${jsonPhotos.length}`);
+  }
+  const [first] = jsonPhotos;
+  if (
+    first.id !== "custom_a1" ||
+    first.source !== "custom" ||
+    first.url !== `${base}/img/a1.jpg` ||
+    first.author !== "Ada" ||
+    first.authorUrl !== "https://example.com/ada" ||
+    first.downloadUrl !== first.url
+  ) {
+    throw new Error(`Unexpected JSON mapping: ${JSON.stringify(first)}`);
+  }
+
+  // Missing auth header is rejected without retrying
+  let unauthorized = false;
+  try {
+    await fetchCustomFeed({ ...jsonFeed, authHeader: undefined });
+  } catch (err) {
+    unauthorized = String(err.message).includes("401");
+  }
+  if (!unauthorized) {
+    throw new Error("Expected feed without auth header to fail with 401");
+  }
+
+  // RSS enclosure + media:content, non-image enclosures ignored
+  const rssPhotos = await fetchCustomFeed({
+    enabled: true,
+    url: `${base}/feed.xml`,
+    format: "auto",
+    mapping: MAPPING,
+  });
+  const rssUrls = rssPhotos.map((p) => p.url);
+  if (
+    rssUrls.length !== 2 ||
+    rssUrls[0] !== "https://cdn.example.com/1.jpg?a=1&b=2" ||
+    rssUrls[1] !== "https://cdn.example.com/2.png"
+  ) {
+    throw new Error(`Unexpected RSS urls: ${rssUrls}`);
+  }
+  if (
+    rssPhotos[0].author !== "Grace & Co" ||
+    rssPhotos[0].downloadUrl !== "https://example.com/posts/1" ||
+    rssPhotos[0].id !== "custom_rss-1"
+  ) {
+    throw new Error(`Unexpected RSS metadata: ${JSON.stringify(rssPhotos[0])}`);
+  }
+
+  // Atom enclosure link, fetched after one retryable failure
+  const atomPhotos = await fetchCustomFeed({
+    enabled: true,
+    url: `${base}/atom.xml`,
+    format: "rss",
+    mapping: MAPPING,
+  });
+  if (flakyHits !== 2) {
+    throw new Error(`Expected one retry for the Atom feed, got ${flakyHits} hits`);
+  }
+  if (
+    atomPhotos.length !== 1 ||
+    atomPhotos[0].url !== `${base}/atom/1.webp` ||
+    atomPhotos[0].author !== "Linus" ||
+    atomPhotos[0].authorUrl !== "https://example.com/linus" ||
+    atomPhotos[0].downloadUrl !== "https://example.com/atom/1"
+  ) {
+    throw new Error(`Unexpected Atom photo: ${JSON.stringify(atomPhotos)}`);
+  }
+
+  // Image sites the extension needs access to besides the feed's own
+  const { getImageOriginPatterns } = await import(`file://${feedsFile}`);
+  const origins = getImageOriginPatterns([
+    ...rssPhotos,
+    { id: "custom_odd", url: "data:image/png;base64,AAAA" },
+    { id: "custom_local", url: `${base}/img/a1.jpg` },
+  ]);
+  if (origins.join() !== `https://cdn.example.com/*,${base}/*`) {
+    throw new Error(`Unexpected image origins: ${origins}`);
+  }
+
+  server.close();
+  rmSync(outFile, { force: true });
+  rmSync(feedsFile, { force: true });
+  console.log("✅ feeds tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ feeds test failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/firstPaint.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/newTabLogic.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const { addFirstPaintSample } = await import(`file://${outFile}`);
+
+  // First-paint samples are rounded and capped per path
+  let timings = {};
+  for (let i = 0; i < 25; i++) {
+    timings = addFirstPaintSample(timings, "snapshot", i + 0.4);
+  }
+  timings = addFirstPaintSample(timings, "full", 420.6);
+  if (timings.snapshot.length !== 20 || timings.snapshot[0] !== 5) {
+    throw new Error("Only the most recent first-paint samples should be kept");
+  }
+  if (timings.full.join(",") !== "421") {
+    throw new Error(`Unexpected full-load samples: ${timings.full}`);
+  }
+
+  // A new path starts its own list and leaves the others as they were
+  const before = { full: [300] };
+  const after = addFirstPaintSample(before, "snapshot", 80);
+  if (before.snapshot || after.full !== before.full) {
+    throw new Error("Adding a sample should not change the other paths");
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ first-paint timing tests passed");
+}
+
+run().catch((err) => {
+  console.error("❌ first-paint timing test failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/keyPool.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/keyPool/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const { readKeyQuota, parseRetryAfter, getHeadroom, assignKeys } =
+    await import(`file://${outFile}`);
+
+  const now = 1_700_000_000_000;
+  const HOUR = 60 * 60 * 1000;
+
+  // Unsplash style headers: no reset, so an hourly window is assumed
+  const unsplash = readKeyQuota(
+    {
+      status: 200,
+      headers: new Headers({
+        "X-Ratelimit-Limit": "50",
+        "X-Ratelimit-Remaining": "12",
+      }),
+    },
+    now,
+  );
+  if (
+    unsplash.remaining !== 12 ||
+    unsplash.limit !== 50 ||
+    unsplash.resetAt !== now + HOUR
+  ) {
+    throw new Error(`Unexpected Unsplash quota: ${JSON.stringify(unsplash)}`);
+  }
+
+  // Pexels style headers: reset given in UNIX seconds
+  const pexels = readKeyQuota(
+    {
+      status: 200,
+      headers: new Headers({
+        "X-Ratelimit-Limit": "20000",
+        "X-Ratelimit-Remaining": "19999",
+        "X-Ratelimit-Reset": "1700003600",
+      }),
+    },
+    now,
+  );
+  if (pexels.resetAt !== 1700003600 * 1000) {
+    throw new Error(`Unexpected Pexels reset: ${pexels.resetAt}`);
+  }
+
+  if (readKeyQuota({ status: 200, headers: new Headers() }, now) !== null) {
+    throw new Error("Responses without rate limit headers should be ignored");
+  }
+
+  // 429 becomes a cooldown
+  const limited = readKeyQuota(
+    { status: 429, headers: new Headers({ "Retry-After": "120" }) },
+    now,
+  );
+  if (
+    limited.cooldownUntil !== now + 120_000 ||
+    getHeadroom(limited, now) !== 0
+  ) {
+    throw new Error(`Unexpected 429 quota: ${JSON.stringify(limited)}`);
+  }
+  if (getHeadroom(limited, now + 121_000) === 0) {
+    throw new Error("Key should be usable once its cooldown has passed");
+  }
+  const dateRetry = parseRetryAfter(new Date(now + 60_000).toUTCString(), now);
+  if (dateRetry !== now + 60_000) {
+    throw new Error(`Unexpected HTTP-date Retry-After: ${dateRetry}`);
+  }
+
+  // Exhausted keys recover when their window resets
+  const exhausted = {
+    remaining: 0,
+    limit: 50,
+    resetAt: now + HOUR,
+    updatedAt: now,
+  };
+  if (
+    getHeadroom(exhausted, now) !== 0 ||
+    getHeadroom(exhausted, now + HOUR) !== 50
+  ) {
+    throw new Error("Unexpected headroom for an exhausted key");
+  }
+
+  // Assignment favours headroom and skips exhausted keys
+  const quotas = {
+    a: { remaining: 3, limit: 50, resetAt: now + HOUR, updatedAt: now },
+    b: { remaining: 1, limit: 50, resetAt: now + HOUR, updatedAt: now },
+    c: exhausted,
+  };
+  const assigned = assignKeys(["a", "b", "c"], quotas, 6, now);
+  if (assigned.join() !== "a,a,b,a") {
+    throw new Error(`Unexpected assignment: ${assigned}`);
+  }
+
+  // Unknown keys share the work evenly
+  const unknown = assignKeys(["x", "y"], {}, 4, now);
+  if (unknown.join() !== "x,y,x,y") {
+    throw new Error(`Unexpected assignment for unknown keys: ${unknown}`);
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ key pool tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ key pool test failed:", err);
+  process.exit(1);
+});
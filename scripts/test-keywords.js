@@ -0,0 +1,77 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/keywords.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/keywords/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const { parseKeywords, buildKeywordCycle, splitBatch } = await import(
+    `file://${outFile}`
+  );
+
+  // Parsing: weights, duplicates and clamping
+  const parsed = parseKeywords(" mountains:3, ocean ,, city : 2, ocean, sky:99 ");
+  const expected = [
+    { keyword: "mountains", weight: 3 },
+    { keyword: "ocean", weight: 2 },
+    { keyword: "city", weight: 2 },
+    { keyword: "sky", weight: 10 },
+  ];
+  if (JSON.stringify(parsed) !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected parse result: ${JSON.stringify(parsed)}`);
+  }
+  if (parseKeywords("  ").length !== 0) {
+    throw new Error("Empty input should give no keywords");
+  }
+
+  // Cycle: each keyword appears weight times, spread out
+  const cycle = buildKeywordCycle(parseKeywords("a:3, b"));
+  if (cycle.join() !== "a,a,b,a") {
+    throw new Error(`Unexpected cycle: ${cycle}`);
+  }
+  if (buildKeywordCycle([]).length !== 0) {
+    throw new Error("No keywords should give an empty cycle");
+  }
+
+  // Batch splitting
+  const split = splitBatch(["a", "b", "a"], 30);
+  if (JSON.stringify(split) !== '[{"keyword":"a","count":20},{"keyword":"b","count":10}]') {
+    throw new Error(`Unexpected split: ${JSON.stringify(split)}`);
+  }
+  // Uneven splits add up to the batch, never more
+  const uneven = splitBatch(["a", "b", "c"], 80);
+  if (uneven.map((request) => request.count).join() !== "27,27,26") {
+    throw new Error(`Unexpected uneven split: ${JSON.stringify(uneven)}`);
+  }
+  const sparse = splitBatch(["a", "b", "c", "a"], 2);
+  if (JSON.stringify(sparse) !== '[{"keyword":"a","count":1},{"keyword":"b","count":1}]') {
+    throw new Error(`Unexpected split of a small batch: ${JSON.stringify(sparse)}`);
+  }
+  const single = splitBatch([null], 30);
+  if (single.length !== 1 || single[0].keyword !== null || single[0].count !== 30) {
+    throw new Error(`Unexpected single split: ${JSON.stringify(single)}`);
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ keyword tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ keyword test failed:", err);
+  process.exit(1);
+});
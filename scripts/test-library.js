@@ -0,0 +1,53 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/library.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/library/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const { isSupportedImageFile } = await import(`file://${outFile}`);
+
+  const bytes = new Uint8Array(1024);
+
+  if (!isSupportedImageFile(new File([bytes], "a.jpg", { type: "image/jpeg" }))) {
+    throw new Error("JPEG files should be accepted");
+  }
+
+  if (isSupportedImageFile(new File([bytes], "a.txt", { type: "text/plain" }))) {
+    throw new Error("Non-image files should be rejected");
+  }
+
+  if (isSupportedImageFile(new File([], "empty.png", { type: "image/png" }))) {
+    throw new Error("Empty files should be rejected");
+  }
+
+  const huge = new File([new Uint8Array(26 * 1024 * 1024)], "huge.png", {
+    type: "image/png",
+  });
+  if (isSupportedImageFile(huge)) {
+    throw new Error("Files over the size limit should be rejected");
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ library tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ library test failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,228 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/locks.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/locks/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  // In-memory chrome.storage.local; without navigator.locks the module falls
+  // back to storage leases
+  const store = {};
+  global.chrome = {
+    storage: {
+      local: {
+        get: (keys, callback) => {
+          const result = {};
+          for (const key of keys === null ? Object.keys(store) : keys) {
+            if (key in store) result[key] = store[key];
+          }
+          setTimeout(() => callback(result), 0);
+        },
+        set: (items, callback) => {
+          Object.assign(store, structuredClone(items));
+          setTimeout(callback, 0);
+        },
+        remove: (key, callback) => {
+          delete store[key];
+          setTimeout(callback, 0);
+        },
+      },
+    },
+  };
+
+  const { withLock, withLockIfAvailable, getLockDiagnostics } = await import(
+    `file://${outFile}`
+  );
+
+  // Waiting callers run one after another (leases are not FIFO)
+  const order = [];
+  const slow = (label, ms) => async () => {
+    order.push(`${label}:start`);
+    await new Promise((r) => setTimeout(r, ms));
+    order.push(`${label}:end`);
+    return label;
+  };
+  const [first, second] = await Promise.all([
+    withLock("test", slow("a", 50)),
+    withLock("test", slow("b", 10)),
+  ]);
+  if (first !== "a" || second !== "b") {
+    throw new Error(`Unexpected results: ${first}, ${second}`);
+  }
+  const overlapped = order.some(
+    (entry, i) => entry.endsWith(":start") && order[i + 1]?.endsWith(":start"),
+  );
+  if (overlapped) {
+    throw new Error(`Lease holders overlapped: ${order.join()}`);
+  }
+  if (store["lockLease:test"]) {
+    throw new Error("Lease should be removed once released");
+  }
+
+  // A live lease held elsewhere makes a non-waiting attempt back off
+  const now = Date.now();
+  store["lockLease:refresh"] = {
+    name: "refresh",
+    holder: "options#aaaa1111",
+    token: "other",
+    mechanism: "storage-lease",
+    acquiredAt: now,
+    expiresAt: now + 60 * 1000,
+  };
+  const busy = await withLockIfAvailable("refresh", async () => "ran");
+  if (busy.acquired || busy.holder !== "options#aaaa1111") {
+    throw new Error(`Expected a busy lock, got ${JSON.stringify(busy)}`);
+  }
+
+  const diagnostics = await getLockDiagnostics();
+  if (
+    diagnostics.mechanism !== "storage-lease" ||
+    diagnostics.held[0]?.holder !== "options#aaaa1111" ||
+    diagnostics.held[0]?.stale
+  ) {
+    throw new Error(`Unexpected diagnostics: ${JSON.stringify(diagnostics)}`);
+  }
+
+  // A waiting attempt times out while the lease is live
+  let timedOut = false;
+  try {
+    await withLock("refresh", async () => "ran", { timeoutMs: 300 });
+  } catch (error) {
+    timedOut = /Timed out waiting for lock "refresh"/.test(error.message);
+  }
+  if (!timedOut) {
+    throw new Error("Expected the wait to time out");
+  }
+
+  // Once the holder stops renewing, the stale lease is taken over
+  store["lockLease:refresh"].expiresAt = Date.now() - 1;
+  const stale = await getLockDiagnostics();
+  if (!stale.held[0]?.stale) {
+    throw new Error("Expired lease should be reported as stale");
+  }
+  const recovered = await withLockIfAvailable("refresh", async () => "ran");
+  if (!recovered.acquired || recovered.result !== "ran") {
+    throw new Error("Expected the stale lease to be recovered");
+  }
+  if (store["lockLease:refresh"]) {
+    throw new Error("Recovered lease should be released afterwards");
+  }
+
+  // Callers in this context queue in memory before touching storage, so a
+  // second one neither races the first nor waits on a storage poll
+  const reads = { count: 0 };
+  const get = global.chrome.storage.local.get;
+  global.chrome.storage.local.get = (keys, callback) => {
+    reads.count++;
+    get(keys, callback);
+  };
+  let releaseFirst;
+  const held = withLock(
+    "queued",
+    () => new Promise((resolve) => (releaseFirst = resolve)),
+  );
+  await new Promise((r) => setTimeout(r, 100));
+  const readsWhileHeld = reads.count;
+  const local = await withLockIfAvailable("queued", async () => "ran");
+  if (local.acquired || reads.count !== readsWhileHeld) {
+    throw new Error("A lock held in this context should be busy to it");
+  }
+  const queued = withLock("queued", async () => "second");
+  await new Promise((r) => setTimeout(r, 100));
+  if (reads.count !== readsWhileHeld) {
+    throw new Error("A queued caller should wait without polling storage");
+  }
+  releaseFirst("first");
+  if ((await held) !== "first" || (await queued) !== "second") {
+    throw new Error("Queued callers should run in turn");
+  }
+  let queueTimedOut = false;
+  let releaseHolder;
+  const holderStarted = new Promise((started) => {
+    withLock("queued", () => {
+      started();
+      return new Promise((resolve) => (releaseHolder = resolve));
+    });
+  });
+  await holderStarted;
+  try {
+    await withLock("queued", async () => "late", { timeoutMs: 50 });
+  } catch (error) {
+    queueTimedOut = /Timed out waiting for lock "queued"/.test(error.message);
+  }
+  releaseHolder();
+  if (!queueTimedOut) {
+    throw new Error("A wait in the local queue should time out too");
+  }
+  global.chrome.storage.local.get = get;
+
+  // Without any lock mechanism, callers are still run one at a time
+  const chromeStub = global.chrome;
+  delete global.chrome;
+  order.length = 0;
+  await Promise.all([
+    withLock("lone", slow("c", 30)),
+    withLock("lone", slow("d", 10)),
+  ]);
+  if (order.join() !== "c:start,c:end,d:start,d:end") {
+    throw new Error(`Lone-context callers overlapped: ${order.join()}`);
+  }
+  global.chrome = chromeStub;
+
+  // With Web Locks available they are used instead, and holders are listed
+  const requests = [];
+  global.navigator = {
+    locks: {
+      request: async (name, options, callback) => {
+        requests.push({ name, ifAvailable: options.ifAvailable });
+        return callback({ name, mode: "exclusive" });
+      },
+      query: async () => ({
+        held: [{ name: "refresh", clientId: "client-1" }],
+        pending: [{ name: "refresh" }],
+      }),
+    },
+  };
+  const viaWebLocks = await withLockIfAvailable("refresh", async () => {
+    if (store["lockLease:refresh"]?.mechanism !== "web-locks") {
+      throw new Error("Holder should be recorded while the Web Lock is held");
+    }
+    return "web";
+  });
+  if (!viaWebLocks.acquired || requests[0]?.ifAvailable !== true) {
+    throw new Error("Expected the Web Locks API to be used");
+  }
+  const webDiagnostics = await getLockDiagnostics();
+  if (
+    webDiagnostics.mechanism !== "web-locks" ||
+    webDiagnostics.held[0]?.holder !== "client-1" ||
+    webDiagnostics.pending.join() !== "refresh"
+  ) {
+    throw new Error(
+      `Unexpected Web Locks diagnostics: ${JSON.stringify(webDiagnostics)}`,
+    );
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ lock tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ lock test failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/migrations.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/db/schema.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const {
+    DB_SCHEMA,
+    MIGRATIONS,
+    toIdbVersion,
+    getSchemaVersion,
+    getPendingMigrations,
+    findSchemaProblems,
+    isValidImageRecord,
+    isValidHistoryEntry,
+  } = await import(`file://${outFile}`);
+
+  // Schema history is complete and in order
+  const versions = MIGRATIONS.map((migration) => migration.version);
+  const latest = versions[versions.length - 1];
+  versions.forEach((version, i) => {
+    if (version !== i + 1) {
+      throw new Error(`Migrations should be numbered 1..N, got ${versions}`);
+    }
+  });
+
+  // Version encoding
+  if (
+    toIdbVersion(latest) !== latest * 100 ||
+    toIdbVersion(latest, 2) !== latest * 100 + 2
+  ) {
+    throw new Error("IndexedDB versions should be schema × 100 + repairs");
+  }
+  if (getSchemaVersion(4) !== 4) {
+    throw new Error("Versions below the stride should be schema versions");
+  }
+  if (getSchemaVersion(toIdbVersion(6, 3)) !== 6) {
+    throw new Error("Repairs should not change the schema version");
+  }
+  if (getSchemaVersion(0) !== 0) {
+    throw new Error("A new database should be at schema version 0");
+  }
+
+  // Pending migrations
+  const fromScratch = getPendingMigrations(0).map((m) => m.version);
+  if (fromScratch.join() !== versions.join()) {
+    throw new Error(`A new database should run every step, got ${fromScratch}`);
+  }
+  const fromV3 = getPendingMigrations(getSchemaVersion(3)).map(
+    (m) => m.version,
+  );
+  if (fromV3[0] !== 4 || fromV3.length !== latest - 3) {
+    throw new Error(`A v3 database should run v4 onward, got ${fromV3}`);
+  }
+  const repaired = getSchemaVersion(toIdbVersion(latest, 1));
+  if (getPendingMigrations(repaired).length !== 0) {
+    throw new Error("A repaired database should have no pending steps");
+  }
+  const shuffled = [
+    { version: 3, description: "c" },
+    { version: 1, description: "a" },
+    { version: 2, description: "b" },
+  ];
+  const ordered = getPendingMigrations(0, shuffled).map((m) => m.description);
+  if (ordered.join("") !== "abc") {
+    throw new Error(`Steps should run oldest first, got ${ordered}`);
+  }
+
+  // Schema problems
+  const complete = Object.fromEntries(
+    Object.entries(DB_SCHEMA).map(([store, { indexes }]) => [
+      store,
+      Object.keys(indexes),
+    ]),
+  );
+  if (findSchemaProblems(complete).length !== 0) {
+    throw new Error("A complete schema should have no problems");
+  }
+  const damaged = {
+    ...complete,
+    historyStore: complete.historyStore.filter((name) => name !== "imageId"),
+  };
+  delete damaged.imageBlobsStore;
+  const problems = findSchemaProblems(damaged);
+  if (
+    problems.length !== 2 ||
+    !problems.includes("historyStore.imageId") ||
+    !problems.includes("imageBlobsStore")
+  ) {
+    throw new Error(`Unexpected schema problems: ${problems}`);
+  }
+
+  // Record validation
+  const image = {
+    id: "img_1",
+    url: "https://example.com/1.jpg",
+    source: "unsplash",
+    timestamp: 1,
+    expiresAt: 2,
+  };
+  if (!isValidImageRecord(image)) {
+    throw new Error("A complete image record should be valid");
+  }
+  if (
+    isValidImageRecord({ ...image, id: undefined }) ||
+    isValidImageRecord({ ...image, expiresAt: "soon" }) ||
+    isValidImageRecord(null)
+  ) {
+    throw new Error("Incomplete image records should be invalid");
+  }
+  if (!isValidHistoryEntry({ id: 1, imageId: "img_1", viewedAt: 5 })) {
+    throw new Error("A complete history entry should be valid");
+  }
+  if (isValidHistoryEntry({ id: 2, viewedAt: 5 })) {
+    throw new Error("A history entry without an image should be invalid");
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ migration tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ migration test failed:", err);
+  process.exit(1);
+});
@@ -33,7 +33,19 @@ async function run() {
     });
   }
 
-  const { maskApiKey, isApiKeyValidFormat } = await import(`file://${outFile}`);
+  const {
+    maskApiKey,
+    isApiKeyValidFormat,
+    parseCollectionIds,
+    getCollectionBreakdown,
+    getCacheUsageRows,
+    formatBytes,
+    describeCacheScan,
+    getNearDuplicateCaption,
+    describeTranscodeSavings,
+    describeDisplaySize,
+    describeFirstPaint,
+  } = await import(`file://${outFile}`);
 
   const maskTests = [
     { in: "abcdef1234567890", out: "abcdef12••••7890" },
@@ -63,6 +75,124 @@ async function run() {
     }
   }
 
+  // Collection inputs
+  const ids = parseCollectionIds(" 1065976, nature  wallpapers,bad/id, nature");
+  if (ids.join() !== "1065976,nature,wallpapers") {
+    throw new Error(`parseCollectionIds returned ${ids}`);
+  }
+
+  // Collection breakdown
+  const breakdown = getCollectionBreakdown([
+    { source: "unsplash", collection: "topic:nature" },
+    { source: "pexels", collection: "collection:abc123" },
+    { source: "unsplash", collection: "topic:nature" },
+    { source: "unsplash" },
+  ]);
+  const expectedBreakdown = [
+    { label: "Unsplash topic nature", count: 2 },
+    { label: "Pexels collection abc123", count: 1 },
+  ];
+  if (JSON.stringify(breakdown) !== JSON.stringify(expectedBreakdown)) {
+    throw new Error(
+      `getCollectionBreakdown returned ${JSON.stringify(breakdown)}`,
+    );
+  }
+
+  if (formatBytes(512) !== "512 B" || formatBytes(1536 * 1024) !== "1.5 MB") {
+    throw new Error("formatBytes produced an unexpected format");
+  }
+
+  const usageRows = getCacheUsageRows(
+    {
+      sea: { count: 1, bytes: 1024 },
+      none: { count: 3, bytes: 4096 },
+    },
+    "keyword",
+  );
+  const expectedUsageRows = [
+    { label: "No keyword", count: 3, size: "4.0 KB" },
+    { label: "sea", count: 1, size: "1.0 KB" },
+  ];
+  if (JSON.stringify(usageRows) !== JSON.stringify(expectedUsageRows)) {
+    throw new Error(`getCacheUsageRows returned ${JSON.stringify(usageRows)}`);
+  }
+
+  const scan = {
+    finishedAt: 1,
+    scanned: 12,
+    rehashed: 3,
+    hashMismatches: 0,
+    fingerprinted: 0,
+    corruptDeleted: 1,
+    corruptFlagged: 2,
+  };
+  const scanSummary = describeCacheScan(scan);
+  const expectedSummary =
+    "Checked 12 image(s): 3 hashed, 1 corrupt image(s) deleted, 2 protected image(s) unreadable.";
+  if (scanSummary !== expectedSummary) {
+    throw new Error(`describeCacheScan returned "${scanSummary}"`);
+  }
+  const cleanScan = describeCacheScan({
+    ...scan,
+    rehashed: 0,
+    corruptDeleted: 0,
+    corruptFlagged: 0,
+  });
+  if (!cleanScan.includes("everything is intact")) {
+    throw new Error(`describeCacheScan returned "${cleanScan}"`);
+  }
+
+  const display = describeDisplaySize({
+    width: 2560,
+    height: 1440,
+    devicePixelRatio: 2,
+    reportedAt: Date.now() - 3 * 60 * 60 * 1000,
+  });
+  if (display !== "Sized for 2560×1440 at 2× (reported 3 hours ago)") {
+    throw new Error(`describeDisplaySize returned "${display}"`);
+  }
+  if (!describeDisplaySize(undefined).startsWith("Sized for 1920×1080")) {
+    throw new Error("Without a report the default screen should be shown");
+  }
+
+  const firstPaint = describeFirstPaint({
+    snapshot: [50, 30, 40],
+    full: [400, 440],
+  });
+  if (
+    firstPaint !==
+    "Wallpaper shown in 40 ms from a snapshot, 420 ms without a snapshot " +
+      "(median of recent new tabs)"
+  ) {
+    throw new Error(`Unexpected first-paint description: ${firstPaint}`);
+  }
+  if (describeFirstPaint({}) !== "") {
+    throw new Error("Without timings nothing should be shown");
+  }
+
+  const MB = 1024 * 1024;
+  const savings = describeTranscodeSavings({
+    total: { count: 10, bytes: 100 * MB },
+    savedBytes: 300 * MB,
+  });
+  if (savings !== "Transcoding saved 300 MB (75% smaller)") {
+    throw new Error(`describeTranscodeSavings returned "${savings}"`);
+  }
+  if (
+    describeTranscodeSavings({ total: { count: 1, bytes: MB }, savedBytes: 0 })
+  ) {
+    throw new Error("Nothing should be shown when no image was transcoded");
+  }
+
+  const caption = getNearDuplicateCaption({
+    source: "unsplash",
+    author: "Jane Doe",
+    size: 1536 * 1024,
+  });
+  if (caption !== "Unsplash · Jane Doe · 1.5 MB") {
+    throw new Error(`getNearDuplicateCaption returned "${caption}"`);
+  }
+
   rmSync(outFile, { force: true });
 
   console.log("✅ optionsLogic tests passed");
@@ -0,0 +1,132 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/perceptualHash.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/perceptualHash/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const {
+    toLuminance,
+    computeDHash,
+    hammingDistance,
+    findNearDuplicate,
+    groupNearDuplicates,
+    computePerceptualHash,
+    isImageDecodeError,
+  } = await import(`file://${outFile}`);
+
+  // A 9×8 "photo": a diagonal gradient with a bright blob
+  const scene = Array.from({ length: 72 }, (_, i) => {
+    const x = i % 9;
+    const y = Math.floor(i / 9);
+    const blob = Math.abs(x - 5) + Math.abs(y - 3) < 3 ? 120 : 0;
+    return ((x * 37 + y * 11) % 200) + blob;
+  });
+  const hash = computeDHash(scene);
+  if (!/^[0-9a-f]{16}$/.test(hash)) {
+    throw new Error(`dHash should be 16 hex digits, got ${hash}`);
+  }
+
+  // Brightness shifts and slight recompression noise barely move the hash
+  const brighter = scene.map((value) => value * 1.1 + 8);
+  const noisy = scene.map((value, i) => value + ((i * 7) % 3) - 1);
+  if (computeDHash(brighter) !== hash) {
+    throw new Error("A uniformly brighter copy should hash the same");
+  }
+  if (hammingDistance(computeDHash(noisy), hash) > 8) {
+    throw new Error("A slightly noisy copy should stay within the threshold");
+  }
+
+  // A different picture lands far away
+  const other = scene.map((_, i) => ((i * 53) % 97) * 2);
+  const otherHash = computeDHash(other);
+  if (hammingDistance(otherHash, hash) <= 8) {
+    throw new Error("A different image should not count as a near-duplicate");
+  }
+
+  if (
+    hammingDistance("0000000000000000", "000000000000000f") !== 4 ||
+    hammingDistance("ffffffffffffffff", "0000000000000000") !== 64 ||
+    hammingDistance(hash, hash) !== 0
+  ) {
+    throw new Error("hammingDistance counted bits incorrectly");
+  }
+
+  const rgba = [255, 255, 255, 255, 0, 0, 0, 255];
+  const luminance = toLuminance(rgba);
+  if (luminance.length !== 2 || Math.round(luminance[0]) !== 255) {
+    throw new Error(`Unexpected luminance: ${luminance}`);
+  }
+
+  let threw = false;
+  try {
+    computeDHash([1, 2, 3]);
+  } catch {
+    threw = true;
+  }
+  if (!threw) throw new Error("dHash should reject the wrong pixel count");
+
+  // Matching against stored images
+  const lastNibble = parseInt(hash.slice(-1), 16);
+  const oneBitOff = hash.slice(0, -1) + (lastNibble ^ 1).toString(16);
+  const stored = [
+    { id: "different", perceptualHash: otherHash },
+    { id: "same-photo", perceptualHash: oneBitOff },
+  ];
+  if (findNearDuplicate(hash, stored)?.id !== "same-photo") {
+    throw new Error("A hash one bit away should be found as a near-duplicate");
+  }
+  if (findNearDuplicate(hash, stored, 0) !== undefined) {
+    throw new Error("A zero threshold should only match identical hashes");
+  }
+
+  // Grouping is transitive and leaves unique images out
+  const groups = groupNearDuplicates(
+    [
+      { id: "a", perceptualHash: "0000000000000000" },
+      { id: "unique", perceptualHash: "ffffffffffffffff" },
+      { id: "b", perceptualHash: "00000000000000ff" },
+      { id: "c", perceptualHash: "000000000000ffff" },
+    ],
+    8,
+  );
+  if (JSON.stringify(groups) !== JSON.stringify([["a", "b", "c"]])) {
+    throw new Error(`Unexpected groups: ${JSON.stringify(groups)}`);
+  }
+
+  // Node cannot decode images at all, which says nothing about the blob
+  const unavailable = await computePerceptualHash(new Blob(["x"])).then(
+    () => null,
+    (error) => error,
+  );
+  if (!unavailable || isImageDecodeError(unavailable)) {
+    throw new Error("A missing decoder should not look like a corrupt image");
+  }
+  const decodeError = Object.assign(new Error(), { name: "ImageDecodeError" });
+  if (!isImageDecodeError(decodeError)) {
+    throw new Error("Decode errors should be recognised by name");
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ perceptual hash tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ perceptual hash test failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const BASE83_DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+function encode83(value, length) {
+  let result = "";
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / 83 ** (length - i)) % 83;
+    result += BASE83_DIGITS[digit];
+  }
+  return result;
+}
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/placeholder.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/placeholder/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const {
+    isValidBlurHash,
+    decodeBlurHash,
+    getBlurHashDecodeSize,
+    readHexColor,
+    averageColor,
+  } = await import(`file://${outFile}`);
+
+  // The example hash from the BlurHash documentation: 4×3 components
+  const example = "LEHV6nWB2yk8pyo0adR*.7kCMdnj";
+  if (!isValidBlurHash(example)) {
+    throw new Error("The documented example hash should be valid");
+  }
+  const invalid = [
+    null,
+    42,
+    "",
+    "LEHV6n",
+    `${example}x`,
+    "LEHV6nWB2yk8pyo0adR*.7kCMdn ",
+  ];
+  for (const value of invalid) {
+    if (isValidBlurHash(value)) {
+      throw new Error(`Should reject ${JSON.stringify(value)}`);
+    }
+  }
+
+  const pixels = decodeBlurHash(example, 32, 24);
+  if (pixels.length !== 32 * 24 * 4) {
+    throw new Error(`Expected 32×24 RGBA pixels, got ${pixels.length} bytes`);
+  }
+  if (pixels[3] !== 255 || pixels[pixels.length - 1] !== 255) {
+    throw new Error("Decoded pixels should be opaque");
+  }
+  if (pixels[0] === pixels[pixels.length - 4]) {
+    throw new Error("A hash with detail should not decode to a flat colour");
+  }
+
+  // A single component decodes to its colour everywhere
+  const flat = decodeBlurHash(`00${encode83(0x3366cc, 4)}`, 4, 4);
+  for (let i = 0; i < flat.length; i += 4) {
+    if (flat[i] !== 0x33 || flat[i + 1] !== 0x66 || flat[i + 2] !== 0xcc) {
+      throw new Error(`Flat hash decoded to ${flat.slice(i, i + 3)}`);
+    }
+  }
+
+  let threw = false;
+  try {
+    decodeBlurHash("not a hash", 4, 4);
+  } catch {
+    threw = true;
+  }
+  if (!threw) throw new Error("Decoding a malformed hash should throw");
+
+  // Source colours are normalised, and anything else dropped
+  if (readHexColor("#978E82") !== "#978e82") {
+    throw new Error("Colours should be lowercased");
+  }
+  for (const value of ["978e82", "#fff", "#12345g", null, undefined]) {
+    if (readHexColor(value) !== undefined) {
+      throw new Error(`Should reject colour ${JSON.stringify(value)}`);
+    }
+  }
+
+  // Decoded in the image's proportions, so covering the screen crops it
+  // like the image rather than stretching it
+  const size = (ratio) => {
+    const { width, height } = getBlurHashDecodeSize(ratio, 32);
+    return `${width}x${height}`;
+  };
+  if (size(16 / 9) !== "32x18" || size(2 / 3) !== "21x32") {
+    throw new Error(`Unexpected decode sizes ${size(16 / 9)}, ${size(2 / 3)}`);
+  }
+  if (size(undefined) !== "32x32" || size(0) !== "32x32") {
+    throw new Error("Without a known shape, a BlurHash should decode square");
+  }
+  if (size(1000) !== "32x1") {
+    throw new Error(`A panorama should keep one row: ${size(1000)}`);
+  }
+
+  // Average colour ignores transparent pixels
+  const rgba = [
+    [255, 0, 0, 255],
+    [0, 0, 255, 255],
+    [0, 255, 0, 0],
+  ].flat();
+  if (averageColor(rgba) !== "#800080") {
+    throw new Error(`Unexpected average colour ${averageColor(rgba)}`);
+  }
+  if (averageColor([0, 0, 0, 0]) !== undefined) {
+    throw new Error("A transparent image has no average colour");
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ placeholder tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ placeholder test failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,231 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/providers.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/providers/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const { getProviders, getProvider } = await import(`file://${outFile}`);
+
+  const ids = getProviders().map((p) => p.id);
+  if (!ids.includes("unsplash") || !ids.includes("pexels")) {
+    throw new Error(`Expected unsplash and pexels providers, got ${ids}`);
+  }
+
+  if (getProvider("other") !== undefined) {
+    throw new Error("Fallback source should not resolve to a provider");
+  }
+
+  // Unsplash normalisation
+  const unsplashPhoto = {
+    id: "abc",
+    width: 6000,
+    height: 4000,
+    urls: {
+      raw: "https://images.unsplash.com/abc?ixid=xyz",
+      regular: "https://images.unsplash.com/abc",
+    },
+    links: { download: "https://unsplash.com/photos/abc/download" },
+    user: { name: "Jane", links: { html: "https://unsplash.com/@jane" } },
+    blur_hash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj",
+    color: "#C0C0C0",
+  };
+  const unsplash = getProvider("unsplash").normalizePhoto(unsplashPhoto);
+  if (
+    unsplash.id !== "unsplash_abc" ||
+    unsplash.source !== "unsplash" ||
+    unsplash.url !== "https://images.unsplash.com/abc" ||
+    unsplash.author !== "Jane" ||
+    unsplash.blurHash !== unsplashPhoto.blur_hash ||
+    unsplash.aspectRatio !== 1.5 ||
+    unsplash.color !== "#c0c0c0"
+  ) {
+    throw new Error(`Unexpected unsplash metadata: ${JSON.stringify(unsplash)}`);
+  }
+
+  // Pexels normalisation
+  const pexelsPhoto = {
+    id: 42,
+    url: "https://www.pexels.com/photo/42/",
+    width: 6000,
+    height: 4000,
+    photographer: "John",
+    photographer_url: "https://www.pexels.com/@john",
+    src: {
+      original: "https://images.pexels.com/42.jpeg",
+      large: "https://images.pexels.com/42.jpeg?h=650&w=940",
+      large2x: "https://images.pexels.com/42.jpeg?dpr=2&h=650&w=940",
+    },
+  };
+  const pexels = getProvider("pexels").normalizePhoto({
+    ...pexelsPhoto,
+    avg_color: "#978E82",
+  });
+  if (
+    pexels.id !== "pexels_42" ||
+    pexels.source !== "pexels" ||
+    pexels.url !== pexelsPhoto.src.large2x ||
+    pexels.authorUrl !== "https://www.pexels.com/@john" ||
+    pexels.color !== "#978e82"
+  ) {
+    throw new Error(`Unexpected pexels metadata: ${JSON.stringify(pexels)}`);
+  }
+
+  // Missing or malformed placeholders are left out
+  const plain = getProvider("unsplash").normalizePhoto({
+    ...unsplashPhoto,
+    blur_hash: null,
+    color: "silver",
+  });
+  if ("blurHash" in plain || "color" in plain) {
+    throw new Error(`Unexpected placeholders: ${JSON.stringify(plain)}`);
+  }
+
+  // Screen-aware sizes: Unsplash resizes the original to just cover the
+  // screen, keeping the photo's aspect ratio
+  const retina = { width: 1440, height: 900, dpr: 2, quality: 75 };
+  const sized = new URL(
+    getProvider("unsplash").normalizePhoto(unsplashPhoto, {
+      ...retina,
+      tier: "balanced",
+    }).url,
+  );
+  const params = Object.fromEntries(sized.searchParams);
+  if (
+    params.ixid !== "xyz" ||
+    params.w !== "1440" ||
+    params.h !== "960" ||
+    params.dpr !== "2" ||
+    params.q !== "75" ||
+    params.fit !== "max"
+  ) {
+    throw new Error(`Unexpected sized unsplash URL: ${sized}`);
+  }
+
+  // Pexels picks the smallest fixed variant that covers the screen, and has
+  // the original resized for screens larger than every variant
+  const pexelsUrl = (target) =>
+    getProvider("pexels").normalizePhoto(pexelsPhoto, target).url;
+  const small = { width: 800, height: 600, dpr: 1, quality: 60, tier: "saver" };
+  if (pexelsUrl(small) !== pexelsPhoto.src.large) {
+    throw new Error(`Expected the large variant, got ${pexelsUrl(small)}`);
+  }
+  const hd = { ...small, width: 1600, height: 900, tier: "balanced" };
+  if (pexelsUrl(hd) !== pexelsPhoto.src.large2x) {
+    throw new Error(`Expected the large2x variant, got ${pexelsUrl(hd)}`);
+  }
+  const resized = new URL(pexelsUrl({ ...retina, tier: "balanced" }));
+  if (
+    resized.pathname !== "/42.jpeg" ||
+    resized.searchParams.get("auto") !== "compress" ||
+    resized.searchParams.get("w") !== "1440" ||
+    resized.searchParams.get("dpr") !== "2"
+  ) {
+    throw new Error(`Unexpected resized pexels URL: ${resized}`);
+  }
+  const fullQuality = new URL(pexelsUrl({ ...retina, tier: "high" }));
+  if (fullQuality.searchParams.has("auto")) {
+    throw new Error("The high tier should not ask Pexels to compress");
+  }
+  const tinyPhoto = { ...pexelsPhoto, width: 1200, height: 800 };
+  if (
+    getProvider("pexels").normalizePhoto(tinyPhoto, {
+      ...retina,
+      tier: "balanced",
+    }).url !== pexelsPhoto.src.large2x
+  ) {
+    throw new Error("A variant that keeps every pixel should be enough");
+  }
+
+  // Key format checks
+  if (!getProvider("unsplash").isKeyFormatValid("abc_DEF-123456")) {
+    throw new Error("Expected unsplash key format to be accepted");
+  }
+  if (getProvider("pexels").isKeyFormatValid("has-dash-123456")) {
+    throw new Error("Expected pexels key with dashes to be rejected");
+  }
+
+  // Collections and topics
+  const requested = [];
+  global.fetch = async (url) => {
+    requested.push(url);
+    const body = url.includes("/v1/collections/")
+      ? {
+          media: url.includes("page=1")
+            ? [
+                { type: "Photo", id: 7 },
+                { type: "Video", id: 8 },
+              ]
+            : [],
+        }
+      : [{ id: "abc" }];
+    return new Response(JSON.stringify(body), { status: 200 });
+  };
+
+  await getProvider("unsplash").fetchCollection(
+    "key",
+    { kind: "collection", id: "1065976" },
+    5,
+  );
+  if (
+    !requested[0].includes("/photos/random?count=5") ||
+    !requested[0].includes("collections=1065976")
+  ) {
+    throw new Error(`Unexpected unsplash collection URL: ${requested[0]}`);
+  }
+
+  requested.length = 0;
+  await getProvider("unsplash").fetchCollection("key", {
+    kind: "topic",
+    id: "wallpapers",
+  });
+  if (
+    !requested[0].startsWith(
+      "https://api.unsplash.com/topics/wallpapers/photos?",
+    )
+  ) {
+    throw new Error(`Unexpected unsplash topic URL: ${requested[0]}`);
+  }
+
+  requested.length = 0;
+  const collectionPhotos = await getProvider("pexels").fetchCollection("key", {
+    kind: "collection",
+    id: "abc123",
+  });
+  if (collectionPhotos.length !== 1 || collectionPhotos[0].id !== 7) {
+    throw new Error(
+      `Expected only the photo from the pexels collection, got ${JSON.stringify(collectionPhotos)}`,
+    );
+  }
+  if (!requested.at(-1).endsWith("page=1")) {
+    throw new Error("Expected an empty random page to fall back to page 1");
+  }
+
+  if (getProvider("pexels").collectionKinds.includes("topic")) {
+    throw new Error("Pexels has no topics");
+  }
+
+  rmSync(outFile, { force: true });
+
+  console.log("✅ providers tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ providers test failed:", err);
+  process.exit(1);
+});
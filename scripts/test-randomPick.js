@@ -0,0 +1,294 @@
+import "fake-indexeddb/auto";
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DB_NAME = "randomWallpaperExtension";
+const HOUR = 60 * 60 * 1000;
+const PICKS = 700;
+// A large permanent cache and the history it builds up
+const LARGE_IMAGES = 5000;
+const LARGE_HISTORY = 3000;
+const LARGE_PICKS = 100;
+
+/**
+ * Counts every read request by store, index and method, e.g.
+ * `imagesStore.expiresAt.getAllKeys`
+ */
+function countRequests() {
+  const counts = new Map();
+  const wrap = (proto, methods, label) => {
+    for (const method of methods) {
+      const original = proto[method];
+      proto[method] = function (...args) {
+        const key = `${label(this)}.${method}`;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+        return original.apply(this, args);
+      };
+    }
+  };
+  const methods = [
+    "get",
+    "getKey",
+    "getAll",
+    "getAllKeys",
+    "count",
+    "openCursor",
+    "openKeyCursor",
+  ];
+  wrap(IDBObjectStore.prototype, methods, (store) => store.name);
+  wrap(
+    IDBIndex.prototype,
+    methods,
+    (index) => `${index.objectStore.name}.${index.name}`,
+  );
+  return counts;
+}
+
+/**
+ * Requests per pick by kind, e.g. `imagesStore.get x1`, without the
+ * database's own record check
+ */
+function readsPerPick(counts, picks) {
+  return [...counts]
+    .filter(([key]) => key !== "metadataStore.get")
+    .map(([key, count]) => `${key} x${count / picks}`)
+    .sort()
+    .join(", ");
+}
+
+function deleteDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Creates the current schema and its records without the module, so opening
+ * it runs no migration and the daily record check is not due
+ */
+function seedDatabase(schema, version, records) {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, { keyPath, autoIncrement, indexes }] of Object.entries(
+        schema,
+      )) {
+        const store = db.createObjectStore(name, {
+          keyPath,
+          autoIncrement: !!autoIncrement,
+        });
+        for (const [index, { keyPath: path, unique }] of Object.entries(
+          indexes,
+        )) {
+          store.createIndex(index, path, { unique });
+        }
+      }
+      for (const [name, values] of Object.entries(records)) {
+        const store = request.transaction.objectStore(name);
+        for (const value of values) store.put(value);
+      }
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function bundle(entry, name) {
+  const outFile = resolve(__dirname, `../dist/${name}.test.js`);
+  await build({
+    entryPoints: [resolve(__dirname, entry)],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+  return outFile;
+}
+
+async function run() {
+  const utilsFile = await bundle("../src/utils/index.ts", "randomPick");
+  const schemaFile = await bundle("../src/db/schema.ts", "randomPickSchema");
+  const dbFile = await bundle("../src/db/index.ts", "randomPickDb");
+
+  const { pickRandomId } = await import(`file://${utilsFile}`);
+
+  // Edge cases
+  if (pickRandomId([]) !== null) {
+    throw new Error("An empty list should yield no id");
+  }
+  for (let i = 0; i < 50; i++) {
+    if (pickRandomId(["a", "b", "c"], new Set(["a", "b"])) !== "c") {
+      throw new Error("Avoided ids should be skipped while others remain");
+    }
+  }
+  if (!["a", "b"].includes(pickRandomId(["a", "b"], new Set(["a", "b"])))) {
+    throw new Error("Should fall back to every id when all are avoided");
+  }
+
+  // Uniformity
+  const ids = Array.from({ length: 20 }, (_, i) => `id_${i}`);
+  const draws = 20000;
+  const expected = draws / ids.length;
+  const counts = new Map(ids.map((id) => [id, 0]));
+  for (let i = 0; i < draws; i++) {
+    const id = pickRandomId(ids);
+    counts.set(id, counts.get(id) + 1);
+  }
+  for (const [id, count] of counts) {
+    if (Math.abs(count - expected) > expected * 0.25) {
+      throw new Error(`Selection is not uniform: ${id} drawn ${count} times`);
+    }
+  }
+
+  // ── getRandomImage against a real database ─────────────────────────────
+  const { DB_SCHEMA, MIGRATIONS, toIdbVersion } = await import(
+    `file://${schemaFile}`
+  );
+  const now = Date.now();
+  const image = (id, expiresAt) => ({
+    id,
+    url: `https://example.com/${id}.jpg`,
+    source: "unsplash",
+    timestamp: now,
+    expiresAt,
+    size: 4,
+  });
+  const valid = Array.from({ length: 10 }, (_, i) => `valid_${i}`);
+  const expired = ["expired_0", "expired_1"];
+  const recent = ["valid_0", "valid_1", "valid_2"];
+  const all = [
+    ...valid.map((id) => image(id, now + 24 * HOUR)),
+    ...expired.map((id) => image(id, now - HOUR)),
+  ];
+  const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+  await seedDatabase(DB_SCHEMA, toIdbVersion(latest), {
+    imagesStore: all,
+    imageBlobsStore: all.map(({ id }) => ({ id, blob: new Blob([id]) })),
+    historyStore: [
+      ...recent.map((imageId) => ({
+        imageId,
+        viewedAt: now - 60 * 1000,
+        source: "unsplash",
+      })),
+      { imageId: "valid_3", viewedAt: now - 2 * HOUR, source: "unsplash" },
+    ],
+    metadataStore: [{ key: "lastIntegrityCheck", value: now }],
+  });
+
+  const db = await import(`file://${dbFile}`);
+  await db.initDB();
+  const requests = countRequests();
+
+  const picked = new Map();
+  for (let i = 0; i < PICKS; i++) {
+    const chosen = await db.getRandomImage();
+    if (!chosen?.blob || (await chosen.blob.text()) !== chosen.id) {
+      throw new Error("getRandomImage should return the image with its blob");
+    }
+    picked.set(chosen.id, (picked.get(chosen.id) ?? 0) + 1);
+  }
+
+  // Only valid images not viewed in the last ~18 minutes are picked, evenly
+  const eligible = valid.filter((id) => !recent.includes(id));
+  const unexpected = [...picked.keys()].filter((id) => !eligible.includes(id));
+  if (unexpected.length > 0) {
+    throw new Error(`Expired or recently viewed images picked: ${unexpected}`);
+  }
+  const perImage = PICKS / eligible.length;
+  for (const id of eligible) {
+    const count = picked.get(id) ?? 0;
+    if (Math.abs(count - perImage) > perImage * 0.4) {
+      throw new Error(`Selection is not uniform: ${id} picked ${count} times`);
+    }
+  }
+
+  // Each pick reads the valid keys, the recent history and one image; no
+  // cursor walks the images store and no other record is loaded. Opening the
+  // database reads when the record check last ran, which is not a pick's.
+  const smallReads = readsPerPick(requests, PICKS);
+  const expectedReads = [
+    "historyStore.viewedAt.getAll x1",
+    "imageBlobsStore.get x1",
+    "imagesStore.expiresAt.getAllKeys x1",
+    "imagesStore.get x1",
+  ].join(", ");
+  if (smallReads !== expectedReads) {
+    throw new Error(`Unexpected reads per pick: ${smallReads}`);
+  }
+
+  // Every valid image viewed recently: any valid one rather than none
+  for (const id of eligible) {
+    await db.addToHistory(id, "unsplash", 100);
+  }
+  const fallback = await db.getRandomImage();
+  if (!valid.includes(fallback?.id)) {
+    throw new Error("With every image viewed recently, any valid one will do");
+  }
+
+  await db.clearAllImages();
+  if ((await db.getRandomImage()) !== null) {
+    throw new Error("An empty cache should yield no image");
+  }
+
+  // ── the same reads at a realistic cache size ───────────────────────────
+  await db.closeDB();
+  await deleteDatabase();
+  const large = Array.from({ length: LARGE_IMAGES }, (_, i) =>
+    image(`large_${i}`, now + 24 * HOUR),
+  );
+  await seedDatabase(DB_SCHEMA, toIdbVersion(latest), {
+    imagesStore: large,
+    imageBlobsStore: large.map(({ id }) => ({ id, blob: new Blob([id]) })),
+    historyStore: Array.from({ length: LARGE_HISTORY }, (_, i) => ({
+      imageId: `large_${i}`,
+      viewedAt: now - 2 * HOUR - i * 60 * 1000,
+      source: "unsplash",
+    })),
+    metadataStore: [{ key: "lastIntegrityCheck", value: now }],
+  });
+  await db.initDB();
+  requests.clear();
+
+  const started = performance.now();
+  for (let i = 0; i < LARGE_PICKS; i++) {
+    const chosen = await db.getRandomImage();
+    if (!chosen?.id.startsWith("large_")) {
+      throw new Error("getRandomImage should pick from the large cache");
+    }
+  }
+  const largeReads = readsPerPick(requests, LARGE_PICKS);
+  if (largeReads !== smallReads) {
+    throw new Error(
+      `Reads per pick should not grow with the cache: ${largeReads} with ${LARGE_IMAGES} images, ${smallReads} with ${all.length}`,
+    );
+  }
+  const msPerPick = (performance.now() - started) / LARGE_PICKS;
+  console.log(
+    `✅ ${LARGE_IMAGES} images: same reads per pick as ${all.length}, ${msPerPick.toFixed(1)} ms per pick`,
+  );
+
+  await db.closeDB();
+  for (const file of [utilsFile, schemaFile, dbFile]) {
+    rmSync(file, { force: true });
+  }
+  console.log("✅ random selection tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ random selection test failed:", err);
+  process.exit(1);
+});
@@ -36,7 +36,25 @@ async function run() {
     target: "es2020",
   });
 
-  const { refreshImages, backgroundState } = await import(`file://${outFile}`);
+  const {
+    refreshImages,
+    refreshDailyImages,
+    drainRetryQueue,
+    scanCacheIntegrity,
+    backfillThumbnails,
+    backgroundState,
+  } = await import(
+    `file://${outFile}`
+  );
+
+  const storeResult = (storedIds, extra = {}) => ({
+    storedIds,
+    duplicates: 0,
+    nearDuplicates: 0,
+    skippedIds: [],
+    evicted: 0,
+    ...extra,
+  });
 
   const deps = {
     getSettings: async () => ({
@@ -53,10 +71,14 @@ async function run() {
     }),
     cleanExpiredImages: async () => 0,
     areApiKeysConfigured: async () => true,
-    fetchAllImages: async () => [],
+    fetchAllPhotos: async () => [],
+    getRefreshJob: async () => null,
+    saveRefreshJob: async () => {},
+    deleteRefreshJob: async () => {},
     getLastFetchTime: async () => null,
     setLastFetchTime: async () => {},
-    storeImages: async () => {},
+    storeImages: async () => storeResult([]),
+    readImageStoreState: async () => ({}),
     getValidImageCount: async () => 0,
     getFallbackImages: async () => [],
     clearFallbackImages: async () => 0,
@@ -73,9 +95,408 @@ async function run() {
 
   if (!threw) {
     throw new Error(
-      "Expected refreshImages to throw when fetchAllImages returns []",
+      "Expected refreshImages to throw when fetchAllPhotos returns []",
+    );
+  }
+
+  // An interrupted refresh job resumes from its cursor, storing each image
+  // as it arrives and queueing the ones that fail again; "f" did not fit in
+  // the earlier run and still counts as skipped
+  const photo = (id) => ({ id, url: `https://example.com/${id}` });
+  const savedJobs = [];
+  const storedIds = [];
+  let queued = [];
+  let jobDeleted = false;
+  let lastFetchSet = null;
+  const storeState = { records: [] };
+  let storeStateReads = 0;
+  const statesPassed = new Set();
+  const retryAt = Date.now() + 12 * 60 * 60 * 1000;
+  const report = await refreshImages({
+    ...deps,
+    getRefreshJob: async () => ({
+      id: "current",
+      createdAt: Date.now() - 60 * 1000,
+      updatedAt: Date.now(),
+      expiresAt: Date.now() + 60 * 60 * 1000,
+      permanent: false,
+      items: [
+        { photo: photo("a"), status: "done" },
+        { photo: photo("b"), status: "pending" },
+        { photo: photo("c"), status: "pending" },
+        { photo: photo("d"), status: "pending" },
+        { photo: photo("e"), status: "pending" },
+        {
+          photo: photo("f"),
+          status: "failed",
+          error: "Not enough storage space",
+          skippedForSpace: true,
+        },
+      ],
+      cursor: 1,
+    }),
+    fetchAllPhotos: async () => {
+      throw new Error("A resumed job should not fetch a new photo list");
+    },
+    scheduleDownload: async (p, expiresAt, timestamp) => {
+      if (p.id === "c") {
+        throw Object.assign(new Error("Network timeout"), { retryAt });
+      }
+      if (p.id === "e") throw new Error("HTTP 404 Not Found");
+      return { ...p, expiresAt, timestamp };
+    },
+    // A retry cannot bring back a missing image, so "e" is not queued
+    isPermanentDownloadError: (error) => error.message.startsWith("HTTP 404"),
+    // "c" is queued for when the server asked to be tried again
+    getDownloadRetryAt: (error) => error.retryAt,
+    readImageStoreState: async () => {
+      storeStateReads++;
+      return storeState;
+    },
+    storeImages: async (images, state) => {
+      statesPassed.add(state);
+      const ids = images.map((image) => image.id);
+      if (ids.includes("d")) return storeResult([], { skippedIds: ids });
+      storedIds.push(...ids);
+      return storeResult(ids, { evicted: 2 });
+    },
+    saveRefreshJob: async (job) => {
+      savedJobs.push(job);
+    },
+    deleteRefreshJob: async () => {
+      jobDeleted = true;
+    },
+    queueFailedDownloads: async (entries) => {
+      queued = entries;
+    },
+    setLastFetchTime: async (time) => {
+      lastFetchSet = time;
+    },
+  });
+
+  const lastSaved = savedJobs[savedJobs.length - 1];
+  if (
+    storedIds.join() !== "b" ||
+    queued.map((entry) => entry.id).join() !== "c" ||
+    queued[0]?.lastError !== "Network timeout" ||
+    queued[0]?.nextAttemptAt !== retryAt ||
+    lastSaved?.cursor !== 6 ||
+    !lastSaved.items[3]?.skippedForSpace ||
+    !lastSaved.items[4]?.permanentFailure ||
+    !jobDeleted ||
+    lastFetchSet === null
+  ) {
+    throw new Error(
+      `Unexpected resumed job result: stored=${storedIds}, queued=${queued.map((e) => e.id)}, cursor=${lastSaved?.cursor}`,
+    );
+  }
+  if (
+    JSON.stringify(report) !==
+      JSON.stringify({
+        stored: 2,
+        failed: 1,
+        dropped: 1,
+        skipped: 2,
+        evicted: 2,
+      }) ||
+    backgroundState.lastRefreshReport !== report
+  ) {
+    throw new Error(`Unexpected refresh report: ${JSON.stringify(report)}`);
+  }
+  if (
+    storeStateReads !== 1 ||
+    statesPassed.size !== 1 ||
+    !statesPassed.has(storeState)
+  ) {
+    throw new Error("The cache should be read once and shared by every store");
+  }
+  console.log("✅ refreshImages resumed an interrupted refresh job");
+
+  // A refresh running in another context holds the lock, so this one skips
+  let fetchedWhileLocked = false;
+  await refreshImages({
+    ...deps,
+    withLockIfAvailable: async () => ({
+      acquired: false,
+      holder: "options#1234abcd",
+    }),
+    fetchAllPhotos: async () => {
+      fetchedWhileLocked = true;
+      return [];
+    },
+  });
+  if (fetchedWhileLocked || backgroundState.isFetching) {
+    throw new Error("Expected refreshImages to skip while the lock is held");
+  }
+  console.log("✅ refreshImages skipped while another context held the lock");
+
+  // Daily refresh stores new pictures and persists the advanced state
+  let savedState = null;
+  let storedCount = 0;
+  const stored = await refreshDailyImages({
+    getSettings: async () => ({
+      cache: { permanentMode: false },
+      dailyImages: { providers: ["apod"], backfillDays: 2 },
+    }),
+    getDailyFetchState: async () => ({}),
+    fetchDailyImages: async (_settings, state) => ({
+      images: [{ id: "apod_2024-01-02" }, { id: "apod_2024-01-03" }],
+      state: { ...state, apod: "2024-01-03" },
+    }),
+    storeImages: async (images) => {
+      storedCount = images.length;
+      return storeResult(images.map((image) => image.id));
+    },
+    saveDailyFetchState: async (state) => {
+      savedState = state;
+    },
+    state: backgroundState,
+  });
+
+  if (stored !== 2 || storedCount !== 2 || savedState?.apod !== "2024-01-03") {
+    throw new Error(
+      `Unexpected daily refresh result: stored=${stored}, state=${JSON.stringify(savedState)}`,
     );
   }
+  if (backgroundState.isFetchingDaily) {
+    throw new Error("Expected isFetchingDaily to be reset after refresh");
+  }
+  console.log("✅ refreshDailyImages stored new pictures of the day");
+
+  // A provider whose pictures have all expired is backfilled again
+  let stateSeen = null;
+  await refreshDailyImages({
+    getSettings: async () => ({
+      cache: { permanentMode: false },
+      dailyImages: { providers: ["apod", "bing"], backfillDays: 2 },
+    }),
+    getDailyFetchState: async () => ({
+      apod: "2024-01-03",
+      bing: "2024-01-03",
+    }),
+    getImageCountBySource: async (source) => (source === "apod" ? 0 : 2),
+    fetchDailyImages: async (_settings, state) => {
+      stateSeen = state;
+      return { images: [], state };
+    },
+    storeImages: async () => storeResult([]),
+    saveDailyFetchState: async () => {},
+    state: backgroundState,
+  });
+  if (JSON.stringify(stateSeen) !== JSON.stringify({ bing: "2024-01-03" })) {
+    throw new Error(
+      `Expired pictures of the day should be fetched again: ${JSON.stringify(stateSeen)}`,
+    );
+  }
+  console.log("✅ refreshDailyImages backfilled expired pictures of the day");
+
+  // Retry queue drain prunes old entries, stores recovered images, drops
+  // downloads that cannot succeed and reschedules the rest
+  let prunedBefore = 0;
+  let queueUpdate = null;
+  const recovered = await drainRetryQueue({
+    getSettings: async () => ({ retryQueue: { maxAgeHours: 2 } }),
+    pruneRetryQueue: async (cutoff) => {
+      prunedBefore = cutoff;
+      return 0;
+    },
+    getDueRetries: async () => [
+      { id: "unsplash_a", attempts: 1 },
+      { id: "unsplash_b", attempts: 2 },
+      { id: "unsplash_c", attempts: 1 },
+      { id: "unsplash_d", attempts: 1 },
+    ],
+    retryQueuedDownloads: async (entries) => ({
+      images: [{ id: entries[0].id }, { id: entries[2].id }],
+      recoveredIds: [entries[0].id, entries[2].id],
+      droppedIds: [entries[3].id],
+      rescheduled: [{ ...entries[1], attempts: 3 }],
+    }),
+    // unsplash_c doesn't fit, so it leaves the queue without being stored
+    storeImages: async () =>
+      storeResult(["unsplash_a"], { skippedIds: ["unsplash_c"] }),
+    updateRetryQueue: async (updated, removedIds) => {
+      queueUpdate = { updated, removedIds };
+    },
+    isOnline: () => true,
+    state: backgroundState,
+  });
+
+  const expectedCutoff = Date.now() - 2 * 60 * 60 * 1000;
+  if (
+    recovered !== 1 ||
+    Math.abs(prunedBefore - expectedCutoff) > 5000 ||
+    queueUpdate?.removedIds.join() !== "unsplash_a,unsplash_c,unsplash_d" ||
+    queueUpdate?.updated[0]?.attempts !== 3
+  ) {
+    throw new Error(
+      `Unexpected retry drain result: recovered=${recovered}, update=${JSON.stringify(queueUpdate)}`,
+    );
+  }
+  if (backgroundState.isDrainingRetries) {
+    throw new Error("Expected isDrainingRetries to be reset after drain");
+  }
+
+  const offline = await drainRetryQueue({
+    getSettings: async () => ({}),
+    pruneRetryQueue: async () => 0,
+    getDueRetries: async () => {
+      throw new Error("Should not read the queue while offline");
+    },
+    isOnline: () => false,
+    state: backgroundState,
+  });
+  if (offline !== 0) {
+    throw new Error("Expected an offline drain to do nothing");
+  }
+  console.log("✅ drainRetryQueue recovered queued downloads");
+
+  // The integrity scan hashes legacy images, corrects stale hashes, keeps the
+  // download hash of transcoded images and deletes images that no longer
+  // decode, but only flags a favourite that doesn't
+  const scanned = {
+    legacy: { id: "legacy", blob: "legacy-bytes" },
+    stale: {
+      id: "stale",
+      blob: "stale-bytes",
+      contentHash: "old",
+      perceptualHash: "~stale-bytes",
+    },
+    intact: {
+      id: "intact",
+      blob: "intact-bytes",
+      contentHash: "#intact-bytes",
+      perceptualHash: "~intact-bytes",
+    },
+    transcoded: {
+      id: "transcoded",
+      blob: "webp-bytes",
+      contentHash: "#jpeg-bytes",
+      perceptualHash: "~webp-bytes",
+      originalSize: 4096,
+    },
+    broken: { id: "broken", blob: "broken-bytes", contentHash: "x" },
+    brokenFavorite: {
+      id: "brokenFavorite",
+      blob: "broken-bytes",
+      contentHash: "x",
+      favorite: true,
+    },
+  };
+  const decodeError = () =>
+    Object.assign(new Error("not an image"), { name: "ImageDecodeError" });
+  const hashed = {};
+  const deleted = [];
+  const flagged = [];
+  const scanDeps = {
+    getImageIds: async () => [...Object.keys(scanned), "gone"],
+    getImageById: async (id) => scanned[id] ?? null,
+    hashBlob: async (blob) => `#${blob}`,
+    computePerceptualHash: async (blob) => {
+      if (blob === "broken-bytes") throw decodeError();
+      return `~${blob}`;
+    },
+    setImageHashes: async (id, hashes) => {
+      hashed[id] = hashes;
+      return true;
+    },
+    flagUnreadableImage: async (id) => {
+      flagged.push(id);
+      return true;
+    },
+    deleteImage: async (id) => {
+      deleted.push(id);
+    },
+    state: backgroundState,
+  };
+  const scanReport = await scanCacheIntegrity(scanDeps);
+  if (
+    scanReport?.scanned !== 6 ||
+    scanReport.rehashed !== 1 ||
+    scanReport.hashMismatches !== 1 ||
+    scanReport.fingerprinted !== 1 ||
+    scanReport.corruptDeleted !== 1 ||
+    scanReport.corruptFlagged !== 1 ||
+    flagged.join() !== "brokenFavorite" ||
+    hashed.legacy?.contentHash !== "#legacy-bytes" ||
+    hashed.legacy?.perceptualHash !== "~legacy-bytes" ||
+    JSON.stringify(hashed.stale) !== '{"contentHash":"#stale-bytes"}' ||
+    "intact" in hashed ||
+    "transcoded" in hashed ||
+    deleted.join() !== "broken" ||
+    backgroundState.lastCacheScan !== scanReport
+  ) {
+    throw new Error(
+      `Unexpected scan outcome: ${JSON.stringify({ scanReport, hashed, deleted })}`,
+    );
+  }
+  console.log("✅ scanCacheIntegrity repaired the cache");
+
+  // A context that cannot draw, or a cache where nothing decodes, points at
+  // the browser: the scan aborts and deletes nothing
+  deleted.length = 0;
+  flagged.length = 0;
+  const aborted = [
+    async () => {
+      throw new Error("2D canvas is unavailable");
+    },
+    async () => {
+      throw decodeError();
+    },
+  ];
+  for (const computePerceptualHash of aborted) {
+    const outcome = await scanCacheIntegrity({
+      ...scanDeps,
+      computePerceptualHash,
+    }).then(
+      () => "finished",
+      (error) => error.message,
+    );
+    if (
+      !outcome.startsWith("Cache scan aborted") ||
+      deleted.length + flagged.length > 0 ||
+      backgroundState.isScanningCache
+    ) {
+      throw new Error(
+        `Expected the scan to abort untouched: ${outcome}, deleted ${deleted}`,
+      );
+    }
+  }
+  console.log("✅ scanCacheIntegrity aborted when no image could be decoded");
+
+  // Missing thumbnails are made one image at a time; undecodable images and
+  // ones deleted meanwhile are skipped
+  const thumbnails = {};
+  const made = await backfillThumbnails({
+    getImageIdsWithoutThumbnail: async () => ["old", "broken", "gone", "raced"],
+    getImageById: async (id) =>
+      id === "gone" ? null : { id, blob: `${id}-bytes` },
+    createThumbnail: async (blob) => {
+      if (blob === "broken-bytes") throw new Error("not an image");
+      return `thumb:${blob}`;
+    },
+    setThumbnail: async (id, thumbnail) => {
+      if (id === "raced") return false;
+      thumbnails[id] = thumbnail;
+      return true;
+    },
+    state: backgroundState,
+  });
+  if (
+    made !== 1 ||
+    JSON.stringify(thumbnails) !== '{"old":"thumb:old-bytes"}' ||
+    backgroundState.isBackfillingThumbnails
+  ) {
+    throw new Error(
+      `Unexpected backfill outcome: ${JSON.stringify({ made, thumbnails })}`,
+    );
+  }
+  backgroundState.isBackfillingThumbnails = true;
+  if ((await backfillThumbnails({ state: backgroundState })) !== null) {
+    throw new Error("A second backfill should not start while one runs");
+  }
+  backgroundState.isBackfillingThumbnails = false;
+  console.log("✅ backfillThumbnails made the missing thumbnails");
 
   // Clean up test bundle file
   rmSync(outFile, { force: true });
@@ -0,0 +1,92 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/refreshJob.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/refreshJob/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const {
+    createRefreshJob,
+    getPendingItems,
+    isRefreshJobStale,
+    summarizeRefreshJob,
+    updateRefreshJobItem,
+  } = await import(`file://${outFile}`);
+
+  const now = 1_700_000_000_000;
+  const HOUR = 60 * 60 * 1000;
+  const photos = ["a", "b", "c", "d"].map((id) => ({ id }));
+
+  let job = createRefreshJob(photos, false, now + HOUR, now);
+  if (job.cursor !== 0 || getPendingItems(job).join() !== "0,1,2,3") {
+    throw new Error("A new job should have every item pending");
+  }
+
+  // Finishing an item out of order leaves the cursor on the first pending one
+  job = updateRefreshJobItem(job, 1, { status: "done" }, now + 1);
+  if (job.cursor !== 0 || getPendingItems(job).join() !== "0,2,3") {
+    throw new Error(`Unexpected cursor after item 1: ${job.cursor}`);
+  }
+
+  job = updateRefreshJobItem(
+    job,
+    0,
+    { status: "failed", error: "HTTP 404", permanentFailure: true },
+    now + 2,
+  );
+  if (job.cursor !== 2 || job.updatedAt !== now + 2) {
+    throw new Error(`Cursor should skip finished items, got ${job.cursor}`);
+  }
+  if (job.items[0].error !== "HTTP 404" || job.items[0].photo.id !== "a") {
+    throw new Error("Failed item should keep its photo and error");
+  }
+
+  const summary = summarizeRefreshJob(job);
+  if (
+    summary.done !== 1 ||
+    summary.failed !== 1 ||
+    summary.pending !== 2 ||
+    summary.permanentFailure !== 1 ||
+    summary.skippedForSpace !== 0
+  ) {
+    throw new Error(`Unexpected summary: ${JSON.stringify(summary)}`);
+  }
+
+  // Updates return a new job rather than changing the saved one
+  const before = createRefreshJob(photos, false, now + HOUR, now);
+  updateRefreshJobItem(before, 0, { status: "done" }, now);
+  if (before.items[0].status !== "pending") {
+    throw new Error("updateRefreshJobItem should not mutate its input");
+  }
+
+  // Staleness
+  if (isRefreshJobStale(job, now + HOUR)) {
+    throw new Error("A one hour old job should be resumed");
+  }
+  if (!isRefreshJobStale(job, now + 13 * HOUR)) {
+    throw new Error("A 13 hour old job should be dropped");
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ refresh job tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ refresh job test failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,194 @@
+import "fake-indexeddb/auto";
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function bundle(entry, name) {
+  const outFile = resolve(__dirname, `../dist/${name}.test.js`);
+  await build({
+    entryPoints: [resolve(__dirname, entry)],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+  return outFile;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const response = (status, body = "", headers = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? "OK" : "Error",
+  headers: new Headers(headers),
+  blob: async () => new Blob([body], { type: "image/jpeg" }),
+  json: async () => JSON.parse(body),
+});
+
+async function run() {
+  const apiFile = await bundle("../src/api/index.ts", "retryQueue");
+  const dbFile = await bundle("../src/db/index.ts", "retryQueueDb");
+
+  // A fast connection, so no speed test request is made
+  Object.defineProperty(globalThis, "navigator", {
+    value: { onLine: true, connection: { effectiveType: "4g" } },
+    configurable: true,
+  });
+  const store = {};
+  global.chrome = {
+    storage: {
+      local: {
+        get: (keys, callback) => {
+          const result = {};
+          for (const key of typeof keys === "string" ? [keys] : keys) {
+            if (key in store) result[key] = structuredClone(store[key]);
+          }
+          setTimeout(() => callback(result), 0);
+        },
+        set: (items, callback) => {
+          Object.assign(store, structuredClone(items));
+          setTimeout(() => callback?.(), 0);
+        },
+        remove: (keys, callback) => {
+          for (const key of typeof keys === "string" ? [keys] : keys) {
+            delete store[key];
+          }
+          setTimeout(() => callback?.(), 0);
+        },
+      },
+    },
+  };
+
+  // Images are served by path: /ok/…, /gone/… (404), /down/… (503) and
+  // /busy/… (429 with a Retry-After of two hours)
+  const requests = new Map();
+  const days = [];
+  global.fetch = async (url) => {
+    const { hostname, pathname } = new URL(String(url));
+    requests.set(pathname, (requests.get(pathname) ?? 0) + 1);
+    if (hostname === "api.nasa.gov") {
+      const day = new URL(String(url)).searchParams.get("date");
+      days.push(day);
+      return response(
+        200,
+        JSON.stringify({
+          media_type: "image",
+          title: day,
+          url: `https://apod.nasa.gov/gone/${day}.jpg`,
+        }),
+      );
+    }
+    if (pathname.startsWith("/ok/")) return response(200, pathname);
+    if (pathname.startsWith("/gone/")) return response(404);
+    if (pathname.startsWith("/busy/")) {
+      return response(429, "", { "Retry-After": "7200" });
+    }
+    return response(503);
+  };
+
+  const { fetchDailyImages, isPermanentDownloadError, retryQueuedDownloads } =
+    await import(`file://${apiFile}`);
+  const db = await import(`file://${dbFile}`);
+
+  if (isPermanentDownloadError(new Error("HTTP 404 Not Found"))) {
+    throw new Error("Only HTTP errors can be permanent");
+  }
+
+  // ── queued retries ─────────────────────────────────────────────────────
+  const entry = (id, path, attempts = 1) => ({
+    id,
+    photo: {
+      id,
+      url: `https://images.example.com${path}`,
+      source: "unsplash",
+    },
+    permanent: false,
+    attempts,
+    firstFailedAt: Date.now() - 60 * 1000,
+    nextAttemptAt: Date.now(),
+  });
+  const result = await retryQueuedDownloads([
+    entry("back", "/ok/back.jpg"),
+    entry("gone", "/gone/gone.jpg"),
+    entry("down", "/down/down.jpg", 2),
+    entry("busy", "/busy/busy.jpg"),
+  ]);
+
+  if (
+    result.recoveredIds.join() !== "back" ||
+    result.images[0]?.id !== "back"
+  ) {
+    throw new Error(`Expected "back" to recover: ${result.recoveredIds}`);
+  }
+  if (result.droppedIds.join() !== "gone") {
+    throw new Error(`A 404 should be dropped, got ${result.droppedIds}`);
+  }
+  if (requests.get("/gone/gone.jpg") !== 1) {
+    throw new Error("A 404 should not be requested again");
+  }
+  const [down, busy] = result.rescheduled;
+  if (
+    result.rescheduled.length !== 2 ||
+    down.id !== "down" ||
+    down.attempts !== 3 ||
+    down.nextAttemptAt <= Date.now() ||
+    !down.lastError.includes("503")
+  ) {
+    throw new Error(
+      `A server error should be rescheduled: ${JSON.stringify(result.rescheduled)}`,
+    );
+  }
+  // Asked to come back later than the backoff, and not retried meanwhile
+  if (
+    busy?.id !== "busy" ||
+    Math.abs(busy.nextAttemptAt - (Date.now() + 2 * HOUR)) > 60 * 1000 ||
+    requests.get("/busy/busy.jpg") !== 1
+  ) {
+    throw new Error(
+      `A rate limit should be retried after its Retry-After: ${JSON.stringify(busy)}`,
+    );
+  }
+  console.log("✅ retryQueuedDownloads dropped a 404 and kept a 503 and 429");
+
+  // ── daily pictures ─────────────────────────────────────────────────────
+  // The next daily check fetches missing days again, so a failed day is
+  // neither queued nor counted as done
+  const daily = await fetchDailyImages(
+    {
+      cache: { permanentMode: false },
+      dailyImages: { providers: ["apod"], backfillDays: 2 },
+    },
+    {},
+  );
+  if (
+    daily.images.length !== 0 ||
+    days.length === 0 ||
+    !(daily.state.apod < days[0])
+  ) {
+    throw new Error(`Unexpected daily result: ${JSON.stringify(daily.state)}`);
+  }
+  const queued = await db.getDueRetries(Date.now() + 24 * 60 * 60 * 1000, 50);
+  if (queued.length !== 0) {
+    throw new Error(`Daily failures should not be queued: ${queued.length}`);
+  }
+  console.log("✅ fetchDailyImages left failed days out of the retry queue");
+
+  await db.closeDB();
+  for (const file of [apiFile, dbFile]) {
+    rmSync(file, { force: true });
+  }
+  console.log("✅ retry queue tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ retry queue test failed:", err);
+  process.exit(1);
+});
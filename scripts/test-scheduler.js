@@ -0,0 +1,126 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/scheduler.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/scheduler/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const { DownloadScheduler, getConcurrencyForSpeed } = await import(
+    `file://${outFile}`
+  );
+
+  // Concurrency follows the connection speed, capped by the user's limit
+  if (getConcurrencyForSpeed("slow", 6) !== 2) {
+    throw new Error("Slow links should use 2 downloads at once");
+  }
+  if (getConcurrencyForSpeed("fast", 6) !== 6) {
+    throw new Error("The user's limit should cap fast links");
+  }
+  if (getConcurrencyForSpeed("medium", 0) !== 1) {
+    throw new Error("Concurrency should never drop below 1");
+  }
+
+  // Never more than maxConcurrency tasks in flight
+  const scheduler = new DownloadScheduler(2);
+  let running = 0;
+  let peak = 0;
+  const started = [];
+  const releases = [];
+
+  const task = (name) => () => {
+    started.push(name);
+    running++;
+    peak = Math.max(peak, running);
+    return new Promise((resolve, reject) => {
+      releases.push((fail) => {
+        running--;
+        if (fail) reject(new Error(`${name} failed`));
+        else resolve(name);
+      });
+    });
+  };
+  const tick = () => new Promise((r) => setTimeout(r, 0));
+
+  const results = [
+    scheduler.schedule(task("a")),
+    scheduler.schedule(task("b")),
+    scheduler.schedule(task("low"), "low"),
+    scheduler.schedule(task("c")),
+    scheduler.schedule(task("high"), "high"),
+  ].map((promise) => promise.catch((error) => error.message));
+
+  let progress = scheduler.getProgress();
+  if (progress.active !== 2 || progress.queued !== 3) {
+    throw new Error(`Unexpected progress: ${JSON.stringify(progress)}`);
+  }
+
+  // Release tasks one at a time; the second one fails
+  for (let i = 0; i < 5; i++) {
+    releases[i](i === 1);
+    await tick();
+  }
+
+  const settled = await Promise.all(results);
+  if (peak !== 2) {
+    throw new Error(`Expected at most 2 tasks at once, saw ${peak}`);
+  }
+  if (started.join() !== "a,b,high,c,low") {
+    throw new Error(`Unexpected start order: ${started.join()}`);
+  }
+  if (settled[1] !== "b failed" || settled[4] !== "high") {
+    throw new Error(`Unexpected results: ${settled.join()}`);
+  }
+
+  progress = scheduler.getProgress();
+  if (
+    progress.queued !== 0 ||
+    progress.active !== 0 ||
+    progress.done !== 4 ||
+    progress.failed !== 1
+  ) {
+    throw new Error(`Unexpected final progress: ${JSON.stringify(progress)}`);
+  }
+
+  // Raising the limit starts queued tasks straight away
+  const widened = new DownloadScheduler(1);
+  const pending = [];
+  const wide = [1, 2, 3].map(() =>
+    widened.schedule(() => new Promise((r) => pending.push(r))),
+  );
+  widened.setMaxConcurrency(3);
+  if (widened.getProgress().active !== 3) {
+    throw new Error("Expected all three tasks to run after raising the limit");
+  }
+  pending.forEach((resolve) => resolve());
+  await Promise.all(wide);
+
+  // Counts start over once the scheduler has gone idle
+  await widened.schedule(async () => "again");
+  if (widened.getProgress().done !== 1) {
+    throw new Error("Expected counts to reset after going idle");
+  }
+
+  rmSync(outFile, { force: true });
+
+  console.log("✅ download scheduler tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ download scheduler test failed:", err);
+  process.exit(1);
+});
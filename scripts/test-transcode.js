@@ -0,0 +1,184 @@
+import { build } from "esbuild";
+import { fileURLToPath } from "url";
+import { dirname, resolve } from "path";
+import { rmSync } from "fs";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Minimal stand-ins for the browser's decode and encode APIs. The "encoder"
+ * produces `bytesPerPixel` bytes per pixel and, like Chrome, answers with a
+ * PNG for types it cannot encode.
+ */
+function installCanvas({ width, height, encodable, bytesPerPixel }) {
+  const calls = { closed: false, drawn: null, encoded: [] };
+
+  globalThis.createImageBitmap = async () => ({
+    width,
+    height,
+    close() {
+      calls.closed = true;
+    },
+  });
+  globalThis.OffscreenCanvas = class {
+    constructor(w, h) {
+      this.width = w;
+      this.height = h;
+    }
+    getContext() {
+      return {
+        drawImage: (_bitmap, _x, _y, w, h) => {
+          calls.drawn = { width: w, height: h };
+        },
+      };
+    }
+    async convertToBlob({ type, quality }) {
+      calls.encoded.push({ type, quality });
+      const size = Math.round(this.width * this.height * bytesPerPixel);
+      return new Blob([new Uint8Array(size)], {
+        type: encodable.includes(type) ? type : "image/png",
+      });
+    }
+  };
+
+  return calls;
+}
+
+async function run() {
+  const outFile = resolve(__dirname, "../dist/transcode.test.js");
+
+  await build({
+    entryPoints: [resolve(__dirname, "../src/transcode/index.ts")],
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outfile: outFile,
+    sourcemap: false,
+    target: "es2020",
+  });
+
+  const { getEncodeTypes, transcodeImage, getThumbnailSize, createThumbnail } =
+    await import(`file://${outFile}`);
+
+  if (
+    getEncodeTypes("webp").join() !== "image/webp" ||
+    getEncodeTypes("avif").join() !== "image/avif,image/webp"
+  ) {
+    throw new Error("AVIF should fall back to WebP, and WebP to nothing");
+  }
+
+  const settings = { format: "webp", quality: 80 };
+  const screen = { width: 1920, height: 1080 };
+  const original = new Blob([new Uint8Array(4 * 1024 * 1024)], {
+    type: "image/jpeg",
+  });
+
+  // A large JPEG is scaled down and re-encoded
+  let calls = installCanvas({
+    width: 6000,
+    height: 4000,
+    encodable: ["image/webp"],
+    bytesPerPixel: 0.2,
+  });
+  const webp = await transcodeImage(original, settings, screen);
+  if (!webp || webp.type !== "image/webp" || webp.size >= original.size) {
+    throw new Error(`Expected a smaller WebP, got ${webp?.type} ${webp?.size}`);
+  }
+  if (calls.drawn?.width !== 1920 || calls.drawn?.height !== 1280) {
+    throw new Error(`Drew at ${JSON.stringify(calls.drawn)}`);
+  }
+  if (calls.encoded[0]?.quality !== 0.8) {
+    throw new Error("Quality should be passed to the encoder as a fraction");
+  }
+  if (!calls.closed) throw new Error("The decoded bitmap should be closed");
+
+  // AVIF the browser cannot encode falls back to WebP
+  calls = installCanvas({
+    width: 6000,
+    height: 4000,
+    encodable: ["image/webp"],
+    bytesPerPixel: 0.2,
+  });
+  const fallback = await transcodeImage(
+    original,
+    { ...settings, format: "avif" },
+    screen,
+  );
+  if (
+    fallback?.type !== "image/webp" ||
+    calls.encoded.map(({ type }) => type).join() !== "image/avif,image/webp"
+  ) {
+    throw new Error("Unsupported AVIF should be retried as WebP");
+  }
+
+  // A result no smaller than the download is discarded
+  installCanvas({
+    width: 1920,
+    height: 1080,
+    encodable: ["image/webp"],
+    bytesPerPixel: 4,
+  });
+  if ((await transcodeImage(original, settings, screen)) !== null) {
+    throw new Error("A larger re-encode should not replace the original");
+  }
+
+  // No encodable format at all is an error, and the bitmap is still closed
+  calls = installCanvas({
+    width: 6000,
+    height: 4000,
+    encodable: [],
+    bytesPerPixel: 0.2,
+  });
+  let threw = false;
+  try {
+    await transcodeImage(original, settings, screen);
+  } catch {
+    threw = true;
+  }
+  if (!threw || !calls.closed) {
+    throw new Error("Should throw and close the bitmap when encoding fails");
+  }
+
+  // Thumbnails are 320 px wide whatever the shape, and never upscaled
+  const sizes = [
+    [[6000, 4000], "320×213"],
+    [[3000, 4500], "320×480"],
+    [[200, 100], "200×100"],
+  ];
+  for (const [args, expected] of sizes) {
+    const { width, height } = getThumbnailSize(...args);
+    if (`${width}×${height}` !== expected) {
+      throw new Error(
+        `getThumbnailSize(${args}) gave ${width}×${height}, expected ${expected}`,
+      );
+    }
+  }
+
+  calls = installCanvas({
+    width: 6000,
+    height: 4000,
+    encodable: ["image/webp"],
+    bytesPerPixel: 0.2,
+  });
+  const thumbnail = await createThumbnail(original);
+  if (
+    thumbnail.type !== "image/webp" ||
+    calls.drawn?.width !== 320 ||
+    calls.encoded[0]?.quality !== 0.75 ||
+    !calls.closed
+  ) {
+    throw new Error(
+      `Unexpected thumbnail: ${thumbnail.type} ${JSON.stringify(calls)}`,
+    );
+  }
+
+  rmSync(outFile, { force: true });
+  console.log("✅ transcode tests passed");
+  process.exit(0);
+}
+
+run().catch((err) => {
+  console.error("❌ transcode test failed:", err);
+  process.exit(1);
+});
@@ -99,6 +99,16 @@ async function run() {
     throw new Error("renderPixelate did not draw any frames at progress=1");
   }
 
+  // A square BlurHash placeholder is cropped to cover the 4:3 canvas
+  manager.currentImage = null;
+  manager.placeholder = { width: 32, height: 32 };
+  drawCalls.length = 0;
+  manager.paintBackground();
+  const cover = drawCalls[0]?.args.slice(1).join();
+  if (cover !== "0,-100,800,800") {
+    throw new Error(`The placeholder should cover the canvas, drawn at ${cover}`);
+  }
+
   rmSync(outFile, { force: true });
   console.log("✅ transitions tests passed");
   process.exit(0);
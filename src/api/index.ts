@@ -1,77 +1,147 @@
 /**
  * Api module for the random wallpaper browser extension.
- * Provides a way for fetching images from unsplash and pexels.
+ * Provides a way for fetching images from the registered wallpaper providers.
  */
 
 import { Logger } from "../logger";
 import {
   DownloadOptions,
-  PEXELS_IMAGES_COUNT,
-  UNSPLASH_IMAGES_COUNT,
   DEFAULT_MAX_RETRIES,
   DOWNLOAD_TIMEOUT_MS,
   DEFAULT_INITIAL_BACKOFF_MS,
   DEFAULT_BACKOFF_MULTIPLIER,
-  API_REQUEST_TIMEOUT_MS,
   ImageData,
   Settings,
+  ProviderId,
+  ProviderPhoto,
+  WallpaperProvider,
+  CollectionTarget,
+  KeyQuota,
+  ResponseObserver,
+  RetryQueueEntry,
+  CustomFeedSettings,
+  CUSTOM_FEED_MAX_ITEMS,
+  DEFAULT_KEYWORDS_PER_REFRESH,
+  MAX_KEYWORDS_PER_REFRESH,
+  DailyFetchState,
+  DEFAULT_DAILY_BACKFILL_DAYS,
+  ConnectionSpeed,
+  DownloadPriority,
+  DownloadProgress,
+  DEFAULT_MAX_DOWNLOAD_CONCURRENCY,
+  DEFAULT_TRANSCODE_SETTINGS,
+  TranscodeSettings,
+  ImageSizeTarget,
 } from "../config";
-import { computeExpiry, getRandomIndex, hashBlob } from "../utils";
-import { getLastKeywordIndex, saveLastKeywordIndex } from "../storage";
+import {
+  computeExpiry,
+  getRetryQueueBackoff,
+  hashBlob,
+  isCustomFeedActive,
+} from "../utils";
+import { getProvider, getProviders } from "../providers";
+import { parseFeed } from "../feeds";
+import { computePerceptualHash } from "../perceptualHash";
+import { computeAverageColor } from "../placeholder";
+import { createThumbnail, transcodeImage } from "../transcode";
+import { getImageSizeTarget, getTargetPixels } from "../display";
+import {
+  addDays,
+  formatDay,
+  getDailyProvider,
+  getDaysToFetch,
+} from "../daily";
+import {
+  getCircuitBreakers,
+  getDisplaySize,
+  getKeywordIndex,
+  saveCircuitBreakers,
+  getKeyQuotas,
+  saveKeyQuotas,
+  saveKeywordIndex,
+} from "../storage";
+import {
+  assignKeys,
+  getHeadroom,
+  parseRetryAfter,
+  readKeyQuota,
+} from "../keyPool";
+import {
+  classifyFailure,
+  getCircuitState,
+  keyCircuitId,
+  providerCircuitId,
+  recordFailure,
+} from "../circuitBreaker";
+import { buildKeywordCycle, parseKeywords, splitBatch } from "../keywords";
+import { DownloadScheduler, getConcurrencyForSpeed } from "../scheduler";
 
 const api_logger = new Logger("API");
 
 /**
- * Gets the next keyword sequentially from the merged keyword list
- * Rotates through keywords in order instead of random selection
- * @param unsplashKeywords - Unsplash keywords (comma-separated)
- * @param pexelsKeywords - Pexels keywords (comma-separated)
- * @returns Promise that resolves to the selected keyword or null if no keywords
+ * Takes the next keywords from a provider's own weighted rotation
+ * Each provider keeps its own position, so its keyword list is cycled
+ * independently of the others.
+ * @param source - Provider whose rotation to advance
+ * @param keywordsInput - That provider's keywords (comma-separated, optional `:weight`)
+ * @param count - Number of keywords to take
+ * @returns Promise that resolves to `count` keywords, or nulls if none are configured
  */
-export async function getNextKeywordSequentially(
-  unsplashKeywords: string,
-  pexelsKeywords: string,
-): Promise<string | null> {
-  // Merge and deduplicate keywords from both sources
-  api_logger.debug("Fetching Keyword from merged Keyword list");
-  const allKeywords = [
-    ...unsplashKeywords.split(",").map((k) => k.trim()),
-    ...pexelsKeywords.split(",").map((k) => k.trim()),
-  ]
-    .filter((k) => k.length > 0)
-    .filter((k, index, self) => self.indexOf(k) === index); // Remove duplicates
-
-  if (allKeywords.length === 0) {
-    api_logger.debug("No keywords configured");
-    return null;
+export async function getNextKeywords(
+  source: ProviderId,
+  keywordsInput: string,
+  count: number,
+): Promise<(string | null)[]> {
+  const cycle = buildKeywordCycle(parseKeywords(keywordsInput));
+
+  if (cycle.length === 0) {
+    api_logger.debug(`No ${source} keywords configured`);
+    return Array.from({ length: count }, () => null);
   }
 
-  // Get last used index and increment
-  const lastIndex = await getLastKeywordIndex();
-  const nextIndex = (lastIndex + 1) % allKeywords.length;
+  // Get last used index and advance past the keywords taken now
+  const lastIndex = await getKeywordIndex(source);
+  const selected = Array.from(
+    { length: count },
+    (_, i) => cycle[(lastIndex + 1 + i) % cycle.length]!,
+  );
 
-  // Save the new index for next time
-  api_logger.debug(`Saving new Keword index for next time`);
-  await saveLastKeywordIndex(nextIndex);
-  api_logger.debug(`Saved new keyword index for next time: ${nextIndex}`);
+  const nextIndex = (lastIndex + count) % cycle.length;
+  await saveKeywordIndex(source, nextIndex);
 
-  const selectedKeyword = allKeywords[nextIndex] || null;
-  if (selectedKeyword) {
-    api_logger.info(
-      `Fetched keyword from: [${nextIndex + 1}/${allKeywords.length}]: "${selectedKeyword}"`,
-    );
-  }
+  api_logger.info(
+    `Selected ${source} keyword(s) [${nextIndex + 1}/${cycle.length}]: ${selected
+      .map((k) => `"${k}"`)
+      .join(", ")}`,
+  );
 
-  return selectedKeyword;
+  return selected;
 }
 
 /**
  * Connection speed cache (updated periodically)
  */
-let cachedConnectionSpeed: "slow" | "medium" | "fast" = "medium";
+let cachedConnectionSpeed: ConnectionSpeed = "medium";
 let lastSpeedTest = 0;
 const SPEED_TEST_INTERVAL_MS = 300000; // Test every 5 minutes
 
+/**
+ * Scheduler every image download goes through
+ */
+const downloadScheduler = new DownloadScheduler(
+  DEFAULT_MAX_DOWNLOAD_CONCURRENCY,
+);
+let maxDownloadConcurrency = DEFAULT_MAX_DOWNLOAD_CONCURRENCY;
+let transcodeSettings: TranscodeSettings = DEFAULT_TRANSCODE_SETTINGS;
+let imageSizeTarget: ImageSizeTarget = getImageSizeTarget();
+
+/**
+ * Current queued, active, done and failed image download counts
+ */
+export function getDownloadProgress(): DownloadProgress {
+  return downloadScheduler.getProgress();
+}
+
 /**
  * Checks whether the host can reach the network.
  * Unlike `navigator.onLine`, this performs a real request.
@@ -104,7 +174,7 @@ export async function checkOnline(
  * Tests connection speed by downloading a small file
  * @returns Connection speed classification
  */
-async function testConnectionSpeed(): Promise<"slow" | "medium" | "fast"> {
+async function testConnectionSpeed(): Promise<ConnectionSpeed> {
   try {
     // Use Network Information API if available
     const nav = navigator as any;
@@ -145,10 +215,10 @@ async function testConnectionSpeed(): Promise<"slow" | "medium" | "fast"> {
 }
 
 /**
- * Gets dynamic timeout based on connection speed
- * @returns Timeout in milliseconds
+ * Gets the connection speed, re-testing it when the cached value is stale
+ * @returns Connection speed classification
  */
-async function getDynamicTimeout(): Promise<number> {
+async function getConnectionSpeed(): Promise<ConnectionSpeed> {
   const now = Date.now();
 
   // Update speed test if needed
@@ -158,8 +228,16 @@ async function getDynamicTimeout(): Promise<number> {
     api_logger.debug("Connection speed detected:", cachedConnectionSpeed);
   }
 
+  return cachedConnectionSpeed;
+}
+
+/**
+ * Gets dynamic timeout based on connection speed
+ * @returns Timeout in milliseconds
+ */
+async function getDynamicTimeout(): Promise<number> {
   // Return appropriate timeout
-  switch (cachedConnectionSpeed) {
+  switch (await getConnectionSpeed()) {
     case "slow":
       return 60000; // 60 seconds for slow connections
     case "medium":
@@ -187,10 +265,25 @@ const NON_RETRYABLE_STATUS_CODES = new Set([
   503, // service unavailable
 ]);
 
+/**
+ * HTTP status codes a later retry cannot fix; rate limits and server errors
+ * are left out, since they pass
+ */
+const PERMANENT_DOWNLOAD_STATUS_CODES = new Set([
+  400, // bad request
+  401, // unauthorized
+  403, // forbidden
+  404, // not found
+  410, // gone
+  422, // unprocessable entity
+]);
+
 class HttpError extends Error {
   constructor(
     public status: number,
     message: string,
+    /** When the server asked to be tried again, from `Retry-After` */
+    public retryAt?: number,
   ) {
     super(message);
   }
@@ -200,6 +293,26 @@ export function isRetryableStatus(status: number): boolean {
   return !NON_RETRYABLE_STATUS_CODES.has(status);
 }
 
+/**
+ * Whether a failed download is one trying again cannot fix, such as an image
+ * that is gone (HTTP 404) or forbidden (HTTP 403)
+ * Such downloads are not queued for a later retry.
+ */
+export function isPermanentDownloadError(error: unknown): boolean {
+  return (
+    error instanceof HttpError &&
+    PERMANENT_DOWNLOAD_STATUS_CODES.has(error.status)
+  );
+}
+
+/**
+ * When a failed download may be tried again, if the server said so with a
+ * `Retry-After` header
+ */
+export function getDownloadRetryAt(error: unknown): number | undefined {
+  return error instanceof HttpError ? error.retryAt : undefined;
+}
+
 /**
  * Downloads a file from a URL with retry logic and exponential backoff
  * Handles network unavailability gracefully
@@ -215,6 +328,7 @@ export async function downloadFile(
 ): Promise<Blob> {
   const {
     maxRetries = DEFAULT_MAX_RETRIES,
+    headers,
     timeoutMs,
     initialBackoffMs = DEFAULT_INITIAL_BACKOFF_MS,
     backoffMultiplier = DEFAULT_BACKOFF_MULTIPLIER,
@@ -233,13 +347,18 @@ export async function downloadFile(
         actualTimeout,
       );
 
-      const response = await fetch(url, { signal: controller.signal });
+      const response = await fetch(url, {
+        signal: controller.signal,
+        ...(headers ? { headers } : {}),
+      });
       clearTimeout(timeoutId);
 
       if (!response.ok) {
+        const retryAfter = response.headers?.get("Retry-After");
         throw new HttpError(
           response.status,
           `HTTP ${response.status} ${response.statusText}`,
+          retryAfter ? parseRetryAfter(retryAfter, Date.now()) : undefined,
         );
       }
 
@@ -292,27 +411,61 @@ export async function downloadFile(
   throw new Error("Unreachable download failure");
 }
 
+/**
+ * Re-encodes a downloaded image as the user's transcode settings ask
+ * Failing to transcode is not fatal; the image is then stored as downloaded.
+ * @param blob - Image as downloaded
+ * @param source - Image source, for log messages
+ * @param photoId - Photo ID, for log messages
+ * @returns Promise that resolves to the blob to store, which is the download
+ *   itself when transcoding is off or would not make it smaller
+ */
+async function transcodeDownload(
+  blob: Blob,
+  source: ProviderPhoto["source"],
+  photoId: string,
+): Promise<Blob> {
+  if (!transcodeSettings.enabled) return blob;
+
+  try {
+    const transcoded = await transcodeImage(
+      blob,
+      transcodeSettings,
+      getTargetPixels(imageSizeTarget),
+    );
+    if (!transcoded) return blob;
+    api_logger.debug(`Transcoded ${source} image`, {
+      id: photoId,
+      type: transcoded.type,
+      from: blob.size,
+      to: transcoded.size,
+    });
+    return transcoded;
+  } catch (error) {
+    api_logger.debug(`Could not transcode ${source} image`, {
+      id: photoId,
+      error: (error as Error).message,
+    });
+    return blob;
+  }
+}
+
 /**
  * Downloads a single image with individual retry logic
- * @param photo - Photo metadata from API
- * @param source - Image source (unsplash or pexels)
+ * @param metadata - Normalized photo metadata
  * @param expiresAt - Expiration timestamp
  * @param timestamp - Download timestamp
- * @returns Promise that resolves to ImageData or null if all retries fail
+ * @returns Promise that resolves to ImageData
+ * @throws The last attempt's error if every attempt failed, or the first
+ *   error that is permanent or carries a `Retry-After` time
  */
 async function downloadSingleImage(
-  photo: any,
-  source: "unsplash" | "pexels",
+  metadata: ProviderPhoto,
   expiresAt: number,
   timestamp: number,
-): Promise<ImageData | null> {
-  const photoId = source === "unsplash" ? photo.id : photo.id;
-  const imageUrl =
-    source === "unsplash" ? photo.urls.regular : photo.src.large2x;
-  const downloadUrl = source === "unsplash" ? photo.links.download : photo.url;
-  const author = source === "unsplash" ? photo.user.name : photo.photographer;
-  const authorUrl =
-    source === "unsplash" ? photo.user.links.html : photo.photographer_url;
+): Promise<ImageData> {
+  const source = metadata.source;
+  const photoId = metadata.id;
 
   let lastError: Error | null = null;
 
@@ -324,27 +477,50 @@ async function downloadSingleImage(
         attempt: attempt + 1,
       });
 
-      const blob = await downloadFile(imageUrl, {
+      const downloaded = await downloadFile(metadata.url, {
         maxRetries: 1, // Already handling retries here
       });
 
-      const contentHash = await hashBlob(blob);
+      // Hashed as downloaded, so copies of a photo match whatever the
+      // transcode settings were when each was stored
+      const contentHash = await hashBlob(downloaded);
+      const blob = await transcodeDownload(downloaded, source, photoId);
+      const perceptualHash = await computePerceptualHash(blob).catch(
+        (error: Error) => {
+          api_logger.debug(`Could not fingerprint ${source} image`, {
+            id: photoId,
+            error: error.message,
+          });
+          return undefined;
+        },
+      );
+      // Left for the thumbnail backfill if it fails here
+      const thumbnail = await createThumbnail(blob).catch((error: Error) => {
+        api_logger.debug(`Could not make a thumbnail of ${source} image`, {
+          id: photoId,
+          error: error.message,
+        });
+        return undefined;
+      });
+      // Sampled from the thumbnail, which decodes far faster than the image
+      const color =
+        metadata.color ??
+        (await computeAverageColor(thumbnail ?? blob).catch(() => undefined));
 
       api_logger.info(`Successfully downloaded ${source} image`, {
         id: photoId,
       });
 
       return {
-        id: `${source}_${photoId}`,
-        url: imageUrl,
+        ...metadata,
         blob,
-        source,
-        downloadUrl,
-        author,
-        authorUrl,
         timestamp,
         expiresAt,
         contentHash,
+        ...(perceptualHash ? { perceptualHash } : {}),
+        ...(thumbnail ? { thumbnail } : {}),
+        ...(color ? { color } : {}),
+        ...(blob !== downloaded ? { originalSize: downloaded.size } : {}),
       };
     } catch (error) {
       lastError = error as Error;
@@ -353,6 +529,8 @@ async function downloadSingleImage(
         attempt: attempt + 1,
         error: lastError.message,
       });
+      // The server said when to come back, which is later than a retry here
+      if (isPermanentDownloadError(error) || getDownloadRetryAt(error)) break;
 
       // Wait before retry (except on last attempt)
       if (attempt < DEFAULT_MAX_RETRIES - 1) {
@@ -362,203 +540,380 @@ async function downloadSingleImage(
     }
   }
 
-  api_logger.error(
-    `Failed to download ${source} image after ${DEFAULT_MAX_RETRIES} attempts`,
-    { id: photoId, lastError: lastError?.message },
+  api_logger.error(`Failed to download ${source} image`, {
+    id: photoId,
+    lastError: lastError?.message,
+  });
+  throw lastError ?? new Error("Download failed");
+}
+
+/**
+ * Applies the user's download concurrency limit, image size and transcode
+ * settings
+ * Takes effect from the next batch of downloads.
+ * @param settings - Extension settings
+ * @returns Promise that resolves once the reported screen is read
+ */
+async function applyDownloadSettings(settings: Settings): Promise<void> {
+  maxDownloadConcurrency =
+    settings.downloads?.maxConcurrency ?? DEFAULT_MAX_DOWNLOAD_CONCURRENCY;
+  transcodeSettings = settings.transcode ?? DEFAULT_TRANSCODE_SETTINGS;
+  imageSizeTarget = getImageSizeTarget(
+    await getDisplaySize(),
+    settings.downloads?.imageQuality,
   );
-  return null;
 }
 
 /**
- * Fetches random landscape images from Unsplash API
- * @param apiKey - Unsplash API key for authentication
- * @param keyword - Selected keyword for this batch
- * @returns Promise that resolves to array of ImageData objects
+ * Queues one image download on the shared scheduler
+ * The concurrency is first matched to the current connection speed, so slow
+ * links run fewer downloads side by side instead of timing out together.
+ * @param photo - Normalized photo metadata
+ * @param expiresAt - Expiration timestamp
+ * @param timestamp - Download timestamp
+ * @param priority - Start order relative to other queued downloads
+ * @returns Promise that resolves to the image
+ * @throws Error if the download failed after all retries
  */
-async function fetchUnsplashImages(
-  apiKey: string,
+export async function scheduleDownload(
+  photo: ProviderPhoto,
+  expiresAt: number,
+  timestamp: number,
+  priority: DownloadPriority,
+): Promise<ImageData> {
+  downloadScheduler.setMaxConcurrency(
+    getConcurrencyForSpeed(await getConnectionSpeed(), maxDownloadConcurrency),
+  );
+
+  return downloadScheduler.schedule(
+    () => downloadSingleImage(photo, expiresAt, timestamp),
+    priority,
+  );
+}
+
+/**
+ * Downloads every photo in a batch individually - failures won't affect others
+ * @param photos - Normalized photo metadata
+ * @param label - Source name (and keyword) used in log messages
+ * @param isPermanentCacheEnabled - Whether downloaded images should never expire
+ * @param priority - Start order relative to other queued downloads
+ * @returns Promise that resolves to the successfully downloaded images
+ */
+async function downloadPhotos(
+  photos: ProviderPhoto[],
+  label: string,
   isPermanentCacheEnabled: boolean,
-  keyword: string | null,
+  priority: DownloadPriority = "normal",
 ): Promise<ImageData[]> {
-  try {
-    if (!navigator.onLine) {
-      api_logger.warn("Network offline, skipping Unsplash fetch");
-      return [];
-    }
+  const now = Date.now();
+  const expiresAt = await computeExpiry(isPermanentCacheEnabled);
 
-    let url = `https://api.unsplash.com/photos/random?count=${UNSPLASH_IMAGES_COUNT}&orientation=landscape`;
+  api_logger.info(
+    `Queueing individual downloads for ${photos.length} ${label} images`,
+  );
+  const results = await Promise.allSettled(
+    photos.map((photo) => scheduleDownload(photo, expiresAt, now, priority)),
+  );
 
-    if (keyword) {
-      url += `&query=${encodeURIComponent(keyword)}`;
-    }
+  // Process results and track statistics
+  const successfulImages: ImageData[] = [];
+  let failed = 0;
 
-    api_logger.info(
-      `Fetching Unsplash images metadata${keyword ? ` with keyword: "${keyword}"` : " (random/curated)"}`,
-    );
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      successfulImages.push(result.value);
+    } else {
+      failed++;
+      api_logger.warn(`${label} image failed`, {
+        id: photos[index]!.id,
+        reason: result.reason?.message,
+      });
+    }
+  });
 
-    const response = await fetch(url, {
-      headers: { Authorization: `Client-ID ${apiKey}` },
-      signal: AbortSignal.timeout(API_REQUEST_TIMEOUT_MS),
-    });
+  api_logger.info(
+    `${label} results: ${successfulImages.length}/${photos.length} images downloaded successfully${failed > 0 ? `, ${failed} failed` : ""}`,
+  );
 
-    if (!response.ok) {
-      api_logger.error(
-        `Unsplash API Error: ${response.status} ${response.statusText}`,
-      );
-      throw new Error(`HTTP ${response.status} ${response.statusText}`);
-    }
+  return successfulImages;
+}
 
-    const data = await response.json();
-    const metadataCount = data.length;
-    api_logger.info(
-      `Received ${metadataCount} Unsplash image metadata entries`,
-    );
+/**
+ * Retries downloads from the retry queue
+ * Every entry is attempted once (with the usual per-download retries);
+ * entries that fail again are rescheduled with a longer backoff, or at the
+ * server's `Retry-After` time if that is later, unless the failure is
+ * permanent (see `isPermanentDownloadError`).
+ * @param entries - Due queue entries
+ * @param settings - Extension settings, for the download concurrency limit
+ * @returns Promise that resolves to the recovered images, the IDs to remove
+ *   from the queue (recovered or dropped) and the entries to reschedule
+ */
+export async function retryQueuedDownloads(
+  entries: RetryQueueEntry[],
+  settings?: Settings,
+): Promise<{
+  images: ImageData[];
+  recoveredIds: string[];
+  droppedIds: string[];
+  rescheduled: RetryQueueEntry[];
+}> {
+  const now = Date.now();
+  const images: ImageData[] = [];
+  const recoveredIds: string[] = [];
+  const droppedIds: string[] = [];
+  const rescheduled: RetryQueueEntry[] = [];
+
+  if (settings) await applyDownloadSettings(settings);
+
+  // Queued retries yield to downloads from a live refresh
+  const results = await Promise.allSettled(
+    entries.map(async (entry) =>
+      scheduleDownload(
+        entry.photo,
+        await computeExpiry(entry.permanent),
+        now,
+        "low",
+      ),
+    ),
+  );
 
-    const now = Date.now();
-    const expiresAt = await computeExpiry(isPermanentCacheEnabled);
+  results.forEach((result, index) => {
+    const entry = entries[index]!;
+    if (result.status === "fulfilled") {
+      images.push(result.value);
+      recoveredIds.push(entry.id);
+    } else if (isPermanentDownloadError(result.reason)) {
+      api_logger.warn("Dropping queued download that cannot succeed", {
+        id: entry.id,
+        reason: result.reason.message,
+      });
+      droppedIds.push(entry.id);
+    } else {
+      const attempts = entry.attempts + 1;
+      rescheduled.push({
+        ...entry,
+        attempts,
+        nextAttemptAt: Math.max(
+          Date.now() + getRetryQueueBackoff(attempts),
+          getDownloadRetryAt(result.reason) ?? 0,
+        ),
+        lastError:
+          result.status === "rejected"
+            ? String(result.reason?.message ?? result.reason)
+            : "Download failed",
+      });
+    }
+  });
 
-    // Download each image individually - failures won't affect others
-    api_logger.info(
-      `Starting individual downloads for ${metadataCount} Unsplash images`,
-    );
-    const downloadPromises = data.map((photo: any) =>
-      downloadSingleImage(photo, "unsplash", expiresAt, now),
-    );
+  api_logger.info(
+    `Retry queue: recovered ${recoveredIds.length}/${entries.length} download(s)${droppedIds.length > 0 ? `, dropped ${droppedIds.length}` : ""}`,
+  );
 
-    const results = await Promise.allSettled(downloadPromises);
+  return { images, recoveredIds, droppedIds, rescheduled };
+}
 
-    // Process results and track statistics
-    const successfulImages: ImageData[] = [];
-    let failedCount = 0;
+/**
+ * Fetches one batch of photo metadata from a provider
+ * @param provider - Provider to fetch from
+ * @param apiKey - API key for authentication
+ * @param keyword - Selected keyword for this batch
+ * @param count - Photos to ask for
+ * @param target - Collection or topic to fetch from instead of searching
+ * @param onResponse - Receives the raw API responses, e.g. to read rate limits
+ * @returns Promise that resolves to the normalized photo metadata
+ */
+async function fetchProviderPhotos(
+  provider: WallpaperProvider,
+  apiKey: string,
+  keyword: string | null,
+  count: number,
+  target?: CollectionTarget,
+  onResponse?: ResponseObserver,
+): Promise<ProviderPhoto[]> {
+  const name = provider.displayName;
+  const collection = target ? `${target.kind}:${target.id}` : undefined;
 
-    results.forEach((result, index) => {
-      if (result.status === "fulfilled" && result.value !== null) {
-        successfulImages.push(result.value);
-      } else {
-        failedCount++;
-        const photoId = data[index]?.id || `unknown_${index}`;
-        api_logger.warn("Unsplash image permanently failed", {
-          id: photoId,
-          reason:
-            result.status === "rejected"
-              ? result.reason?.message
-              : "Download failed",
-        });
-      }
-    });
+  try {
+    if (!navigator.onLine) {
+      api_logger.warn(`Network offline, skipping ${name} fetch`);
+      return [];
+    }
 
     api_logger.info(
-      `Unsplash results${keyword ? ` [${keyword}]` : ""}: ${successfulImages.length}/${metadataCount} images downloaded successfully${failedCount > 0 ? `, ${failedCount} failed` : ""}`,
+      `Fetching ${name} images metadata${
+        collection
+          ? ` from ${collection}`
+          : keyword
+            ? ` with keyword: "${keyword}"`
+            : " (random/curated)"
+      }`,
     );
 
-    return successfulImages;
+    const photos =
+      target && provider.fetchCollection
+        ? await provider.fetchCollection(apiKey, target, count, onResponse)
+        : await provider.fetchBatch(apiKey, keyword, count, onResponse);
+    api_logger.info(`Received ${photos.length} ${name} image metadata entries`);
+
+    return photos.map((photo) => ({
+      ...provider.normalizePhoto(photo, imageSizeTarget),
+      ...(collection ? { collection } : keyword ? { keyword } : {}),
+    }));
   } catch (error) {
-    api_logger.error("Unsplash API metadata fetch failed", { error });
+    api_logger.error(`${name} API metadata fetch failed`, { error });
     throw error;
   }
 }
 
 /**
- * Fetches landscape images from Pexels API (curated or search results)
- * @param apiKey - Pexels API key for authentication
- * @param keyword - Selected keyword for this batch
- * @returns Promise that resolves to array of ImageData objects
+ * Fetches and parses a custom JSON or RSS/Atom feed
+ * Goes through `downloadFile`, so the feed request gets the same retry and
+ * backoff behaviour as image downloads.
+ * @param feed - Custom feed settings
+ * @returns Promise that resolves to the image metadata listed in the feed
+ * @throws Error if the feed cannot be downloaded or parsed
  */
-async function fetchPexelsImages(
-  apiKey: string,
-  isPermanentCacheEnabled: boolean,
-  keyword: string | null,
-): Promise<ImageData[]> {
+export async function fetchCustomFeed(
+  feed: CustomFeedSettings,
+): Promise<ProviderPhoto[]> {
+  const headers =
+    feed.authHeader?.name && feed.authHeader.value
+      ? { [feed.authHeader.name]: feed.authHeader.value }
+      : undefined;
+
+  api_logger.info("Fetching custom feed", { url: feed.url });
+
+  const blob = await downloadFile(feed.url, headers ? { headers } : {});
+  const photos = parseFeed(await blob.text(), feed);
+
+  api_logger.info(`Received ${photos.length} custom feed entries`);
+  return photos;
+}
+
+/**
+ * Fetches the custom feed's photo metadata, capped at CUSTOM_FEED_MAX_ITEMS
+ * @param feed - Custom feed settings
+ * @returns Promise that resolves to the photos to download
+ */
+async function fetchCustomFeedPhotos(
+  feed: CustomFeedSettings,
+): Promise<ProviderPhoto[]> {
   try {
     if (!navigator.onLine) {
-      api_logger.warn("Network offline, skipping Pexels fetch");
+      api_logger.warn("Network offline, skipping custom feed fetch");
       return [];
     }
 
-    let url: string;
-    if (keyword) {
-      url = `https://api.pexels.com/v1/search?query=${encodeURIComponent(
-        keyword,
-      )}&per_page=${PEXELS_IMAGES_COUNT}&orientation=landscape`;
-    } else {
-      url = `https://api.pexels.com/v1/curated?per_page=${PEXELS_IMAGES_COUNT}&page=${getRandomIndex(10) + 1}`;
-    }
+    const photos = await fetchCustomFeed(feed);
+    return photos.slice(0, CUSTOM_FEED_MAX_ITEMS);
+  } catch (error) {
+    api_logger.error("Custom feed fetch failed", { error });
+    throw error;
+  }
+}
 
-    api_logger.info(
-      `Fetching Pexels images metadata${keyword ? ` with keyword: "${keyword}"` : " (curated)"}`,
-    );
+/**
+ * Fetches the pictures of the day that are still missing for every enabled
+ * daily provider. A provider's first run backfills the configured number of
+ * days; later runs only pick up days published since the last one.
+ * A day that fails (network error, not yet published, failed download) stops
+ * that provider's run so it is retried on the next check.
+ * @param settings - Extension settings
+ * @param state - Last day processed per provider
+ * @returns Downloaded images and the updated fetch state
+ */
+export async function fetchDailyImages(
+  settings: Settings,
+  state: DailyFetchState,
+): Promise<{ images: ImageData[]; state: DailyFetchState }> {
+  const daily = settings.dailyImages;
+  const nextState: DailyFetchState = { ...state };
+  const images: ImageData[] = [];
+
+  if (!daily || daily.providers.length === 0) {
+    return { images, state: nextState };
+  }
 
-    const response = await fetch(url, {
-      headers: { Authorization: apiKey },
-      signal: AbortSignal.timeout(API_REQUEST_TIMEOUT_MS),
-    });
+  await applyDownloadSettings(settings);
 
-    if (!response.ok) {
-      api_logger.error(`Error: ${response.status} ${response.statusText}`);
-      throw new Error(`HTTP ${response.status} ${response.statusText}`);
-    }
+  const today = formatDay(new Date());
 
-    const data = await response.json();
-    const metadataCount = data.photos.length;
-    api_logger.info(`Received ${metadataCount} Pexels image metadata entries`);
+  for (const id of daily.providers) {
+    const provider = getDailyProvider(id);
+    if (!provider) continue;
 
-    const now = Date.now();
-    const expiresAt = await computeExpiry(isPermanentCacheEnabled);
+    const days = getDaysToFetch(
+      state[id],
+      today,
+      daily.backfillDays ?? DEFAULT_DAILY_BACKFILL_DAYS,
+      provider.maxBackfillDays,
+    );
+    if (days.length === 0) {
+      api_logger.debug(`${provider.displayName} is up to date`);
+      continue;
+    }
 
-    // Download each image individually - failures won't affect others
     api_logger.info(
-      `Starting individual downloads for ${metadataCount} Pexels images`,
-    );
-    const downloadPromises = data.photos.map((photo: any) =>
-      downloadSingleImage(photo, "pexels", expiresAt, now),
+      `Fetching ${days.length} ${provider.displayName} picture(s) of the day`,
     );
 
-    const results = await Promise.allSettled(downloadPromises);
-
-    // Process results and track statistics
-    const successfulImages: ImageData[] = [];
-    let failedCount = 0;
-
-    results.forEach((result, index) => {
-      if (result.status === "fulfilled" && result.value !== null) {
-        successfulImages.push(result.value);
-      } else {
-        failedCount++;
-        const photoId = data.photos[index]?.id || `unknown_${index}`;
-        api_logger.warn("Pexels image permanently failed", {
-          id: photoId,
-          reason:
-            result.status === "rejected"
-              ? result.reason?.message
-              : "Download failed",
+    const fetched: { day: string; photo: ProviderPhoto | null }[] = [];
+    for (const day of days) {
+      try {
+        fetched.push({
+          day,
+          photo: await provider.fetchDay(day, daily.nasaApiKey),
         });
+      } catch (error) {
+        api_logger.warn(`${provider.displayName} lookup failed for ${day}`, {
+          error: (error as Error).message,
+        });
+        break;
       }
-    });
+    }
 
-    api_logger.info(
-      `Pexels results${keyword ? ` [${keyword}]` : ""}: ${successfulImages.length}/${metadataCount} images downloaded successfully${failedCount > 0 ? `, ${failedCount} failed` : ""}`,
+    const photos = fetched.flatMap((entry) => (entry.photo ? [entry.photo] : []));
+    // A handful of pictures the user is waiting on; start them first
+    const downloaded = await downloadPhotos(
+      photos,
+      provider.displayName,
+      settings.cache.permanentMode,
+      "high",
+    );
+    images.push(...downloaded);
+
+    // Only advance past days whose image actually made it. Failed days are
+    // not queued for a retry: the next daily check fetches every day still
+    // missing.
+    const downloadedIds = new Set(downloaded.map((image) => image.id));
+    const firstMissing = fetched.find(
+      (entry) => entry.photo && !downloadedIds.has(entry.photo.id),
     );
+    const lastDone = firstMissing
+      ? addDays(firstMissing.day, -1)
+      : fetched[fetched.length - 1]?.day;
 
-    return successfulImages;
-  } catch (error) {
-    api_logger.error(`Pexels API metadata fetch failed: ${error}`);
-    throw error;
+    if (lastDone && (!state[id] || lastDone > state[id])) {
+      nextState[id] = lastDone;
+    }
   }
-}
 
-/**
- * Fetches from all API keys in parallel: 30 images per Unsplash key, 80 per Pexels key
- * @returns
- */
+  return { images, state: nextState };
+}
 
 /**
- * Fetches images from all configured API sources
+ * Fetches photo metadata from all configured API sources
+ * Downloading is left to the caller, so a refresh can persist the list and
+ * commit images one at a time.
  *
  * @param settings
- * @returns Promise that resolves to array of ImageData objects from all sources
- * @throws
+ * @returns Promise that resolves to the photos to download from all sources
+ * @throws If offline, no request could be made or every request failed
  */
-export async function fetchAllImages(settings: Settings): Promise<ImageData[]> {
+export async function fetchAllPhotos(
+  settings: Settings,
+): Promise<ProviderPhoto[]> {
   if (!navigator.onLine) {
     api_logger.warn("Network offline, skipping fetch");
     throw new Error("Network offline");
@@ -569,75 +924,270 @@ export async function fetchAllImages(settings: Settings): Promise<ImageData[]> {
   const startTime = Date.now();
 
   api_logger.debug(`Fetch start time ${startTime}`);
-  const unsplashKeyCount = settings.apiKeys.unsplash.length;
-  const pexelsKeyCount = settings.apiKeys.pexels.length;
-  const expectedUnsplashImages = unsplashKeyCount * UNSPLASH_IMAGES_COUNT;
-  const expectedPexelsImages = pexelsKeyCount * PEXELS_IMAGES_COUNT;
-  const expectedTotalImages = expectedUnsplashImages + expectedPexelsImages;
-
-  // Select ONE keyword sequentially for this entire fetch session
-  // Both Unsplash and Pexels will use the same keyword
-  const selectedKeyword = await getNextKeywordSequentially(
-    settings.searchPreferences.unsplashKeywords,
-    settings.searchPreferences.pexelsKeywords,
+  await applyDownloadSettings(settings);
+  const providers = getProviders();
+  const keywordsPerRefresh = Math.min(
+    MAX_KEYWORDS_PER_REFRESH,
+    Math.max(
+      1,
+      settings.searchPreferences.keywordsPerRefresh ??
+        DEFAULT_KEYWORDS_PER_REFRESH,
+    ),
   );
 
+  // Each provider draws from its own keyword rotation. Every usable key adds
+  // one batch, split across `keywordsPerRefresh` keywords taken in turn.
+  // Requests are then handed to whichever key has the most quota left.
+  // Providers and keys whose circuit breaker is open are skipped; half-open
+  // ones get a single probe request.
+  const requests: {
+    provider: WallpaperProvider;
+    key: string;
+    keyword: string | null;
+    count: number;
+    target?: CollectionTarget;
+  }[] = [];
+  const now = Date.now();
+  const circuits = await getCircuitBreakers();
+  const storedQuotas = await getKeyQuotas();
+
+  for (const provider of providers) {
+    const keys = settings.apiKeys[provider.id] ?? [];
+    if (keys.length === 0) continue;
+
+    const providerCircuit = circuits[providerCircuitId(provider.id)];
+    const providerState = getCircuitState(providerCircuit, now);
+    if (providerState === "open") {
+      api_logger.warn(
+        `${provider.displayName} circuit open until ${new Date(providerCircuit?.retryAt ?? now).toLocaleTimeString()}, skipping`,
+      );
+      continue;
+    }
+
+    const quotas: Record<string, KeyQuota | undefined> = {};
+    const maxPerKey: Record<string, number> = {};
+    for (const key of keys) {
+      quotas[key] = storedQuotas[`${provider.id}_${key}`];
+      const keyState = getCircuitState(
+        circuits[keyCircuitId(provider.id, key)],
+        now,
+      );
+      if (keyState !== "closed") maxPerKey[key] = keyState === "open" ? 0 : 1;
+    }
+    const usableKeys = keys.filter(
+      (key) => getHeadroom(quotas[key], now) > 0 && maxPerKey[key] !== 0,
+    );
+    if (usableKeys.length === 0) {
+      api_logger.warn(
+        `All ${provider.displayName} keys are rate limited or paused, skipping this refresh`,
+      );
+      continue;
+    }
+
+    const keywords = await getNextKeywords(
+      provider.id,
+      settings.searchPreferences[`${provider.id}Keywords`] ?? "",
+      usableKeys.length * keywordsPerRefresh,
+    );
+
+    const planned: Omit<(typeof requests)[number], "provider" | "key">[] = [];
+    for (let i = 0; i < usableKeys.length; i++) {
+      const slots = keywords.slice(
+        i * keywordsPerRefresh,
+        (i + 1) * keywordsPerRefresh,
+      );
+      planned.push(...splitBatch(slots, provider.batchSize));
+    }
+
+    // Subscribed collections and topics each get a full batch
+    for (const target of settings.collections?.[provider.id] ?? []) {
+      if (
+        provider.fetchCollection &&
+        provider.collectionKinds?.includes(target.kind)
+      ) {
+        planned.push({ keyword: null, count: provider.batchSize, target });
+      }
+    }
+
+    if (providerState === "half-open") {
+      api_logger.info(`Probing ${provider.displayName} after circuit backoff`);
+      planned.splice(1);
+    }
+
+    const assignedKeys = assignKeys(
+      usableKeys,
+      quotas,
+      planned.length,
+      now,
+      maxPerKey,
+    );
+    if (assignedKeys.length < planned.length) {
+      api_logger.warn(
+        `${provider.displayName} quota only covers ${assignedKeys.length}/${planned.length} requests`,
+      );
+    }
+    assignedKeys.forEach((key, i) => {
+      requests.push({ provider, key, ...planned[i]! });
+    });
+  }
+
+  const expectedByProvider = providers.map((provider) =>
+    requests
+      .filter((request) => request.provider === provider)
+      .reduce((sum, request) => sum + request.count, 0),
+  );
+  const feed = isCustomFeedActive(settings) ? settings.customFeed : undefined;
+  const expectedFeedImages = feed ? CUSTOM_FEED_MAX_ITEMS : 0;
+  const expectedTotalImages =
+    expectedByProvider.reduce((a, b) => a + b, 0) + expectedFeedImages;
+
   api_logger.info(
-    `Starting image fetch - Expected: ${expectedTotalImages} images (${expectedUnsplashImages} Unsplash + ${expectedPexelsImages} Pexels)`,
+    `Starting image fetch - Expected: ${expectedTotalImages} images (${providers
+      .map((provider, i) => `${expectedByProvider[i]} ${provider.displayName}`)
+      .join(" + ")}${feed ? ` + up to ${expectedFeedImages} Custom feed` : ""})`,
   );
 
+  // Rate limit headers seen during this fetch, saved once it settles
+  const quotaUpdates: Record<string, KeyQuota> = {};
+  const observeQuota =
+    (provider: WallpaperProvider, key: string): ResponseObserver =>
+    (response) => {
+      const quota = readKeyQuota(response, Date.now());
+      if (!quota) return;
+      const keyHash = `${provider.id}_${key}`;
+      quotaUpdates[keyHash] = { ...quotaUpdates[keyHash], ...quota };
+      if (quota.cooldownUntil) {
+        api_logger.warn(
+          `${provider.displayName} key rate limited until ${new Date(quota.cooldownUntil).toLocaleTimeString()}`,
+        );
+      }
+    };
+
+  // Successes close the provider's and key's breakers; failures count
+  // against whichever one the error points at
+  const trackCircuit = (
+    provider: WallpaperProvider,
+    key: string,
+    request: Promise<ProviderPhoto[]>,
+  ): Promise<ProviderPhoto[]> =>
+    request.then(
+      (photos) => {
+        delete circuits[providerCircuitId(provider.id)];
+        delete circuits[keyCircuitId(provider.id, key)];
+        return photos;
+      },
+      (error) => {
+        const scope = classifyFailure(error);
+        const id =
+          scope === "key"
+            ? keyCircuitId(provider.id, key)
+            : providerCircuitId(provider.id);
+        const label =
+          scope === "key"
+            ? `${provider.displayName} key …${key.slice(-4)}`
+            : provider.displayName;
+        const record = recordFailure(
+          circuits[id],
+          { scope, label },
+          (error as Error)?.message ?? String(error),
+          Date.now(),
+        );
+        if (record.state === "open") {
+          api_logger.warn(
+            `${label} circuit opened after ${record.failures} failure(s), retrying after ${new Date(record.retryAt!).toLocaleTimeString()}`,
+          );
+        }
+        circuits[id] = record;
+        throw error;
+      },
+    );
+
   try {
-    const promises: Promise<ImageData[]>[] = [
-      ...settings.apiKeys.unsplash.map((key) =>
-        fetchUnsplashImages(key, settings.cache.permanentMode, selectedKeyword),
-      ),
-      ...settings.apiKeys.pexels.map((key) =>
-        fetchPexelsImages(key, settings.cache.permanentMode, selectedKeyword),
-      ),
-    ];
+    const promises: Promise<ProviderPhoto[]>[] = requests.map(
+      ({ provider, key, keyword, count, target }) =>
+        trackCircuit(
+          provider,
+          key,
+          fetchProviderPhotos(
+            provider,
+            key,
+            keyword,
+            count,
+            target,
+            observeQuota(provider, key),
+          ),
+        ),
+    );
+
+    if (feed) {
+      promises.push(fetchCustomFeedPhotos(feed));
+    }
 
     if (promises.length === 0) {
+      if (providers.some((p) => (settings.apiKeys[p.id] ?? []).length > 0)) {
+        throw new Error("All API keys are rate limited or paused");
+      }
       api_logger.warn("No API keys configured");
       throw new Error("No Api Keys Configured");
     }
 
-    const results = await Promise.all(promises);
-    const allImages = results.flat();
+    // Let every request settle so all breaker and quota updates are saved,
+    // and keep what the others returned when some fail
+    const settled = await Promise.allSettled(promises);
+    settled.forEach((result, i) => {
+      if (result.status === "fulfilled") return;
+      const source = requests[i]?.provider.displayName ?? "Custom feed";
+      api_logger.warn(`${source} request failed`, { error: result.reason });
+    });
+    const failed = settled.filter((result) => result.status === "rejected");
+    if (failed.length === settled.length) throw failed[0]!.reason;
+    const allPhotos = settled.flatMap((result) =>
+      result.status === "fulfilled" ? result.value : [],
+    );
 
     const duration = Date.now() - startTime;
     const successRate =
       expectedTotalImages > 0
-        ? ((allImages.length / expectedTotalImages) * 100).toFixed(1)
+        ? ((allPhotos.length / expectedTotalImages) * 100).toFixed(1)
         : "0";
 
     api_logger.info(`Fetch completed in ${Date.now()} Taking: ${duration}ms`);
-    api_logger.info(`Retrieved: ${allImages.length}/${expectedTotalImages}`);
+    api_logger.info(`Retrieved: ${allPhotos.length}/${expectedTotalImages}`);
     api_logger.info(`Fetch success rate: (${successRate}%)`);
 
     // Warn if success rate is below 80%
-    if (allImages.length < expectedTotalImages * 0.8) {
-      const missedImages = expectedTotalImages - allImages.length;
+    if (allPhotos.length < expectedTotalImages * 0.8) {
+      const missedImages = expectedTotalImages - allPhotos.length;
       api_logger.warn(
-        `Low success rate detected: ${missedImages} images failed to download`,
+        `Low success rate detected: ${missedImages} images missing from API responses`,
       );
     }
 
-    return allImages;
+    return allPhotos;
   } catch (error) {
     api_logger.error(`An unexpected error occurred`, { error });
     throw error;
+  } finally {
+    await saveKeyQuotas(quotaUpdates).catch((error) =>
+      api_logger.error("Failed to save API key rate limits", { error }),
+    );
+    if (requests.length > 0) {
+      await saveCircuitBreakers(circuits).catch((error) =>
+        api_logger.error("Failed to save circuit breakers", { error }),
+      );
+    }
   }
 }
 
 /**
  * Tests an API key for validity and rate limit status
  * Makes a lightweight request to verify the key works and hasn't exceeded limits
- * @param source - The image source service ('unsplash' or 'pexels')
+ * @param source - The provider the key belongs to
  * @param key - The API key to test
  * @returns Promise resolving to true if key is valid and working
  */
 export async function testApiKey(
-  source: "unsplash" | "pexels",
+  source: ProviderId,
   key: string,
 ): Promise<boolean> {
   try {
@@ -646,31 +1196,20 @@ export async function testApiKey(
       return false;
     }
 
-    api_logger.debug("Testing the provided api key");
+    const provider = getProvider(source);
+    if (!provider) {
+      api_logger.warn(`API key test failed: Unknown provider (${source})`);
+      return false;
+    }
 
-    let response: Response;
+    api_logger.debug("Testing the provided api key");
 
-    if (source === "unsplash") {
-      // Use lightweight endpoint to test key
-      response = await fetch("https://api.unsplash.com/photos/random?count=1", {
-        headers: {
-          Authorization: `Client-ID ${key}`,
-          "Accept-Version": "v1",
-        },
-      });
+    const response = await provider.testKey(key);
 
-      if (response.ok) api_logger.debug("Your unsplash api key is valid");
-    } else {
-      // Use curated endpoint for Pexels (lighter than search)
-      response = await fetch("https://api.pexels.com/v1/curated?per_page=1", {
-        headers: {
-          Authorization: key,
-          Accept: "application/json",
-        },
-      });
+    if (response.ok) api_logger.debug(`Your ${source} api key is valid`);
 
-      if (response.ok) api_logger.debug("Your pexels api key is valid");
-    }
+    const quota = readKeyQuota(response, Date.now());
+    if (quota) await saveKeyQuotas({ [`${source}_${key}`]: quota });
 
     // Check for specific error conditions
     if (response.status === 401) {
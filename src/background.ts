@@ -8,6 +8,12 @@
 
 import {
   ALARM_NAME,
+  DAILY_ALARM_NAME,
+  RETRY_QUEUE_ALARM_NAME,
+  RETRY_QUEUE_CHECK_INTERVAL_MINUTES,
+  INTEGRITY_SCAN_ALARM_NAME,
+  INTEGRITY_SCAN_INTERVAL_HOURS,
+  DAILY_CHECK_INTERVAL_HOURS,
   IMMEDIATE_FETCH_COOLDOWN_MS,
   REFRESH_INTERVAL_HOURS,
   DEFAULT_CONFIG,
@@ -15,10 +21,22 @@ import {
 } from "./config";
 import { initDB, getLastFetchTime } from "./db";
 import { Logger } from "./logger";
-import { getSettings } from "./storage";
+import {
+  getCircuitBreakers,
+  getSettings,
+  saveDisplaySize,
+} from "./storage";
+import { readDisplaySize } from "./display";
+import { summarizeCircuits } from "./circuitBreaker";
+import { getDownloadProgress } from "./api";
+import { getLockDiagnostics } from "./locks";
 import {
   backgroundState,
   refreshImages,
+  refreshDailyImages,
+  drainRetryQueue,
+  scanCacheIntegrity,
+  backfillThumbnails,
   shouldRefreshImages,
   getCurrentImageId,
   setCurrentImageId,
@@ -61,6 +79,123 @@ function setupRefreshAlarm(): void {
   }
 }
 
+/**
+ * Schedules the picture-of-the-day check, which runs on its own cadence
+ * rather than the regular refresh interval
+ */
+function setupDailyAlarm(): void {
+  try {
+    chrome.alarms.create(DAILY_ALARM_NAME, {
+      periodInMinutes: DAILY_CHECK_INTERVAL_HOURS * 60,
+    });
+    background_logger.info(
+      `Daily image alarm configured: every ${DAILY_CHECK_INTERVAL_HOURS} hours`,
+    );
+  } catch (error) {
+    background_logger.error("Failed to setup daily image alarm:", error);
+  }
+}
+
+/**
+ * Runs a picture-of-the-day refresh without letting failures propagate
+ * @param reason - Why the refresh was started, for logging
+ */
+function runDailyRefresh(reason: string): void {
+  refreshDailyImages()
+    .then((stored) => {
+      background_logger.debug(
+        `Daily image refresh (${reason}) finished, ${stored} new image(s)`,
+      );
+    })
+    .catch((error) => {
+      background_logger.error(`Daily image refresh (${reason}) failed:`, error);
+    });
+}
+
+/**
+ * Schedules the periodic drain of the failed-download retry queue
+ */
+function setupRetryQueueAlarm(): void {
+  try {
+    chrome.alarms.create(RETRY_QUEUE_ALARM_NAME, {
+      periodInMinutes: RETRY_QUEUE_CHECK_INTERVAL_MINUTES,
+    });
+    background_logger.info(
+      `Retry queue alarm configured: every ${RETRY_QUEUE_CHECK_INTERVAL_MINUTES} minutes`,
+    );
+  } catch (error) {
+    background_logger.error("Failed to setup retry queue alarm:", error);
+  }
+}
+
+/**
+ * Drains the retry queue without letting failures propagate
+ * @param reason - Why the drain was started, for logging
+ */
+function runRetryQueueDrain(reason: string): void {
+  drainRetryQueue()
+    .then((stored) => {
+      background_logger.debug(
+        `Retry queue drain (${reason}) finished, ${stored} image(s) recovered`,
+      );
+    })
+    .catch((error) => {
+      background_logger.error(`Retry queue drain (${reason}) failed:`, error);
+    });
+}
+
+/**
+ * Schedules the periodic cache integrity scan
+ */
+function setupIntegrityScanAlarm(): void {
+  try {
+    chrome.alarms.create(INTEGRITY_SCAN_ALARM_NAME, {
+      periodInMinutes: INTEGRITY_SCAN_INTERVAL_HOURS * 60,
+    });
+    background_logger.info(
+      `Cache integrity scan alarm configured: every ${INTEGRITY_SCAN_INTERVAL_HOURS} hours`,
+    );
+  } catch (error) {
+    background_logger.error("Failed to setup cache integrity alarm:", error);
+  }
+}
+
+/**
+ * Runs a cache integrity scan without letting failures propagate
+ * @param reason - Why the scan was started, for logging
+ */
+function runIntegrityScan(reason: string): void {
+  scanCacheIntegrity()
+    .then((report) => {
+      background_logger.debug(
+        `Cache integrity scan (${reason}) finished`,
+        report,
+      );
+    })
+    .catch((error) => {
+      background_logger.error(
+        `Cache integrity scan (${reason}) failed:`,
+        error,
+      );
+    });
+}
+
+/**
+ * Makes missing thumbnails without letting failures propagate
+ * @param reason - Why the backfill was started, for logging
+ */
+function runThumbnailBackfill(reason: string): void {
+  backfillThumbnails()
+    .then((made) => {
+      background_logger.debug(
+        `Thumbnail backfill (${reason}) finished: ${made ?? "already running"}`,
+      );
+    })
+    .catch((error) => {
+      background_logger.error(`Thumbnail backfill (${reason}) failed:`, error);
+    });
+}
+
 /**
  * Handles alarm events with enhanced logging and error recovery
  * Processes periodic refresh alarms and provides detailed status reporting
@@ -81,6 +216,13 @@ function handleAlarmEvent(alarm: chrome.alarms.Alarm): void {
         background_logger.error("Scheduled refresh failed:", error);
         backgroundState.failedFetches++;
       });
+  } else if (alarm.name === DAILY_ALARM_NAME) {
+    runDailyRefresh("alarm");
+  } else if (alarm.name === RETRY_QUEUE_ALARM_NAME) {
+    runRetryQueueDrain("alarm");
+  } else if (alarm.name === INTEGRITY_SCAN_ALARM_NAME) {
+    runIntegrityScan("alarm");
+    runThumbnailBackfill("alarm");
   } else {
     background_logger.warn(`Unknown alarm received: ${alarm.name}`);
   }
@@ -89,6 +231,12 @@ function handleAlarmEvent(alarm: chrome.alarms.Alarm): void {
 // Register alarm event listener
 chrome.alarms.onAlarm.addListener(handleAlarmEvent);
 
+// Retry failed downloads as soon as the connection comes back
+self.addEventListener("online", () => {
+  background_logger.info("Back online - draining download retry queue");
+  runRetryQueueDrain("online");
+});
+
 /**
  * Enhanced initialization on extension install or update
  * Provides comprehensive setup with detailed logging and error handling
@@ -109,6 +257,11 @@ async function handleExtensionInstall(
     // Set up alarm system
     background_logger.debug("Setting up refresh alarm...");
     setupRefreshAlarm();
+    setupDailyAlarm();
+    setupRetryQueueAlarm();
+    setupIntegrityScanAlarm();
+    runDailyRefresh("install");
+    runThumbnailBackfill("install");
 
     // Check if initial fetch is needed
     const needsRefresh = await shouldRefreshImages();
@@ -167,6 +320,19 @@ chrome.runtime.onStartup.addListener(async () => {
     setupRefreshAlarm();
   }
 
+  if (!(await chrome.alarms.get(DAILY_ALARM_NAME))) {
+    setupDailyAlarm();
+  }
+  if (!(await chrome.alarms.get(RETRY_QUEUE_ALARM_NAME))) {
+    setupRetryQueueAlarm();
+  }
+  if (!(await chrome.alarms.get(INTEGRITY_SCAN_ALARM_NAME))) {
+    setupIntegrityScanAlarm();
+  }
+  runDailyRefresh("startup");
+  runRetryQueueDrain("startup");
+  runThumbnailBackfill("startup");
+
   // Check if we need to refresh
   if (await shouldRefreshImages()) {
     background_logger.info(
@@ -233,11 +399,12 @@ chrome.runtime.onMessage.addListener(
 
         (async () => {
           try {
-            await refreshImages();
+            const report = await refreshImages();
             background_logger.info("Force refresh completed successfully");
             sendResponse({
               success: true,
               message: "Images force refreshed successfully",
+              report,
             });
           } catch (error: any) {
             background_logger.error("Force refresh failed:", error);
@@ -328,6 +495,31 @@ chrome.runtime.onMessage.addListener(
         return true; // Keep channel open for async response
       }
 
+      // Handle a new tab reporting its screen, which downloads are sized for
+      if (message.action === "reportDisplaySize") {
+        const size = readDisplaySize(message.size, Date.now());
+        if (!size) {
+          sendResponse({ success: false, error: "Invalid display size" });
+          return false;
+        }
+
+        (async () => {
+          try {
+            const updated = await saveDisplaySize(size);
+            if (updated) {
+              background_logger.info(
+                `Downloads will be sized for ${size.width}×${size.height} at ${size.devicePixelRatio}×`,
+              );
+            }
+            sendResponse({ success: true, updated });
+          } catch (error: any) {
+            background_logger.error("Failed to save display size:", error);
+            sendResponse({ success: false, error: error.message });
+          }
+        })();
+        return true; // Keep channel open for async response
+      }
+
       // Handle settings update notification
       // This is fired when the options page saves settings and notifies the
       // background worker so it can apply them immediately (e.g. log level change).
@@ -341,6 +533,9 @@ chrome.runtime.onMessage.addListener(
           background_logger.info(`Log level updated to: ${level}`);
         }
 
+        // Newly enabled daily providers are backfilled right away
+        runDailyRefresh("settings update");
+
         background_logger.info("Settings updated, will apply on next refresh");
         sendResponse({
           success: true,
@@ -404,16 +599,60 @@ chrome.runtime.onMessage.addListener(
       // Handle requests for background statistics
       if (message.action === "getBackgroundStats") {
         background_logger.debug("Background statistics requested");
-        const uptime = Date.now() - backgroundState.startTime;
-        const stats = {
-          ...backgroundState,
-          uptime,
-          uptimeFormatted: formatDuration(uptime),
-          lastActivity:
-            backgroundState.lastRefresh || backgroundState.startTime,
-        };
-        sendResponse({ success: true, stats });
-        return false;
+        (async () => {
+          try {
+            const now = Date.now();
+            const uptime = now - backgroundState.startTime;
+            const circuits = summarizeCircuits(
+              await getCircuitBreakers(),
+              now,
+            );
+            const stats = {
+              ...backgroundState,
+              uptime,
+              uptimeFormatted: formatDuration(uptime),
+              lastActivity:
+                backgroundState.lastRefresh || backgroundState.startTime,
+              circuits,
+              downloads: getDownloadProgress(),
+              locks: await getLockDiagnostics(),
+            };
+            sendResponse({ success: true, stats });
+          } catch (error: any) {
+            background_logger.error(
+              "Failed to gather background stats:",
+              error,
+            );
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to get background stats",
+            });
+          }
+        })();
+        return true; // Keep channel open for async response
+      }
+
+      // Handle on-demand cache integrity scans from the options page
+      if (message.action === "scanCacheIntegrity") {
+        background_logger.info("Cache integrity scan requested");
+
+        (async () => {
+          try {
+            const report = await scanCacheIntegrity();
+            sendResponse(
+              report
+                ? { success: true, report }
+                : { success: false, error: "A scan is already running" },
+            );
+          } catch (error: any) {
+            background_logger.error("Cache integrity scan failed:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to scan the cache",
+            });
+          }
+        })();
+        return true; // Keep channel open for async response
       }
 
       // Handle force refresh cache requests (ignores permanent cache setting)
@@ -424,9 +663,9 @@ chrome.runtime.onMessage.addListener(
         // Use async IIFE to properly handle the response
         (async () => {
           try {
-            await refreshImages();
+            const report = await refreshImages();
             background_logger.info("Force refresh completed successfully");
-            sendResponse({ success: true });
+            sendResponse({ success: true, report });
           } catch (error) {
             background_logger.error("Force refresh failed:", error);
             sendResponse({ success: false, error: "Failed to refresh cache" });
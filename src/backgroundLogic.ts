@@ -12,17 +12,64 @@ import {
   getLastFetchTime,
   setLastFetchTime,
   storeImages,
+  readImageStoreState,
   getValidImageCount,
+  getImageCountBySource,
+  getDueRetries,
+  pruneRetryQueue,
+  updateRetryQueue,
+  queueFailedDownloads,
+  getRefreshJob,
+  saveRefreshJob,
+  deleteRefreshJob,
+  getImageIds,
+  getImageById,
+  setImageHashes,
+  flagUnreadableImage,
+  deleteImage,
+  getImageIdsWithoutThumbnail,
+  setThumbnail,
 } from "./db";
 import { getFallbackImages, clearFallbackImages } from "./fallback";
-import { areApiKeysConfigured } from "./utils";
-import { fetchAllImages } from "./api";
-import { getSettings } from "./storage";
+import {
+  areApiKeysConfigured,
+  computeExpiry,
+  createRetryEntry,
+  hashBlob,
+} from "./utils";
+import {
+  fetchAllPhotos,
+  fetchDailyImages,
+  getDownloadRetryAt,
+  isPermanentDownloadError,
+  retryQueuedDownloads,
+  scheduleDownload,
+} from "./api";
+import {
+  createRefreshJob,
+  getPendingItems,
+  isRefreshJobStale,
+  summarizeRefreshJob,
+  updateRefreshJobItem,
+} from "./refreshJob";
+import { withLockIfAvailable } from "./locks";
+import { computePerceptualHash, isImageDecodeError } from "./perceptualHash";
+import { isEvictionProtected } from "./budget";
+import { createThumbnail } from "./transcode";
+import {
+  getSettings,
+  getDailyFetchState,
+  saveDailyFetchState,
+} from "./storage";
 import {
   REFRESH_INTERVAL_MS,
   REFRESH_INTERVAL_HOURS,
   MIN_STORAGE_THRESHOLD_GB,
+  DEFAULT_RETRY_QUEUE_MAX_AGE_HOURS,
+  RETRY_QUEUE_BATCH_SIZE,
+  REFRESH_LOCK_NAME,
 } from "./config";
+import type { ImageData, ImageMetadata, RefreshJob } from "./config";
 
 const background_logger = new Logger("Service Worker");
 
@@ -44,10 +91,57 @@ export interface BackgroundState {
   settingsUpdateCount: number;
   apiKeyUpdateCount: number;
   isFetching: boolean;
+  /** Whether a picture-of-the-day refresh is in progress */
+  isFetchingDaily: boolean;
+  /** Whether the download retry queue is being drained */
+  isDrainingRetries: boolean;
   /**
    * The last known image ID currently displayed (for cross-context sync)
    */
   currentImageId: string | null;
+  /** Outcome of the last refresh that got as far as downloading */
+  lastRefreshReport: RefreshReport | null;
+  /** Whether the cache integrity scan is running */
+  isScanningCache: boolean;
+  /** Outcome of the last cache integrity scan */
+  lastCacheScan: CacheScanReport | null;
+  /** Whether thumbnails are being made for images stored without one */
+  isBackfillingThumbnails: boolean;
+}
+
+/**
+ * What a refresh stored, and what it could not
+ */
+export interface RefreshReport {
+  /** Images downloaded and stored */
+  stored: number;
+  /** Images whose download failed; they are queued for a retry */
+  failed: number;
+  /** Images whose download failed in a way a retry cannot fix, e.g. 404 */
+  dropped: number;
+  /** Images downloaded but not stored because the storage quota was full */
+  skipped: number;
+  /** Older images deleted to make room during this run */
+  evicted: number;
+}
+
+/**
+ * What a cache integrity scan checked and fixed
+ */
+export interface CacheScanReport {
+  finishedAt: number;
+  /** Images whose blob was read */
+  scanned: number;
+  /** Images stored without a content hash, now hashed */
+  rehashed: number;
+  /** Images whose stored hash did not match their blob, now corrected */
+  hashMismatches: number;
+  /** Images stored without a perceptual hash, now fingerprinted */
+  fingerprinted: number;
+  /** Images whose blob could not be decoded, deleted */
+  corruptDeleted: number;
+  /** Favourites and local images that could not be decoded, flagged instead */
+  corruptFlagged: number;
 }
 
 export const backgroundState: BackgroundState = {
@@ -62,7 +156,13 @@ export const backgroundState: BackgroundState = {
   settingsUpdateCount: 0,
   apiKeyUpdateCount: 0,
   isFetching: false,
+  isFetchingDaily: false,
+  isDrainingRetries: false,
   currentImageId: null,
+  lastRefreshReport: null,
+  isScanningCache: false,
+  lastCacheScan: null,
+  isBackfillingThumbnails: false,
 };
 
 /**
@@ -86,10 +186,20 @@ export interface RefreshImagesDeps {
   getStorageInfo?: typeof getStorageInfo;
   cleanExpiredImages?: typeof cleanExpiredImages;
   areApiKeysConfigured?: typeof areApiKeysConfigured;
-  fetchAllImages?: typeof fetchAllImages;
+  fetchAllPhotos?: typeof fetchAllPhotos;
+  scheduleDownload?: typeof scheduleDownload;
+  isPermanentDownloadError?: typeof isPermanentDownloadError;
+  getDownloadRetryAt?: typeof getDownloadRetryAt;
+  computeExpiry?: typeof computeExpiry;
+  getRefreshJob?: typeof getRefreshJob;
+  saveRefreshJob?: typeof saveRefreshJob;
+  deleteRefreshJob?: typeof deleteRefreshJob;
+  queueFailedDownloads?: typeof queueFailedDownloads;
+  withLockIfAvailable?: typeof withLockIfAvailable;
   getLastFetchTime?: typeof getLastFetchTime;
   setLastFetchTime?: typeof setLastFetchTime;
   storeImages?: typeof storeImages;
+  readImageStoreState?: typeof readImageStoreState;
   getValidImageCount?: typeof getValidImageCount;
   getFallbackImages?: typeof getFallbackImages;
   clearFallbackImages?: typeof clearFallbackImages;
@@ -102,10 +212,20 @@ const DEFAULT_DEPS: RefreshImagesDeps = {
   getStorageInfo,
   cleanExpiredImages,
   areApiKeysConfigured,
-  fetchAllImages,
+  fetchAllPhotos,
+  scheduleDownload,
+  isPermanentDownloadError,
+  getDownloadRetryAt,
+  computeExpiry,
+  getRefreshJob,
+  saveRefreshJob,
+  deleteRefreshJob,
+  queueFailedDownloads,
+  withLockIfAvailable,
   getLastFetchTime,
   setLastFetchTime,
   storeImages,
+  readImageStoreState,
   getValidImageCount,
   getFallbackImages,
   clearFallbackImages,
@@ -114,6 +234,7 @@ const DEFAULT_DEPS: RefreshImagesDeps = {
 
 /**
  * Determine whether images should be refreshed based on last fetch time.
+ * An unfinished refresh job always counts as due, so it is resumed.
  *
  * This is intentionally tolerant: if any error happens (corrupt metadata, DB
  * failure) it returns `true` so refresh is attempted and the extension can
@@ -125,9 +246,15 @@ export async function shouldRefreshImages(
   const {
     logger = DEFAULT_DEPS.logger,
     getLastFetchTime: _getLastFetchTime = DEFAULT_DEPS.getLastFetchTime!,
+    getRefreshJob: _getRefreshJob = DEFAULT_DEPS.getRefreshJob!,
   } = deps;
 
   try {
+    if (await _getRefreshJob()) {
+      logger?.info("Unfinished refresh job found - resuming it");
+      return true;
+    }
+
     const lastFetch = await _getLastFetchTime();
 
     if (lastFetch === null) {
@@ -154,16 +281,104 @@ export async function shouldRefreshImages(
   }
 }
 
+/**
+ * Downloads a refresh job's pending items, storing each image as soon as it
+ * arrives and saving the job after every item.
+ * The cache is read once for the whole job rather than for every image.
+ * An image that does not fit in the storage quota fails with
+ * `skippedForSpace` set, and one a retry cannot fix with `permanentFailure`.
+ * @returns The job with every item done or failed, and how many images were
+ *   evicted to make room
+ */
+async function runRefreshJob(
+  job: RefreshJob,
+  deps: {
+    logger: Logger | undefined;
+    scheduleDownload: typeof scheduleDownload;
+    isPermanentDownloadError: typeof isPermanentDownloadError;
+    getDownloadRetryAt: typeof getDownloadRetryAt;
+    storeImages: typeof storeImages;
+    readImageStoreState: typeof readImageStoreState;
+    saveRefreshJob: typeof saveRefreshJob;
+  },
+): Promise<{ job: RefreshJob; evicted: number }> {
+  const { logger } = deps;
+  let current = job;
+  let evicted = 0;
+
+  // Without it, each store reads the cache for itself
+  const storeState = await deps.readImageStoreState().catch((error) => {
+    logger?.warn("Failed to read the cache before storing:", error);
+    return undefined;
+  });
+
+  await Promise.allSettled(
+    getPendingItems(job).map(async (index) => {
+      const { photo } = job.items[index]!;
+      try {
+        const image = await deps.scheduleDownload(
+          photo,
+          job.expiresAt,
+          job.createdAt,
+          "normal",
+        );
+        const stored = await deps.storeImages([image], storeState);
+        evicted += stored.evicted;
+        current = updateRefreshJobItem(
+          current,
+          index,
+          stored.skippedIds.length > 0
+            ? {
+                status: "failed",
+                error: "Not enough storage space",
+                skippedForSpace: true,
+              }
+            : { status: "done" },
+          Date.now(),
+        );
+      } catch (error) {
+        const retryAt = deps.getDownloadRetryAt(error);
+        current = updateRefreshJobItem(
+          current,
+          index,
+          {
+            status: "failed",
+            error: (error as Error)?.message ?? "Failed",
+            ...(deps.isPermanentDownloadError(error)
+              ? { permanentFailure: true }
+              : {}),
+            ...(retryAt ? { retryAt } : {}),
+          },
+          Date.now(),
+        );
+      }
+
+      await deps.saveRefreshJob(current).catch((error) => {
+        logger?.warn("Failed to save refresh job progress:", error);
+      });
+    }),
+  );
+
+  return { job: current, evicted };
+}
+
 /**
  * Refreshes images by fetching from configured APIs, storing them, and
  * cleaning up any fallback images.
  *
+ * The refresh runs as a job persisted in IndexedDB: the photo list is saved
+ * before any download starts and images are stored one by one. If the service
+ * worker is stopped part way, the next call resumes the saved job instead of
+ * starting over.
+ *
  * This function is intentionally written so it can be unit-tested by passing
  * mocks for its dependencies.
+ * @returns What the refresh stored, skipped and evicted, or null if it was
+ *   skipped or failed before downloading
  */
 export async function refreshImages(
   deps: RefreshImagesDeps = {},
-): Promise<void> {
+): Promise<RefreshReport | null> {
   const {
     logger = DEFAULT_DEPS.logger,
     getSettings: _getSettings = DEFAULT_DEPS.getSettings!,
@@ -171,10 +386,24 @@ export async function refreshImages(
     cleanExpiredImages: _cleanExpiredImages = DEFAULT_DEPS.cleanExpiredImages!,
     areApiKeysConfigured:
       _areApiKeysConfigured = DEFAULT_DEPS.areApiKeysConfigured!,
-    fetchAllImages: _fetchAllImages = DEFAULT_DEPS.fetchAllImages!,
-    getLastFetchTime: _getLastFetchTime = DEFAULT_DEPS.getLastFetchTime!,
+    fetchAllPhotos: _fetchAllPhotos = DEFAULT_DEPS.fetchAllPhotos!,
+    scheduleDownload: _scheduleDownload = DEFAULT_DEPS.scheduleDownload!,
+    isPermanentDownloadError:
+      _isPermanentDownloadError = DEFAULT_DEPS.isPermanentDownloadError!,
+    getDownloadRetryAt:
+      _getDownloadRetryAt = DEFAULT_DEPS.getDownloadRetryAt!,
+    computeExpiry: _computeExpiry = DEFAULT_DEPS.computeExpiry!,
+    getRefreshJob: _getRefreshJob = DEFAULT_DEPS.getRefreshJob!,
+    saveRefreshJob: _saveRefreshJob = DEFAULT_DEPS.saveRefreshJob!,
+    deleteRefreshJob: _deleteRefreshJob = DEFAULT_DEPS.deleteRefreshJob!,
+    queueFailedDownloads:
+      _queueFailedDownloads = DEFAULT_DEPS.queueFailedDownloads!,
+    withLockIfAvailable:
+      _withLockIfAvailable = DEFAULT_DEPS.withLockIfAvailable!,
     setLastFetchTime: _setLastFetchTime = DEFAULT_DEPS.setLastFetchTime!,
     storeImages: _storeImages = DEFAULT_DEPS.storeImages!,
+    readImageStoreState:
+      _readImageStoreState = DEFAULT_DEPS.readImageStoreState!,
     getValidImageCount: _getValidImageCount = DEFAULT_DEPS.getValidImageCount!,
     getFallbackImages: _getFallbackImages = DEFAULT_DEPS.getFallbackImages!,
     clearFallbackImages:
@@ -184,126 +413,620 @@ export async function refreshImages(
 
   if (state.isFetching) {
     logger?.warn("Fetch operation already in progress, skipping...");
-    return;
+    return null;
   }
 
   state.isFetching = true;
-  const startTime = Date.now();
 
   try {
-    logger?.debug(`Checking available storage space`);
-    const storageInfo = await _getStorageInfo();
-    const availableGB = (storageInfo.available / (1024 * 1024 * 1024)).toFixed(
-      2,
-    );
+    // Other contexts cannot see `state`; the lock keeps them from refreshing
+    // at the same time
+    const attempt = await _withLockIfAvailable(REFRESH_LOCK_NAME, async () => {
+      const startTime = Date.now();
+      let report: RefreshReport | null = null;
 
-    logger?.info(
-      `Storage - Available: ${availableGB}GB, Used: ${storageInfo.percentUsed.toFixed(
-        1,
-      )}%`,
-    );
+      try {
+        logger?.debug(`Checking available storage space`);
+        const storageInfo = await _getStorageInfo();
+        const availableGB = (
+          storageInfo.available /
+          (1024 * 1024 * 1024)
+        ).toFixed(2);
+
+        logger?.info(
+          `Storage - Available: ${availableGB}GB, Used: ${storageInfo.percentUsed.toFixed(
+            1,
+          )}%`,
+        );
+
+        // The cache budget evicts old images as new ones are stored, so low
+        // free space is only worth a warning
+        if (!storageInfo.hasEnoughSpace) {
+          logger?.warn(
+            `Low storage space (${availableGB}GB available, below ${MIN_STORAGE_THRESHOLD_GB}GB). Consider lowering the cache budget.`,
+          );
+        }
+
+        let job = await _getRefreshJob();
+        if (job && isRefreshJobStale(job, startTime)) {
+          logger?.warn(
+            `Dropping refresh job started ${new Date(job.createdAt).toLocaleString()}, too old to resume`,
+          );
+          await _deleteRefreshJob();
+          job = null;
+        }
+
+        if (job) {
+          const summary = summarizeRefreshJob(job);
+          logger?.info(
+            `Resuming refresh job: ${summary.done} stored, ${summary.failed} failed, ${summary.pending} pending`,
+          );
+        } else {
+          const settings = await _getSettings();
+          const permanentCacheMode = settings.cache?.permanentMode ?? false;
+
+          if (permanentCacheMode) {
+            logger?.debug(`Skipping image cleanup, permanent cache mode is on`);
+          } else {
+            logger?.debug(`Permanent cache mode is off, performing cleanup`);
+            const deletedCount = await _cleanExpiredImages();
+            if (deletedCount > 0) {
+              logger?.debug(`Cleaned ${deletedCount} expired images`);
+            } else {
+              logger?.debug(`No expired images to clean`);
+            }
+          }
+
+          logger?.debug(`Checking if api keys are present for images update.`);
+          const apiPresent = await _areApiKeysConfigured(settings);
+
+          if (!apiPresent) {
+            logger?.debug("No apis keys present, skipping image fetching");
+            throw new Error("Api Keys are missing");
+          }
+
+          logger?.debug(`Api keys are present, proceeding with fetch`);
+
+          const photos = await _fetchAllPhotos(settings);
+
+          if (photos.length === 0) {
+            logger?.warn("Fetch returned zero images - treating as failure");
+            throw new Error("No images returned from API");
+          }
+
+          job = createRefreshJob(
+            photos,
+            permanentCacheMode,
+            await _computeExpiry(permanentCacheMode),
+            Date.now(),
+          );
+          await _saveRefreshJob(job);
+          logger?.info(`Refresh job saved with ${photos.length} photos`);
+        }
+
+        const { job: finished, evicted } = await runRefreshJob(job, {
+          logger,
+          scheduleDownload: _scheduleDownload,
+          isPermanentDownloadError: _isPermanentDownloadError,
+          getDownloadRetryAt: _getDownloadRetryAt,
+          storeImages: _storeImages,
+          readImageStoreState: _readImageStoreState,
+          saveRefreshJob: _saveRefreshJob,
+        });
+
+        // Images that are gone or forbidden are not worth a retry, and ones
+        // that did not fit would only fill the space a later refresh needs
+        const failedItems = finished.items.filter(
+          (item) =>
+            item.status === "failed" &&
+            !item.permanentFailure &&
+            !item.skippedForSpace,
+        );
+        if (failedItems.length > 0) {
+          const failedAt = Date.now();
+          await _queueFailedDownloads(
+            failedItems.map((item) =>
+              createRetryEntry(
+                item.photo,
+                finished.permanent,
+                failedAt,
+                item.error,
+                item.retryAt,
+              ),
+            ),
+          ).catch((error) => {
+            logger?.error("Failed to queue downloads for retry:", error);
+          });
+        }
+
+        const { done, failed, skippedForSpace, permanentFailure } =
+          summarizeRefreshJob(finished);
+        await _deleteRefreshJob();
+
+        report = {
+          stored: done,
+          failed: failed - skippedForSpace - permanentFailure,
+          dropped: permanentFailure,
+          skipped: skippedForSpace,
+          evicted,
+        };
+        state.lastRefreshReport = report;
 
-    if (!storageInfo.hasEnoughSpace) {
+        if (done === 0) {
+          logger?.warn("Refresh job stored no images - treating as failure");
+          throw new Error(
+            skippedForSpace > 0
+              ? "Not enough storage space for new images"
+              : "No images downloaded",
+          );
+        }
+
+        logger?.info(
+          `Cached ${done}/${finished.items.length} images to db (${report.failed} failed, ${report.dropped} dropped, ${report.skipped} skipped for lack of space, ${evicted} evicted)`,
+        );
+
+        // When we successfully fetched real API images, delete any prior
+        // fallback images so we don't mix fallback + real images indefinitely.
+        try {
+          await _clearFallbackImages();
+        } catch (error) {
+          logger?.warn(
+            "Failed to clear fallback images after successful fetch:",
+            error,
+          );
+        }
+
+        const now = Date.now();
+        await _setLastFetchTime(now);
+        state.lastRefresh = now;
+        state.successfulFetches += 1;
+
+        logger?.info(`Cached ${done} images in ${Date.now() - startTime}ms`);
+      } catch (error: unknown) {
+        state.failedFetches += 1;
+        logger?.debug(`Error: ${error}, Falling back to emergency fetch`);
+
+        const existingImages = await _getValidImageCount();
+        if (existingImages > 0) {
+          logger?.debug(
+            `Emergency fallback skipped, available images: ${existingImages}`,
+          );
+        } else {
+          logger?.info("Getting default emergency images");
+          const fallBackImages = await _getFallbackImages();
+          if (fallBackImages.length < 1) {
+            logger?.debug(`Emergency fallback failed, check your internet!`);
+          } else {
+            logger?.debug(`Caching fallback images: ${fallBackImages.length}`);
+            await _storeImages(fallBackImages);
+            logger?.debug(`Cached ${fallBackImages.length} images`);
+          }
+        }
+
+        const finalImageCount = await _getValidImageCount();
+        if (finalImageCount === 0) {
+          logger?.error(
+            "Refresh failed: no valid images available after fallback",
+          );
+          throw new Error(
+            "Failed to refresh images: no images available after fallback",
+          );
+        }
+      } finally {
+        const totalDuration = Date.now() - startTime;
+        logger?.debug(`Image refresh completed in ${totalDuration}ms`);
+        logger?.info(
+          `Session stats - Successful fetches: ${state.successfulFetches}, Failed: ${state.failedFetches}`,
+        );
+      }
+
+      return report;
+    });
+
+    if (!attempt.acquired) {
       logger?.warn(
-        `Low storage space (${availableGB}GB available). Minimum ${MIN_STORAGE_THRESHOLD_GB}GB required.`,
+        `Refresh already running in ${attempt.holder ?? "another context"}, skipping...`,
       );
-      logger?.warn("Skipping image fetch to prevent storage issues.");
-      state.isFetching = false;
-      return;
+      return null;
     }
+    return attempt.result;
+  } finally {
+    state.isFetching = false;
+  }
+}
 
-    logger?.debug(`Sufficient storage space available (${availableGB}GB)`);
+export interface RefreshDailyImagesDeps {
+  logger?: Logger;
+  getSettings?: typeof getSettings;
+  fetchDailyImages?: typeof fetchDailyImages;
+  storeImages?: typeof storeImages;
+  getImageCountBySource?: typeof getImageCountBySource;
+  getDailyFetchState?: typeof getDailyFetchState;
+  saveDailyFetchState?: typeof saveDailyFetchState;
+  state?: BackgroundState;
+}
 
-    const settings = await _getSettings();
-    const permanentCacheMode = settings.cache?.permanentMode;
+const DEFAULT_DAILY_DEPS: RefreshDailyImagesDeps = {
+  logger: background_logger,
+  getSettings,
+  fetchDailyImages,
+  storeImages,
+  getImageCountBySource,
+  getDailyFetchState,
+  saveDailyFetchState,
+  state: backgroundState,
+};
 
-    if (permanentCacheMode) {
-      logger?.debug(`Skipping image cleanup, permanent cache mode is on`);
-    } else {
-      logger?.debug(`Permanent cache mode is off, performing cleanup`);
-      const deletedCount = await _cleanExpiredImages();
-      if (deletedCount > 0) {
-        logger?.debug(`Cleaned ${deletedCount} expired images`);
-      } else {
-        logger?.debug(`No expired images to clean`);
+/**
+ * Fetches any pictures of the day not yet in the cache.
+ *
+ * Runs on its own alarm, independent of `refreshImages`, and is cheap to call
+ * often: providers that are up to date make no requests.
+ * Pictures of the day expire like any other image, so a provider whose
+ * pictures have all left the cache is backfilled again.
+ * @returns Number of new images stored
+ */
+export async function refreshDailyImages(
+  deps: RefreshDailyImagesDeps = {},
+): Promise<number> {
+  const {
+    logger = DEFAULT_DAILY_DEPS.logger,
+    getSettings: _getSettings = DEFAULT_DAILY_DEPS.getSettings!,
+    fetchDailyImages: _fetchDailyImages = DEFAULT_DAILY_DEPS.fetchDailyImages!,
+    storeImages: _storeImages = DEFAULT_DAILY_DEPS.storeImages!,
+    getImageCountBySource:
+      _getImageCountBySource = DEFAULT_DAILY_DEPS.getImageCountBySource!,
+    getDailyFetchState:
+      _getDailyFetchState = DEFAULT_DAILY_DEPS.getDailyFetchState!,
+    saveDailyFetchState:
+      _saveDailyFetchState = DEFAULT_DAILY_DEPS.saveDailyFetchState!,
+    state = DEFAULT_DAILY_DEPS.state!,
+  } = deps;
+
+  if (state.isFetchingDaily) {
+    logger?.warn("Daily image refresh already in progress, skipping...");
+    return 0;
+  }
+
+  const settings = await _getSettings();
+  if (!settings.dailyImages?.providers.length) {
+    logger?.debug("No picture-of-the-day providers enabled");
+    return 0;
+  }
+
+  state.isFetchingDaily = true;
+
+  try {
+    const fetchState = await _getDailyFetchState();
+    for (const id of settings.dailyImages.providers) {
+      if (fetchState[id] && (await _getImageCountBySource(id)) === 0) {
+        logger?.info(`Pictures of the day from ${id} expired, backfilling`);
+        delete fetchState[id];
       }
     }
 
-    logger?.debug(`Checking if api keys are present for images update.`);
-    const apiPresent = await _areApiKeysConfigured(settings);
+    const { images, state: nextState } = await _fetchDailyImages(
+      settings,
+      fetchState,
+    );
 
-    if (!apiPresent) {
-      logger?.debug("No apis keys present, skipping image fetching");
-      throw new Error("Api Keys are missing");
-    }
+    const { storedIds } = await _storeImages(images);
+    await _saveDailyFetchState(nextState);
 
-    logger?.debug(`Api keys are present, proceeding with fetch`);
+    logger?.info(`Stored ${storedIds.length} new picture(s) of the day`);
+    return storedIds.length;
+  } finally {
+    state.isFetchingDaily = false;
+  }
+}
 
-    const images = await _fetchAllImages(settings);
+export interface DrainRetryQueueDeps {
+  logger?: Logger;
+  getSettings?: typeof getSettings;
+  pruneRetryQueue?: typeof pruneRetryQueue;
+  getDueRetries?: typeof getDueRetries;
+  retryQueuedDownloads?: typeof retryQueuedDownloads;
+  storeImages?: typeof storeImages;
+  updateRetryQueue?: typeof updateRetryQueue;
+  isOnline?: () => boolean;
+  state?: BackgroundState;
+}
 
-    if (images.length === 0) {
-      logger?.warn("Fetch returned zero images - treating as failure");
-      throw new Error("No images returned from API");
-    }
+const DEFAULT_RETRY_DEPS: DrainRetryQueueDeps = {
+  logger: background_logger,
+  getSettings,
+  pruneRetryQueue,
+  getDueRetries,
+  retryQueuedDownloads,
+  storeImages,
+  updateRetryQueue,
+  isOnline: () => navigator.onLine,
+  state: backgroundState,
+};
 
-    logger?.info(`Downloaded: ${images.length}`);
-    logger?.info(`Caching ${images.length} images to db`);
+/**
+ * Retries image downloads that failed during earlier refreshes.
+ *
+ * Entries older than the configured maximum age are dropped first; then up to
+ * RETRY_QUEUE_BATCH_SIZE entries whose backoff has ended are downloaded again.
+ * @returns Number of images recovered and stored
+ */
+export async function drainRetryQueue(
+  deps: DrainRetryQueueDeps = {},
+): Promise<number> {
+  const {
+    logger = DEFAULT_RETRY_DEPS.logger,
+    getSettings: _getSettings = DEFAULT_RETRY_DEPS.getSettings!,
+    pruneRetryQueue: _pruneRetryQueue = DEFAULT_RETRY_DEPS.pruneRetryQueue!,
+    getDueRetries: _getDueRetries = DEFAULT_RETRY_DEPS.getDueRetries!,
+    retryQueuedDownloads:
+      _retryQueuedDownloads = DEFAULT_RETRY_DEPS.retryQueuedDownloads!,
+    storeImages: _storeImages = DEFAULT_RETRY_DEPS.storeImages!,
+    updateRetryQueue: _updateRetryQueue = DEFAULT_RETRY_DEPS.updateRetryQueue!,
+    isOnline = DEFAULT_RETRY_DEPS.isOnline!,
+    state = DEFAULT_RETRY_DEPS.state!,
+  } = deps;
+
+  if (state.isDrainingRetries) {
+    logger?.debug("Retry queue already draining, skipping...");
+    return 0;
+  }
+
+  state.isDrainingRetries = true;
 
+  try {
+    const settings = await _getSettings();
+    const maxAgeHours =
+      settings.retryQueue?.maxAgeHours ?? DEFAULT_RETRY_QUEUE_MAX_AGE_HOURS;
     const now = Date.now();
-    await _storeImages(images);
+    await _pruneRetryQueue(now - maxAgeHours * 60 * 60 * 1000);
 
-    // When we successfully fetched real API images, delete any prior fallback
-    // images so we don't mix fallback + real images indefinitely.
-    try {
-      await _clearFallbackImages();
-    } catch (error) {
-      logger?.warn(
-        "Failed to clear fallback images after successful fetch:",
-        error,
-      );
+    if (!isOnline()) {
+      logger?.debug("Offline, leaving the retry queue for later");
+      return 0;
     }
 
-    await _setLastFetchTime(now);
-    state.lastRefresh = now;
-    state.successfulFetches += 1;
+    const due = await _getDueRetries(now, RETRY_QUEUE_BATCH_SIZE);
+    if (due.length === 0) return 0;
+
+    logger?.info(`Retrying ${due.length} queued download(s)`);
+    const { images, recoveredIds, droppedIds, rescheduled } =
+      await _retryQueuedDownloads(due, settings);
+
+    // Images that did not fit are dropped too; retrying them before space is
+    // freed would only run into the quota again
+    const { storedIds, skippedIds } = await _storeImages(images);
+    await _updateRetryQueue(rescheduled, [...recoveredIds, ...droppedIds]);
 
     logger?.info(
-      `Cached ${images.length} images in ${Date.now() - startTime}ms`,
+      `Retry queue: stored ${storedIds.length} recovered image(s), ${skippedIds.length} dropped for lack of space, ${rescheduled.length} rescheduled`,
     );
-  } catch (error: unknown) {
-    state.failedFetches += 1;
-    logger?.debug(`Error: ${error}, Falling back to emergency fetch`);
-
-    const existingImages = await _getValidImageCount();
-    if (existingImages > 0) {
-      logger?.debug(
-        `Emergency fallback skipped, available images: ${existingImages}`,
-      );
-    } else {
-      logger?.info("Getting default emergency images");
-      const fallBackImages = await _getFallbackImages();
-      if (fallBackImages.length < 1) {
-        logger?.debug(`Emergency fallback failed, check your internet!`);
-      } else {
-        logger?.debug(`Caching fallback images: ${fallBackImages.length}`);
-        await _storeImages(fallBackImages);
-        logger?.debug(`Cached ${fallBackImages.length} images`);
+    return storedIds.length;
+  } finally {
+    state.isDrainingRetries = false;
+  }
+}
+
+export interface ScanCacheIntegrityDeps {
+  logger?: Logger;
+  getImageIds?: typeof getImageIds;
+  getImageById?: typeof getImageById;
+  setImageHashes?: typeof setImageHashes;
+  flagUnreadableImage?: typeof flagUnreadableImage;
+  deleteImage?: typeof deleteImage;
+  hashBlob?: typeof hashBlob;
+  /** Rejects if the blob is not a decodable image */
+  computePerceptualHash?: typeof computePerceptualHash;
+  state?: BackgroundState;
+}
+
+const DEFAULT_SCAN_DEPS: ScanCacheIntegrityDeps = {
+  logger: background_logger,
+  getImageIds,
+  getImageById,
+  setImageHashes,
+  flagUnreadableImage,
+  deleteImage,
+  hashBlob,
+  computePerceptualHash,
+  state: backgroundState,
+};
+
+/**
+ * Verifies every cached image and repairs what it can.
+ *
+ * Each blob is decoded to compute its perceptual hash; images that fail are
+ * deleted, or flagged if they are favourites or local images. When nothing
+ * decodes at all, or the context cannot decode images, the browser is at
+ * fault rather than the cache, and the scan aborts without deleting anything.
+ * Images stored before content or perceptual hashing existed are
+ * hashed so `storeImages` can deduplicate against them, and stored hashes
+ * that no longer match their blob are corrected. Images are read one at a
+ * time to keep memory flat on large caches.
+ * @returns What was scanned and fixed, or null if a scan was already running
+ * @throws If the scan aborted
+ */
+export async function scanCacheIntegrity(
+  deps: ScanCacheIntegrityDeps = {},
+): Promise<CacheScanReport | null> {
+  const {
+    logger = DEFAULT_SCAN_DEPS.logger,
+    getImageIds: _getImageIds = DEFAULT_SCAN_DEPS.getImageIds!,
+    getImageById: _getImageById = DEFAULT_SCAN_DEPS.getImageById!,
+    setImageHashes: _setImageHashes = DEFAULT_SCAN_DEPS.setImageHashes!,
+    flagUnreadableImage:
+      _flagUnreadableImage = DEFAULT_SCAN_DEPS.flagUnreadableImage!,
+    deleteImage: _deleteImage = DEFAULT_SCAN_DEPS.deleteImage!,
+    hashBlob: _hashBlob = DEFAULT_SCAN_DEPS.hashBlob!,
+    computePerceptualHash:
+      _computePerceptualHash = DEFAULT_SCAN_DEPS.computePerceptualHash!,
+    state = DEFAULT_SCAN_DEPS.state!,
+  } = deps;
+
+  if (state.isScanningCache) {
+    logger?.debug("Cache integrity scan already running, skipping...");
+    return null;
+  }
+
+  state.isScanningCache = true;
+
+  try {
+    const report: CacheScanReport = {
+      finishedAt: 0,
+      scanned: 0,
+      rehashed: 0,
+      hashMismatches: 0,
+      fingerprinted: 0,
+      corruptDeleted: 0,
+      corruptFlagged: 0,
+    };
+    // Dealt with once the scan has shown that other images do decode
+    const corrupt: ImageMetadata[] = [];
+
+    for (const id of await _getImageIds()) {
+      // Deleted since the scan started, or left without a blob, which the
+      // database's own record check cleans up
+      const image = await _getImageById(id);
+      if (!image) continue;
+      report.scanned++;
+
+      let perceptualHash: string;
+      try {
+        perceptualHash = await _computePerceptualHash(image.blob);
+      } catch (error) {
+        if (!isImageDecodeError(error)) {
+          throw new Error(
+            `Cache scan aborted, images cannot be decoded here: ${(error as Error)?.message ?? error}`,
+          );
+        }
+        logger?.warn(`Image ${id} cannot be decoded`, error);
+        const { blob: _blob, ...metadata } = image;
+        corrupt.push(metadata);
+        continue;
+      }
+
+      const hashes: Pick<ImageData, "contentHash" | "perceptualHash"> = {};
+      // A transcoded image's hash is of the bytes as downloaded, which were
+      // not kept, so only its decode is checked
+      const contentHash =
+        image.originalSize !== undefined && image.contentHash
+          ? image.contentHash
+          : await _hashBlob(image.blob);
+      if (image.contentHash !== contentHash) {
+        if (image.contentHash) {
+          logger?.warn(`Image ${id} no longer matches its content hash`);
+          report.hashMismatches++;
+        } else {
+          report.rehashed++;
+        }
+        hashes.contentHash = contentHash;
+      }
+      if (image.perceptualHash !== perceptualHash) {
+        if (!image.perceptualHash) report.fingerprinted++;
+        hashes.perceptualHash = perceptualHash;
       }
+      if (Object.keys(hashes).length > 0) await _setImageHashes(id, hashes);
     }
 
-    const finalImageCount = await _getValidImageCount();
-    if (finalImageCount === 0) {
-      logger?.error("Refresh failed: no valid images available after fallback");
+    if (corrupt.length > 0 && corrupt.length === report.scanned) {
       throw new Error(
-        "Failed to refresh images: no images available after fallback",
+        `Cache scan aborted, none of the ${corrupt.length} image(s) could be decoded`,
       );
     }
-  } finally {
-    state.isFetching = false;
-    const totalDuration = Date.now() - startTime;
-    logger?.debug(`Image refresh completed in ${totalDuration}ms`);
+    for (const image of corrupt) {
+      if (isEvictionProtected(image)) {
+        logger?.warn(`Image ${image.id} cannot be decoded but is protected`);
+        await _flagUnreadableImage(image.id);
+        report.corruptFlagged++;
+      } else {
+        await _deleteImage(image.id);
+        report.corruptDeleted++;
+      }
+    }
+
+    report.finishedAt = Date.now();
+    state.lastCacheScan = report;
     logger?.info(
-      `Session stats - Successful fetches: ${state.successfulFetches}, Failed: ${state.failedFetches}`,
+      `Cache scan: ${report.scanned} image(s) checked, ${report.rehashed} rehashed, ${report.hashMismatches} hash(es) corrected, ${report.fingerprinted} fingerprinted, ${report.corruptDeleted} corrupt deleted, ${report.corruptFlagged} corrupt flagged`,
     );
+    return report;
+  } finally {
+    state.isScanningCache = false;
+  }
+}
+
+export interface BackfillThumbnailsDeps {
+  logger?: Logger;
+  getImageIdsWithoutThumbnail?: typeof getImageIdsWithoutThumbnail;
+  getImageById?: typeof getImageById;
+  createThumbnail?: typeof createThumbnail;
+  setThumbnail?: typeof setThumbnail;
+  state?: BackgroundState;
+}
+
+const DEFAULT_THUMBNAIL_DEPS: BackfillThumbnailsDeps = {
+  logger: background_logger,
+  getImageIdsWithoutThumbnail,
+  getImageById,
+  createThumbnail,
+  setThumbnail,
+  state: backgroundState,
+};
+
+/**
+ * Makes thumbnails for images stored without one.
+ *
+ * Images stored before thumbnails existed, and those whose thumbnail could
+ * not be made when they were stored, are caught up here so preview surfaces
+ * never have to fall back to the full-size blob. Images are read one at a
+ * time to keep memory flat; one that cannot be decoded is skipped and left
+ * to the cache integrity scan.
+ * @returns Number of thumbnails made, or null if a backfill was already
+ *   running
+ */
+export async function backfillThumbnails(
+  deps: BackfillThumbnailsDeps = {},
+): Promise<number | null> {
+  const {
+    logger = DEFAULT_THUMBNAIL_DEPS.logger,
+    getImageIdsWithoutThumbnail:
+      _getImageIdsWithoutThumbnail = DEFAULT_THUMBNAIL_DEPS.getImageIdsWithoutThumbnail!,
+    getImageById: _getImageById = DEFAULT_THUMBNAIL_DEPS.getImageById!,
+    createThumbnail: _createThumbnail = DEFAULT_THUMBNAIL_DEPS.createThumbnail!,
+    setThumbnail: _setThumbnail = DEFAULT_THUMBNAIL_DEPS.setThumbnail!,
+    state = DEFAULT_THUMBNAIL_DEPS.state!,
+  } = deps;
+
+  if (state.isBackfillingThumbnails) {
+    logger?.debug("Thumbnail backfill already running, skipping...");
+    return null;
+  }
+
+  state.isBackfillingThumbnails = true;
+
+  try {
+    const ids = await _getImageIdsWithoutThumbnail();
+    let made = 0;
+
+    for (const id of ids) {
+      const image = await _getImageById(id);
+      if (!image) continue;
+
+      try {
+        const thumbnail = await _createThumbnail(image.blob);
+        if (await _setThumbnail(id, thumbnail)) made++;
+      } catch (error) {
+        logger?.debug(`Could not make a thumbnail of image ${id}`, error);
+      }
+    }
+
+    if (ids.length > 0) {
+      logger?.info(
+        `Thumbnail backfill: ${made} of ${ids.length} image(s) thumbnailed`,
+      );
+    }
+    return made;
+  } finally {
+    state.isBackfillingThumbnails = false;
   }
 }
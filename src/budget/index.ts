@@ -0,0 +1,153 @@
+/**
+ * Cache budget for the random wallpaper browser extension.
+ * Decides which cached images to evict so a new batch fits the user's limit
+ * or the browser's quota, and breaks the cache's usage down by source and
+ * keyword.
+ *
+ * Favourites and local images are never evicted. `storeImages` in `src/db`
+ * reads the records and history, and deletes what the plan names.
+ */
+
+import type {
+  CacheBudget,
+  CacheUsage,
+  CacheUsageBucket,
+  ImageData,
+} from "../config";
+
+/**
+ * What the budget needs to know about a stored image; blobs are not loaded
+ */
+export type CacheRecord = Pick<
+  ImageData,
+  "id" | "source" | "timestamp" | "keyword" | "favorite" | "originalSize"
+> & { size: number };
+
+/**
+ * Whether eviction must leave an image alone
+ * Favourites and images the user imported from disk are never evicted, nor
+ * deleted when they expire.
+ */
+export function isEvictionProtected(
+  record: Pick<CacheRecord, "favorite" | "source">,
+): boolean {
+  return !!record.favorite || record.source === "local";
+}
+
+/**
+ * How much of the budget a set of images takes, in the budget's own unit
+ */
+function measure(budget: CacheBudget, count: number, bytes: number): number {
+  return budget.mode === "count" ? count : bytes;
+}
+
+/**
+ * The budget's limit, in images or bytes depending on its mode
+ */
+export function getBudgetLimit(budget: CacheBudget): number {
+  return budget.mode === "count"
+    ? budget.maxImages
+    : budget.maxMb * 1024 * 1024;
+}
+
+/**
+ * Picks the images to evict so an incoming batch fits the budget.
+ * Unprotected images go first by when they were last viewed, and those never
+ * viewed by when they were stored. If evicting every candidate is still not
+ * enough, all candidates are returned and the batch is stored over budget.
+ * @param records - Images currently stored
+ * @param lastViewed - Latest view time per image id, from history
+ * @param budget - The user's cache budget
+ * @param incoming - Size of the batch about to be stored
+ * @returns Ids to delete, least recently viewed first
+ */
+export function planEviction(
+  records: CacheRecord[],
+  lastViewed: Map<string, number>,
+  budget: CacheBudget,
+  incoming: { count: number; bytes: number },
+): string[] {
+  const limit = getBudgetLimit(budget);
+  let usage = measure(
+    budget,
+    records.length + incoming.count,
+    records.reduce((sum, record) => sum + record.size, 0) + incoming.bytes,
+  );
+  if (usage <= limit) return [];
+
+  const candidates = records
+    .filter((record) => !isEvictionProtected(record))
+    .map((record) => ({
+      record,
+      lastUsed: lastViewed.get(record.id) ?? record.timestamp,
+    }))
+    .sort((a, b) => a.lastUsed - b.lastUsed);
+
+  const evicted: string[] = [];
+  for (const { record } of candidates) {
+    if (usage <= limit) break;
+    evicted.push(record.id);
+    usage -= measure(budget, 1, record.size);
+  }
+  return evicted;
+}
+
+/**
+ * Picks the oldest unprotected images whose removal frees a number of bytes,
+ * used when a write hits the browser's storage quota
+ * @param records - Images currently stored
+ * @param bytesNeeded - Space the failed write needs
+ * @returns Ids to delete, oldest first; every candidate if that is not enough
+ */
+export function planQuotaEviction(
+  records: CacheRecord[],
+  bytesNeeded: number,
+): string[] {
+  const candidates = records
+    .filter((record) => !isEvictionProtected(record))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const evicted: string[] = [];
+  let freed = 0;
+  for (const record of candidates) {
+    if (freed >= bytesNeeded) break;
+    evicted.push(record.id);
+    freed += record.size;
+  }
+  return evicted;
+}
+
+function addToBucket(
+  buckets: Record<string, CacheUsageBucket>,
+  key: string,
+  size: number,
+): void {
+  const bucket = buckets[key] ?? { count: 0, bytes: 0 };
+  buckets[key] = bucket;
+  bucket.count++;
+  bucket.bytes += size;
+}
+
+/**
+ * Totals the cache by source and by keyword, and what transcoding saved
+ * Images fetched without a keyword (collections, feeds, daily pictures) are
+ * counted under "none".
+ */
+export function summarizeCacheUsage(records: CacheRecord[]): CacheUsage {
+  const usage: CacheUsage = {
+    total: { count: 0, bytes: 0 },
+    savedBytes: 0,
+    bySource: {},
+    byKeyword: {},
+  };
+  for (const record of records) {
+    usage.total.count++;
+    usage.total.bytes += record.size;
+    if (record.originalSize !== undefined) {
+      usage.savedBytes += Math.max(0, record.originalSize - record.size);
+    }
+    addToBucket(usage.bySource, record.source, record.size);
+    addToBucket(usage.byKeyword, record.keyword ?? "none", record.size);
+  }
+  return usage;
+}
@@ -0,0 +1,133 @@
+/**
+ * Circuit breakers for the random wallpaper browser extension.
+ * Stops hammering a provider that keeps failing, or a key the API keeps
+ * rejecting, until a backoff window has passed and a probe request succeeds.
+ *
+ * Breakers are stored under `circuitBreakers` so they survive service worker
+ * restarts. A closed breaker with no failures has no
+ * record at all, so a success simply deletes it.
+ */
+
+import {
+  CIRCUIT_BASE_BACKOFF_MS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_MAX_BACKOFF_MS,
+} from "../config";
+import type {
+  CircuitBreakerState,
+  CircuitRecord,
+  CircuitState,
+  CircuitSummary,
+} from "../config";
+
+/**
+ * HTTP statuses that mean the key itself is the problem rather than the API
+ */
+const KEY_FAILURE_STATUSES = new Set([401, 403, 429]);
+
+/**
+ * Breaker id for a provider
+ */
+export function providerCircuitId(providerId: string): string {
+  return `provider:${providerId}`;
+}
+
+/**
+ * Breaker id for an API key, matching the `apiKeyStatus` naming
+ */
+export function keyCircuitId(providerId: string, key: string): string {
+  return `key:${providerId}_${key}`;
+}
+
+/**
+ * Decides whether a failed request counts against the key or the provider
+ * @param error - Error thrown by a provider request (`HTTP <status> ...`)
+ * @returns "key" for auth and rate limit errors, otherwise "provider"
+ */
+export function classifyFailure(error: unknown): "key" | "provider" {
+  const match = /^HTTP (\d{3})\b/.exec((error as Error)?.message ?? "");
+  return match && KEY_FAILURE_STATUSES.has(Number(match[1]))
+    ? "key"
+    : "provider";
+}
+
+/**
+ * Effective state of a breaker at a point in time
+ * An open breaker whose backoff has ended is reported as half-open.
+ */
+export function getCircuitState(
+  record: CircuitRecord | undefined,
+  now: number,
+): CircuitState {
+  if (!record) return "closed";
+  if (record.state === "open" && (record.retryAt ?? 0) <= now) {
+    return "half-open";
+  }
+  return record.state;
+}
+
+/**
+ * Records a failed request.
+ * The breaker opens after CIRCUIT_FAILURE_THRESHOLD consecutive failures, or
+ * straight away when a half-open probe fails. Each opening doubles the wait.
+ * @param record - Current breaker, if any
+ * @param details - Scope and label used when the breaker is new
+ */
+export function recordFailure(
+  record: CircuitRecord | undefined,
+  details: Pick<CircuitRecord, "scope" | "label">,
+  error: string,
+  now: number,
+): CircuitRecord {
+  const failures = (record?.failures ?? 0) + 1;
+  const wasProbe = getCircuitState(record, now) === "half-open";
+  const shouldOpen = wasProbe || failures >= CIRCUIT_FAILURE_THRESHOLD;
+
+  if (!shouldOpen) {
+    return {
+      ...details,
+      state: "closed",
+      failures,
+      trips: record?.trips ?? 0,
+      lastError: error,
+      updatedAt: now,
+    };
+  }
+
+  const trips = (record?.trips ?? 0) + 1;
+  const backoff = Math.min(
+    CIRCUIT_MAX_BACKOFF_MS,
+    CIRCUIT_BASE_BACKOFF_MS * Math.pow(2, trips - 1),
+  );
+  return {
+    ...details,
+    state: "open",
+    failures,
+    trips,
+    retryAt: now + backoff,
+    lastError: error,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Lists every breaker that is not closed, for status displays
+ */
+export function summarizeCircuits(
+  circuits: CircuitBreakerState,
+  now: number,
+): CircuitSummary[] {
+  return Object.values(circuits)
+    .map((record) => ({ record, state: getCircuitState(record, now) }))
+    .filter(({ state }) => state !== "closed")
+    .map(({ record, state }) => ({
+      scope: record.scope,
+      label: record.label,
+      state,
+      failures: record.failures,
+      ...(record.retryAt !== undefined ? { retryAt: record.retryAt } : {}),
+      ...(record.lastError !== undefined
+        ? { lastError: record.lastError }
+        : {}),
+    }));
+}
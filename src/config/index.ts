@@ -50,7 +50,43 @@ export const PEXELS_IMAGES_COUNT = 80; // Pexels API maximum per request (user c
 export const IMAGE_EXPIRY_HOURS = 24;
 
 // Storage Management
-export const MIN_STORAGE_THRESHOLD_GB = 1; // Minimum 1GB storage required
+export const MIN_STORAGE_THRESHOLD_GB = 1; // Below this much free space a warning is logged
+export const QUOTA_RETRY_CHUNK_SIZE = 10; // Images per transaction when retrying a write that hit the quota
+
+// Cache Budget
+export const DEFAULT_CACHE_BUDGET_MB = 1024;
+export const MIN_CACHE_BUDGET_MB = 100;
+export const MAX_CACHE_BUDGET_MB = 10240;
+export const DEFAULT_CACHE_BUDGET_IMAGES = 1000;
+export const MIN_CACHE_BUDGET_IMAGES = 50;
+export const MAX_CACHE_BUDGET_IMAGES = 10000;
+
+// Near-duplicate Detection
+export const PERCEPTUAL_HASH_MAX_DISTANCE = 8; // Of 64 dHash bits; resized or recompressed copies differ by a few
+
+// Image Transcoding
+export const DEFAULT_TRANSCODE_QUALITY = 80; // Percent
+export const MIN_TRANSCODE_QUALITY = 40;
+export const MAX_TRANSCODE_QUALITY = 100;
+
+// Thumbnails
+export const THUMBNAIL_WIDTH = 320; // Pixels; enough for popup and history previews
+export const THUMBNAIL_QUALITY = 75; // Percent, encoded as WebP
+
+// Placeholders
+export const BLURHASH_DECODE_SIZE = 32; // Pixels along the longer side; a BlurHash holds no finer detail
+export const AVERAGE_COLOR_SAMPLE_SIZE = 16; // Pixels per side sampled for a computed colour
+
+// First-paint Snapshot
+export const SNAPSHOT_ID = "next"; // Only the next new tab's snapshot is kept
+export const SNAPSHOT_QUALITY = 85; // Percent, encoded as WebP
+export const SNAPSHOT_PREPARE_DELAY_MS = 2000; // Let the tab paint before preparing the next
+export const FIRST_PAINT_SAMPLE_COUNT = 20; // Recent first-paint timings kept per path
+
+// Screen-aware Image Sizes
+export const DISPLAY_SIZE_MAX_AGE_DAYS = 30; // A smaller screen only replaces the stored one once it is this old
+export const DISPLAY_SIZE_RENEW_HOURS = 24; // How often reports of the stored screen renew its age
+export const MAX_DISPLAY_DIMENSION = 16384; // Reported sizes beyond this are rejected as bogus
 
 // Permanent Cache Settings
 // Set expiry to 100 years in the future for permanent cache mode
@@ -71,6 +107,15 @@ export const MAX_AUTO_REFRESH_INTERVAL = 300; // seconds
 
 // Chrome Alarms
 export const ALARM_NAME = "refreshImages";
+export const DAILY_ALARM_NAME = "refreshDailyImages";
+export const RETRY_QUEUE_ALARM_NAME = "drainRetryQueue";
+export const INTEGRITY_SCAN_ALARM_NAME = "scanCacheIntegrity";
+
+// Picture of the Day
+export const DAILY_CHECK_INTERVAL_HOURS = 3; // How often to look for a new daily image
+export const DEFAULT_DAILY_BACKFILL_DAYS = 7;
+export const MAX_DAILY_BACKFILL_DAYS = 30;
+export const NASA_DEMO_API_KEY = "DEMO_KEY"; // Rate-limited key NASA offers for light use
 
 // Network Timeouts and Retries
 export const DEFAULT_NETWORK_TIMEOUT_MS = 10000; // 10 seconds
@@ -80,6 +125,46 @@ export const DEFAULT_MAX_RETRIES = 3;
 export const DEFAULT_INITIAL_BACKOFF_MS = 1000;
 export const DEFAULT_BACKOFF_MULTIPLIER = 2;
 
+// API Key Rate Limits
+export const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // Assumed window when the API sends no reset time (Unsplash is hourly)
+export const DEFAULT_RETRY_AFTER_MS = 5 * 60 * 1000; // Cooldown after a 429 without a Retry-After header
+
+// Circuit Breaker
+export const CIRCUIT_FAILURE_THRESHOLD = 3; // Consecutive failures before a circuit opens
+export const CIRCUIT_BASE_BACKOFF_MS = 10 * 60 * 1000; // First wait before probing again
+export const CIRCUIT_MAX_BACKOFF_MS = 12 * 60 * 60 * 1000; // Backoff doubles per failed probe up to this
+
+// Download Retry Queue
+export const RETRY_QUEUE_CHECK_INTERVAL_MINUTES = 15; // How often queued downloads are looked at
+export const RETRY_QUEUE_BASE_BACKOFF_MS = 5 * 60 * 1000; // Wait before the first queued retry
+export const RETRY_QUEUE_MAX_BACKOFF_MS = 6 * 60 * 60 * 1000; // Backoff doubles per attempt up to this
+export const RETRY_QUEUE_BATCH_SIZE = 20; // Downloads retried per drain
+export const DEFAULT_RETRY_QUEUE_MAX_AGE_HOURS = 48; // Entries older than this are dropped
+export const MAX_RETRY_QUEUE_MAX_AGE_HOURS = 168;
+
+// Cache Integrity Scan
+export const INTEGRITY_SCAN_INTERVAL_HOURS = 7 * 24; // Every stored blob is decoded and hashed, so weekly
+
+// Cross-context Locks
+export const REFRESH_LOCK_NAME = "wallpaper-refresh";
+export const DB_WRITE_LOCK_NAME = "wallpaper-db-write";
+export const LOCK_LEASE_MS = 30 * 1000; // A storage lease not renewed within this is stale
+export const LOCK_HEARTBEAT_MS = 10 * 1000; // How often a held lease is renewed
+export const LOCK_RETRY_MS = 200; // Poll interval while waiting for a storage lease
+
+// Refresh Jobs
+export const REFRESH_JOB_ID = "current"; // Only one refresh job exists at a time
+export const REFRESH_JOB_MAX_AGE_MS = 2 * REFRESH_INTERVAL_MS; // Unfinished jobs older than this are dropped, not resumed
+
+// Download Scheduler
+export const DEFAULT_MAX_DOWNLOAD_CONCURRENCY = 6; // Image downloads running at once
+export const MAX_DOWNLOAD_CONCURRENCY = 16;
+export const DOWNLOAD_CONCURRENCY_BY_SPEED: Record<ConnectionSpeed, number> = {
+  slow: 2,
+  medium: 4,
+  fast: 8,
+}; // Upper bound per detected connection speed
+
 // Clock Settings
 export const DEFAULT_CLOCK_ENABLED = true;
 export const DEFAULT_CLOCK_FORMAT_24H = false;
@@ -95,17 +180,45 @@ export const MAX_HISTORY_SIZE = 50;
 // Fallback Images
 export const FALLBACK_IMAGE_COUNT = 20;
 
+// Custom Feed
+export const CUSTOM_FEED_MAX_ITEMS = 30; // Items downloaded per feed refresh
+
+// Local Library
+export const LOCAL_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/avif",
+  "image/gif",
+  "image/bmp",
+];
+export const LOCAL_IMAGE_MAX_SIZE_MB = 25; // Per file; larger files are rejected
+
 // Default Search Keywords
 export const DEFAULT_UNSPLASH_KEYWORDS = "supercars, superbikes";
 export const DEFAULT_PEXELS_KEYWORDS = "supercars, superbikes";
 
+// Keyword Rotation
+export const MAX_KEYWORD_WEIGHT = 10; // Highest `keyword:weight` accepted
+export const DEFAULT_KEYWORDS_PER_REFRESH = 1;
+export const MAX_KEYWORDS_PER_REFRESH = 5; // Each extra keyword costs an API request per key
+
 // DB constants
 export const DB_NAME = "randomWallpaperExtension";
-export const DB_VERSION = 2;
+export const DB_VERSION = 9; // Schema version; see DB_REPAIR_VERSION_STRIDE
+// The IndexedDB version is DB_VERSION × stride plus one per schema repair, so
+// a repair never uses up the version a later migration needs
+export const DB_REPAIR_VERSION_STRIDE = 100;
+export const DB_INTEGRITY_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000; // Record check at most daily
 
 export const IMAGES_STORE_NAME = "imagesStore";
 export const METADATA_STORE_NAME = "metadataStore";
 export const HISTORY_STORE_NAME = "historyStore";
+export const RETRY_QUEUE_STORE_NAME = "retryQueueStore";
+export const REFRESH_JOB_STORE_NAME = "refreshJobStore";
+export const IMAGE_BLOBS_STORE_NAME = "imageBlobsStore";
+export const THUMBNAILS_STORE_NAME = "thumbnailsStore";
+export const SNAPSHOT_STORE_NAME = "snapshotStore";
 
 // Background
 /**
@@ -155,7 +268,7 @@ export interface AppState {
   historyEnabled: boolean;
   historyMaxSize: number;
   currentHistoryIndex: number;
-  currentImages: ImageData[];
+  currentImages: ImageMetadata[];
   historyList: HistoryEntry[];
   clockInterval: number | null;
   autoRefreshTimer: number | null;
@@ -184,6 +297,25 @@ export const DEFAULT_APP_STATE: AppState = {
   shuffleIndex: 0,
 };
 
+// Image sources
+/** Identifiers of the API-backed wallpaper providers registered in `src/providers` */
+export type ProviderId = "unsplash" | "pexels";
+
+/** Identifiers of the once-a-day "picture of the day" providers */
+export type DailyProviderId = "apod" | "wikimedia" | "bing";
+
+/**
+ * Every value the `source` field of a stored image or history entry can take.
+ * `custom` marks images from the user's own feed, `local` images imported
+ * from disk and `other` the fallback pool.
+ */
+export type ImageSource =
+  | ProviderId
+  | DailyProviderId
+  | "custom"
+  | "local"
+  | "other";
+
 // DB Interfaces
 export interface ImageData {
   id: string;
@@ -191,24 +323,253 @@ export interface ImageData {
   blob: Blob;
   /** SHA-256 hex digest of the blob content — used for deduplication */
   contentHash?: string;
-  source: "unsplash" | "pexels" | "other";
+  /** dHash of what the image looks like — used to catch near-duplicates */
+  perceptualHash?: string;
+  source: ImageSource;
   downloadUrl: string;
   author: string;
   authorUrl: string;
+  /** Credit line or title supplied by the source, e.g. a picture-of-the-day caption */
+  attribution?: string;
+  /** Licence name as given by the source, e.g. "CC BY-SA 4.0" */
+  license?: string;
+  /** Link to the licence text */
+  licenseUrl?: string;
+  /** Collection or topic the image was fetched from, as `<kind>:<id>` */
+  collection?: string;
+  /** Search keyword the image was fetched with */
+  keyword?: string;
+  /** Blob size in bytes, recorded when the image is stored */
+  size?: number;
+  /**
+   * Size in bytes as downloaded, when the image was transcoded before being
+   * stored. `contentHash` is of these original bytes.
+   */
+  originalSize?: number;
+  /**
+   * Small preview of the image, made when it is stored. Kept in its own store,
+   * like the blob, and missing for images whose thumbnail is still to be
+   * backfilled.
+   */
+  thumbnail?: Blob;
+  /** BlurHash supplied by the source, painted while the image decodes */
+  blurHash?: string;
+  /**
+   * Width over height of the original, where the source gives it. A BlurHash
+   * holds no shape of its own, so this is what it is decoded and cropped to.
+   */
+  aspectRatio?: number;
+  /** Average colour as `#rrggbb`, from the source or computed when stored */
+  color?: string;
+  /** Marked by the user; never evicted to stay within the cache budget */
+  favorite?: boolean;
+  /** Failed to decode in a cache scan, but protected from deletion */
+  unreadable?: boolean;
   timestamp: number;
   expiresAt: number;
 }
 
+/**
+ * An image record without its blob or thumbnail, as kept in the images store.
+ * Listing and picking images only needs these; the blob is loaded from the
+ * image blobs store when the image is displayed.
+ */
+export type ImageMetadata = Omit<ImageData, "blob" | "thumbnail">;
+
+/**
+ * Image content or thumbnail, kept in its own store under the image's id
+ */
+export interface ImageBlobRecord {
+  id: string;
+  blob: Blob;
+}
+
+/**
+ * Outcome of storing a batch of images
+ */
+export interface StoreImagesResult {
+  /** IDs of the images written */
+  storedIds: string[];
+  /** Images left out because the same content is already stored */
+  duplicates: number;
+  /** Images left out because one that looks the same is already stored */
+  nearDuplicates: number;
+  /** IDs of images left out because the storage quota was still exceeded */
+  skippedIds: string[];
+  /** Images deleted to make room, for the cache budget or the quota */
+  evicted: number;
+}
+
 export interface Metadata {
   key: string;
   value: number;
 }
 
+/**
+ * An image download that failed every immediate retry, kept in the retry
+ * queue store until it succeeds or gets too old
+ */
+export interface RetryQueueEntry {
+  /** Same as the photo id, so a photo is only queued once */
+  id: string;
+  /** Everything needed to download and credit the image */
+  photo: ProviderPhoto;
+  /** Whether the image should get a permanent expiry once downloaded */
+  permanent: boolean;
+  /** Queued retries made so far */
+  attempts: number;
+  firstFailedAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/**
+ * How a lock is held: the Web Locks API, or a lease record in
+ * `chrome.storage.local` where Web Locks are unavailable
+ */
+export type LockMechanism = "web-locks" | "storage-lease";
+
+/**
+ * Who holds a lock and until when the hold is trusted
+ */
+export interface LockLease {
+  name: string;
+  /** Context and instance, e.g. `options#3f9a1c2e` */
+  holder: string;
+  /** Random per acquisition, so a holder only ever releases its own lease */
+  token: string;
+  mechanism: LockMechanism;
+  acquiredAt: number;
+  /** Renewed by a heartbeat; a lease past this is stale and may be taken over */
+  expiresAt: number;
+}
+
+export interface LockDiagnostics {
+  mechanism: LockMechanism;
+  held: { name: string; holder: string; since?: number; stale: boolean }[];
+  /** Lock names other contexts are waiting for (Web Locks only) */
+  pending: string[];
+}
+
+/**
+ * Download state of one photo in a refresh job
+ */
+export type RefreshJobItemStatus = "pending" | "done" | "failed";
+
+export interface RefreshJobItem {
+  photo: ProviderPhoto;
+  status: RefreshJobItemStatus;
+  error?: string;
+  /** The download failed in a way a retry cannot fix, e.g. HTTP 404 */
+  permanentFailure?: boolean;
+  /** The image downloaded but the storage quota left no room for it */
+  skippedForSpace?: boolean;
+  /** When the server asked to be tried again, from `Retry-After` */
+  retryAt?: number;
+}
+
+/**
+ * A wallpaper refresh persisted in IndexedDB
+ * The photo list is fetched once; images are then downloaded and stored one
+ * by one, so a refresh cut short by the service worker being stopped picks up
+ * where it left off.
+ */
+export interface RefreshJob {
+  /** Always REFRESH_JOB_ID */
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Expiry given to every image the job stores */
+  expiresAt: number;
+  /** Whether failed photos are queued for retry with a permanent expiry */
+  permanent: boolean;
+  items: RefreshJobItem[];
+  /** Index of the first item that is still pending */
+  cursor: number;
+}
+
+/**
+ * A refresh job's items counted by status, with failed items broken down by
+ * why they failed
+ */
+export interface RefreshJobSummary
+  extends Record<RefreshJobItemStatus, number> {
+  /** Failed items that downloaded but did not fit */
+  skippedForSpace: number;
+  /** Failed items a retry cannot fix */
+  permanentFailure: number;
+}
+
+/**
+ * The image the next new tab will show, rendered at screen size ahead of time
+ * so it can be painted before settings, history or the image list load
+ */
+export interface ImageSnapshot {
+  /** Always SNAPSHOT_ID */
+  id: string;
+  imageId: string;
+  /** The image scaled to cover the screen, as WebP */
+  blob: Blob;
+  /** Screen size it was rendered for, in device pixels */
+  width: number;
+  height: number;
+  createdAt: number;
+  /** The image's own expiry; the snapshot is not used past it */
+  expiresAt: number;
+}
+
+/**
+ * How a new tab got its first wallpaper on screen
+ */
+export type FirstPaintPath = "snapshot" | "full";
+
+/**
+ * Recent times from navigation until the wallpaper was fully shown, in
+ * milliseconds, newest last
+ */
+export type FirstPaintTimings = Partial<Record<FirstPaintPath, number[]>>;
+
 export interface HistoryEntry {
   id?: number;
   imageId: string;
   viewedAt: number;
-  source: "unsplash" | "pexels" | "other";
+  source: ImageSource;
+}
+
+/**
+ * What the post-open record check found and repaired
+ */
+export interface DbIntegrityReport {
+  checkedAt: number;
+  /** Image records whose blob was still inline, moved to the blob store */
+  blobsMoved: number;
+  /** Image records that were incomplete or had no blob, deleted */
+  imagesDeleted: number;
+  /** History entries that were incomplete, deleted */
+  historyDeleted: number;
+  /** Blobs no image record refers to, deleted */
+  orphanBlobsDeleted: number;
+  /** Thumbnails no image record refers to, deleted */
+  orphanThumbnailsDeleted: number;
+}
+
+/**
+ * Position in the history just after the last entry of a page
+ * Entries are ordered newest first, and by id among entries viewed at the
+ * same moment.
+ */
+export interface HistoryCursor {
+  viewedAt: number;
+  id: number;
+}
+
+/**
+ * One page of history, newest first
+ */
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  /** Where the next page starts, or null if this is the last page */
+  nextCursor: HistoryCursor | null;
 }
 
 // Transitions settings
@@ -277,18 +638,22 @@ export interface TransitionOptions {
  * Manages API keys, search preferences, display options, and caching behavior
  */
 export interface Settings {
-  /** API keys for external image services */
-  apiKeys: {
-    unsplash: string[];
-    pexels: string[];
-  };
+  /** API keys for external image services, one list per provider */
+  apiKeys: Record<ProviderId, string[]>;
   /** Search preferences and keywords for image fetching */
   searchPreferences: {
     /** Keywords for Unsplash image searches (comma-separated) */
     unsplashKeywords: string;
     /** Keywords for Pexels image searches (comma-separated) */
     pexelsKeywords: string;
+    /**
+     * How many keywords one refresh spreads each key's batch across.
+     * Keywords are taken in turn from that provider's own rotation.
+     */
+    keywordsPerRefresh?: number;
   };
+  /** Collections and topics each provider fetches from on every refresh */
+  collections?: Partial<Record<ProviderId, CollectionTarget[]>>;
 
   /** Automatic image refresh configuration */
   autoRefresh: {
@@ -329,6 +694,8 @@ export interface Settings {
   cache: {
     /** Whether to keep cached images permanently (never auto-delete) */
     permanentMode: boolean;
+    /** Limit on the cache; least recently viewed images are evicted past it */
+    budget?: CacheBudget;
   };
   /** Logging preferences.
    *
@@ -373,6 +740,36 @@ export interface Settings {
    * Stores the timestamp of the last manual refresh attempt
    */
   forceRefreshCooldown?: number;
+
+  /** Self-hosted JSON or RSS/Atom feed used as an extra image source */
+  customFeed?: CustomFeedSettings;
+
+  /** Picture-of-the-day providers, fetched on their own daily cadence */
+  dailyImages?: {
+    /** Enabled daily providers */
+    providers: DailyProviderId[];
+    /** Days of past pictures to fetch when a provider is first enabled */
+    backfillDays: number;
+    /** Personal api.nasa.gov key; the shared demo key is used when empty */
+    nasaApiKey?: string;
+  };
+
+  /** Failed image downloads kept for a later retry */
+  retryQueue?: {
+    /** Hours after the first failure before an entry is given up on */
+    maxAgeHours: number;
+  };
+
+  /** Image download scheduling */
+  downloads?: {
+    /** Most image downloads allowed at once; slower links use fewer */
+    maxConcurrency: number;
+    /** Size and compression photos are requested at */
+    imageQuality?: ImageQualityTier;
+  };
+
+  /** Re-encoding of downloaded images before they are cached */
+  transcode?: TranscodeSettings;
 }
 
 /**
@@ -387,6 +784,7 @@ export const DEFAULT_SETTINGS: Settings = {
   searchPreferences: {
     unsplashKeywords: DEFAULT_UNSPLASH_KEYWORDS,
     pexelsKeywords: DEFAULT_PEXELS_KEYWORDS,
+    keywordsPerRefresh: DEFAULT_KEYWORDS_PER_REFRESH,
   },
   autoRefresh: {
     enabled: false,
@@ -425,7 +823,409 @@ export const DEFAULT_SETTINGS: Settings = {
 // Api Download Options
 export interface DownloadOptions {
   maxRetries?: number;
+  /** Extra request headers, e.g. authorization for a custom feed */
+  headers?: Record<string, string>;
   timeoutMs?: number;
   initialBackoffMs?: number;
   backoffMultiplier?: number;
 }
+
+/**
+ * Image formats downloads can be re-encoded to
+ */
+export type TranscodeFormat = "webp" | "avif";
+
+/**
+ * How downloaded images are re-encoded to shrink the cache
+ * Images larger than the screen are scaled down to cover it; an image is kept
+ * as downloaded when re-encoding would not make it smaller.
+ */
+export interface TranscodeSettings {
+  enabled: boolean;
+  /** Falls back to WebP where the browser cannot encode AVIF */
+  format: TranscodeFormat;
+  /** Encoder quality in percent */
+  quality: number;
+}
+
+export const DEFAULT_TRANSCODE_SETTINGS: TranscodeSettings = {
+  enabled: false,
+  format: "webp",
+  quality: DEFAULT_TRANSCODE_QUALITY,
+};
+
+/**
+ * Screen a new tab was shown on, in CSS pixels
+ */
+export interface DisplaySize {
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+  /** When a new tab last reported it */
+  reportedAt: number;
+}
+
+/**
+ * Assumed until a new tab has reported its screen
+ */
+export const DEFAULT_DISPLAY_SIZE: DisplaySize = {
+  width: 1920,
+  height: 1080,
+  devicePixelRatio: 1,
+  reportedAt: 0,
+};
+
+/**
+ * How large and how compressed downloaded images are
+ */
+export type ImageQualityTier = "saver" | "balanced" | "high";
+
+/**
+ * Highest pixel density and JPEG quality each tier downloads at
+ * `saver` ignores high-density screens, so it sizes images in CSS pixels.
+ */
+export const IMAGE_QUALITY_TIERS: Record<
+  ImageQualityTier,
+  { maxDpr: number; quality: number }
+> = {
+  saver: { maxDpr: 1, quality: 60 },
+  balanced: { maxDpr: 2, quality: 75 },
+  high: { maxDpr: 3, quality: 90 },
+};
+
+export const DEFAULT_IMAGE_QUALITY_TIER: ImageQualityTier = "balanced";
+
+/**
+ * Size and quality a photo should be downloaded at
+ * `width` and `height` are in CSS pixels; the image needs `dpr` times as many.
+ */
+export interface ImageSizeTarget {
+  width: number;
+  height: number;
+  dpr: number;
+  /** JPEG quality in percent, for providers that accept one */
+  quality: number;
+  tier: ImageQualityTier;
+}
+
+/**
+ * Cache size limit, either in megabytes of image data or in image count
+ */
+export interface CacheBudget {
+  /** Which of the two limits applies */
+  mode: "size" | "count";
+  maxMb: number;
+  maxImages: number;
+}
+
+export const DEFAULT_CACHE_BUDGET: CacheBudget = {
+  mode: "size",
+  maxMb: DEFAULT_CACHE_BUDGET_MB,
+  maxImages: DEFAULT_CACHE_BUDGET_IMAGES,
+};
+
+/**
+ * Images and bytes held by one source or keyword
+ */
+export interface CacheUsageBucket {
+  count: number;
+  bytes: number;
+}
+
+/**
+ * Cached images broken down by where they came from
+ */
+export interface CacheUsage {
+  total: CacheUsageBucket;
+  /** Bytes transcoding saved compared with the images as downloaded */
+  savedBytes: number;
+  bySource: Record<string, CacheUsageBucket>;
+  byKeyword: Record<string, CacheUsageBucket>;
+}
+
+/**
+ * Connection speed classification used to size timeouts and concurrency
+ */
+export type ConnectionSpeed = "slow" | "medium" | "fast";
+
+/**
+ * Order in which queued image downloads are started
+ */
+export type DownloadPriority = "high" | "normal" | "low";
+
+/**
+ * Snapshot of the download scheduler's work
+ * `done` and `failed` count since the scheduler last went idle.
+ */
+export interface DownloadProgress {
+  queued: number;
+  active: number;
+  done: number;
+  failed: number;
+  maxConcurrency: number;
+}
+
+// Wallpaper providers
+/**
+ * Provider-agnostic photo metadata, i.e. everything an `ImageData` record
+ * holds except what is only known once the image has been downloaded.
+ */
+export type ProviderPhoto = Omit<
+  ImageData,
+  | "blob"
+  | "timestamp"
+  | "expiresAt"
+  | "contentHash"
+  | "perceptualHash"
+  | "size"
+  | "originalSize"
+  | "thumbnail"
+  | "favorite"
+>;
+
+/**
+ * Called with every API response a provider receives, so callers can read
+ * rate limit headers without each provider tracking them
+ */
+export type ResponseObserver = (response: Response) => void;
+
+/**
+ * Rate limit state of one API key
+ */
+export interface KeyQuota {
+  /** Requests left in the current window */
+  remaining?: number;
+  /** Requests allowed per window */
+  limit?: number;
+  /** When the current window ends and `remaining` is restored */
+  resetAt?: number;
+  /** The key must not be used before this time (set by `Retry-After`) */
+  cooldownUntil?: number;
+  /** When the provider last reported on this key */
+  updatedAt: number;
+}
+
+/**
+ * Kinds of curated groupings a provider can fetch from
+ */
+export type CollectionKind = "collection" | "topic";
+
+/**
+ * A subscribed collection or topic, e.g. an Unsplash collection ID or
+ * topic slug
+ */
+export interface CollectionTarget {
+  kind: CollectionKind;
+  id: string;
+}
+
+export const COLLECTION_KIND_LABELS: Record<CollectionKind, string> = {
+  collection: "Collection",
+  topic: "Topic",
+};
+
+/**
+ * Describes an API-backed image source.
+ * The API layer drives every provider through this interface, so adding a new
+ * source only requires implementing it and registering it in `src/providers`.
+ */
+export interface WallpaperProvider<TPhoto = unknown> {
+  /** Stable identifier, also used as the `source` of stored images */
+  id: ProviderId;
+  /** Human readable name shown in the UI */
+  displayName: string;
+  /** Landing page linked from image credits */
+  homepageUrl: string;
+  /** Where users can register for an API key */
+  developerUrl: string;
+  /** Maximum number of photos a single `fetchBatch` call can return */
+  batchSize: number;
+  /** Cheap local check that a key looks like one this provider issues */
+  isKeyFormatValid(key: string): boolean;
+  /** Performs the lightest authenticated request the API offers */
+  testKey(key: string): Promise<Response>;
+  /**
+   * Fetches one batch of photo metadata, optionally filtered by keyword.
+   * Rejects with an `HTTP <status>` error on non-2xx responses.
+   * @param count - Photos to ask for, at most `batchSize` (defaults to it)
+   * @param onResponse - Receives each raw response, including failed ones
+   */
+  fetchBatch(
+    key: string,
+    keyword: string | null,
+    count?: number,
+    onResponse?: ResponseObserver,
+  ): Promise<TPhoto[]>;
+  /** Collection kinds `fetchCollection` accepts; omitted if it has none */
+  collectionKinds?: CollectionKind[];
+  /**
+   * Fetches one batch of photo metadata from a collection or topic.
+   * Rejects with an `HTTP <status>` error on non-2xx responses.
+   * @param count - Photos to ask for, at most `batchSize` (defaults to it)
+   * @param onResponse - Receives each raw response, including failed ones
+   */
+  fetchCollection?(
+    key: string,
+    target: CollectionTarget,
+    count?: number,
+    onResponse?: ResponseObserver,
+  ): Promise<TPhoto[]>;
+  /**
+   * Maps a raw API photo onto the shared image metadata shape
+   * @param target - Screen size and quality to pick the image URL for; the
+   *   provider's fixed default size when omitted
+   */
+  normalizePhoto(photo: TPhoto, target?: ImageSizeTarget): ProviderPhoto;
+}
+
+// Local library
+/**
+ * Outcome of importing a batch of files into the local library
+ */
+export interface LocalImportResult {
+  /** Files stored as new images */
+  imported: number;
+  /** Files whose content was already in the cache */
+  duplicates: number;
+  /** Files skipped for being the wrong type or too large */
+  rejected: number;
+  /** Files that did not fit in the browser's storage quota */
+  skipped: number;
+  /** IDs of the newly stored images, in import order */
+  importedIds: string[];
+}
+
+// Custom feed
+/**
+ * JSONPath-style field locations inside a JSON feed.
+ * Paths are dot separated with optional `[n]` indices and an optional
+ * leading `$.`, e.g. `$.data.photos` or `urls.full`.
+ */
+export interface CustomFeedMapping {
+  /** Path to the array of items; empty when the document itself is the array */
+  items: string;
+  /** Path to a unique id within an item */
+  id: string;
+  /** Path to the image URL within an item (required) */
+  imageUrl: string;
+  /** Path to the author name within an item */
+  author: string;
+  /** Path to the author's profile URL within an item */
+  authorUrl: string;
+  /** Path to the download/landing page URL within an item */
+  downloadUrl: string;
+}
+
+/**
+ * Custom feed source configuration
+ */
+export interface CustomFeedSettings {
+  /** Whether the feed is fetched during refreshes */
+  enabled: boolean;
+  /** Feed address */
+  url: string;
+  /** How to interpret the response; `auto` sniffs the body */
+  format: "auto" | "json" | "rss";
+  /** Optional header sent with the feed request, e.g. for bearer tokens */
+  authHeader?: {
+    name: string;
+    value: string;
+  };
+  /** Field mapping used for JSON feeds */
+  mapping: CustomFeedMapping;
+}
+
+export const DEFAULT_CUSTOM_FEED_MAPPING: CustomFeedMapping = {
+  items: "items",
+  id: "id",
+  imageUrl: "url",
+  author: "author",
+  authorUrl: "authorUrl",
+  downloadUrl: "downloadUrl",
+};
+
+// Picture of the day providers
+/**
+ * Describes a source that publishes one curated image per day.
+ * Daily providers are registered in `src/daily` and refreshed on their own
+ * alarm rather than the regular batch refresh.
+ */
+export interface DailyImageProvider {
+  /** Stable identifier, also used as the `source` of stored images */
+  id: DailyProviderId;
+  /** Human readable name shown in the UI */
+  displayName: string;
+  /** Landing page linked from image credits */
+  homepageUrl: string;
+  /** How far back the service lets us fetch, in days (including today) */
+  maxBackfillDays: number;
+  /**
+   * Fetches the metadata of the picture published on a given UTC day.
+   * Resolves to null when that day has no still image (e.g. a video).
+   * Rejects with an `HTTP <status>` error on non-2xx responses.
+   * @param day - Date as `YYYY-MM-DD`
+   * @param apiKey - Key for services that need one
+   */
+  fetchDay(day: string, apiKey?: string): Promise<ProviderPhoto | null>;
+}
+
+/**
+ * Last day processed per daily provider (`YYYY-MM-DD`).
+ * A provider without an entry has never been fetched and gets backfilled.
+ */
+export type DailyFetchState = Partial<Record<DailyProviderId, string>>;
+
+// Keywords
+/**
+ * A search keyword and how often it comes up in its provider's rotation
+ */
+export interface WeightedKeyword {
+  keyword: string;
+  /** Relative frequency, 1..MAX_KEYWORD_WEIGHT */
+  weight: number;
+}
+
+// Circuit breaker
+/**
+ * `closed` lets requests through, `open` blocks them until the backoff ends,
+ * and `half-open` allows a single probe whose outcome closes or re-opens it.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Persisted breaker for one provider or one API key
+ */
+export interface CircuitRecord {
+  /** What the breaker guards */
+  scope: "provider" | "key";
+  /** Human readable name, e.g. "Unsplash" or "Unsplash key …abcd" */
+  label: string;
+  /** Stored state; an open circuit past `retryAt` is reported as half-open */
+  state: CircuitState;
+  /** Consecutive failures since the last success */
+  failures: number;
+  /** Times the circuit has opened in a row, drives the backoff */
+  trips: number;
+  /** When an open circuit may be probed */
+  retryAt?: number;
+  /** Last failure reason */
+  lastError?: string;
+  updatedAt: number;
+}
+
+/**
+ * All breakers, keyed by `provider:<id>` or `key:<source>_<key>`
+ */
+export type CircuitBreakerState = Record<string, CircuitRecord>;
+
+/**
+ * Breaker status as reported by `getBackgroundStats`
+ */
+export interface CircuitSummary {
+  scope: CircuitRecord["scope"];
+  label: string;
+  state: CircuitState;
+  failures: number;
+  retryAt?: number;
+  lastError?: string;
+}
@@ -0,0 +1,64 @@
+/**
+ * NASA Astronomy Picture of the Day provider.
+ * Works with the shared demo key; a personal api.nasa.gov key lifts the
+ * rate limit.
+ */
+
+import {
+  API_REQUEST_TIMEOUT_MS,
+  DailyImageProvider,
+  NASA_DEMO_API_KEY,
+  MAX_DAILY_BACKFILL_DAYS,
+} from "../config";
+
+/**
+ * Subset of the APOD response used by the extension
+ */
+interface ApodEntry {
+  date: string;
+  title: string;
+  media_type: "image" | "video" | string;
+  url: string;
+  hdurl?: string;
+  copyright?: string;
+}
+
+export const apodProvider: DailyImageProvider = {
+  id: "apod",
+  displayName: "NASA APOD",
+  homepageUrl: "https://apod.nasa.gov/apod/",
+  maxBackfillDays: MAX_DAILY_BACKFILL_DAYS,
+
+  async fetchDay(day, apiKey) {
+    const url = `https://api.nasa.gov/planetary/apod?api_key=${encodeURIComponent(
+      apiKey || NASA_DEMO_API_KEY,
+    )}&date=${day}`;
+
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(API_REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const entry = (await response.json()) as ApodEntry;
+    if (entry.media_type !== "image") return null;
+
+    // APOD pages are named apYYMMDD.html
+    const pageUrl = `https://apod.nasa.gov/apod/ap${day.slice(2).replace(/-/g, "")}.html`;
+    const copyright = entry.copyright?.replace(/\s+/g, " ").trim();
+
+    return {
+      id: `apod_${day}`,
+      url: entry.hdurl || entry.url,
+      source: "apod",
+      downloadUrl: pageUrl,
+      author: copyright || "NASA",
+      authorUrl: pageUrl,
+      attribution: entry.title,
+      // Images without a copyright field are NASA works in the public domain
+      license: copyright ? `© ${copyright}` : "Public domain",
+    };
+  },
+};
@@ -0,0 +1,59 @@
+/**
+ * Bing homepage image provider.
+ * Bing's archive is addressed by "days ago" and only reaches back a week.
+ */
+
+import { API_REQUEST_TIMEOUT_MS, DailyImageProvider } from "../config";
+import { daysBetween, formatDay } from "./dates";
+
+/**
+ * Subset of the HPImageArchive image object used by the extension
+ */
+interface BingImage {
+  startdate: string;
+  urlbase: string;
+  copyright: string;
+  copyrightlink?: string;
+  title?: string;
+}
+
+export const bingProvider: DailyImageProvider = {
+  id: "bing",
+  displayName: "Bing",
+  homepageUrl: "https://www.bing.com",
+  maxBackfillDays: 8, // idx 0 (today) through 7
+
+  async fetchDay(day) {
+    const daysAgo = daysBetween(day, formatDay(new Date()));
+    if (daysAgo < 0 || daysAgo >= this.maxBackfillDays) return null;
+
+    const response = await fetch(
+      `https://www.bing.com/HPImageArchive.aspx?format=js&idx=${daysAgo}&n=1&mkt=en-US`,
+      { signal: AbortSignal.timeout(API_REQUEST_TIMEOUT_MS) },
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { images?: BingImage[] };
+    const image = data.images?.[0];
+    if (!image) return null;
+
+    // Copyright reads like "Lake Bled, Slovenia (© Jane Doe/Getty Images)"
+    const holder = /\(©\s*([^)]+)\)\s*$/.exec(image.copyright)?.[1]?.trim();
+    const caption = image.copyright.replace(/\s*\(©[^)]*\)\s*$/, "").trim();
+    const pageUrl = image.copyrightlink || "https://www.bing.com";
+
+    return {
+      id: `bing_${image.startdate}`,
+      url: `https://www.bing.com${image.urlbase}_1920x1080.jpg`,
+      source: "bing",
+      downloadUrl: pageUrl,
+      author: holder || "Microsoft Bing",
+      authorUrl: pageUrl,
+      attribution: image.title ? `${image.title} — ${caption}` : caption,
+      license: `© ${holder || "Microsoft"}`,
+    };
+  },
+};
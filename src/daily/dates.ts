@@ -0,0 +1,57 @@
+/**
+ * Day arithmetic for the picture-of-the-day providers.
+ * Days are UTC calendar dates formatted as `YYYY-MM-DD`.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a date as a UTC `YYYY-MM-DD` day
+ */
+export function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Shifts a day by a number of days (negative moves back)
+ */
+export function addDays(day: string, days: number): string {
+  return formatDay(new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS));
+}
+
+/**
+ * Whole days from `from` to `to` (positive when `to` is later)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS,
+  );
+}
+
+/**
+ * Lists the days still to fetch for a provider, oldest first.
+ * Without a previous day this is a backfill of the last `backfillDays` days;
+ * otherwise every day after `lastDay` up to today. Either way the range never
+ * reaches further back than the provider allows.
+ * @param lastDay - Last day already processed, if any
+ * @param today - Current day
+ * @param backfillDays - Days to fetch on first enable (including today)
+ * @param maxDays - Furthest back the provider can serve (including today)
+ */
+export function getDaysToFetch(
+  lastDay: string | undefined,
+  today: string,
+  backfillDays: number,
+  maxDays: number,
+): string[] {
+  const window = Math.min(
+    maxDays,
+    lastDay === undefined ? backfillDays : daysBetween(lastDay, today),
+  );
+
+  const days: string[] = [];
+  for (let offset = window - 1; offset >= 0; offset--) {
+    days.push(addDays(today, -offset));
+  }
+  return days;
+}
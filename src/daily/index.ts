@@ -0,0 +1,42 @@
+/**
+ * Picture-of-the-day provider registry.
+ * Lists the sources that publish one curated image per day.
+ *
+ * Each provider looks up one date at a time and returns null for a day with
+ * no picture, such as an APOD video; `fetchDailyImages` in `src/api` keeps
+ * track of the last day done per provider.
+ */
+
+import { DailyImageProvider, ImageSource } from "../config";
+import { apodProvider } from "./apod";
+import { bingProvider } from "./bing";
+import { wikimediaProvider } from "./wikimedia";
+
+export { addDays, daysBetween, formatDay, getDaysToFetch } from "./dates";
+
+/**
+ * Registered daily providers, in display order
+ */
+const DAILY_PROVIDERS: DailyImageProvider[] = [
+  apodProvider,
+  wikimediaProvider,
+  bingProvider,
+];
+
+/**
+ * Returns every registered daily provider
+ */
+export function getDailyProviders(): DailyImageProvider[] {
+  return DAILY_PROVIDERS;
+}
+
+/**
+ * Looks up a daily provider by id
+ * @param id - Provider id or image source
+ * @returns The provider, or undefined for other sources
+ */
+export function getDailyProvider(
+  id: ImageSource | string,
+): DailyImageProvider | undefined {
+  return DAILY_PROVIDERS.find((provider) => provider.id === id);
+}
@@ -0,0 +1,67 @@
+/**
+ * Wikimedia Commons Picture of the Day provider.
+ * Reads the POTD from the Wikimedia featured-content feed and downloads a
+ * scaled rendition, since originals can be tens of megabytes.
+ */
+
+import {
+  API_REQUEST_TIMEOUT_MS,
+  DailyImageProvider,
+  MAX_DAILY_BACKFILL_DAYS,
+} from "../config";
+
+/** Width requested from Commons' on-the-fly scaler */
+const WIKIMEDIA_IMAGE_WIDTH = 2560;
+
+/**
+ * Subset of the featured-feed `image` object used by the extension
+ */
+interface WikimediaPotd {
+  title: string;
+  file_page: string;
+  artist?: { text?: string };
+  credit?: { text?: string };
+  license?: { type?: string; url?: string };
+  description?: { text?: string };
+}
+
+export const wikimediaProvider: DailyImageProvider = {
+  id: "wikimedia",
+  displayName: "Wikimedia Commons",
+  homepageUrl: "https://commons.wikimedia.org/wiki/Commons:Picture_of_the_day",
+  maxBackfillDays: MAX_DAILY_BACKFILL_DAYS,
+
+  async fetchDay(day) {
+    const response = await fetch(
+      `https://api.wikimedia.org/feed/v1/wikipedia/en/featured/${day.replace(/-/g, "/")}`,
+      { signal: AbortSignal.timeout(API_REQUEST_TIMEOUT_MS) },
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { image?: WikimediaPotd };
+    const image = data.image;
+    if (!image) return null;
+
+    const fileName = image.title.replace(/^File:/, "");
+    const author = image.artist?.text?.trim();
+    const attribution =
+      image.description?.text?.trim() || image.credit?.text?.trim();
+
+    return {
+      id: `wikimedia_${day}`,
+      url: `https://commons.wikimedia.org/wiki/Special:FilePath/${encodeURIComponent(
+        fileName,
+      )}?width=${WIKIMEDIA_IMAGE_WIDTH}`,
+      source: "wikimedia",
+      downloadUrl: image.file_page,
+      author: author || "Wikimedia Commons contributor",
+      authorUrl: image.file_page,
+      ...(attribution ? { attribution } : {}),
+      ...(image.license?.type ? { license: image.license.type } : {}),
+      ...(image.license?.url ? { licenseUrl: image.license.url } : {}),
+    };
+  },
+};
@@ -7,6 +7,7 @@ import {
   DB_NAME,
   Metadata,
   ImageData,
+  ImageSource,
   DB_VERSION,
   HistoryEntry,
   IMAGES_STORE_NAME,
@@ -14,53 +15,91 @@ import {
   METADATA_STORE_NAME,
   MIN_STORAGE_THRESHOLD_GB,
   PERMANENT_CACHE_EXPIRY_MS,
+  RETRY_QUEUE_STORE_NAME,
+  RetryQueueEntry,
+  REFRESH_JOB_ID,
+  REFRESH_JOB_STORE_NAME,
+  RefreshJob,
+  IMAGE_BLOBS_STORE_NAME,
+  THUMBNAILS_STORE_NAME,
+  SNAPSHOT_ID,
+  SNAPSHOT_STORE_NAME,
+  ImageSnapshot,
+  ImageBlobRecord,
+  ImageMetadata,
+  DB_WRITE_LOCK_NAME,
+  CacheBudget,
+  CacheUsage,
+  DEFAULT_CACHE_BUDGET,
+  QUOTA_RETRY_CHUNK_SIZE,
+  StoreImagesResult,
+  HistoryCursor,
+  HistoryPage,
+  DB_INTEGRITY_CHECK_INTERVAL_MS,
+  DbIntegrityReport,
 } from "../config";
 import { Logger } from "../logger";
-import { getRandomIndex } from "../utils";
+import { withLock } from "../locks";
+import { getSettings } from "../storage";
+import {
+  CacheRecord,
+  isEvictionProtected,
+  planEviction,
+  planQuotaEviction,
+  summarizeCacheUsage,
+} from "../budget";
+import { pickRandomId } from "../utils";
+import { FingerprintedImage, findNearDuplicate } from "../perceptualHash";
+import {
+  findSchemaProblems,
+  getPendingMigrations,
+  getSchemaVersion,
+  isValidHistoryEntry,
+  isValidImageRecord,
+  repairSchema,
+  toIdbVersion,
+} from "./schema";
 
 const db_logger = new Logger("IndexedDB");
 
 // ─── Write lock ──────────────────────────────────────────────────────────────
 
-// Serialises concurrent write operations so transactions don't stomp each other.
-let dbWriteLock = Promise.resolve();
-
+// Serialises write operations across every extension context (service worker,
+// new tab, options, popup) so transactions don't stomp each other and
+// read-then-write steps such as hash deduplication see each other's results.
 async function acquireWriteLock<T>(
   operation: () => Promise<T>,
   timeoutMs: number = 30000,
 ): Promise<T> {
-  const currentLock = dbWriteLock;
-  let releaseLock: (() => void) | undefined;
-
-  dbWriteLock = new Promise((resolve) => {
-    releaseLock = resolve;
-  });
-
-  await currentLock;
-
-  let timeoutId: ReturnType<typeof setTimeout> | undefined;
-  let timedOut = false;
-
-  try {
-    const operationPromise = operation();
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      timeoutId = setTimeout(() => {
-        timedOut = true;
-        reject(new Error(`DB write lock timeout after ${timeoutMs}ms`));
-      }, timeoutMs);
-    });
+  return withLock(
+    DB_WRITE_LOCK_NAME,
+    async () => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      let timedOut = false;
+
+      try {
+        const operationPromise = operation();
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => {
+            timedOut = true;
+            reject(new Error(`DB write lock timeout after ${timeoutMs}ms`));
+          }, timeoutMs);
+        });
 
-    // Race the operation against the timeout so we don't deadlock forever.
-    return await Promise.race([operationPromise, timeoutPromise]) as T;
-  } finally {
-    if (timeoutId) clearTimeout(timeoutId);
-    if (releaseLock) releaseLock();
-    if (timedOut) {
-      db_logger.warn(
-        "DB write lock timeout occurred; allowing subsequent operations to proceed",
-      );
-    }
-  }
+        // Race the operation against the timeout so we don't deadlock forever.
+        return (await Promise.race([operationPromise, timeoutPromise])) as T;
+      } finally {
+        if (timeoutId) clearTimeout(timeoutId);
+        if (timedOut) {
+          db_logger.warn(
+            "DB write lock timeout occurred; allowing subsequent operations to proceed",
+          );
+        }
+      }
+    },
+    // Writes are short and frequent; Web Locks diagnostics come from query()
+    { recordHolder: false },
+  );
 }
 
 // ─── Connection management ────────────────────────────────────────────────────
@@ -82,97 +121,164 @@ let _dbConnection: Promise<IDBDatabase> | null = null;
  */
 function getConnection(): Promise<IDBDatabase> {
   if (!_dbConnection) {
-    _dbConnection = openDatabase();
+    _dbConnection = openDatabase().then(ensureSchemaIntact);
     _dbConnection.catch(() => {
       _dbConnection = null;
     });
+    _dbConnection
+      .then(() => checkRecordsIfDue())
+      .catch((error) =>
+        db_logger.warn("Database integrity check failed:", error),
+      );
   }
   return _dbConnection;
 }
 
-function openDatabase(): Promise<IDBDatabase> {
+/**
+ * Opens the database, running any pending migrations
+ * @param version - IndexedDB version to open at; a repair passes one above
+ *   the current version to get an upgrade transaction
+ */
+function openDatabase(
+  version: number = toIdbVersion(DB_VERSION),
+): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     db_logger.debug("Opening database...");
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = indexedDB.open(DB_NAME, version);
 
     request.onerror = () => {
+      // A repair left the database above this schema's base version
+      if (request.error?.name === "VersionError") {
+        request.onerror = null;
+        db_logger.debug("Database is past the base version, reopening as is");
+        openCurrentVersion().then(resolve, reject);
+        return;
+      }
       db_logger.error("Failed to open database:", request.error);
       reject(request.error);
     };
 
     request.onsuccess = () => {
       db_logger.debug("Database opened successfully");
-      const db = request.result;
-      // Reset cache if the browser closes the connection unexpectedly
-      // (e.g. user clears storage, version change from another tab).
-      db.onclose = () => {
-        db_logger.warn(
-          "Database connection closed unexpectedly — will reopen on next access",
-        );
-        _dbConnection = null;
-      };
-
-      // When another tab requests an upgrade, browsers fire "versionchange".
-      // Close our connection so the upgrade can proceed and reopen on next access.
-      db.onversionchange = () => {
-        db_logger.warn(
-          "Database version change detected — closing connection to allow upgrade",
-        );
-        db.close();
-        _dbConnection = null;
-      };
-
-      resolve(db);
+      resolve(watchConnection(request.result));
     };
 
     request.onupgradeneeded = (event) => {
-      db_logger.debug(
-        `Upgrading database from v${event.oldVersion} → v${DB_VERSION}`,
-      );
       const db = (event.target as IDBOpenDBRequest).result;
       const transaction = (event.target as IDBOpenDBRequest).transaction!;
+      const fromVersion = getSchemaVersion(event.oldVersion);
+      db_logger.debug(
+        `Upgrading database from v${event.oldVersion} → v${version}`,
+      );
 
-      // ── v1: initial schema ────────────────────────────────────────────────
-      if (!db.objectStoreNames.contains(IMAGES_STORE_NAME)) {
-        const imageStore = db.createObjectStore(IMAGES_STORE_NAME, {
-          keyPath: "id",
-        });
-        imageStore.createIndex("timestamp", "timestamp", { unique: false });
-        imageStore.createIndex("expiresAt", "expiresAt", { unique: false });
-        db_logger.debug("Created images object store and indexes");
-      }
-
-      if (!db.objectStoreNames.contains(METADATA_STORE_NAME)) {
-        db.createObjectStore(METADATA_STORE_NAME, { keyPath: "key" });
-        db_logger.debug("Created metadata object store");
+      for (const migration of getPendingMigrations(fromVersion)) {
+        db_logger.info(
+          `Running migration v${migration.version}: ${migration.description}`,
+        );
+        migration.upgrade(db, transaction, (message) =>
+          db_logger.debug(`[v${migration.version}] ${message}`),
+        );
       }
 
-      if (!db.objectStoreNames.contains(HISTORY_STORE_NAME)) {
-        const historyStore = db.createObjectStore(HISTORY_STORE_NAME, {
-          keyPath: "id",
-          autoIncrement: true,
-        });
-        historyStore.createIndex("viewedAt", "viewedAt", { unique: false });
-        historyStore.createIndex("source", "source", { unique: false });
-        historyStore.createIndex("sourceViewedAt", ["source", "viewedAt"], {
-          unique: false,
-        });
-        db_logger.debug("Created history object store and indexes");
+      // Every upgrade, including repair upgrades, recreates whatever the
+      // schema expects but the database lacks
+      const created = repairSchema(db, transaction);
+      if (created.length > 0) {
+        db_logger.warn(`Recreated missing schema: ${created.join(", ")}`);
       }
+    };
+  });
+}
 
-      // ── v2: content-hash index for deduplication ──────────────────────────
-      // IDBIndex on the optional `contentHash` field of ImageData.
-      // `unique: false` because old records won't have the field, and hash
-      // collisions (while astronomically unlikely) must not cause write errors.
-      const imageStore = transaction.objectStore(IMAGES_STORE_NAME);
-      if (!imageStore.indexNames.contains("contentHash")) {
-        imageStore.createIndex("contentHash", "contentHash", { unique: false });
-        db_logger.debug("Created contentHash index on images store");
-      }
+/**
+ * Opens the database at whatever version it is at, without upgrading
+ */
+function openCurrentVersion(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onerror = () => {
+      db_logger.error("Failed to open database:", request.error);
+      reject(request.error);
     };
+    request.onsuccess = () => resolve(watchConnection(request.result));
   });
 }
 
+/**
+ * Drops the shared connection when the browser closes it or another context
+ * needs to upgrade
+ */
+function watchConnection(db: IDBDatabase): IDBDatabase {
+  // Reset cache if the browser closes the connection unexpectedly
+  // (e.g. user clears storage, version change from another tab).
+  db.onclose = () => {
+    db_logger.warn(
+      "Database connection closed unexpectedly — will reopen on next access",
+    );
+    _dbConnection = null;
+  };
+
+  // When another tab requests an upgrade, browsers fire "versionchange".
+  // Close our connection so the upgrade can proceed and reopen on next access.
+  db.onversionchange = () => {
+    db_logger.warn(
+      "Database version change detected — closing connection to allow upgrade",
+    );
+    db.close();
+    _dbConnection = null;
+  };
+  return db;
+}
+
+/**
+ * Checks the opened database has every store and index the schema expects.
+ * Missing ones (e.g. after a failed upgrade or a browser bug) are recreated
+ * by reopening one version up, which runs a repair upgrade.
+ */
+async function ensureSchemaIntact(db: IDBDatabase): Promise<IDBDatabase> {
+  const actual: Record<string, string[]> = {};
+  const storeNames = Array.from(db.objectStoreNames);
+  if (storeNames.length > 0) {
+    const transaction = db.transaction(storeNames, "readonly");
+    for (const name of storeNames) {
+      actual[name] = Array.from(transaction.objectStore(name).indexNames);
+    }
+  }
+
+  const problems = findSchemaProblems(actual);
+  if (problems.length === 0) return db;
+
+  db_logger.warn(
+    `Database schema is missing ${problems.join(", ")} — repairing`,
+  );
+  const repairVersion = db.version + 1;
+  db.close();
+  return openDatabase(repairVersion);
+}
+
+/**
+ * Runs the record integrity check unless it ran within the last day
+ */
+async function checkRecordsIfDue(): Promise<void> {
+  const db = await getConnection();
+  const lastCheck = await withTransaction<Metadata | undefined>(
+    db,
+    METADATA_STORE_NAME,
+    "readonly",
+    (tx) =>
+      promisifyRequest<Metadata | undefined>(
+        tx.objectStore(METADATA_STORE_NAME).get("lastIntegrityCheck"),
+      ),
+  );
+  if (
+    lastCheck &&
+    Date.now() - lastCheck.value < DB_INTEGRITY_CHECK_INTERVAL_MS
+  ) {
+    return;
+  }
+  await checkDatabaseIntegrity();
+}
+
 /**
  * Warms up (or returns) the shared database connection.
  * Callers that previously imported `initDB` continue to work unchanged.
@@ -199,41 +305,136 @@ export async function closeDB(): Promise<void> {
 // ─── Internal helpers ─────────────────────────────────────────────────────────
 
 /**
- * Collects all `contentHash` values currently in the images store using an
- * IDBIndex key-cursor.  A key-cursor yields only index keys + primary keys —
- * no blob data is loaded into memory, keeping this O(n) in hash strings only.
+ * Which of the given content hashes an image in the store already has
+ * Each hash is looked up in the contentHash index, so the cost grows with
+ * the batch rather than with the cache.
  */
-async function getExistingContentHashes(db: IDBDatabase): Promise<Set<string>> {
-  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
-  const store = transaction.objectStore(IMAGES_STORE_NAME);
+async function findStoredContentHashes(
+  db: IDBDatabase,
+  hashes: string[],
+): Promise<Set<string>> {
+  const found = new Set<string>();
+  if (hashes.length === 0) return found;
 
-  if (!store.indexNames.contains("contentHash")) {
-    return new Set(); // DB not yet upgraded; assume no hashes
-  }
+  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
+  const index = transaction.objectStore(IMAGES_STORE_NAME).index("contentHash");
+  await Promise.all(
+    hashes.map(async (hash) => {
+      const key = await promisifyRequest(index.getKey(hash));
+      if (key !== undefined) found.add(hash);
+    }),
+  );
+  return found;
+}
 
-  const index = store.index("contentHash");
-  const hashes = new Set<string>();
+/**
+ * Collects the perceptual hash of every stored image that has one, from the
+ * perceptualHash index (key-cursor, records not loaded)
+ */
+async function getExistingPerceptualHashes(
+  db: IDBDatabase,
+): Promise<FingerprintedImage[]> {
+  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
+  const index = transaction
+    .objectStore(IMAGES_STORE_NAME)
+    .index("perceptualHash");
 
   return new Promise((resolve, reject) => {
+    const fingerprints: FingerprintedImage[] = [];
     const request = index.openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(fingerprints);
+      fingerprints.push({
+        id: cursor.primaryKey as string,
+        perceptualHash: cursor.key as string,
+      });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * What the cache budget needs to know about an image record
+ */
+function toCacheRecord(image: ImageMetadata): CacheRecord {
+  return {
+    id: image.id,
+    source: image.source,
+    timestamp: image.timestamp,
+    size: image.size ?? 0,
+    ...(image.keyword ? { keyword: image.keyword } : {}),
+    ...(image.favorite ? { favorite: true } : {}),
+    ...(image.originalSize !== undefined
+      ? { originalSize: image.originalSize }
+      : {}),
+  };
+}
+
+/**
+ * Reads the size, source and keyword of every stored image
+ */
+async function getCacheRecords(db: IDBDatabase): Promise<CacheRecord[]> {
+  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
+  const store = transaction.objectStore(IMAGES_STORE_NAME);
+
+  return new Promise((resolve, reject) => {
+    const records: CacheRecord[] = [];
+    const request = store.openCursor();
     request.onsuccess = (event) => {
-      const cursor = (event.target as IDBRequest<IDBCursor>).result;
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
       if (cursor) {
-        // cursor.key is the contentHash value (undefined for pre-v2 records)
-        // It is expected to be a string, but may be an array if an index was
-        // defined with multiple keys, so guard against that.
-        if (typeof cursor.key === "string") {
-          hashes.add(cursor.key);
-        }
+        records.push(toCacheRecord(cursor.value as ImageMetadata));
         cursor.continue();
       } else {
-        resolve(hashes);
+        resolve(records);
       }
     };
     request.onerror = () => reject(request.error);
   });
 }
 
+/**
+ * Latest view time of every image in the history store
+ * Walks the imageIdViewedAt index backwards, jumping from each image's latest
+ * view straight to the previous image, so only one key per image is read.
+ */
+async function getLastViewedTimes(
+  db: IDBDatabase,
+): Promise<Map<string, number>> {
+  const transaction = db.transaction([HISTORY_STORE_NAME], "readonly");
+  const index = transaction
+    .objectStore(HISTORY_STORE_NAME)
+    .index("imageIdViewedAt");
+
+  return new Promise((resolve, reject) => {
+    const lastViewed = new Map<string, number>();
+    const request = index.openKeyCursor(null, "prev");
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(lastViewed);
+      const [imageId, viewedAt] = cursor.key as [string, number];
+      lastViewed.set(imageId, viewedAt);
+      cursor.continue([imageId, -Infinity]);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * The user's cache budget, or the default if settings cannot be read
+ */
+async function getCacheBudget(): Promise<CacheBudget> {
+  try {
+    const settings = await getSettings();
+    return settings.cache?.budget ?? DEFAULT_CACHE_BUDGET;
+  } catch (error) {
+    db_logger.warn("Failed to read cache budget, using default", error);
+    return DEFAULT_CACHE_BUDGET;
+  }
+}
+
 /**
  * Promisified wrapper around IDBRequest to reduce boilerplate and ensure
  * errors are handled consistently.
@@ -292,174 +493,328 @@ async function withTransaction<T>(
 }
 
 /**
- * Picks a uniformly random valid (non-expired) image using a count + offset
- * cursor approach.  Accepts an existing `db` reference to avoid redundant
- * `getConnection()` calls from functions that already hold one.
+ * Ids of every valid (non-expired) image, read from the expiresAt index in a
+ * single request. Only keys are read, so no blob or record is deserialised.
+ * Not cached: images are written by the service worker while the new tab page
+ * picks from them, and a list kept in one context would go stale in the other.
  */
-async function pickRandomValidImage(
-  db: IDBDatabase,
-): Promise<ImageData | null> {
+async function getValidImageIds(db: IDBDatabase): Promise<string[]> {
   const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
-  const store = transaction.objectStore(IMAGES_STORE_NAME);
-  const index = store.index("expiresAt");
-  const now = Date.now();
-
-  return new Promise((resolve, reject) => {
-    const countRequest = index.count(IDBKeyRange.lowerBound(now));
-
-    countRequest.onsuccess = () => {
-      const count = countRequest.result;
-      if (count === 0) {
-        db_logger.debug("No valid images in the db");
-        return resolve(null);
-      }
-
-      const randomIndex = getRandomIndex(count);
-      let current = 0;
-
-      const cursorRequest = index.openCursor(IDBKeyRange.lowerBound(now));
-      cursorRequest.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
-        if (!cursor) {
-          db_logger.warn(
-            "Cursor ended before reaching random index — possible race with image expiry",
-          );
-          return resolve(null);
-        }
-        if (current === randomIndex) {
-          resolve(cursor.value as ImageData);
-        } else {
-          current++;
-          cursor.continue();
-        }
-      };
-      cursorRequest.onerror = () => {
-        db_logger.error("Error iterating cursor:", cursorRequest.error);
-        reject(cursorRequest.error);
-      };
-    };
-  });
+  const index = transaction.objectStore(IMAGES_STORE_NAME).index("expiresAt");
+  const keys = await promisifyRequest(
+    index.getAllKeys(IDBKeyRange.lowerBound(Date.now())),
+  );
+  return keys as string[];
 }
 
-// ─── Public API ───────────────────────────────────────────────────────────────
-
 /**
- * Check if an image has been viewed recently (within the last N hours)
- * Useful for avoiding showing the same image too frequently
- * @param imageId - Unique identifier of the image to check
- * @param withinHours - Number of hours to check back (default: 24)
- * @returns Promise that resolves to true if image was viewed recently
- * @throws Error if database operation fails
+ * Ids of the images viewed within the last N hours, read in a single request
  */
-export async function wasImageViewedRecently(
-  imageId: string,
-  withinHours: number = 24,
-): Promise<boolean> {
-  db_logger.debug("Checking if image was viewed recently", {
-    imageId,
-    withinHours,
-  });
-  const db = await getConnection();
+async function getRecentlyViewedIds(
+  db: IDBDatabase,
+  withinHours: number,
+): Promise<Set<string>> {
   const transaction = db.transaction([HISTORY_STORE_NAME], "readonly");
-  const store = transaction.objectStore(HISTORY_STORE_NAME);
-  const index = store.index("viewedAt");
-
+  const index = transaction.objectStore(HISTORY_STORE_NAME).index("viewedAt");
   const cutoffTime = Date.now() - withinHours * 60 * 60 * 1000;
+  const entries = (await promisifyRequest(
+    index.getAll(IDBKeyRange.lowerBound(cutoffTime)),
+  )) as HistoryEntry[];
+  return new Set(entries.map((entry) => entry.imageId));
+}
 
-  return new Promise((resolve, reject) => {
-    const range = IDBKeyRange.lowerBound(cutoffTime);
-    const cursorRequest = index.openCursor(range);
-
-    cursorRequest.onsuccess = (event) => {
-      const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+// ─── Public API ───────────────────────────────────────────────────────────────
 
-      if (cursor) {
-        const entry = cursor.value as HistoryEntry;
+/**
+ * Whether an IndexedDB failure was caused by the origin's storage quota
+ */
+function isQuotaExceededError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === "QuotaExceededError";
+}
 
-        if (entry.imageId === imageId) {
-          db_logger.debug("Image was viewed recently", { imageId });
-          resolve(true);
-          return;
-        }
-        cursor.continue();
-      } else {
-        db_logger.debug("Image was not viewed recently", { imageId });
-        resolve(false);
-      }
+/**
+ * Deletes `evictIds` and writes `images` in a single transaction, putting
+ * each image's metadata (with its blob size), blob and thumbnail in their own
+ * stores.
+ * Rejects with the error that aborted the transaction, falling back to the
+ * failed request's error so a quota error keeps its name.
+ */
+function writeImages(
+  db: IDBDatabase,
+  images: ImageData[],
+  evictIds: string[],
+): Promise<void> {
+  const transaction = db.transaction(
+    [IMAGES_STORE_NAME, IMAGE_BLOBS_STORE_NAME, THUMBNAILS_STORE_NAME],
+    "readwrite",
+  );
+  const store = transaction.objectStore(IMAGES_STORE_NAME);
+  const blobStore = transaction.objectStore(IMAGE_BLOBS_STORE_NAME);
+  const thumbnailStore = transaction.objectStore(THUMBNAILS_STORE_NAME);
+  let requestError: DOMException | null = null;
+  const trackError = (request: IDBRequest) => {
+    request.onerror = () => {
+      if (!requestError) requestError = request.error;
     };
+  };
 
-    cursorRequest.onerror = () => {
-      db_logger.error(
-        "A db transaction error has occurred",
-        cursorRequest.error,
+  for (const id of evictIds) {
+    store.delete(id);
+    blobStore.delete(id);
+    thumbnailStore.delete(id);
+  }
+
+  for (const { blob, thumbnail, ...metadata } of images) {
+    const record: ImageBlobRecord = { id: metadata.id, blob };
+    trackError(store.put({ ...metadata, size: blob.size }));
+    trackError(blobStore.put(record));
+    if (thumbnail) {
+      trackError(thumbnailStore.put({ id: metadata.id, blob: thumbnail }));
+    }
+    db_logger.debug(`Queued image ${metadata.id} for storage`);
+  }
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => {
+      reject(
+        transaction.error ??
+          requestError ??
+          new Error("IDB transaction aborted"),
       );
-      reject(cursorRequest.error);
     };
   });
 }
 
+/**
+ * What `storeImages` checks new images against besides their content hash:
+ * the stored images' perceptual hashes and sizes, when each was last viewed,
+ * and the cache budget.
+ * Reading it walks the images and history stores, so a caller storing images
+ * one at a time reads it once and passes it to every call; `storeImages`
+ * keeps it up to date with what it writes and evicts. Writes from other
+ * contexts in the meantime are not seen until it is read again, so the
+ * budget may briefly run over.
+ */
+export interface ImageStoreState {
+  fingerprints: FingerprintedImage[];
+  records: CacheRecord[];
+  lastViewed: Map<string, number>;
+  budget: CacheBudget;
+}
+
+async function readStoreState(db: IDBDatabase): Promise<ImageStoreState> {
+  const [fingerprints, records, lastViewed, budget] = await Promise.all([
+    getExistingPerceptualHashes(db),
+    getCacheRecords(db),
+    getLastViewedTimes(db),
+    getCacheBudget(),
+  ]);
+  return { fingerprints, records, lastViewed, budget };
+}
+
+/**
+ * Reads what `storeImages` checks new images against, to pass to a series
+ * of calls
+ * @returns Promise that resolves to the current state of the cache
+ * @throws Error if database operation fails
+ */
+export async function readImageStoreState(): Promise<ImageStoreState> {
+  return readStoreState(await getConnection());
+}
+
+/**
+ * Brings a store state up to date after a write
+ */
+function applyWrite(
+  state: ImageStoreState,
+  written: ImageData[],
+  evictIds: string[],
+): void {
+  const removed = new Set([...evictIds, ...written.map((image) => image.id)]);
+  state.records = state.records.filter((record) => !removed.has(record.id));
+  state.fingerprints = state.fingerprints.filter(
+    (fingerprint) => !removed.has(fingerprint.id),
+  );
+  for (const { blob, thumbnail: _thumbnail, ...metadata } of written) {
+    state.records.push(toCacheRecord({ ...metadata, size: blob.size }));
+    if (metadata.perceptualHash) {
+      state.fingerprints.push({
+        id: metadata.id,
+        perceptualHash: metadata.perceptualHash,
+      });
+    }
+  }
+}
+
 /**
  * Store multiple images in the database, skipping any whose content hash
- * already exists (deduplication).
- * Uses a single transaction for better performance.
+ * already exists (deduplication), including repeats within the batch itself.
+ * Least recently viewed images are evicted first so the batch fits the cache
+ * budget, in the same transaction as the new images are written.
+ *
+ * If the write exceeds the browser's storage quota, the oldest unprotected
+ * images are evicted to make room and the batch is retried in chunks of
+ * QUOTA_RETRY_CHUNK_SIZE; chunks that still do not fit are skipped.
  * Protected by write lock to prevent concurrent modifications.
  * @param images - Array of ImageData objects to store
- * @returns Promise that resolves when all new images are stored
- * @throws Error if storage operation fails
+ * @param state - State from `readImageStoreState`, when storing a series of
+ *   batches; read afresh if omitted
+ * @returns Promise that resolves to the stored IDs and the skipped and
+ *   evicted counts
+ * @throws Error if storage operation fails for a reason other than quota
  */
-export async function storeImages(images: ImageData[]): Promise<void> {
-  if (images.length === 0) return;
+export async function storeImages(
+  images: ImageData[],
+  state?: ImageStoreState,
+): Promise<StoreImagesResult> {
+  const result: StoreImagesResult = {
+    storedIds: [],
+    duplicates: 0,
+    nearDuplicates: 0,
+    skippedIds: [],
+    evicted: 0,
+  };
+  if (images.length === 0) return result;
   db_logger.debug(`Storing up to ${images.length} image(s) to the db`);
 
   return acquireWriteLock(async () => {
     const db = await getConnection();
+    const view = state ?? (await readStoreState(db));
 
     // ── content-hash deduplication ────────────────────────────────────────
-    // Fetch the set of hashes already in the store (key-cursor, blobs not
-    // loaded) and filter out any incoming images whose hash matches.
-    const existingHashes = await getExistingContentHashes(db);
-    const newImages = images.filter(
-      (img) => !img.contentHash || !existingHashes.has(img.contentHash),
+    // Look the batch's hashes up in the index and filter out any incoming
+    // images whose hash is already stored or repeats within the batch.
+    const existingHashes = await findStoredContentHashes(
+      db,
+      images.flatMap((img) => (img.contentHash ? [img.contentHash] : [])),
     );
+    let newImages = images.filter((img) => {
+      if (!img.contentHash) return true;
+      if (existingHashes.has(img.contentHash)) return false;
+      existingHashes.add(img.contentHash);
+      return true;
+    });
 
-    const skipped = images.length - newImages.length;
-    if (skipped > 0) {
+    result.duplicates = images.length - newImages.length;
+    if (result.duplicates > 0) {
       db_logger.info(
-        `Deduplication: skipping ${skipped} duplicate image(s), storing ${newImages.length}`,
+        `Deduplication: skipping ${result.duplicates} duplicate image(s), storing ${newImages.length}`,
       );
     }
 
-    if (newImages.length === 0) return;
+    // ── near-duplicate detection ──────────────────────────────────────────
+    // The same photo from another provider or at another size has different
+    // bytes but a perceptual hash only a few bits away. Local imports are
+    // the user's own choice and are always kept.
+    const fingerprints = [...view.fingerprints];
+    const distinctImages = newImages.filter((img) => {
+      if (!img.perceptualHash || img.source === "local") return true;
+      const match = findNearDuplicate(
+        img.perceptualHash,
+        fingerprints.filter((fingerprint) => fingerprint.id !== img.id),
+      );
+      if (match) {
+        db_logger.debug(`Image ${img.id} looks like ${match.id}, skipping`);
+        return false;
+      }
+      fingerprints.push({ id: img.id, perceptualHash: img.perceptualHash });
+      return true;
+    });
+    result.nearDuplicates = newImages.length - distinctImages.length;
+    if (result.nearDuplicates > 0) {
+      db_logger.info(
+        `Deduplication: skipping ${result.nearDuplicates} near-duplicate image(s)`,
+      );
+    }
+    newImages = distinctImages;
 
-    const transaction = db.transaction([IMAGES_STORE_NAME], "readwrite");
-    const store = transaction.objectStore(IMAGES_STORE_NAME);
+    if (newImages.length === 0) return result;
 
-    for (const image of newImages) {
-      store.put(image);
-      db_logger.debug(`Queued image ${image.id} for storage`);
+    // ── cache budget eviction ─────────────────────────────────────────────
+    // Images being replaced by id don't count towards the current usage.
+    const incomingIds = new Set(newImages.map((image) => image.id));
+    const existing = view.records.filter(
+      (record) => !incomingIds.has(record.id),
+    );
+    const batchBytes = newImages.reduce(
+      (sum, image) => sum + image.blob.size,
+      0,
+    );
+    const evictIds = planEviction(existing, view.lastViewed, view.budget, {
+      count: newImages.length,
+      bytes: batchBytes,
+    });
+    if (evictIds.length > 0) {
+      db_logger.info(
+        `Cache budget: evicting ${evictIds.length} least recently viewed image(s)`,
+      );
     }
 
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db_logger.info(`Stored ${newImages.length} image(s) successfully`);
-        resolve();
-      };
+    try {
+      await writeImages(db, newImages, evictIds);
+      applyWrite(view, newImages, evictIds);
+      result.storedIds = newImages.map((image) => image.id);
+      result.evicted = evictIds.length;
+      db_logger.info(`Stored ${newImages.length} image(s) successfully`);
+      return result;
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        db_logger.error("Error storing images:", error);
+        throw error;
+      }
+      db_logger.warn(
+        `Storage quota exceeded while storing ${newImages.length} image(s); evicting old images and retrying in smaller chunks`,
+      );
+    }
 
-      transaction.onerror = () => {
-        db_logger.error("Error storing images:", transaction.error);
-        reject(transaction.error);
-      };
-    });
-  });
-}
+    // ── quota recovery ────────────────────────────────────────────────────
+    // The aborted transaction rolled back the budget evictions as well, so
+    // they are redone together with enough of the oldest images to fit.
+    const budgetEvicted = new Set(evictIds);
+    const quotaEvictIds = [
+      ...evictIds,
+      ...planQuotaEviction(
+        existing.filter((record) => !budgetEvicted.has(record.id)),
+        batchBytes,
+      ),
+    ];
+    if (quotaEvictIds.length > 0) {
+      await writeImages(db, [], quotaEvictIds);
+      applyWrite(view, [], quotaEvictIds);
+      result.evicted = quotaEvictIds.length;
+    }
 
-/**
- * Get all valid (non-expired) images from the database
- * Uses index-based cursor for memory efficiency, only processes valid images
- * @returns Promise that resolves to an array of valid ImageData objects
- * @throws Error if database operation fails
+    for (let i = 0; i < newImages.length; i += QUOTA_RETRY_CHUNK_SIZE) {
+      const chunk = newImages.slice(i, i + QUOTA_RETRY_CHUNK_SIZE);
+      try {
+        await writeImages(db, chunk, []);
+        applyWrite(view, chunk, []);
+        result.storedIds.push(...chunk.map((image) => image.id));
+      } catch (error) {
+        if (!isQuotaExceededError(error)) {
+          db_logger.error("Error storing images:", error);
+          throw error;
+        }
+        result.skippedIds.push(...chunk.map((image) => image.id));
+      }
+    }
+
+    db_logger.info(
+      `Stored ${result.storedIds.length}/${newImages.length} image(s) after evicting ${result.evicted}; ${result.skippedIds.length} skipped for lack of space`,
+    );
+    return result;
+  });
+}
+
+/**
+ * Get all valid (non-expired) images from the database, without their blobs
+ * Uses index-based cursor for memory efficiency, only processes valid images.
+ * Load an image's blob with `getImageById` when it is displayed.
+ * @returns Promise that resolves to an array of valid image metadata
+ * @throws Error if database operation fails
  */
-export async function getAllValidImages(): Promise<ImageData[]> {
+export async function getAllValidImages(): Promise<ImageMetadata[]> {
   db_logger.debug("Getting all valid images from the db");
 
   const db = await getConnection();
@@ -472,7 +827,7 @@ export async function getAllValidImages(): Promise<ImageData[]> {
   const now = Date.now();
 
   return new Promise((resolve, reject) => {
-    const validImages: ImageData[] = [];
+    const validImages: ImageMetadata[] = [];
 
     const cursorRequest = index.openCursor(IDBKeyRange.lowerBound(now));
 
@@ -480,7 +835,7 @@ export async function getAllValidImages(): Promise<ImageData[]> {
       const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
 
       if (cursor) {
-        validImages.push(cursor.value as ImageData);
+        validImages.push(cursor.value as ImageMetadata);
         cursor.continue();
       } else {
         db_logger.debug(
@@ -502,31 +857,30 @@ export async function getAllValidImages(): Promise<ImageData[]> {
 
 /**
  * Returns a random valid image, preferring one not viewed in the last ~18 min.
- * Makes up to 3 attempts to avoid a recently-seen image before giving up and
- * returning whatever was found last.
+ * Picks uniformly among the valid images not seen recently, or among all valid
+ * images if every one was. Takes three requests however large the cache is:
+ * the valid ids, the recent history, and the chosen image.
  */
 export async function getRandomImage(): Promise<ImageData | null> {
   const db = await getConnection();
-  let image = await pickRandomValidImage(db);
-  let attempts = 3;
+  const [ids, recentIds] = await Promise.all([
+    getValidImageIds(db),
+    getRecentlyViewedIds(db, 0.3),
+  ]);
 
-  while (image && attempts > 0) {
-    if (!(await wasImageViewedRecently(image.id, 0.3))) {
-      return image;
-    }
-    db_logger.debug(
-      `Image recently viewed, trying another (${attempts} attempt(s) left)`,
-    );
-    image = await pickRandomValidImage(db);
-    attempts--;
+  const imageId = pickRandomId(ids, recentIds);
+  if (!imageId) {
+    db_logger.debug("No valid images in the db");
+    return null;
   }
-
-  return image;
+  return getImageById(imageId);
 }
 
 /**
  * Remove all expired images from the database
- * Iterates through all images and deletes those past their expiration time
+ * Iterates through all images and deletes those past their expiration time.
+ * Favourites and images imported into the local library are never treated
+ * as expired, as eviction leaves them alone too.
  * Protected by write lock to prevent concurrent modifications
  * @returns Promise that resolves to the number of images deleted
  * @throws Error if database operation fails
@@ -539,8 +893,13 @@ export async function cleanExpiredImages(): Promise<number> {
   return acquireWriteLock(async () => {
     const db = await getConnection();
     const now = Date.now();
-    const transaction = db.transaction([IMAGES_STORE_NAME], "readwrite");
+    const transaction = db.transaction(
+      [IMAGES_STORE_NAME, IMAGE_BLOBS_STORE_NAME, THUMBNAILS_STORE_NAME],
+      "readwrite",
+    );
     const store = transaction.objectStore(IMAGES_STORE_NAME);
+    const blobStore = transaction.objectStore(IMAGE_BLOBS_STORE_NAME);
+    const thumbnailStore = transaction.objectStore(THUMBNAILS_STORE_NAME);
     const index = store.index("expiresAt");
 
     let deletedCount = 0;
@@ -553,9 +912,13 @@ export async function cleanExpiredImages(): Promise<number> {
         const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
 
         if (cursor) {
-          cursor.delete();
-          db_logger.debug("Deleted an expired item");
-          deletedCount++;
+          if (!isEvictionProtected(cursor.value as ImageMetadata)) {
+            cursor.delete();
+            blobStore.delete(cursor.primaryKey);
+            thumbnailStore.delete(cursor.primaryKey);
+            db_logger.debug("Deleted an expired item");
+            deletedCount++;
+          }
           cursor.continue();
         } else {
           db_logger.debug(`Deleted ${deletedCount} item(s).`);
@@ -578,19 +941,60 @@ export async function cleanExpiredImages(): Promise<number> {
  * Clear all images from the database
  * Useful for resetting the cache or freeing up storage space
  * Protected by write lock to prevent concurrent modifications
+ * @param options.keepLocal - Keep images imported into the local library,
+ *   which cannot be re-downloaded
  * @returns Promise that resolves when all images are cleared
  * @throws Error if database operation fails
  */
-export async function clearAllImages(): Promise<void> {
-  db_logger.debug("Clearing all images from the db");
+export async function clearAllImages(
+  options: { keepLocal?: boolean } = {},
+): Promise<void> {
+  db_logger.debug("Clearing all images from the db", options);
 
   return acquireWriteLock(async () => {
     const db = await getConnection();
 
-    await withTransaction<void>(db, IMAGES_STORE_NAME, "readwrite", async (tx) => {
-      const store = tx.objectStore(IMAGES_STORE_NAME);
-      await promisifyRequest(store.clear());
-    });
+    await withTransaction<void>(
+      db,
+      [IMAGES_STORE_NAME, IMAGE_BLOBS_STORE_NAME, THUMBNAILS_STORE_NAME],
+      "readwrite",
+      async (tx) => {
+        const store = tx.objectStore(IMAGES_STORE_NAME);
+        const blobStore = tx.objectStore(IMAGE_BLOBS_STORE_NAME);
+        const thumbnailStore = tx.objectStore(THUMBNAILS_STORE_NAME);
+
+        if (!options.keepLocal) {
+          await Promise.all([
+            promisifyRequest(store.clear()),
+            promisifyRequest(blobStore.clear()),
+            promisifyRequest(thumbnailStore.clear()),
+          ]);
+          return;
+        }
+
+        const cursorRequest = store.openCursor();
+        await new Promise<void>((resolve, reject) => {
+          cursorRequest.onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue>)
+              .result;
+            if (cursor) {
+              if ((cursor.value as ImageMetadata).source !== "local") {
+                cursor.delete();
+                blobStore.delete(cursor.primaryKey);
+                thumbnailStore.delete(cursor.primaryKey);
+              }
+              cursor.continue();
+            } else {
+              resolve();
+            }
+          };
+          cursorRequest.onerror = () => {
+            db_logger.error("Error clearing images", cursorRequest.error);
+            reject(cursorRequest.error);
+          };
+        });
+      },
+    );
   });
 }
 
@@ -609,36 +1013,47 @@ export async function deleteImagesBySource(
   return acquireWriteLock(async () => {
     const db = await getConnection();
 
-    return withTransaction<number>(db, IMAGES_STORE_NAME, "readwrite", async (tx) => {
-      const store = tx.objectStore(IMAGES_STORE_NAME);
-      let deletedCount = 0;
-
-      const cursorRequest = store.openCursor();
-      await new Promise<void>((resolve, reject) => {
-        cursorRequest.onsuccess = (event) => {
-          const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
-          if (cursor) {
-            const image = cursor.value as ImageData;
-            if (image.source === source) {
-              cursor.delete();
+    return withTransaction<number>(
+      db,
+      [IMAGES_STORE_NAME, IMAGE_BLOBS_STORE_NAME, THUMBNAILS_STORE_NAME],
+      "readwrite",
+      async (tx) => {
+        const store = tx.objectStore(IMAGES_STORE_NAME);
+        const blobStore = tx.objectStore(IMAGE_BLOBS_STORE_NAME);
+        const thumbnailStore = tx.objectStore(THUMBNAILS_STORE_NAME);
+        let deletedCount = 0;
+
+        const cursorRequest = store
+          .index("source")
+          .openKeyCursor(IDBKeyRange.only(source));
+        await new Promise<void>((resolve, reject) => {
+          cursorRequest.onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursor>).result;
+            if (cursor) {
+              store.delete(cursor.primaryKey);
+              blobStore.delete(cursor.primaryKey);
+              thumbnailStore.delete(cursor.primaryKey);
               deletedCount++;
+              cursor.continue();
+            } else {
+              resolve();
             }
-            cursor.continue();
-          } else {
-            resolve();
-          }
-        };
-        cursorRequest.onerror = () => {
-          db_logger.error("Error deleting images by source", cursorRequest.error);
-          reject(cursorRequest.error);
-        };
-      });
+          };
+          cursorRequest.onerror = () => {
+            db_logger.error(
+              "Error deleting images by source",
+              cursorRequest.error,
+            );
+            reject(cursorRequest.error);
+          };
+        });
 
-      db_logger.debug(
-        `Deleted ${deletedCount} images with source ${source}`,
-      );
-      return deletedCount;
-    });
+        db_logger.debug(
+          `Deleted ${deletedCount} images with source ${source}`,
+        );
+        return deletedCount;
+      },
+    );
   });
 }
 
@@ -688,7 +1103,7 @@ export async function setAllImagesToPermanentCache(): Promise<number> {
           const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
 
           if (cursor) {
-            const image = cursor.value as ImageData;
+            const image = cursor.value as ImageMetadata;
             image.expiresAt = permanentExpiryDate;
 
             const updateRequest = cursor.update(image);
@@ -755,14 +1170,14 @@ export async function getLastFetchTime(): Promise<number | null> {
  * Add an image to the viewing history with automatic size management
  * Maintains a FIFO queue of viewed images, removing oldest when exceeding maxSize
  * @param imageId - Unique identifier of the viewed image
- * @param source - Source of the image (unsplash or pexels)
+ * @param source - Source of the image (provider id or "other")
  * @param maxSize - Maximum number of history entries to keep (default: 15)
  * @returns Promise that resolves when the history entry is added and old entries cleaned
  * @throws Error if database operation fails
  */
 export async function addToHistory(
   imageId: string,
-  source: "unsplash" | "pexels" | "other",
+  source: ImageSource,
   maxSize: number = 15,
 ): Promise<void> {
   db_logger.debug("Adding an Item to history");
@@ -866,13 +1281,13 @@ export async function addToHistory(
  * Retrieve viewing history with optional filtering and pagination
  * Returns most recent entries first (descending order by viewedAt)
  * @param limit - Maximum number of history entries to return (default: 15)
- * @param sourceFilter - Optional filter by image source ('unsplash' or 'pexels')
+ * @param sourceFilter - Optional filter by image source (e.g. 'unsplash')
  * @returns Promise that resolves to an array of HistoryEntry objects
  * @throws Error if database operation fails
  */
 export async function getHistory(
   limit: number = 15,
-  sourceFilter?: "unsplash" | "pexels" | "other",
+  sourceFilter?: ImageSource,
 ): Promise<HistoryEntry[]> {
   db_logger.debug("Getting history from the db", { limit, sourceFilter });
 
@@ -920,38 +1335,218 @@ export async function getHistory(
 }
 
 /**
- * Retrieve a specific image from history by its ID
- * Useful for displaying full details of a previously viewed image
- * @param imageId - Unique identifier of the image to retrieve
- * @returns Promise that resolves to ImageData object or null if not found
+ * Retrieve one page of viewing history, most recent first
+ * Unlike `getHistory`, pages can be walked with the returned cursor, and
+ * entries added after the first page do not shift later pages.
+ * @param options.limit - Maximum number of entries on the page (default: 15)
+ * @param options.source - Optional filter by image source
+ * @param options.cursor - `nextCursor` of the previous page; omit for the first
+ * @returns Promise that resolves to the page and the cursor of the next one
  * @throws Error if database operation fails
  */
-export async function getHistoryImageById(
-  imageId: string,
-): Promise<ImageData | null> {
-  db_logger.debug("Getting history image by ID from the db", { imageId });
+export async function getHistoryPage(
+  options: {
+    limit?: number;
+    source?: ImageSource;
+    cursor?: HistoryCursor;
+  } = {},
+): Promise<HistoryPage> {
+  const { limit = 15, source, cursor: after } = options;
+  db_logger.debug("Getting a page of history from the db", options);
+
   const db = await getConnection();
-  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
-  const store = transaction.objectStore(IMAGES_STORE_NAME);
+  const transaction = db.transaction([HISTORY_STORE_NAME], "readonly");
+  const store = transaction.objectStore(HISTORY_STORE_NAME);
+  const upper = after?.viewedAt ?? Infinity;
+  const index = source
+    ? store.index("sourceViewedAt")
+    : store.index("viewedAt");
+  const range = source
+    ? IDBKeyRange.bound([source, 0], [source, upper])
+    : IDBKeyRange.upperBound(upper);
 
   return new Promise((resolve, reject) => {
-    const request = store.get(imageId);
-
-    request.onsuccess = () => {
-      db_logger.debug("Fetched history image:", {
-        imageId,
-        result: request.result,
+    const entries: HistoryEntry[] = [];
+    const finish = (hasMore: boolean) => {
+      const last = entries[entries.length - 1];
+      resolve({
+        entries,
+        nextCursor:
+          hasMore && last ? { viewedAt: last.viewedAt, id: last.id! } : null,
       });
-      resolve(request.result ?? null);
     };
 
-    request.onerror = () => {
-      db_logger.error("A db transaction error has occurred", request.error);
-      reject(request.error);
+    const cursorRequest = index.openCursor(range, "prev");
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return finish(false);
+
+      const entry = cursor.value as HistoryEntry;
+      // Entries viewed at the same moment come highest id first; skip those
+      // already returned on the previous page
+      if (after && entry.viewedAt === after.viewedAt && entry.id! >= after.id) {
+        return cursor.continue();
+      }
+      if (entries.length === limit) return finish(true);
+
+      entries.push(entry);
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => {
+      db_logger.error(
+        "A db transaction error has occurred",
+        cursorRequest.error,
+      );
+      reject(cursorRequest.error);
     };
   });
 }
 
+/**
+ * Retrieve the history entries viewed within a time range, most recent first
+ * @param from - Start of the range (inclusive)
+ * @param to - End of the range (inclusive)
+ * @param source - Optional filter by image source
+ * @returns Promise that resolves to the entries in the range
+ * @throws Error if database operation fails
+ */
+export async function getHistoryByDateRange(
+  from: number,
+  to: number,
+  source?: ImageSource,
+): Promise<HistoryEntry[]> {
+  db_logger.debug("Getting history by date range", { from, to, source });
+
+  const db = await getConnection();
+  const transaction = db.transaction([HISTORY_STORE_NAME], "readonly");
+  const store = transaction.objectStore(HISTORY_STORE_NAME);
+  const request = source
+    ? store
+        .index("sourceViewedAt")
+        .getAll(IDBKeyRange.bound([source, from], [source, to]))
+    : store.index("viewedAt").getAll(IDBKeyRange.bound(from, to));
+
+  const entries = (await promisifyRequest(request)) as HistoryEntry[];
+  return entries.reverse();
+}
+
+/**
+ * When an image was last shown
+ * @param imageId - Unique identifier of the image
+ * @returns Promise that resolves to the latest view time, or null if the image
+ *   is not in the history
+ * @throws Error if database operation fails
+ */
+export async function getLastSeenTime(imageId: string): Promise<number | null> {
+  const db = await getConnection();
+  const transaction = db.transaction([HISTORY_STORE_NAME], "readonly");
+  const index = transaction
+    .objectStore(HISTORY_STORE_NAME)
+    .index("imageIdViewedAt");
+
+  const cursor = await promisifyRequest(
+    index.openKeyCursor(
+      IDBKeyRange.bound([imageId, -Infinity], [imageId, Infinity]),
+      "prev",
+    ),
+  );
+  return cursor ? (cursor.key as [string, number])[1] : null;
+}
+
+/**
+ * How many times an image has been shown, as far as the history goes back
+ * @param imageId - Unique identifier of the image
+ * @returns Promise that resolves to the number of history entries for it
+ * @throws Error if database operation fails
+ */
+export async function getViewCount(imageId: string): Promise<number> {
+  const db = await getConnection();
+  const transaction = db.transaction([HISTORY_STORE_NAME], "readonly");
+  const index = transaction.objectStore(HISTORY_STORE_NAME).index("imageId");
+  return promisifyRequest(index.count(IDBKeyRange.only(imageId)));
+}
+
+/**
+ * How many times each image in the history has been shown
+ * Reads index keys only, so no history record is loaded.
+ * @returns Promise that resolves to a map of image id to view count
+ * @throws Error if database operation fails
+ */
+export async function getViewCounts(): Promise<Map<string, number>> {
+  const db = await getConnection();
+  const transaction = db.transaction([HISTORY_STORE_NAME], "readonly");
+  const index = transaction.objectStore(HISTORY_STORE_NAME).index("imageId");
+
+  return new Promise((resolve, reject) => {
+    const counts = new Map<string, number>();
+    const cursorRequest = index.openKeyCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return resolve(counts);
+      const imageId = cursor.key as string;
+      counts.set(imageId, (counts.get(imageId) ?? 0) + 1);
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
+
+/**
+ * Retrieve a specific image by its ID, blob included
+ * Used to display an image picked from history or from the metadata list
+ * @param imageId - Unique identifier of the image to retrieve
+ * @returns Promise that resolves to ImageData object or null if not found
+ * @throws Error if database operation fails
+ */
+export async function getImageById(
+  imageId: string,
+): Promise<ImageData | null> {
+  db_logger.debug("Getting image by ID from the db", { imageId });
+  const db = await getConnection();
+
+  return withTransaction<ImageData | null>(
+    db,
+    [IMAGES_STORE_NAME, IMAGE_BLOBS_STORE_NAME],
+    "readonly",
+    async (tx) => {
+      const [metadata, blobRecord] = await Promise.all([
+        promisifyRequest<ImageMetadata | undefined>(
+          tx.objectStore(IMAGES_STORE_NAME).get(imageId),
+        ),
+        promisifyRequest<ImageBlobRecord | undefined>(
+          tx.objectStore(IMAGE_BLOBS_STORE_NAME).get(imageId),
+        ),
+      ]);
+
+      if (!metadata) return null;
+      if (!blobRecord) {
+        db_logger.warn(`Image ${imageId} has no blob stored`);
+        return null;
+      }
+
+      db_logger.debug("Fetched image:", { imageId });
+      return { ...metadata, blob: blobRecord.blob };
+    },
+  );
+}
+
+/**
+ * Get an image's metadata without loading its blob
+ * @param imageId - The ID of the image
+ * @returns Promise that resolves to the metadata or null if not found
+ * @throws Error if database operation fails
+ */
+export async function getImageMetadata(
+  imageId: string,
+): Promise<ImageMetadata | null> {
+  const db = await getConnection();
+  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
+  const metadata = await promisifyRequest<ImageMetadata | undefined>(
+    transaction.objectStore(IMAGES_STORE_NAME).get(imageId),
+  );
+  return metadata ?? null;
+}
+
 /**
  * Deletes an image from the database by its ID
  * @param imageId - The ID of the image to delete
@@ -962,20 +1557,23 @@ export async function deleteImage(imageId: string): Promise<void> {
   db_logger.debug("Deleting image:", imageId);
 
   const db = await getConnection();
-  const transaction = db.transaction([IMAGES_STORE_NAME], "readwrite");
-  const store = transaction.objectStore(IMAGES_STORE_NAME);
+  const transaction = db.transaction(
+    [IMAGES_STORE_NAME, IMAGE_BLOBS_STORE_NAME, THUMBNAILS_STORE_NAME],
+    "readwrite",
+  );
+  transaction.objectStore(IMAGES_STORE_NAME).delete(imageId);
+  transaction.objectStore(IMAGE_BLOBS_STORE_NAME).delete(imageId);
+  transaction.objectStore(THUMBNAILS_STORE_NAME).delete(imageId);
 
   return new Promise((resolve, reject) => {
-    const deleteRequest = store.delete(imageId);
-
-    deleteRequest.onsuccess = () => {
+    transaction.oncomplete = () => {
       db_logger.info("Image deleted successfully:", imageId);
       resolve();
     };
 
-    deleteRequest.onerror = () => {
-      db_logger.error("Error deleting image:", deleteRequest.error);
-      reject(deleteRequest.error);
+    transaction.onabort = () => {
+      db_logger.error("Error deleting image:", transaction.error);
+      reject(transaction.error);
     };
   });
 }
@@ -1122,6 +1720,32 @@ export async function getValidImageCount(): Promise<number> {
   });
 }
 
+/**
+ * Get the number of cached images from one source, expired or not
+ * @param source - Image source, e.g. a daily provider's id
+ * @returns Promise that resolves to the number of images from the source
+ * @throws Error if database operation fails
+ */
+export async function getImageCountBySource(source: string): Promise<number> {
+  const db = await getConnection();
+  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
+  const index = transaction.objectStore(IMAGES_STORE_NAME).index("source");
+
+  return new Promise((resolve, reject) => {
+    const countRequest = index.count(source);
+
+    countRequest.onsuccess = () => resolve(countRequest.result);
+
+    countRequest.onerror = () => {
+      db_logger.error(
+        "A db transaction error has occurred",
+        countRequest.error,
+      );
+      reject(countRequest.error);
+    };
+  });
+}
+
 /**
  * Get comprehensive database statistics.
  * Opens three parallel read transactions on the shared connection for efficiency.
@@ -1192,3 +1816,627 @@ export async function getDatabaseStats(): Promise<{
     totalHistory,
   };
 }
+
+// ─── Cache budget ─────────────────────────────────────────────────────────────
+
+/**
+ * Break down cached images and their size by source and by keyword
+ * @returns Promise that resolves to the usage totals
+ * @throws Error if database operation fails
+ */
+export async function getCacheUsage(): Promise<CacheUsage> {
+  db_logger.debug("Getting cache usage breakdown");
+  const db = await getConnection();
+  return summarizeCacheUsage(await getCacheRecords(db));
+}
+
+/**
+ * Mark or unmark an image as a favourite; favourites are never evicted
+ * Protected by write lock to prevent concurrent modifications
+ * @param imageId - The ID of the image
+ * @param favorite - Whether the image is a favourite
+ * @returns Promise that resolves to false if the image no longer exists
+ * @throws Error if database operation fails
+ */
+export async function setImageFavorite(
+  imageId: string,
+  favorite: boolean,
+): Promise<boolean> {
+  db_logger.debug(`Setting favourite on ${imageId} to ${favorite}`);
+
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+    return withTransaction<boolean>(
+      db,
+      IMAGES_STORE_NAME,
+      "readwrite",
+      async (tx) => {
+        const store = tx.objectStore(IMAGES_STORE_NAME);
+        const image = await promisifyRequest<ImageMetadata | undefined>(
+          store.get(imageId),
+        );
+        if (!image) return false;
+
+        const { favorite: _previous, ...rest } = image;
+        store.put(favorite ? { ...rest, favorite: true } : rest);
+        return true;
+      },
+    );
+  });
+}
+
+// ─── Integrity ────────────────────────────────────────────────────────────────
+
+/**
+ * Visits every record a cursor request yields, then resolves
+ */
+function forEachCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      visit(cursor);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Check every image, blob and history record and repair what can be repaired
+ * Blobs left inline by an interrupted v5 upgrade are moved to the blob store;
+ * incomplete records, images without a blob and blobs or thumbnails without
+ * an image are deleted. Runs on its own after the database opens, at most
+ * once a day.
+ * Protected by write lock to prevent concurrent modifications
+ * @returns Promise that resolves to what was repaired
+ * @throws Error if database operation fails
+ */
+export async function checkDatabaseIntegrity(): Promise<DbIntegrityReport> {
+  db_logger.debug("Checking database records");
+
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+    const report: DbIntegrityReport = {
+      checkedAt: Date.now(),
+      blobsMoved: 0,
+      imagesDeleted: 0,
+      historyDeleted: 0,
+      orphanBlobsDeleted: 0,
+      orphanThumbnailsDeleted: 0,
+    };
+
+    await withTransaction<void>(
+      db,
+      [
+        IMAGES_STORE_NAME,
+        IMAGE_BLOBS_STORE_NAME,
+        THUMBNAILS_STORE_NAME,
+        HISTORY_STORE_NAME,
+        METADATA_STORE_NAME,
+      ],
+      "readwrite",
+      async (tx) => {
+        const blobStore = tx.objectStore(IMAGE_BLOBS_STORE_NAME);
+        const blobIds = new Set(
+          (await promisifyRequest(blobStore.getAllKeys())) as string[],
+        );
+        const imageIds = new Set<string>();
+
+        await forEachCursor(
+          tx.objectStore(IMAGES_STORE_NAME).openCursor(),
+          (cursor) => {
+            const record = cursor.value as Partial<ImageData>;
+            if (record.blob instanceof Blob && isValidImageRecord(record)) {
+              const { blob, ...metadata } = record as ImageData;
+              blobStore.put({ id: metadata.id, blob });
+              cursor.update({ ...metadata, size: metadata.size ?? blob.size });
+              imageIds.add(metadata.id);
+              report.blobsMoved++;
+            } else if (isValidImageRecord(record) && blobIds.has(record.id!)) {
+              imageIds.add(record.id!);
+            } else {
+              cursor.delete();
+              report.imagesDeleted++;
+            }
+          },
+        );
+
+        for (const id of blobIds) {
+          if (!imageIds.has(id)) {
+            blobStore.delete(id);
+            report.orphanBlobsDeleted++;
+          }
+        }
+
+        const thumbnailStore = tx.objectStore(THUMBNAILS_STORE_NAME);
+        const thumbnailIds = (await promisifyRequest(
+          thumbnailStore.getAllKeys(),
+        )) as string[];
+        for (const id of thumbnailIds) {
+          if (!imageIds.has(id)) {
+            thumbnailStore.delete(id);
+            report.orphanThumbnailsDeleted++;
+          }
+        }
+
+        await forEachCursor(
+          tx.objectStore(HISTORY_STORE_NAME).openCursor(),
+          (cursor) => {
+            if (!isValidHistoryEntry(cursor.value)) {
+              cursor.delete();
+              report.historyDeleted++;
+            }
+          },
+        );
+
+        tx.objectStore(METADATA_STORE_NAME).put({
+          key: "lastIntegrityCheck",
+          value: report.checkedAt,
+        });
+      },
+    );
+
+    const repaired =
+      report.blobsMoved +
+      report.imagesDeleted +
+      report.historyDeleted +
+      report.orphanBlobsDeleted +
+      report.orphanThumbnailsDeleted;
+    if (repaired > 0) {
+      db_logger.warn("Repaired database records", report);
+    } else {
+      db_logger.debug("Database records are intact");
+    }
+    return report;
+  });
+}
+
+/**
+ * Ids of every stored image, expired or not
+ * @returns Promise that resolves to the image ids
+ * @throws Error if database operation fails
+ */
+export async function getImageIds(): Promise<string[]> {
+  const db = await getConnection();
+  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
+  const keys = await promisifyRequest(
+    transaction.objectStore(IMAGES_STORE_NAME).getAllKeys(),
+  );
+  return keys as string[];
+}
+
+/**
+ * Metadata of every stored image, expired or not; blobs are not loaded
+ * @returns Promise that resolves to the image records
+ * @throws Error if database operation fails
+ */
+export async function getAllImageMetadata(): Promise<ImageMetadata[]> {
+  const db = await getConnection();
+  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
+  return promisifyRequest(
+    transaction.objectStore(IMAGES_STORE_NAME).getAll(),
+  ) as Promise<ImageMetadata[]>;
+}
+
+/**
+ * Record the content and perceptual hashes of an image, e.g. one stored
+ * before hashing existed
+ * Protected by write lock to prevent concurrent modifications
+ * @param imageId - The ID of the image
+ * @param hashes - Hashes to set; others are left as they are
+ * @returns Promise that resolves to false if the image no longer exists
+ * @throws Error if database operation fails
+ */
+export async function setImageHashes(
+  imageId: string,
+  hashes: Pick<ImageData, "contentHash" | "perceptualHash">,
+): Promise<boolean> {
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+    return withTransaction<boolean>(
+      db,
+      IMAGES_STORE_NAME,
+      "readwrite",
+      async (tx) => {
+        const store = tx.objectStore(IMAGES_STORE_NAME);
+        const image = await promisifyRequest<ImageMetadata | undefined>(
+          store.get(imageId),
+        );
+        if (!image) return false;
+
+        store.put({ ...image, ...hashes });
+        return true;
+      },
+    );
+  });
+}
+
+/**
+ * Mark an image whose blob could not be decoded but which must not be
+ * deleted, e.g. a favourite or an imported local image
+ * Protected by write lock to prevent concurrent modifications
+ * @param imageId - The ID of the image
+ * @returns Promise that resolves to false if the image no longer exists
+ * @throws Error if database operation fails
+ */
+export async function flagUnreadableImage(imageId: string): Promise<boolean> {
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+    return withTransaction<boolean>(
+      db,
+      IMAGES_STORE_NAME,
+      "readwrite",
+      async (tx) => {
+        const store = tx.objectStore(IMAGES_STORE_NAME);
+        const image = await promisifyRequest<ImageMetadata | undefined>(
+          store.get(imageId),
+        );
+        if (!image) return false;
+
+        store.put({ ...image, unreadable: true });
+        return true;
+      },
+    );
+  });
+}
+
+// ─── Thumbnails ───────────────────────────────────────────────────────────────
+
+/**
+ * Retrieve the thumbnail of an image
+ * Preview surfaces use this instead of `getImageById` so they never load a
+ * full-size blob.
+ * @param imageId - The ID of the image
+ * @returns Promise that resolves to the thumbnail, or null if the image has
+ *   none (yet)
+ * @throws Error if database operation fails
+ */
+export async function getThumbnail(imageId: string): Promise<Blob | null> {
+  const db = await getConnection();
+  const transaction = db.transaction([THUMBNAILS_STORE_NAME], "readonly");
+  const record = await promisifyRequest<ImageBlobRecord | undefined>(
+    transaction.objectStore(THUMBNAILS_STORE_NAME).get(imageId),
+  );
+  return record?.blob ?? null;
+}
+
+/**
+ * Store the thumbnail of an image stored without one
+ * Protected by write lock to prevent concurrent modifications
+ * @param imageId - The ID of the image
+ * @param thumbnail - The thumbnail
+ * @returns Promise that resolves to false if the image no longer exists
+ * @throws Error if database operation fails
+ */
+export async function setThumbnail(
+  imageId: string,
+  thumbnail: Blob,
+): Promise<boolean> {
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+    return withTransaction<boolean>(
+      db,
+      [IMAGES_STORE_NAME, THUMBNAILS_STORE_NAME],
+      "readwrite",
+      async (tx) => {
+        const count = await promisifyRequest(
+          tx.objectStore(IMAGES_STORE_NAME).count(imageId),
+        );
+        if (count === 0) return false;
+
+        const record: ImageBlobRecord = { id: imageId, blob: thumbnail };
+        tx.objectStore(THUMBNAILS_STORE_NAME).put(record);
+        return true;
+      },
+    );
+  });
+}
+
+/**
+ * Ids of stored images that have no thumbnail yet
+ * @returns Promise that resolves to the image ids
+ * @throws Error if database operation fails
+ */
+export async function getImageIdsWithoutThumbnail(): Promise<string[]> {
+  const db = await getConnection();
+  const transaction = db.transaction(
+    [IMAGES_STORE_NAME, THUMBNAILS_STORE_NAME],
+    "readonly",
+  );
+  const [imageIds, thumbnailIds] = await Promise.all([
+    promisifyRequest(transaction.objectStore(IMAGES_STORE_NAME).getAllKeys()),
+    promisifyRequest(
+      transaction.objectStore(THUMBNAILS_STORE_NAME).getAllKeys(),
+    ),
+  ]);
+  const withThumbnail = new Set(thumbnailIds as string[]);
+  return (imageIds as string[]).filter((id) => !withThumbnail.has(id));
+}
+
+// ─── Retry queue ──────────────────────────────────────────────────────────────
+
+/**
+ * Add failed downloads to the retry queue.
+ * A photo that is already queued keeps its original failure time, so
+ * re-queueing it does not extend its lifetime.
+ * Protected by write lock to prevent concurrent modifications
+ * @param entries - Failed downloads to queue
+ * @returns Promise that resolves when the entries are stored
+ * @throws Error if database operation fails
+ */
+export async function queueFailedDownloads(
+  entries: RetryQueueEntry[],
+): Promise<void> {
+  if (entries.length === 0) return;
+  db_logger.debug(`Queueing ${entries.length} failed download(s) for retry`);
+
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+
+    await withTransaction<void>(
+      db,
+      RETRY_QUEUE_STORE_NAME,
+      "readwrite",
+      (tx) => {
+        const store = tx.objectStore(RETRY_QUEUE_STORE_NAME);
+        for (const entry of entries) {
+          const request = store.get(entry.id);
+          request.onsuccess = () => {
+            const existing = request.result as RetryQueueEntry | undefined;
+            store.put(
+              existing
+                ? { ...entry, firstFailedAt: existing.firstFailedAt }
+                : entry,
+            );
+          };
+        }
+      },
+    );
+  });
+}
+
+/**
+ * Get queued downloads whose backoff has ended
+ * @param now - Current time
+ * @param limit - Maximum number of entries to return
+ * @returns Promise that resolves to the due entries, oldest schedule first
+ * @throws Error if database operation fails
+ */
+export async function getDueRetries(
+  now: number,
+  limit: number,
+): Promise<RetryQueueEntry[]> {
+  const db = await getConnection();
+  const transaction = db.transaction([RETRY_QUEUE_STORE_NAME], "readonly");
+  const index = transaction
+    .objectStore(RETRY_QUEUE_STORE_NAME)
+    .index("nextAttemptAt");
+
+  return promisifyRequest(
+    index.getAll(IDBKeyRange.upperBound(now), limit),
+  ) as Promise<RetryQueueEntry[]>;
+}
+
+/**
+ * Write back queued downloads after a retry attempt
+ * Protected by write lock to prevent concurrent modifications
+ * @param updated - Entries that failed again, with their new schedule
+ * @param removedIds - Entries that succeeded and leave the queue
+ * @returns Promise that resolves when the queue is updated
+ * @throws Error if database operation fails
+ */
+export async function updateRetryQueue(
+  updated: RetryQueueEntry[],
+  removedIds: string[],
+): Promise<void> {
+  if (updated.length === 0 && removedIds.length === 0) return;
+
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+
+    await withTransaction<void>(
+      db,
+      RETRY_QUEUE_STORE_NAME,
+      "readwrite",
+      (tx) => {
+        const store = tx.objectStore(RETRY_QUEUE_STORE_NAME);
+        updated.forEach((entry) => store.put(entry));
+        removedIds.forEach((id) => store.delete(id));
+      },
+    );
+  });
+}
+
+/**
+ * Drop queued downloads that first failed before the cutoff
+ * Protected by write lock to prevent concurrent modifications
+ * @param cutoff - Entries with `firstFailedAt` before this are removed
+ * @returns Promise that resolves to the number of entries removed
+ * @throws Error if database operation fails
+ */
+export async function pruneRetryQueue(cutoff: number): Promise<number> {
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+
+    return withTransaction<number>(
+      db,
+      RETRY_QUEUE_STORE_NAME,
+      "readwrite",
+      async (tx) => {
+        const index = tx
+          .objectStore(RETRY_QUEUE_STORE_NAME)
+          .index("firstFailedAt");
+        let deletedCount = 0;
+
+        const cursorRequest = index.openCursor(
+          IDBKeyRange.upperBound(cutoff, true),
+        );
+        await new Promise<void>((resolve, reject) => {
+          cursorRequest.onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue>)
+              .result;
+            if (cursor) {
+              cursor.delete();
+              deletedCount++;
+              cursor.continue();
+            } else {
+              resolve();
+            }
+          };
+          cursorRequest.onerror = () => {
+            db_logger.error("Error pruning retry queue", cursorRequest.error);
+            reject(cursorRequest.error);
+          };
+        });
+
+        if (deletedCount > 0) {
+          db_logger.info(`Dropped ${deletedCount} expired retry queue entries`);
+        }
+        return deletedCount;
+      },
+    );
+  });
+}
+
+/**
+ * Get the number of downloads waiting in the retry queue
+ * @returns Promise that resolves to the queue length
+ * @throws Error if database operation fails
+ */
+export async function getRetryQueueCount(): Promise<number> {
+  const db = await getConnection();
+  const transaction = db.transaction([RETRY_QUEUE_STORE_NAME], "readonly");
+  return promisifyRequest(
+    transaction.objectStore(RETRY_QUEUE_STORE_NAME).count(),
+  );
+}
+
+// ─── Refresh job ──────────────────────────────────────────────────────────────
+
+/**
+ * Get the unfinished refresh job, if there is one
+ * @returns Promise that resolves to the job or null
+ * @throws Error if database operation fails
+ */
+export async function getRefreshJob(): Promise<RefreshJob | null> {
+  const db = await getConnection();
+  const transaction = db.transaction([REFRESH_JOB_STORE_NAME], "readonly");
+  const job = await promisifyRequest(
+    transaction.objectStore(REFRESH_JOB_STORE_NAME).get(REFRESH_JOB_ID),
+  );
+  return (job as RefreshJob | undefined) ?? null;
+}
+
+/**
+ * Save the refresh job, replacing any previous one
+ * Protected by write lock to prevent concurrent modifications
+ * @param job - Job with its current item states and cursor
+ * @returns Promise that resolves when the job is stored
+ * @throws Error if database operation fails
+ */
+export async function saveRefreshJob(job: RefreshJob): Promise<void> {
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+
+    await withTransaction<void>(
+      db,
+      REFRESH_JOB_STORE_NAME,
+      "readwrite",
+      (tx) => {
+        tx.objectStore(REFRESH_JOB_STORE_NAME).put(job);
+      },
+    );
+  });
+}
+
+/**
+ * Remove the refresh job once it has finished or been abandoned
+ * Protected by write lock to prevent concurrent modifications
+ * @returns Promise that resolves when the job is removed
+ * @throws Error if database operation fails
+ */
+export async function deleteRefreshJob(): Promise<void> {
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+
+    await withTransaction<void>(
+      db,
+      REFRESH_JOB_STORE_NAME,
+      "readwrite",
+      (tx) => {
+        tx.objectStore(REFRESH_JOB_STORE_NAME).delete(REFRESH_JOB_ID);
+      },
+    );
+  });
+}
+
+// ─── First-paint snapshot ─────────────────────────────────────────────────────
+
+/**
+ * Save the snapshot the next new tab will paint, replacing any previous one
+ * Protected by write lock to prevent concurrent modifications
+ * @param snapshot - The pre-rendered image
+ * @returns Promise that resolves when the snapshot is stored
+ * @throws Error if database operation fails
+ */
+export async function saveSnapshot(
+  snapshot: Omit<ImageSnapshot, "id">,
+): Promise<void> {
+  return acquireWriteLock(async () => {
+    const db = await getConnection();
+
+    await withTransaction<void>(
+      db,
+      SNAPSHOT_STORE_NAME,
+      "readwrite",
+      (tx) => {
+        const record: ImageSnapshot = { ...snapshot, id: SNAPSHOT_ID };
+        tx.objectStore(SNAPSHOT_STORE_NAME).put(record);
+      },
+    );
+  });
+}
+
+/**
+ * Take the snapshot for this new tab, leaving none for the next one
+ * Reading and deleting in one transaction means two tabs opened at once never
+ * both show it. A snapshot whose image has since been deleted or has expired
+ * is dropped. Not behind the write lock, and only the snapshot store is
+ * written, so first paint never waits for a refresh's writes.
+ * @returns Promise that resolves to the snapshot, or null if there is none
+ *   to use
+ * @throws Error if database operation fails
+ */
+export async function takeSnapshot(): Promise<ImageSnapshot | null> {
+  const db = await getConnection();
+
+  const snapshot = await withTransaction<ImageSnapshot | null>(
+    db,
+    [SNAPSHOT_STORE_NAME],
+    "readwrite",
+    async (tx) => {
+      const store = tx.objectStore(SNAPSHOT_STORE_NAME);
+      const record = await promisifyRequest<ImageSnapshot | undefined>(
+        store.get(SNAPSHOT_ID),
+      );
+      if (!record) return null;
+      store.delete(SNAPSHOT_ID);
+      return record;
+    },
+  );
+  if (!snapshot) return null;
+
+  const transaction = db.transaction([IMAGES_STORE_NAME], "readonly");
+  const imageCount = await promisifyRequest(
+    transaction.objectStore(IMAGES_STORE_NAME).count(snapshot.imageId),
+  );
+  if (imageCount === 0 || snapshot.expiresAt <= Date.now()) {
+    db_logger.debug("Dropped a snapshot of a deleted or expired image");
+    return null;
+  }
+  return snapshot;
+}
@@ -0,0 +1,325 @@
+/**
+ * IndexedDB schema and migrations for the random wallpaper browser extension.
+ * Describes the stores and indexes the current code expects and the steps
+ * that bring an older database up to them.
+ */
+
+import {
+  DB_REPAIR_VERSION_STRIDE,
+  DB_VERSION,
+  HISTORY_STORE_NAME,
+  IMAGE_BLOBS_STORE_NAME,
+  IMAGES_STORE_NAME,
+  METADATA_STORE_NAME,
+  REFRESH_JOB_STORE_NAME,
+  RETRY_QUEUE_STORE_NAME,
+  SNAPSHOT_STORE_NAME,
+  THUMBNAILS_STORE_NAME,
+} from "../config";
+import type { ImageData } from "../config";
+
+interface IndexSchema {
+  keyPath: string | string[];
+  unique: boolean;
+}
+
+interface StoreSchema {
+  keyPath: string;
+  autoIncrement?: boolean;
+  indexes: Record<string, IndexSchema>;
+}
+
+/**
+ * Every store and index the current code relies on
+ */
+export const DB_SCHEMA: Record<string, StoreSchema> = {
+  [IMAGES_STORE_NAME]: {
+    keyPath: "id",
+    indexes: {
+      timestamp: { keyPath: "timestamp", unique: false },
+      expiresAt: { keyPath: "expiresAt", unique: false },
+      // `unique: false` because old records won't have the field, and hash
+      // collisions (while astronomically unlikely) must not cause write errors
+      contentHash: { keyPath: "contentHash", unique: false },
+      source: { keyPath: "source", unique: false },
+      perceptualHash: { keyPath: "perceptualHash", unique: false },
+    },
+  },
+  [METADATA_STORE_NAME]: { keyPath: "key", indexes: {} },
+  [HISTORY_STORE_NAME]: {
+    keyPath: "id",
+    autoIncrement: true,
+    indexes: {
+      viewedAt: { keyPath: "viewedAt", unique: false },
+      source: { keyPath: "source", unique: false },
+      sourceViewedAt: { keyPath: ["source", "viewedAt"], unique: false },
+      imageId: { keyPath: "imageId", unique: false },
+      imageIdViewedAt: { keyPath: ["imageId", "viewedAt"], unique: false },
+    },
+  },
+  [RETRY_QUEUE_STORE_NAME]: {
+    keyPath: "id",
+    indexes: {
+      nextAttemptAt: { keyPath: "nextAttemptAt", unique: false },
+      firstFailedAt: { keyPath: "firstFailedAt", unique: false },
+    },
+  },
+  [REFRESH_JOB_STORE_NAME]: { keyPath: "id", indexes: {} },
+  [IMAGE_BLOBS_STORE_NAME]: { keyPath: "id", indexes: {} },
+  [THUMBNAILS_STORE_NAME]: { keyPath: "id", indexes: {} },
+  [SNAPSHOT_STORE_NAME]: { keyPath: "id", indexes: {} },
+};
+
+/**
+ * One step of the schema's history
+ */
+export interface DbMigration {
+  /** Schema version the step brings the database to */
+  version: number;
+  description: string;
+  /**
+   * Runs inside the upgrade transaction. Record transforms are asynchronous;
+   * the upgrade commits once their requests finish.
+   * @param log - Reports progress for the upgrade log
+   */
+  upgrade(
+    db: IDBDatabase,
+    transaction: IDBTransaction,
+    log: (message: string) => void,
+  ): void;
+}
+
+/**
+ * Creates a store from `DB_SCHEMA` without its indexes, unless it exists
+ * @returns The store, new or existing
+ */
+function ensureStore(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  name: string,
+): IDBObjectStore {
+  if (db.objectStoreNames.contains(name)) {
+    return transaction.objectStore(name);
+  }
+  const { keyPath, autoIncrement = false } = DB_SCHEMA[name]!;
+  return db.createObjectStore(name, { keyPath, autoIncrement });
+}
+
+/**
+ * Creates an index from `DB_SCHEMA`, unless it exists
+ * @returns Whether the index was created
+ */
+function ensureIndex(store: IDBObjectStore, name: string): boolean {
+  if (store.indexNames.contains(name)) return false;
+  const { keyPath, unique } = DB_SCHEMA[store.name]!.indexes[name]!;
+  store.createIndex(name, keyPath, { unique });
+  return true;
+}
+
+/**
+ * Schema history, oldest first
+ */
+export const MIGRATIONS: DbMigration[] = [
+  {
+    version: 1,
+    description: "Create the images, metadata and history stores",
+    upgrade(db, transaction) {
+      const images = ensureStore(db, transaction, IMAGES_STORE_NAME);
+      ensureIndex(images, "timestamp");
+      ensureIndex(images, "expiresAt");
+      ensureStore(db, transaction, METADATA_STORE_NAME);
+      const history = ensureStore(db, transaction, HISTORY_STORE_NAME);
+      ensureIndex(history, "viewedAt");
+      ensureIndex(history, "source");
+      ensureIndex(history, "sourceViewedAt");
+    },
+  },
+  {
+    version: 2,
+    description: "Index images by content hash for deduplication",
+    upgrade(_db, transaction) {
+      ensureIndex(transaction.objectStore(IMAGES_STORE_NAME), "contentHash");
+    },
+  },
+  {
+    version: 3,
+    description: "Create the retry queue for failed downloads",
+    upgrade(db, transaction) {
+      const retryQueue = ensureStore(db, transaction, RETRY_QUEUE_STORE_NAME);
+      ensureIndex(retryQueue, "nextAttemptAt");
+      ensureIndex(retryQueue, "firstFailedAt");
+    },
+  },
+  {
+    version: 4,
+    description: "Create the persisted refresh job store",
+    upgrade(db, transaction) {
+      ensureStore(db, transaction, REFRESH_JOB_STORE_NAME);
+    },
+  },
+  {
+    version: 5,
+    description: "Move image blobs into their own store",
+    // Listing images used to load every blob with it. Existing records are
+    // split in place, recording the blob size on the way.
+    upgrade(db, transaction, log) {
+      const blobStore = ensureStore(db, transaction, IMAGE_BLOBS_STORE_NAME);
+      const imageStore = transaction.objectStore(IMAGES_STORE_NAME);
+      let moved = 0;
+
+      const cursorRequest = imageStore.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          log(`Moved ${moved} image blob(s) to their own store`);
+          return;
+        }
+
+        const { blob, ...metadata } = cursor.value as ImageData;
+        if (blob) {
+          blobStore.put({ id: metadata.id, blob });
+          cursor.update({ ...metadata, size: metadata.size ?? blob.size });
+          moved++;
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 6,
+    description: "Index history by image and images by source",
+    upgrade(_db, transaction) {
+      const history = transaction.objectStore(HISTORY_STORE_NAME);
+      ensureIndex(history, "imageId");
+      ensureIndex(history, "imageIdViewedAt");
+      ensureIndex(transaction.objectStore(IMAGES_STORE_NAME), "source");
+    },
+  },
+  {
+    version: 7,
+    description: "Index images by perceptual hash for near-duplicates",
+    upgrade(_db, transaction) {
+      ensureIndex(
+        transaction.objectStore(IMAGES_STORE_NAME),
+        "perceptualHash",
+      );
+    },
+  },
+  {
+    version: 8,
+    description: "Create the thumbnails store",
+    // Existing images get their thumbnails from the background backfill;
+    // decoding images is not possible inside an upgrade transaction
+    upgrade(db, transaction) {
+      ensureStore(db, transaction, THUMBNAILS_STORE_NAME);
+    },
+  },
+  {
+    version: 9,
+    description: "Create the first-paint snapshot store",
+    upgrade(db, transaction) {
+      ensureStore(db, transaction, SNAPSHOT_STORE_NAME);
+    },
+  },
+];
+
+/**
+ * IndexedDB version for a schema version after a number of repairs
+ */
+export function toIdbVersion(schemaVersion: number, repairs = 0): number {
+  return schemaVersion * DB_REPAIR_VERSION_STRIDE + repairs;
+}
+
+/**
+ * Schema version of a database opened at an IndexedDB version
+ * Versions below the stride predate repair versions and are the schema
+ * version itself.
+ */
+export function getSchemaVersion(idbVersion: number): number {
+  return idbVersion < DB_REPAIR_VERSION_STRIDE
+    ? idbVersion
+    : Math.floor(idbVersion / DB_REPAIR_VERSION_STRIDE);
+}
+
+/**
+ * Steps still to run for a database at a schema version, in order
+ * @param fromVersion - Schema version the database is at
+ * @param migrations - Schema history (default: `MIGRATIONS`)
+ */
+export function getPendingMigrations(
+  fromVersion: number,
+  migrations: DbMigration[] = MIGRATIONS,
+): DbMigration[] {
+  return migrations
+    .filter(({ version }) => version > fromVersion && version <= DB_VERSION)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Lists what a database lacks compared to `DB_SCHEMA`
+ * @param actual - Index names of each store the database has
+ * @returns Missing stores by name and missing indexes as `store.index`
+ */
+export function findSchemaProblems(
+  actual: Record<string, string[]>,
+): string[] {
+  const problems: string[] = [];
+  for (const [store, { indexes }] of Object.entries(DB_SCHEMA)) {
+    const indexNames = actual[store];
+    if (!indexNames) {
+      problems.push(store);
+      continue;
+    }
+    for (const index of Object.keys(indexes)) {
+      if (!indexNames.includes(index)) problems.push(`${store}.${index}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Creates every store and index in `DB_SCHEMA` the database lacks
+ * Must run inside an upgrade transaction.
+ * @returns What was created, in the form of `findSchemaProblems`
+ */
+export function repairSchema(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+): string[] {
+  const created: string[] = [];
+  for (const [name, { indexes }] of Object.entries(DB_SCHEMA)) {
+    if (!db.objectStoreNames.contains(name)) created.push(name);
+    const store = ensureStore(db, transaction, name);
+    for (const index of Object.keys(indexes)) {
+      if (ensureIndex(store, index)) created.push(`${name}.${index}`);
+    }
+  }
+  return created;
+}
+
+/**
+ * Whether an image record has the fields every reader relies on
+ */
+export function isValidImageRecord(value: unknown): boolean {
+  const record = value as Partial<ImageData> | null;
+  return (
+    !!record &&
+    typeof record.id === "string" &&
+    typeof record.url === "string" &&
+    typeof record.source === "string" &&
+    typeof record.timestamp === "number" &&
+    typeof record.expiresAt === "number"
+  );
+}
+
+/**
+ * Whether a history entry has the fields its indexes and readers rely on
+ */
+export function isValidHistoryEntry(value: unknown): boolean {
+  const entry = value as { imageId?: unknown; viewedAt?: unknown } | null;
+  return (
+    !!entry &&
+    typeof entry.imageId === "string" &&
+    typeof entry.viewedAt === "number"
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Screen sizing for the random wallpaper browser extension.
+ * Tracks the largest screen new tabs report so downloads can be sized for it.
+ */
+
+import {
+  DEFAULT_DISPLAY_SIZE,
+  DEFAULT_IMAGE_QUALITY_TIER,
+  DISPLAY_SIZE_MAX_AGE_DAYS,
+  DISPLAY_SIZE_RENEW_HOURS,
+  IMAGE_QUALITY_TIERS,
+  MAX_DISPLAY_DIMENSION,
+} from "../config";
+import type { DisplaySize, ImageQualityTier, ImageSizeTarget } from "../config";
+
+/**
+ * Size to scale an image to so it still covers a box
+ * The new tab crops wallpapers to fill the screen, so the image only has to
+ * match it on the side that is shortest relative to the screen. Images are
+ * never scaled up.
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param boxWidth - Width to cover
+ * @param boxHeight - Height to cover
+ */
+export function getCoverSize(
+  width: number,
+  height: number,
+  boxWidth: number,
+  boxHeight: number,
+): { width: number; height: number } {
+  const scale = Math.min(1, Math.max(boxWidth / width, boxHeight / height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Checks a screen size reported by a new tab
+ * @param value - The message's `size`, as sent
+ * @param now - Time of the report
+ * @returns The size, rounded, or null if it is not a plausible screen
+ */
+export function readDisplaySize(
+  value: unknown,
+  now: number,
+): DisplaySize | null {
+  const size = value as Partial<DisplaySize> | null;
+  const isDimension = (n: unknown): n is number =>
+    typeof n === "number" && n >= 1 && n <= MAX_DISPLAY_DIMENSION;
+  if (
+    !size ||
+    !isDimension(size.width) ||
+    !isDimension(size.height) ||
+    typeof size.devicePixelRatio !== "number" ||
+    !(size.devicePixelRatio > 0 && size.devicePixelRatio <= 8)
+  ) {
+    return null;
+  }
+
+  return {
+    width: Math.round(size.width),
+    height: Math.round(size.height),
+    devicePixelRatio: Math.round(size.devicePixelRatio * 100) / 100,
+    reportedAt: now,
+  };
+}
+
+function devicePixels(size: DisplaySize): number {
+  return size.width * size.height * size.devicePixelRatio ** 2;
+}
+
+/**
+ * Whether a reported screen should replace the stored one
+ * The largest screen wins so images stay sharp on every monitor; a smaller one
+ * only takes over once the stored one has not been reported for a while.
+ * Reports of the stored screen renew its age at most once per
+ * `DISPLAY_SIZE_RENEW_HOURS`, to keep storage writes rare.
+ */
+export function shouldReplaceDisplaySize(
+  stored: DisplaySize | undefined,
+  reported: DisplaySize,
+): boolean {
+  if (!stored) return true;
+
+  const age = reported.reportedAt - stored.reportedAt;
+  if (
+    reported.width === stored.width &&
+    reported.height === stored.height &&
+    reported.devicePixelRatio === stored.devicePixelRatio
+  ) {
+    return age > DISPLAY_SIZE_RENEW_HOURS * 60 * 60 * 1000;
+  }
+  return (
+    devicePixels(reported) > devicePixels(stored) ||
+    age > DISPLAY_SIZE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Size and quality to download photos at for a screen
+ * @param display - Screen to size for (default: 1920×1080 at 1×)
+ * @param tier - The user's image quality tier
+ */
+export function getImageSizeTarget(
+  display: DisplaySize = DEFAULT_DISPLAY_SIZE,
+  tier: ImageQualityTier = DEFAULT_IMAGE_QUALITY_TIER,
+): ImageSizeTarget {
+  const { maxDpr, quality } = IMAGE_QUALITY_TIERS[tier];
+  return {
+    width: display.width,
+    height: display.height,
+    dpr: Math.max(1, Math.min(maxDpr, display.devicePixelRatio)),
+    quality,
+    tier,
+  };
+}
+
+/**
+ * A size target in device pixels
+ */
+export function getTargetPixels(target: ImageSizeTarget): {
+  width: number;
+  height: number;
+} {
+  return {
+    width: Math.round(target.width * target.dpr),
+    height: Math.round(target.height * target.dpr),
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * Custom feed parsing
+ * Turns JSON and RSS/Atom documents into image metadata for the custom feed
+ * source. `fetchCustomFeed` in `src/api` downloads the document and hands it
+ * to `parseFeed`, which tells JSON from XML by its first character unless the
+ * feed's format is set.
+ * XML is scanned with regular expressions because `DOMParser` is not
+ * available in the background service worker.
+ */
+
+import type {
+  CustomFeedMapping,
+  CustomFeedSettings,
+  ProviderPhoto,
+} from "../config";
+
+/**
+ * Reads a value from a nested object using a JSONPath-style path
+ * Supports dot notation, `[n]` array indices and an optional leading `$`
+ * @param data - Object to read from
+ * @param path - Path such as `$.data.photos[0].src`
+ * @returns The value at the path, or undefined if any segment is missing
+ */
+export function getValueAtPath(data: unknown, path: string): unknown {
+  const segments = path
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter((segment) => segment.length > 0);
+
+  let current: unknown = data;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Coerces a scalar feed value to a trimmed string
+ */
+function asString(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+/**
+ * Resolves a possibly relative URL against the feed address
+ * @returns Absolute http(s) URL, or an empty string if it is unusable
+ */
+function resolveUrl(value: string, baseUrl: string): string {
+  if (!value) return "";
+  try {
+    const url = new URL(value, baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.href
+      : "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Builds the shared metadata shape for a feed item
+ */
+function toPhoto(
+  fields: {
+    id: string;
+    imageUrl: string;
+    author: string;
+    authorUrl: string;
+    downloadUrl: string;
+  },
+  baseUrl: string,
+): ProviderPhoto | null {
+  const url = resolveUrl(fields.imageUrl, baseUrl);
+  if (!url) return null;
+
+  return {
+    id: `custom_${fields.id || url}`,
+    url,
+    source: "custom",
+    downloadUrl: resolveUrl(fields.downloadUrl, baseUrl) || url,
+    author: fields.author || "Unknown",
+    authorUrl: resolveUrl(fields.authorUrl, baseUrl) || "#",
+  };
+}
+
+/**
+ * Extracts image metadata from a parsed JSON feed
+ * Items without a usable image URL are skipped.
+ * @param data - Parsed JSON document
+ * @param mapping - Where each field lives in the document
+ * @param baseUrl - Feed URL, used to resolve relative links
+ */
+export function parseJsonFeed(
+  data: unknown,
+  mapping: CustomFeedMapping,
+  baseUrl: string,
+): ProviderPhoto[] {
+  const items = mapping.items.trim()
+    ? getValueAtPath(data, mapping.items)
+    : data;
+  if (!Array.isArray(items)) return [];
+
+  const photos: ProviderPhoto[] = [];
+  for (const item of items) {
+    const photo = toPhoto(
+      {
+        id: asString(getValueAtPath(item, mapping.id)),
+        imageUrl: asString(getValueAtPath(item, mapping.imageUrl)),
+        author: asString(getValueAtPath(item, mapping.author)),
+        authorUrl: asString(getValueAtPath(item, mapping.authorUrl)),
+        downloadUrl: asString(getValueAtPath(item, mapping.downloadUrl)),
+      },
+      baseUrl,
+    );
+    if (photo) photos.push(photo);
+  }
+  return photos;
+}
+
+/**
+ * Decodes CDATA sections and the XML entities feeds commonly use
+ */
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec: string) =>
+      String.fromCodePoint(parseInt(dec, 10)),
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Parses the attributes of every occurrence of a tag
+ * @returns One attribute map per tag, in document order
+ */
+function getTagAttributes(xml: string, tag: string): Record<string, string>[] {
+  const tagPattern = new RegExp(`<${tag}\\b([^>]*)>`, "gi");
+  const attrPattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  return Array.from(xml.matchAll(tagPattern), (tagMatch) => {
+    const attributes: Record<string, string> = {};
+    for (const attr of (tagMatch[1] ?? "").matchAll(attrPattern)) {
+      attributes[attr[1]!.toLowerCase()] = decodeXmlText(
+        attr[2] ?? attr[3] ?? "",
+      );
+    }
+    return attributes;
+  });
+}
+
+/**
+ * Returns the decoded text content of the first occurrence of a tag
+ */
+function getTagText(xml: string, tag: string): string {
+  const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "i").exec(
+    xml,
+  );
+  return match ? decodeXmlText(match[1] ?? "") : "";
+}
+
+/**
+ * Whether a media attribute set describes an image
+ * Entries without a type or medium are assumed to be images.
+ */
+function isImageMedia(attributes: Record<string, string>): boolean {
+  const type = attributes["type"];
+  const medium = attributes["medium"];
+  if (medium) return medium === "image";
+  return !type || type.startsWith("image/");
+}
+
+/**
+ * Finds the image URL of an RSS item or Atom entry
+ * Prefers `media:content`, then RSS `<enclosure>`, then Atom
+ * `<link rel="enclosure">`.
+ */
+function getXmlImageUrl(entry: string): string {
+  const candidates = [
+    ...getTagAttributes(entry, "media:content").map((a) => ({
+      ...a,
+      href: a["url"] ?? "",
+    })),
+    ...getTagAttributes(entry, "enclosure").map((a) => ({
+      ...a,
+      href: a["url"] ?? "",
+    })),
+    ...getTagAttributes(entry, "link")
+      .filter((a) => a["rel"] === "enclosure")
+      .map((a) => ({ ...a, href: a["href"] ?? "" })),
+  ];
+
+  return candidates.find((c) => c.href && isImageMedia(c))?.href ?? "";
+}
+
+/**
+ * Extracts image metadata from an RSS 2.0 or Atom document
+ * Only items carrying an image enclosure or `media:content` are returned.
+ * @param xml - Raw feed document
+ * @param baseUrl - Feed URL, used to resolve relative links
+ */
+export function parseXmlFeed(xml: string, baseUrl: string): ProviderPhoto[] {
+  const entries = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) ?? [];
+
+  const photos: ProviderPhoto[] = [];
+  for (const entry of entries) {
+    const authorBlock = getTagText(entry, "author");
+    const atomLink = getTagAttributes(entry, "link").find(
+      (a) => !a["rel"] || a["rel"] === "alternate",
+    );
+
+    const photo = toPhoto(
+      {
+        id: getTagText(entry, "guid") || getTagText(entry, "id"),
+        imageUrl: getXmlImageUrl(entry),
+        author:
+          getTagText(entry, "dc:creator") ||
+          getTagText(entry, "media:credit") ||
+          getTagText(authorBlock, "name") ||
+          (authorBlock.includes("<") ? "" : authorBlock),
+        authorUrl: getTagText(authorBlock, "uri"),
+        downloadUrl: getTagText(entry, "link") || atomLink?.["href"] || "",
+      },
+      baseUrl,
+    );
+    if (photo) photos.push(photo);
+  }
+  return photos;
+}
+
+/**
+ * Host permission patterns for the sites a feed's images are served from
+ * These are often not the feed's own site (e.g. a CDN), and the extension
+ * can only download from sites it has been granted.
+ * @param photos - Photos parsed from the feed
+ * @returns One `<origin>/*` pattern per site, in the order first seen
+ */
+export function getImageOriginPatterns(photos: ProviderPhoto[]): string[] {
+  const patterns = new Set<string>();
+  for (const photo of photos) {
+    try {
+      const { origin, protocol } = new URL(photo.url);
+      if (protocol === "https:" || protocol === "http:") {
+        patterns.add(`${origin}/*`);
+      }
+    } catch {
+      // Unparseable URLs fail to download whatever access is granted
+    }
+  }
+  return [...patterns];
+}
+
+/**
+ * Parses a feed response body according to the feed configuration
+ * @param body - Raw response text
+ * @param feed - Feed settings (format, mapping and URL)
+ * @returns Image metadata for every usable item
+ * @throws SyntaxError if a JSON feed cannot be parsed
+ */
+export function parseFeed(
+  body: string,
+  feed: CustomFeedSettings,
+): ProviderPhoto[] {
+  const trimmed = body.trimStart();
+  const isJson =
+    feed.format === "json" ||
+    (feed.format === "auto" &&
+      (trimmed.startsWith("{") || trimmed.startsWith("[")));
+
+  return isJson
+    ? parseJsonFeed(JSON.parse(trimmed), feed.mapping, feed.url)
+    : parseXmlFeed(body, feed.url);
+}
@@ -0,0 +1,130 @@
+/**
+ * API key pool for the random wallpaper browser extension.
+ * Reads rate limit headers into per-key quota records and decides which key
+ * serves each request, so exhausted or cooling-down keys are left alone.
+ * The quotas themselves are stored under `keyQuotas` by `src/storage`.
+ */
+
+import { DEFAULT_RETRY_AFTER_MS, RATE_LIMIT_WINDOW_MS } from "../config";
+import type { KeyQuota } from "../config";
+
+/**
+ * Parses an integer header, ignoring missing or malformed values
+ */
+function readNumberHeader(headers: Headers, name: string): number | undefined {
+  const value = parseInt(headers.get(name) ?? "", 10);
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Converts a `Retry-After` header (seconds or an HTTP date) into a timestamp
+ * @param value - Header value, if any
+ * @param now - Current time
+ * @returns When the key may be used again
+ */
+export function parseRetryAfter(value: string | null, now: number): number {
+  if (value) {
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return now + Math.max(0, seconds) * 1000;
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) return Math.max(now, date);
+  }
+  return now + DEFAULT_RETRY_AFTER_MS;
+}
+
+/**
+ * Reads the rate limit state from an API response.
+ * Understands the `X-Ratelimit-*` headers Unsplash and Pexels send and turns a
+ * 429 into a cooldown.
+ * @param response - Any response from the provider's API
+ * @param now - Current time
+ * @returns The quota update, or null if the response carries no rate limit info
+ */
+export function readKeyQuota(
+  response: Pick<Response, "status" | "headers">,
+  now: number,
+): KeyQuota | null {
+  const { headers } = response;
+  const remaining = readNumberHeader(headers, "X-Ratelimit-Remaining");
+  const limit = readNumberHeader(headers, "X-Ratelimit-Limit");
+  const reset = readNumberHeader(headers, "X-Ratelimit-Reset");
+
+  const quota: KeyQuota = { updatedAt: now };
+  if (remaining !== undefined) quota.remaining = remaining;
+  if (limit !== undefined) quota.limit = limit;
+  if (remaining !== undefined || reset !== undefined) {
+    // Pexels sends the reset as UNIX seconds; Unsplash sends none
+    quota.resetAt =
+      reset !== undefined ? reset * 1000 : now + RATE_LIMIT_WINDOW_MS;
+  }
+
+  if (response.status === 429) {
+    quota.cooldownUntil = parseRetryAfter(headers.get("Retry-After"), now);
+  }
+
+  return Object.keys(quota).length > 1 ? quota : null;
+}
+
+/**
+ * Estimates how many requests a key has left right now
+ * @returns Remaining requests, Infinity if unknown, 0 if the key must not be used
+ */
+export function getHeadroom(quota: KeyQuota | undefined, now: number): number {
+  if (!quota) return Infinity;
+  if (quota.cooldownUntil && quota.cooldownUntil > now) return 0;
+  if (quota.resetAt !== undefined && quota.resetAt <= now) {
+    return quota.limit ?? Infinity;
+  }
+  return quota.remaining ?? Infinity;
+}
+
+/**
+ * Assigns a key to each of a provider's requests.
+ * Every request goes to the key with the most headroom left, counting the
+ * requests already assigned in this round. Keys without headroom are skipped.
+ * @param keys - The provider's configured keys
+ * @param quotas - Stored quota per key (by key)
+ * @param requestCount - Number of requests to place
+ * @param now - Current time
+ * @param maxPerKey - Optional cap on requests per key for this round
+ * @returns One key per request that could be placed, in request order
+ */
+export function assignKeys(
+  keys: string[],
+  quotas: Record<string, KeyQuota | undefined>,
+  requestCount: number,
+  now: number,
+  maxPerKey: Record<string, number> = {},
+): string[] {
+  const pool = keys.map((key) => ({
+    key,
+    headroom: Math.min(
+      getHeadroom(quotas[key], now),
+      maxPerKey[key] ?? Infinity,
+    ),
+    used: 0,
+  }));
+
+  const assigned: string[] = [];
+  for (let i = 0; i < requestCount; i++) {
+    let best: (typeof pool)[number] | undefined;
+    for (const entry of pool) {
+      if (entry.headroom - entry.used <= 0) continue;
+      if (
+        !best ||
+        entry.headroom - entry.used > best.headroom - best.used ||
+        (entry.headroom - entry.used === best.headroom - best.used &&
+          entry.used < best.used)
+      ) {
+        best = entry;
+      }
+    }
+    if (!best) break;
+
+    best.used++;
+    assigned.push(best.key);
+  }
+
+  return assigned;
+}
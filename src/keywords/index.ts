@@ -0,0 +1,90 @@
+/**
+ * Keyword parsing and rotation for the random wallpaper browser extension.
+ * Keywords are entered per provider as a comma-separated list where each
+ * entry may carry a weight, e.g. `mountains:3, ocean, city:2`.
+ *
+ * A weight repeats its entry, spread out, within each cycle. Each provider
+ * keeps its own position in the cycle through `saveKeywordIndex` in
+ * `src/storage`.
+ */
+
+import { MAX_KEYWORD_WEIGHT } from "../config";
+import type { WeightedKeyword } from "../config";
+
+/**
+ * Parses a comma-separated keyword list with optional `:weight` suffixes.
+ * Weights are whole numbers clamped to 1..MAX_KEYWORD_WEIGHT; repeated
+ * keywords are merged by adding their weights.
+ * @param input - Raw textarea value
+ * @returns Keywords in the order they were first listed
+ */
+export function parseKeywords(input: string): WeightedKeyword[] {
+  const byKeyword = new Map<string, number>();
+
+  for (const entry of input.split(",")) {
+    const match = /^(.*?)\s*:\s*(\d+)$/.exec(entry.trim());
+    const keyword = (match ? match[1]! : entry).trim();
+    if (!keyword) continue;
+
+    const weight = match ? parseInt(match[2]!, 10) : 1;
+    byKeyword.set(keyword, (byKeyword.get(keyword) ?? 0) + weight);
+  }
+
+  return Array.from(byKeyword, ([keyword, weight]) => ({
+    keyword,
+    weight: Math.min(MAX_KEYWORD_WEIGHT, Math.max(1, weight)),
+  }));
+}
+
+/**
+ * Expands weighted keywords into one rotation cycle.
+ * Uses smooth weighted round-robin, so a keyword with weight 3 appears three
+ * times per cycle but spread out rather than back to back.
+ * @param keywords - Parsed keywords
+ * @returns Keyword sequence whose length is the sum of the weights
+ */
+export function buildKeywordCycle(keywords: WeightedKeyword[]): string[] {
+  const totalWeight = keywords.reduce((sum, k) => sum + k.weight, 0);
+  const entries = keywords.map((k) => ({ ...k, current: 0 }));
+  const cycle: string[] = [];
+
+  for (let step = 0; step < totalWeight; step++) {
+    let best = entries[0]!;
+    for (const entry of entries) {
+      entry.current += entry.weight;
+      if (entry.current > best.current) best = entry;
+    }
+    best.current -= totalWeight;
+    cycle.push(best.keyword);
+  }
+
+  return cycle;
+}
+
+/**
+ * Splits a provider's batch across keyword slots.
+ * Slots sharing a keyword are merged into a single request so the same
+ * search is not repeated within one refresh. What does not divide evenly is
+ * handed out one photo at a time from the first slot, so the counts add up to
+ * the batch size; slots left with nothing (more slots than photos) are
+ * dropped.
+ * @param keywords - Keyword per slot (null means random/curated)
+ * @param batchSize - Photos one request may return
+ * @returns One request per distinct keyword with the number of photos to ask for
+ */
+export function splitBatch(
+  keywords: (string | null)[],
+  batchSize: number,
+): { keyword: string | null; count: number }[] {
+  if (keywords.length === 0) return [];
+
+  const perSlot = Math.floor(batchSize / keywords.length);
+  const remainder = batchSize % keywords.length;
+  const counts = new Map<string | null, number>();
+  keywords.forEach((keyword, slot) => {
+    const count = perSlot + (slot < remainder ? 1 : 0);
+    if (count > 0) counts.set(keyword, (counts.get(keyword) ?? 0) + count);
+  });
+
+  return Array.from(counts, ([keyword, count]) => ({ keyword, count }));
+}
@@ -0,0 +1,123 @@
+/**
+ * Local Image Library
+ * Imports wallpapers from the user's own disk into the image cache.
+ * Local images never expire and survive cache cleanups, since there is
+ * nowhere to re-download them from.
+ */
+
+import {
+  LOCAL_IMAGE_MAX_SIZE_MB,
+  LOCAL_IMAGE_TYPES,
+  PERMANENT_CACHE_EXPIRY_MS,
+} from "../config";
+import type { ImageData, LocalImportResult } from "../config";
+import { deleteImagesBySource, storeImages } from "../db";
+import { getFileHash } from "../utils";
+import { computePerceptualHash } from "../perceptualHash";
+import { createThumbnail } from "../transcode";
+import { computeAverageColor } from "../placeholder";
+import { Logger } from "../logger";
+
+const library_logger = new Logger("Library");
+
+/**
+ * Checks whether a file can be imported into the local library
+ * @param file - File picked by the user or dropped onto the page
+ * @returns True when the file is a supported image within the size limit
+ */
+export function isSupportedImageFile(file: File): boolean {
+  return (
+    LOCAL_IMAGE_TYPES.includes(file.type) &&
+    file.size > 0 &&
+    file.size <= LOCAL_IMAGE_MAX_SIZE_MB * 1024 * 1024
+  );
+}
+
+/**
+ * Strips the extension from a file name for use as the image credit
+ */
+function getDisplayName(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+/**
+ * Imports image files into the local library.
+ * Each file is hashed so content already in the cache (from any source) is
+ * skipped rather than stored twice.
+ * @param files - Files from a file/folder picker or a drop event
+ * @returns Counts of imported, duplicate and rejected files
+ */
+export async function importLocalImages(
+  files: Iterable<File> | ArrayLike<File>,
+): Promise<LocalImportResult> {
+  const all = Array.from(files);
+  const supported = all.filter(isSupportedImageFile);
+  const rejected = all.length - supported.length;
+
+  if (rejected > 0) {
+    library_logger.warn(
+      `Skipping ${rejected} file(s) that are not supported images or exceed ${LOCAL_IMAGE_MAX_SIZE_MB}MB`,
+    );
+  }
+
+  const now = Date.now();
+  const images: ImageData[] = [];
+
+  for (const file of supported) {
+    try {
+      const contentHash = await getFileHash(file);
+      const perceptualHash = await computePerceptualHash(file).catch(
+        () => undefined,
+      );
+      const thumbnail = await createThumbnail(file).catch(() => undefined);
+      const color = await computeAverageColor(thumbnail ?? file).catch(
+        () => undefined,
+      );
+      images.push({
+        id: `local_${contentHash.slice(0, 16)}`,
+        url: "",
+        blob: file,
+        source: "local",
+        downloadUrl: "",
+        author: getDisplayName(file.name),
+        authorUrl: "#",
+        timestamp: now,
+        expiresAt: now + PERMANENT_CACHE_EXPIRY_MS,
+        contentHash,
+        ...(perceptualHash ? { perceptualHash } : {}),
+        ...(thumbnail ? { thumbnail } : {}),
+        ...(color ? { color } : {}),
+      });
+    } catch (error) {
+      library_logger.error(`Failed to read ${file.name}:`, error);
+    }
+  }
+
+  const {
+    storedIds: importedIds,
+    duplicates,
+    skippedIds,
+  } = await storeImages(images);
+  const unreadable = supported.length - images.length;
+
+  library_logger.info(`Imported ${importedIds.length} local image(s)`);
+
+  return {
+    imported: importedIds.length,
+    duplicates,
+    rejected: rejected + unreadable,
+    skipped: skippedIds.length,
+    importedIds,
+  };
+}
+
+/**
+ * Removes every image imported into the local library
+ * @returns Number of images deleted
+ */
+export async function clearLocalImages(): Promise<number> {
+  const deleted = await deleteImagesBySource("local");
+  library_logger.info(`Removed ${deleted} local image(s)`);
+  return deleted;
+}
@@ -0,0 +1,400 @@
+/**
+ * Cross-context locks for the random wallpaper browser extension.
+ * The service worker, new tab, options and popup pages each run in their own
+ * JS realm, so in-memory flags cannot stop them from racing each other.
+ *
+ * Locks use the Web Locks API, which the browser releases when the holding
+ * context goes away. Where it is unavailable they fall back to a lease record
+ * in `chrome.storage.local`, renewed by a heartbeat; a lease its holder
+ * stopped renewing is stale and is taken over. The fallback is best effort:
+ * storage has no compare-and-swap, so two contexts claiming a free lease at
+ * the same moment can, rarely, both get it. Callers within one context are
+ * always queued in memory, so only other contexts can race.
+ */
+
+import { Logger } from "../logger";
+import { LOCK_HEARTBEAT_MS, LOCK_LEASE_MS, LOCK_RETRY_MS } from "../config";
+import type { LockDiagnostics, LockLease, LockMechanism } from "../config";
+import {
+  getLockLease,
+  getLockLeases,
+  removeLockLease,
+  saveLockLease,
+} from "../storage";
+
+const locks_logger = new Logger("Locks");
+
+export interface LockOptions {
+  /** Give up waiting after this long; waits indefinitely if unset */
+  timeoutMs?: number;
+  /**
+   * Record the holder in storage for diagnostics while a Web Lock is held.
+   * Storage leases are always recorded since they are the lock itself.
+   */
+  recordHolder?: boolean;
+}
+
+/**
+ * Outcome of a lock attempt that does not wait
+ */
+export type LockAttempt<T> =
+  | { acquired: true; result: T }
+  | { acquired: false; holder?: string };
+
+let contextHolder: string | null = null;
+
+/** Last queued attempt per lock name in this context; see `queueLocally` */
+const localQueues = new Map<string, Promise<void>>();
+
+/**
+ * The Web Locks API of this context, if it has one
+ */
+function getWebLocks(): LockManager | undefined {
+  return typeof navigator !== "undefined"
+    ? (navigator as Navigator & { locks?: LockManager }).locks
+    : undefined;
+}
+
+/**
+ * Whether extension storage is reachable for leases and diagnostics
+ */
+function hasLeaseStorage(): boolean {
+  return typeof chrome !== "undefined" && !!chrome.storage?.local;
+}
+
+/**
+ * Names this context in lock diagnostics, e.g. `background#1a2b3c4d`
+ */
+export function getLockHolder(): string {
+  if (!contextHolder) {
+    const page =
+      typeof location !== "undefined"
+        ? (location.pathname.split("/").pop() ?? "")
+        : "";
+    const context = page.replace(/\.(html|js)$/, "") || "unknown";
+    contextHolder = `${context}#${crypto.randomUUID().slice(0, 8)}`;
+  }
+  return contextHolder;
+}
+
+function createLease(name: string, mechanism: LockMechanism): LockLease {
+  const now = Date.now();
+  return {
+    name,
+    holder: getLockHolder(),
+    token: crypto.randomUUID(),
+    mechanism,
+    acquiredAt: now,
+    expiresAt: now + LOCK_LEASE_MS,
+  };
+}
+
+function lockTimeoutError(name: string, timeoutMs: number): Error {
+  return new Error(`Timed out waiting for lock "${name}" after ${timeoutMs}ms`);
+}
+
+/**
+ * Keeps a lease alive while its operation runs
+ * @returns Function that stops the heartbeat
+ */
+function startHeartbeat(lease: LockLease): () => void {
+  const timer = setInterval(() => {
+    lease.expiresAt = Date.now() + LOCK_LEASE_MS;
+    saveLockLease(lease).catch((error) =>
+      locks_logger.warn(`Failed to renew lease on "${lease.name}"`, error),
+    );
+  }, LOCK_HEARTBEAT_MS);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Runs an operation while holding a recorded lease, then releases it
+ */
+async function runWithLease<T>(
+  lease: LockLease,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const stopHeartbeat = startHeartbeat(lease);
+  try {
+    return await operation();
+  } finally {
+    stopHeartbeat();
+    await removeLockLease(lease.name, lease.token).catch((error) =>
+      locks_logger.warn(`Failed to release lease on "${lease.name}"`, error),
+    );
+  }
+}
+
+async function requestWebLock<T>(
+  locks: LockManager,
+  name: string,
+  operation: () => Promise<T>,
+  options: LockOptions,
+  ifAvailable: boolean,
+): Promise<LockAttempt<T>> {
+  const { timeoutMs, recordHolder = true } = options;
+  const controller =
+    timeoutMs !== undefined && !ifAvailable ? new AbortController() : null;
+  const timer = controller
+    ? setTimeout(() => controller.abort(), timeoutMs)
+    : undefined;
+
+  try {
+    return await locks.request(
+      name,
+      { ifAvailable, ...(controller ? { signal: controller.signal } : {}) },
+      async (lock): Promise<LockAttempt<T>> => {
+        clearTimeout(timer);
+        if (!lock) {
+          const lease = hasLeaseStorage()
+            ? await getLockLease(name)
+            : undefined;
+          return {
+            acquired: false,
+            ...(lease ? { holder: lease.holder } : {}),
+          };
+        }
+
+        if (!recordHolder || !hasLeaseStorage()) {
+          return { acquired: true, result: await operation() };
+        }
+
+        const lease = createLease(name, "web-locks");
+        await saveLockLease(lease).catch((error) =>
+          locks_logger.warn(`Failed to record holder of "${name}"`, error),
+        );
+        return {
+          acquired: true,
+          result: await runWithLease(lease, operation),
+        };
+      },
+    );
+  } catch (error) {
+    if (controller?.signal.aborted) {
+      throw lockTimeoutError(name, timeoutMs!);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs a lock attempt once every earlier attempt on the same lock in this
+ * context has finished
+ * Web Locks queue a context's own callers; storage leases and contexts
+ * without any lock mechanism rely on this instead.
+ * @param timeoutMs - Longest wait in the queue; waits indefinitely if unset
+ * @param attempt - Receives what is left of the timeout
+ * @throws Error if the wait times out, or whatever the attempt throws
+ */
+async function queueLocally<T>(
+  name: string,
+  timeoutMs: number | undefined,
+  attempt: (timeoutMs?: number) => Promise<T>,
+): Promise<T> {
+  const previous = localQueues.get(name) ?? Promise.resolve();
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  // The next caller waits for this one and, through it, every earlier one
+  const tail = previous.then(() => released);
+  localQueues.set(name, tail);
+
+  const forget = () => {
+    if (localQueues.get(name) === tail) localQueues.delete(name);
+  };
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let reachedFront = false;
+  try {
+    await (timeoutMs === undefined
+      ? previous
+      : Promise.race([
+          previous,
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(
+              () => reject(lockTimeoutError(name, timeoutMs)),
+              timeoutMs,
+            );
+          }),
+        ]));
+    reachedFront = true;
+    clearTimeout(timer);
+    return await attempt(
+      timeoutMs === undefined
+        ? undefined
+        : Math.max(0, timeoutMs - (Date.now() - startedAt)),
+    );
+  } finally {
+    clearTimeout(timer);
+    release();
+    // A caller that gave up waiting leaves its place for the earlier ones
+    if (reachedFront) forget();
+    else tail.then(forget);
+  }
+}
+
+/**
+ * Claims a lease in storage, waiting for a live one to be released or go
+ * stale
+ * Best effort: a lease is written and then read back after a short wait, and
+ * a context whose write was overwritten goes back to waiting. Two contexts
+ * whose writes land within that wait of each other can both hold the lease.
+ */
+async function acquireStorageLease<T>(
+  name: string,
+  operation: () => Promise<T>,
+  options: LockOptions,
+  ifAvailable: boolean,
+): Promise<LockAttempt<T>> {
+  const { timeoutMs } = options;
+  const deadline =
+    timeoutMs !== undefined
+      ? Date.now() + timeoutMs
+      : Number.POSITIVE_INFINITY;
+  const lease = createLease(name, "storage-lease");
+
+  for (;;) {
+    const now = Date.now();
+    const current = await getLockLease(name);
+
+    if (current && current.expiresAt > now) {
+      if (ifAvailable) return { acquired: false, holder: current.holder };
+      if (now >= deadline) throw lockTimeoutError(name, timeoutMs!);
+      await new Promise((r) => setTimeout(r, LOCK_RETRY_MS));
+      continue;
+    }
+
+    if (current) {
+      locks_logger.warn(
+        `Recovering stale lease on "${name}" held by ${current.holder} since ${new Date(current.acquiredAt).toLocaleTimeString()}`,
+      );
+    }
+
+    lease.acquiredAt = now;
+    lease.expiresAt = now + LOCK_LEASE_MS;
+    await saveLockLease(lease);
+
+    // Two contexts may claim a free lease at once; the last write wins and
+    // the other goes back to waiting
+    await new Promise((r) => setTimeout(r, LOCK_RETRY_MS / 4));
+    if ((await getLockLease(name))?.token === lease.token) break;
+  }
+
+  return { acquired: true, result: await runWithLease(lease, operation) };
+}
+
+function attemptLock<T>(
+  name: string,
+  operation: () => Promise<T>,
+  options: LockOptions,
+  ifAvailable: boolean,
+): Promise<LockAttempt<T>> {
+  const locks = getWebLocks();
+  if (locks) {
+    return requestWebLock(locks, name, operation, options, ifAvailable);
+  }
+
+  if (ifAvailable && localQueues.has(name)) {
+    return Promise.resolve({ acquired: false, holder: getLockHolder() });
+  }
+  return queueLocally(name, options.timeoutMs, (timeoutMs) => {
+    if (hasLeaseStorage()) {
+      return acquireStorageLease(
+        name,
+        operation,
+        { ...options, ...(timeoutMs !== undefined ? { timeoutMs } : {}) },
+        ifAvailable,
+      );
+    }
+    // A lone context (e.g. a test runner) only has its own callers to queue
+    return operation().then((result) => ({ acquired: true, result }));
+  });
+}
+
+/**
+ * Runs an operation while holding a lock shared by every extension context
+ * Waits for the lock if another context (or this one) holds it.
+ * @param name - Lock name
+ * @param operation - Work to do while holding the lock
+ * @param options - Wait timeout and diagnostics
+ * @returns Promise that resolves to the operation's result
+ * @throws Error if the wait times out, or whatever the operation throws
+ */
+export async function withLock<T>(
+  name: string,
+  operation: () => Promise<T>,
+  options: LockOptions = {},
+): Promise<T> {
+  const attempt = await attemptLock(name, operation, options, false);
+  if (!attempt.acquired) throw new Error(`Lock "${name}" was not acquired`);
+  return attempt.result;
+}
+
+/**
+ * Runs an operation only if the lock is free right now
+ * @param name - Lock name
+ * @param operation - Work to do while holding the lock
+ * @param options - Diagnostics options
+ * @returns Promise that resolves to the result, or to the current holder if
+ *   the lock was busy
+ */
+export function withLockIfAvailable<T>(
+  name: string,
+  operation: () => Promise<T>,
+  options: LockOptions = {},
+): Promise<LockAttempt<T>> {
+  return attemptLock(name, operation, options, true);
+}
+
+/**
+ * Lists held and awaited locks across every context
+ * Leases left behind by a context that went away are reported as stale.
+ * @returns Promise that resolves to the current lock state
+ */
+export async function getLockDiagnostics(): Promise<LockDiagnostics> {
+  const now = Date.now();
+  const leases = hasLeaseStorage() ? await getLockLeases() : [];
+  const locks = getWebLocks();
+
+  if (!locks) {
+    return {
+      mechanism: "storage-lease",
+      held: leases.map((lease) => ({
+        name: lease.name,
+        holder: lease.holder,
+        since: lease.acquiredAt,
+        stale: lease.expiresAt <= now,
+      })),
+      pending: [],
+    };
+  }
+
+  const snapshot = await locks.query();
+  const heldNames = new Set((snapshot.held ?? []).map((lock) => lock.name));
+  const held: LockDiagnostics["held"] = (snapshot.held ?? []).map((lock) => {
+    const lease = leases.find((l) => l.name === lock.name);
+    return {
+      name: lock.name ?? "",
+      holder: lease?.holder ?? lock.clientId ?? "unknown",
+      ...(lease ? { since: lease.acquiredAt } : {}),
+      stale: false,
+    };
+  });
+  for (const lease of leases) {
+    if (!heldNames.has(lease.name)) {
+      held.push({
+        name: lease.name,
+        holder: lease.holder,
+        since: lease.acquiredAt,
+        stale: true,
+      });
+    }
+  }
+
+  return {
+    mechanism: "web-locks",
+    held,
+    pending: (snapshot.pending ?? []).map((lock) => lock.name ?? ""),
+  };
+}
@@ -6,6 +6,8 @@
  * message routing.
  */
 
+import type { CircuitSummary } from "./config";
+
 type MessageHandler = (message: any, sender: chrome.runtime.MessageSender) => void;
 
 const subscribers = new Set<MessageHandler>();
@@ -86,6 +88,49 @@ export function requestCurrentImageId(): Promise<string | null> {
   });
 }
 
+/**
+ * Request the circuit breakers that are currently open or half-open.
+ * Resolves to an empty list if the background does not respond.
+ */
+export function requestCircuitSummaries(): Promise<CircuitSummary[]> {
+  return new Promise((resolve) => {
+    try {
+      chrome.runtime.sendMessage(
+        { action: "getBackgroundStats" },
+        (response) => {
+          if (chrome.runtime.lastError) {
+            resolve([]);
+            return;
+          }
+
+          resolve(
+            response?.success && Array.isArray(response.stats?.circuits)
+              ? response.stats.circuits
+              : [],
+          );
+        },
+      );
+    } catch {
+      resolve([]);
+    }
+  });
+}
+
+/**
+ * Report this page's screen to the background service worker, which sizes
+ * downloads for the largest screen reported.
+ */
+export function reportDisplaySize(): void {
+  broadcastMessage({
+    action: "reportDisplaySize",
+    size: {
+      width: screen.width,
+      height: screen.height,
+      devicePixelRatio: window.devicePixelRatio,
+    },
+  });
+}
+
 /**
  * Broadcast the current image ID to all contexts.
  */
@@ -10,7 +10,11 @@ import {
   addToHistory,
   getLastFetchTime,
   getAllValidImages,
-  getHistoryImageById,
+  getImageById,
+  getThumbnail,
+  saveSnapshot,
+  takeSnapshot,
+  setImageFavorite,
 } from "./db";
 import {
   Settings,
@@ -25,12 +29,21 @@ import {
   DEFAULT_ENABLED_TRANSITIONS,
   DEFAULT_CONFIG,
   LogLevel,
+  SNAPSHOT_PREPARE_DELAY_MS,
+  FirstPaintPath,
+  ImageSnapshot,
+  ImageMetadata,
 } from "./config";
 import { Logger } from "./logger";
-import { getSettings } from "./storage";
+import {
+  getFirstPaintTimings,
+  getSettings,
+  saveFirstPaintTimings,
+} from "./storage";
 import { CanvasTransitionManager } from "./transitions";
 import { formatTimeAgo } from "./utils";
 import {
+  addFirstPaintSample,
   AnimationDirection,
   buildShuffleOrder,
   formatDate,
@@ -41,7 +54,9 @@ import {
   isAutoRefreshEnabled,
   pickNextFromShuffle,
 } from "./newTabLogic";
-import { broadcastCurrentImageId } from "./messaging";
+import { broadcastCurrentImageId, reportDisplaySize } from "./messaging";
+import { importLocalImages } from "./library";
+import { createSnapshot } from "./transcode";
 
 const newTab_logger = new Logger("New Tab");
 
@@ -185,49 +200,66 @@ async function displayImage(
       direction = directions[randomIndex]!;
     }
 
+    // Show the image's placeholder while the blob decodes (first image only),
+    // if the caller did not paint it before reading the blob
+    canvasTransitionManager.showPlaceholder(imageData);
+
     // Perform canvas transition
     await canvasTransitionManager.transition(imageData.blob, transitionType, {
       duration: 600,
       direction: direction,
     });
 
-    // Update credit information
-    updateCreditInfo(imageData);
+    await showImageDetails(imageData, skipHistory);
+  } catch (error) {
+    newTab_logger.error(`Failed to display image: ${error}`);
+    throw error;
+  }
+}
 
-    // Fade in credit after transition
-    setTimeout(() => {
-      creditDiv.classList.add("visible");
-    }, 200);
-
-    // Add to history if not skipping and viewing current image
-    if (
-      !skipHistory &&
-      appState.currentHistoryIndex === -1 &&
-      appState.historyEnabled
-    ) {
-      try {
-        await addToHistory(
-          imageData.id,
-          imageData.source,
-          appState.historyMaxSize,
-        );
-        await loadHistoryList();
-        updateHistoryUI();
-      } catch (error) {
-        newTab_logger.error(`Failed to add to history: ${error}`);
-      }
-    }
+/**
+ * Shows the credit for an image now on screen, records it in history and
+ * tells other contexts about it
+ * @param imageData - The image on screen
+ * @param skipHistory - Whether to skip adding this image to history
+ */
+async function showImageDetails(
+  imageData: ImageData,
+  skipHistory: boolean,
+): Promise<void> {
+  // Update credit information
+  updateCreditInfo(imageData);
 
-    // Keep other extension contexts in sync with current image
+  // Fade in credit after transition
+  setTimeout(() => {
+    creditDiv.classList.add("visible");
+  }, 200);
+
+  // Add to history if not skipping and viewing current image
+  if (
+    !skipHistory &&
+    appState.currentHistoryIndex === -1 &&
+    appState.historyEnabled
+  ) {
     try {
-      chrome.storage.local.set({ currentImageId: imageData.id });
-      broadcastCurrentImageId(imageData.id);
-    } catch (e) {
-      newTab_logger.warn("Failed to broadcast current image update", e);
+      await addToHistory(
+        imageData.id,
+        imageData.source,
+        appState.historyMaxSize,
+      );
+      await loadHistoryList();
+      updateHistoryUI();
+    } catch (error) {
+      newTab_logger.error(`Failed to add to history: ${error}`);
     }
-  } catch (error) {
-    newTab_logger.error(`Failed to display image: ${error}`);
-    throw error;
+  }
+
+  // Keep other extension contexts in sync with current image
+  try {
+    chrome.storage.local.set({ currentImageId: imageData.id });
+    broadcastCurrentImageId(imageData.id);
+  } catch (e) {
+    newTab_logger.warn("Failed to broadcast current image update", e);
   }
 }
 
@@ -425,7 +457,7 @@ async function navigateToPrevious(
   if (!historyEntry) return;
 
   try {
-    const imageData = await getHistoryImageById(historyEntry.imageId);
+    const imageData = await getImageById(historyEntry.imageId);
 
     if (imageData) {
       await displayImage(imageData, true, "prev", settings);
@@ -477,7 +509,7 @@ async function navigateToNext(
     if (!historyEntry) return;
 
     try {
-      const imageData = await getHistoryImageById(historyEntry.imageId);
+      const imageData = await getImageById(historyEntry.imageId);
 
       if (imageData) {
         await displayImage(imageData, true, "next", settings);
@@ -523,8 +555,14 @@ async function loadHistorySettings(settings: Settings): Promise<void> {
  */
 /**
  * Gets the next image to show via a shuffled queue + recent-history avoidance.
+ * The queue is built from metadata only; just the chosen image's blob is read.
+ * @param onPicked - Called with the chosen image's metadata before its blob
+ *   is read, e.g. to paint its placeholder meanwhile
  */
-async function getNextShuffledImage(settings: Settings): Promise<ImageData | null> {
+async function getNextShuffledImage(
+  settings: Settings,
+  onPicked?: (image: ImageMetadata) => void,
+): Promise<ImageData | null> {
   // Ensure cache is populated
   if (appState.currentImages.length === 0) {
     appState.currentImages = await getAllValidImages();
@@ -562,13 +600,18 @@ async function getNextShuffledImage(settings: Settings): Promise<ImageData | nul
 
   appState.shuffleIndex = nextIndex;
 
-  if (!nextId) {
-    // Fallback to random selection
-    const fallbackIndex = Math.floor(Math.random() * appState.currentImages.length);
-    return appState.currentImages[fallbackIndex] || null;
-  }
+  // Fallback to random selection
+  const pickedId =
+    nextId ??
+    appState.currentImages[
+      Math.floor(Math.random() * appState.currentImages.length)
+    ]?.id;
+  if (!pickedId) return null;
+
+  const picked = appState.currentImages.find((img) => img.id === pickedId);
+  if (picked) onPicked?.(picked);
 
-  return appState.currentImages.find((img) => img.id === nextId) || null;
+  return getImageById(pickedId);
 }
 
 /**
@@ -582,7 +625,10 @@ async function loadRandomImage(settings: Settings): Promise<void> {
     appState.currentHistoryIndex = -1;
     creditDiv.classList.remove("visible");
 
-    const randomImageData = await getNextShuffledImage(settings);
+    // The placeholder covers the blob read as well as the decode
+    const randomImageData = await getNextShuffledImage(settings, (image) =>
+      canvasTransitionManager.showPlaceholder(image),
+    );
 
     if (!randomImageData) {
       showError("No images available. Please check your configuration.");
@@ -601,6 +647,101 @@ async function loadRandomImage(settings: Settings): Promise<void> {
   }
 }
 
+/**
+ * Paints the snapshot the previous tab prepared, before anything else loads
+ * @returns The snapshot painted, or null if there was none to use
+ */
+async function paintSnapshot(): Promise<ImageSnapshot | null> {
+  try {
+    const snapshot = await takeSnapshot();
+    if (!snapshot) return null;
+    await canvasTransitionManager.displayImmediate(snapshot.blob);
+    return snapshot;
+  } catch (error) {
+    newTab_logger.warn(`Failed to paint snapshot: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Makes the image a painted snapshot shows the current one, as
+ * `displayImage` does once its transition finishes
+ * @returns Whether the image could be loaded; if not, a random image should
+ *   be shown instead
+ */
+async function hydrateSnapshot(
+  snapshot: ImageSnapshot,
+  settings: Settings,
+): Promise<boolean> {
+  const imageData = await getImageById(snapshot.imageId).catch((error) => {
+    newTab_logger.warn(`Failed to load the snapshot's image: ${error}`);
+    return null;
+  });
+  if (!imageData) return false;
+
+  appState.currentHistoryIndex = -1;
+  currentImageData = imageData;
+  currentImageResolution = null;
+  await showImageDetails(imageData, false);
+
+  await resumeAutoRefresh(settings);
+  return true;
+}
+
+/**
+ * Picks the image the next new tab will show and saves a snapshot of it at
+ * screen size, so that tab can paint it before anything else loads
+ */
+async function prepareNextSnapshot(settings: Settings): Promise<void> {
+  try {
+    const next = await getNextShuffledImage(settings);
+    if (!next) return;
+
+    const width = Math.round(screen.width * window.devicePixelRatio);
+    const height = Math.round(screen.height * window.devicePixelRatio);
+    const blob = await createSnapshot(next.blob, { width, height });
+    await saveSnapshot({
+      imageId: next.id,
+      blob,
+      width,
+      height,
+      createdAt: Date.now(),
+      expiresAt: next.expiresAt,
+    });
+    newTab_logger.debug(`Prepared a snapshot of ${next.id} for the next tab`);
+  } catch (error) {
+    newTab_logger.warn(`Failed to prepare the next snapshot: ${error}`);
+  }
+}
+
+/**
+ * Records how long after navigation the wallpaper was fully shown
+ * Appears as a `wallpaper-first-paint` measure in the DevTools performance
+ * panel, and in the options page's summary of recent timings.
+ * @param path - How the wallpaper got on screen
+ * @param ms - When it was shown, if not just now
+ */
+async function recordFirstPaint(
+  path: FirstPaintPath,
+  ms: number = performance.now(),
+): Promise<void> {
+  performance.measure("wallpaper-first-paint", {
+    start: 0,
+    end: ms,
+    detail: { path },
+  });
+  newTab_logger.info(
+    `Wallpaper shown ${Math.round(ms)} ms after navigation (${path})`,
+  );
+
+  try {
+    const timings = await getFirstPaintTimings();
+    await saveFirstPaintTimings(addFirstPaintSample(timings, path, ms));
+  } catch (error) {
+    newTab_logger.debug(`Failed to record first paint timing: ${error}`);
+  }
+}
+
 /**
  * Updates the clock display with current time
  * Handles both 12-hour and 24-hour formats with optional seconds
@@ -819,10 +960,19 @@ let currentImageResolution: string | null = null;
 // Track UI visibility state
 let isUIHidden = false;
 
+// Object URLs of the thumbnails shown in the history modal
+let historyThumbnailUrls: string[] = [];
+
 /**
  * Shows the custom context menu at the specified position
  */
 function showContextMenu(x: number, y: number): void {
+  const favoriteText = document.getElementById("favoriteText");
+  if (favoriteText)
+    favoriteText.textContent = currentImageData?.favorite
+      ? "Remove from Favorites"
+      : "Add to Favorites";
+
   contextMenu?.classList.add("visible");
 
   // Position the menu, ensuring it stays within viewport
@@ -897,6 +1047,15 @@ function showInfoCard(): void {
   infoPhotographer.innerHTML = "";
   infoPhotographer.appendChild(authorLink);
 
+  // Caption or credit line supplied by the source (e.g. picture of the day)
+  if (currentImageData.attribution) {
+    const note = document.createElement("span");
+    note.className = "info-card__note";
+    note.textContent = currentImageData.attribution;
+    note.title = currentImageData.attribution;
+    infoPhotographer.appendChild(note);
+  }
+
   // Source
   const sourceLink = document.createElement("a");
   sourceLink.href = getSourceUrl(currentImageData.source);
@@ -906,6 +1065,20 @@ function showInfoCard(): void {
   infoSource.innerHTML = "";
   infoSource.appendChild(sourceLink);
 
+  if (currentImageData.license) {
+    const license = document.createElement(
+      currentImageData.licenseUrl ? "a" : "span",
+    );
+    license.className = "info-card__note";
+    license.textContent = currentImageData.license;
+    if (license instanceof HTMLAnchorElement && currentImageData.licenseUrl) {
+      license.href = currentImageData.licenseUrl;
+      license.target = "_blank";
+      license.rel = "noopener noreferrer";
+    }
+    infoSource.appendChild(license);
+  }
+
   // Resolution
   getCurrentImageResolution().then((resolution) => {
     infoResolution.textContent = resolution;
@@ -951,7 +1124,7 @@ async function deleteCurrentImage(settings: Settings): Promise<void> {
           appState.currentHistoryIndex = deletedIndex;
           const nextEntry = appState.historyList[deletedIndex];
           if (nextEntry) {
-            const nextImage = await getHistoryImageById(nextEntry.imageId);
+            const nextImage = await getImageById(nextEntry.imageId);
             if (nextImage) {
               await displayImage(nextImage, true, "fade", settings);
             }
@@ -961,7 +1134,7 @@ async function deleteCurrentImage(settings: Settings): Promise<void> {
           appState.currentHistoryIndex = Math.max(0, deletedIndex - 1);
           const prevEntry = appState.historyList[appState.currentHistoryIndex];
           if (prevEntry) {
-            const prevImage = await getHistoryImageById(prevEntry.imageId);
+            const prevImage = await getImageById(prevEntry.imageId);
             if (prevImage) {
               await displayImage(prevImage, true, "fade", settings);
             }
@@ -992,6 +1165,32 @@ async function deleteCurrentImage(settings: Settings): Promise<void> {
   }
 }
 
+/**
+ * Marks or unmarks the current image as a favourite.
+ * Favourites are kept when the cache budget evicts old images.
+ */
+async function toggleCurrentImageFavorite(): Promise<void> {
+  if (!currentImageData) {
+    newTab_logger.error("No current image to favorite");
+    return;
+  }
+
+  const favorite = !currentImageData.favorite;
+  try {
+    const updated = await setImageFavorite(currentImageData.id, favorite);
+    if (!updated) {
+      showToast("This image is no longer in the cache");
+      return;
+    }
+
+    currentImageData.favorite = favorite;
+    showToast(favorite ? "Added to favorites" : "Removed from favorites");
+  } catch (error) {
+    newTab_logger.error(`Failed to update favorite: ${error}`);
+    showError("Failed to update favorite");
+  }
+}
+
 /**
  * Toggles the visibility of UI elements (everything except canvas)
  */
@@ -1073,11 +1272,11 @@ async function showHistoryModal(settings: Settings): Promise<void> {
               (appState.currentHistoryIndex === -1 && index === 0);
 
             const timeAgo = formatTimeAgo(entry.viewedAt);
-            const sourceDisplay =
-              entry.source.charAt(0).toUpperCase() + entry.source.slice(1);
+            const sourceDisplay = getSourceDisplayName(entry.source);
 
             return `
             <div class="history-item ${isCurrent ? "current" : ""}" data-index="${index}">
+              <img class="history-item-thumb" width="64" height="40" alt="" />
               <div class="history-item-info">
                 <div class="history-item-source">${sourceDisplay}</div>
                 <div class="history-item-time">${timeAgo}</div>
@@ -1091,6 +1290,7 @@ async function showHistoryModal(settings: Settings): Promise<void> {
         );
 
         historyList.innerHTML = items.join("");
+        showHistoryThumbnails(history);
 
         // Add click handlers to history items
         historyList.querySelectorAll(".history-item").forEach((item) => {
@@ -1109,11 +1309,46 @@ async function showHistoryModal(settings: Settings): Promise<void> {
   }
 }
 
+/**
+ * Fills in the history items' thumbnails as they load
+ * Images still awaiting a thumbnail are left blank rather than decoding every
+ * full-size wallpaper in the list.
+ */
+function showHistoryThumbnails(history: HistoryEntry[]): void {
+  revokeHistoryThumbnails();
+  const thumbs = historyList.querySelectorAll<HTMLImageElement>(
+    ".history-item-thumb",
+  );
+
+  history.forEach((entry, index) => {
+    getThumbnail(entry.imageId)
+      .then((blob) => {
+        const thumb = thumbs[index];
+        if (!blob || !thumb?.isConnected) return;
+        const url = URL.createObjectURL(blob);
+        historyThumbnailUrls.push(url);
+        thumb.src = url;
+      })
+      .catch((error) => {
+        newTab_logger.debug(`Failed to load history thumbnail: ${error}`);
+      });
+  });
+}
+
+/**
+ * Releases the history modal's thumbnails
+ */
+function revokeHistoryThumbnails(): void {
+  historyThumbnailUrls.forEach((url) => URL.revokeObjectURL(url));
+  historyThumbnailUrls = [];
+}
+
 /**
  * Hides the history modal
  */
 function hideHistoryModal(): void {
   historyModal.classList.remove("visible");
+  revokeHistoryThumbnails();
 }
 
 /**
@@ -1128,7 +1363,7 @@ async function navigateToHistoryIndex(
   if (index < 0 || index >= history.length) return;
 
   const historyEntry = history[index]!;
-  const imageData = await getHistoryImageById(historyEntry.imageId);
+  const imageData = await getImageById(historyEntry.imageId);
 
   if (!imageData) {
     newTab_logger.error("Failed to load history image");
@@ -1160,6 +1395,14 @@ document
     hideContextMenu();
   });
 
+document
+  .getElementById("contextFavorite")
+  ?.addEventListener("click", async (e) => {
+    e.stopPropagation();
+    hideContextMenu();
+    await toggleCurrentImageFavorite();
+  });
+
 document
   .getElementById("contextDelete")
   ?.addEventListener("click", async (e) => {
@@ -1241,6 +1484,83 @@ chrome.storage.onChanged.addListener(async (changes: any, areaName: any) => {
   }
 });
 
+/**
+ * Shows a short-lived notice at the top of the page
+ * @param message - Text to display
+ */
+function showToast(message: string): void {
+  const toast = document.createElement("div");
+  toast.textContent = message;
+  toast.style.cssText = `
+      position: fixed;
+      top: 30px;
+      left: 50%;
+      transform: translateX(-50%);
+      background: rgba(0, 0, 0, 0.8);
+      backdrop-filter: blur(12px);
+      padding: 12px 24px;
+      border-radius: 12px;
+      font-size: 14px;
+      z-index: 1000;
+    `;
+  document.body.appendChild(toast);
+  setTimeout(() => toast.remove(), 4000);
+}
+
+/**
+ * Imports images dropped onto the page into the local library
+ * and shows the first newly added one.
+ * @param files - Files from the drop event
+ */
+async function handleDroppedFiles(files: FileList): Promise<void> {
+  try {
+    const result = await importLocalImages(files);
+
+    if (result.imported === 0) {
+      showToast(
+        result.skipped > 0
+          ? "Not enough storage space to add those images"
+          : result.duplicates > 0
+            ? "Those images are already in your library"
+            : "No supported images found",
+      );
+      return;
+    }
+
+    showToast(`Added ${result.imported} image(s) to your local library`);
+
+    appState.currentImages = await getAllValidImages();
+    const firstImported = result.importedIds[0]
+      ? await getImageById(result.importedIds[0])
+      : null;
+    if (firstImported) {
+      await displayImage(firstImported, false, "fade", await getSettings());
+    }
+  } catch (error) {
+    newTab_logger.error(`Failed to import dropped images: ${error}`);
+    showToast("Failed to import images");
+  }
+}
+
+document.addEventListener("dragover", (e) => {
+  if (!e.dataTransfer?.types.includes("Files")) return;
+  e.preventDefault();
+  e.dataTransfer.dropEffect = "copy";
+  document.body.classList.add("drag-over");
+});
+
+document.addEventListener("dragleave", (e) => {
+  // relatedTarget is null once the pointer leaves the window
+  if (!e.relatedTarget) document.body.classList.remove("drag-over");
+});
+
+document.addEventListener("drop", (e) => {
+  if (!e.dataTransfer?.files.length) return;
+  e.preventDefault();
+  document.body.classList.remove("drag-over");
+  handleDroppedFiles(e.dataTransfer.files);
+});
+
 /**
  * Clean up resources on page unload to prevent memory leaks
  */
@@ -1290,7 +1610,13 @@ setInterval(refreshImageCache, 2 * 60 * 1000);
  * Initialize the new tab page
  */
 (async () => {
+  // Paint the snapshot the previous tab prepared first; history, the clock
+  // and auto-refresh are hydrated behind it
+  const snapshotPainted = paintSnapshot();
   createIcons({ icons });
+  const snapshot = await snapshotPainted;
+  // Only counted once the snapshot turns out to show a cached image
+  const snapshotPaintedAt = performance.now();
 
   try {
     const settings = await getSettings();
@@ -1338,7 +1664,16 @@ setInterval(refreshImageCache, 2 * 60 * 1000);
 
     // Load random image - critical operation
     try {
-      await loadRandomImage(settings);
+      const hydrated =
+        snapshot !== null && (await hydrateSnapshot(snapshot, settings));
+      if (hydrated) {
+        recordFirstPaint("snapshot", snapshotPaintedAt);
+      } else {
+        // Also when a snapshot was painted but its image is gone: the
+        // wallpaper the tab ends up showing took the full path
+        await loadRandomImage(settings);
+        if (currentImageData) recordFirstPaint("full");
+      }
     } catch (error) {
       newTab_logger.error(`Failed to load random image: ${error}`);
       showError("Failed to load image. Please refresh the page.");
@@ -1368,6 +1703,12 @@ setInterval(refreshImageCache, 2 * 60 * 1000);
       newTab_logger.error(`Failed to check/trigger refresh: ${error}`);
       // Non-critical, background operation
     }
+
+    // Let the background size downloads for this screen
+    reportDisplaySize();
+
+    // Get the next tab's image ready once this one has settled
+    setTimeout(() => prepareNextSnapshot(settings), SNAPSHOT_PREPARE_DELAY_MS);
   } catch (error) {
     // Catch-all for any unexpected errors
     newTab_logger.error(`Unexpected error during initialization: ${error}`);
@@ -5,7 +5,17 @@
  * The goal is to isolate logic from DOM manipulation so the UI code remains thin.
  */
 
-import type { TransitionType, ImageData, Settings } from "./config";
+import { FIRST_PAINT_SAMPLE_COUNT } from "./config";
+import type {
+  TransitionType,
+  FirstPaintPath,
+  FirstPaintTimings,
+  ImageData,
+  ImageSource,
+  Settings,
+} from "./config";
+import { getProvider } from "./providers";
+import { getDailyProvider } from "./daily";
 
 /**
  * Animation direction types for image transitions
@@ -93,28 +103,31 @@ export function getRandomTransition(
  * Returns the source URL for a given image source type.
  */
 export function getSourceUrl(source: ImageData["source"]): string {
-  switch (source) {
-    case "unsplash":
-      return "https://unsplash.com";
-    case "pexels":
-      return "https://pexels.com";
-    default:
-      return "#";
-  }
+  return (
+    getProvider(source)?.homepageUrl ??
+    getDailyProvider(source)?.homepageUrl ??
+    "#"
+  );
 }
 
+/**
+ * Display names for sources that are not backed by a registered provider
+ */
+const NON_PROVIDER_SOURCE_NAMES: Partial<Record<ImageSource, string>> = {
+  custom: "Custom Feed",
+  local: "Local Library",
+};
+
 /**
  * Returns a user-friendly display name for the image source.
  */
 export function getSourceDisplayName(source: ImageData["source"]): string {
-  switch (source) {
-    case "unsplash":
-      return "Unsplash";
-    case "pexels":
-      return "Pexels";
-    default:
-      return "Other";
-  }
+  return (
+    NON_PROVIDER_SOURCE_NAMES[source] ??
+    getProvider(source)?.displayName ??
+    getDailyProvider(source)?.displayName ??
+    "Other"
+  );
 }
 
 /**
@@ -174,3 +187,22 @@ export function formatDate(date: Date): string {
 export function isAutoRefreshEnabled(settings: Settings): boolean {
   return settings.autoRefresh?.enabled === true;
 }
+
+/**
+ * Adds a first-paint timing, keeping the most recent
+ * `FIRST_PAINT_SAMPLE_COUNT` for each path
+ * @param timings - Timings so far
+ * @param path - How the wallpaper got on screen
+ * @param ms - Time from navigation until it was fully shown
+ */
+export function addFirstPaintSample(
+  timings: FirstPaintTimings,
+  path: FirstPaintPath,
+  ms: number,
+): FirstPaintTimings {
+  const samples = [...(timings[path] ?? []), Math.round(ms)];
+  return {
+    ...timings,
+    [path]: samples.slice(-FIRST_PAINT_SAMPLE_COUNT),
+  };
+}
@@ -4,9 +4,10 @@
  * for the random wallpaper browser extension.
  */
 
-import { testApiKey, checkOnline } from "./api";
+import { testApiKey, checkOnline, fetchCustomFeed } from "./api";
 import {
   Settings,
+  ProviderId,
   TransitionType,
   REFRESH_INTERVAL_MS,
   AVAILABLE_TRANSITIONS,
@@ -17,7 +18,33 @@ import {
   MIN_AUTO_REFRESH_INTERVAL,
   DEFAULT_ENABLED_TRANSITIONS,
   DEFAULT_CONFIG,
+  DEFAULT_CUSTOM_FEED_MAPPING,
+  DEFAULT_DAILY_BACKFILL_DAYS,
+  MAX_DAILY_BACKFILL_DAYS,
+  DEFAULT_RETRY_QUEUE_MAX_AGE_HOURS,
+  MAX_RETRY_QUEUE_MAX_AGE_HOURS,
+  DEFAULT_MAX_DOWNLOAD_CONCURRENCY,
+  MAX_DOWNLOAD_CONCURRENCY,
+  DEFAULT_TRANSCODE_SETTINGS,
+  DEFAULT_IMAGE_QUALITY_TIER,
+  MIN_TRANSCODE_QUALITY,
+  MAX_TRANSCODE_QUALITY,
+  DEFAULT_CACHE_BUDGET,
+  MIN_CACHE_BUDGET_MB,
+  MAX_CACHE_BUDGET_MB,
+  MIN_CACHE_BUDGET_IMAGES,
+  MAX_CACHE_BUDGET_IMAGES,
+  CacheBudget,
+  DEFAULT_KEYWORDS_PER_REFRESH,
+  MAX_KEYWORDS_PER_REFRESH,
+  COLLECTION_KIND_LABELS,
+  DailyProviderId,
   LogLevel,
+  CustomFeedMapping,
+  CustomFeedSettings,
+  ImageMetadata,
+  KeyQuota,
+  ProviderPhoto,
 } from "./config";
 import {
   clearHistory,
@@ -27,20 +54,55 @@ import {
   getDatabaseStats,
   getAllValidImages,
   cleanExpiredImages,
+  getRetryQueueCount,
+  getCacheUsage,
+  getAllImageMetadata,
+  getImageById,
+  getThumbnail,
+  setImageHashes,
+  deleteImage,
 } from "./db";
 import { Logger } from "./logger";
 import { formatRelativeTime } from "./utils";
-import { getSettings, saveSettings } from "./storage";
+import {
+  getDisplaySize,
+  getFirstPaintTimings,
+  getKeyQuotas,
+  getSettings,
+  saveSettings,
+} from "./storage";
 import {
   maskApiKey,
-  isApiKeyValidFormat,
   getApiKeyStatus,
   getApiKeyStatusDisplay,
   getAllApiKeys,
+  getCollectionBreakdown,
+  getCacheUsageRows,
+  formatBytes,
+  getKeyQuotaDisplay,
+  parseCollectionIds,
+  describeCacheScan,
+  getNearDuplicateCaption,
+  describeTranscodeSavings,
+  describeDisplaySize,
+  describeFirstPaint,
 } from "./optionsLogic";
+import { getProvider, getProviders } from "./providers";
+import { getDailyProvider, getDailyProviders } from "./daily";
+import { importLocalImages, clearLocalImages } from "./library";
+import { getImageOriginPatterns } from "./feeds";
+import type { CacheScanReport, RefreshReport } from "./backgroundLogic";
+import {
+  FingerprintedImage,
+  computePerceptualHash,
+  groupNearDuplicates,
+} from "./perceptualHash";
 
 const options_logger = new Logger("Options Page");
 
+/** Rate limit state per `<source>_<key>`, as last read from storage */
+let keyQuotas: Record<string, KeyQuota> = {};
+
 /**
  * Shows/hides the header loading indicator
  * @param show - Whether to show the loading indicator
@@ -105,15 +167,9 @@ function renderApiKeys(settings: Settings): void {
   const container = document.getElementById("apiKeysList")!;
   container.innerHTML = "";
 
-  const unsplashStatusEl = document.getElementById("unsplashStatus");
-  const pexelsStatusEl = document.getElementById("pexelsStatus");
-
   const allKeys = getAllApiKeys(settings);
 
-  const unsplashCount = allKeys.filter((k) => k.source === "unsplash").length;
-  const pexelsCount = allKeys.filter((k) => k.source === "pexels").length;
-
-  const getServiceStatus = (source: "unsplash" | "pexels", count: number) => {
+  const getServiceStatus = (source: ProviderId, count: number) => {
     if (count === 0) {
       return {
         text: "Not Configured",
@@ -134,25 +190,32 @@ function renderApiKeys(settings: Settings): void {
     return { text, color };
   };
 
-  if (unsplashStatusEl) {
-    const { text, color } = getServiceStatus("unsplash", unsplashCount);
-    unsplashStatusEl.innerHTML = `📷 Unsplash: <span style="color: ${color}; font-weight: 600;">${text}</span>`;
-  }
-
-  if (pexelsStatusEl) {
-    const { text, color } = getServiceStatus("pexels", pexelsCount);
-    pexelsStatusEl.innerHTML = `🖼️ Pexels: <span style="color: ${color}; font-weight: 600;">${text}</span>`;
+  // One status line per provider, rendered into the status row
+  const statusRow = document.getElementById("apiStatusRow");
+  if (statusRow) {
+    statusRow.innerHTML = "";
+    getProviders().forEach((provider) => {
+      const count = allKeys.filter((k) => k.source === provider.id).length;
+      const { text, color } = getServiceStatus(provider.id, count);
+      const statusEl = document.createElement("div");
+      statusEl.id = `${provider.id}Status`;
+      statusEl.innerHTML = `${provider.displayName}: <span style="color: ${color}; font-weight: 600;">${text}</span>`;
+      statusRow.appendChild(statusEl);
+    });
   }
 
   if (allKeys.length === 0) {
+    const signupLinks = getProviders()
+      .map(
+        (provider) =>
+          `<li><strong>${provider.displayName}:</strong> Register at <a href="${provider.developerUrl}" target="_blank">${new URL(provider.developerUrl).host}</a></li>`,
+      )
+      .join("");
     container.innerHTML = `
       <div class="help-text">
         <p>⚠️ No API keys configured. Extension will use default fallback images until you add at least one API key.</p>
         <p>📝 <strong>How to get API keys:</strong></p>
-        <ul>
-          <li><strong>Unsplash:</strong> Register at <a href="https://unsplash.com/developers" target="_blank">developers.unsplash.com</a></li>
-          <li><strong>Pexels:</strong> Register at <a href="https://www.pexels.com/api/" target="_blank">pexels.com/api</a></li>
-        </ul>
+        <ul>${signupLinks}</ul>
       </div>
     `;
     return;
@@ -173,9 +236,19 @@ function renderApiKeys(settings: Settings): void {
       title: statusTitle,
     } = getApiKeyStatusDisplay(status);
 
+    // Remaining rate limit as last reported by the API
+    const quota = getKeyQuotaDisplay(
+      keyQuotas[`${source}_${key}`],
+      Date.now(),
+    );
+    const quotaHtml = quota
+      ? `<span class="quota ${quota.cssClass}" title="${quota.title}">${quota.text}</span>`
+      : "";
+
     item.innerHTML = `
-      <span class="source">${source.charAt(0).toUpperCase() + source.slice(1)}</span>
+      <span class="source">${getProvider(source)?.displayName ?? source}</span>
       <span class="key" title="${key}">${maskedKey}</span>
+      ${quotaHtml}
       <span class="status ${statusClass}" title="${statusTitle}">${statusText}</span>
       <button class="test-btn secondary" data-source="${source}" data-key="${key}" title="Test API key validity">Test</button>
       <button class="delete-btn danger" data-source="${source}" data-key="${key}" title="Remove this API key">Delete</button>
@@ -187,9 +260,10 @@ function renderApiKeys(settings: Settings): void {
   container.querySelectorAll(".test-btn").forEach((btn) => {
     btn.addEventListener("click", async (e) => {
       const target = e.target as HTMLButtonElement;
-      const source = target.dataset.source as "unsplash" | "pexels";
+      const source = target.dataset.source as ProviderId;
       const key = target.dataset.key!;
       const statusEl = target.previousElementSibling!;
+      const displayName = getProvider(source)?.displayName ?? source;
 
       // Update UI to show testing state
       target.disabled = true;
@@ -213,21 +287,21 @@ function renderApiKeys(settings: Settings): void {
         }
         const keyHash = `${source}_${key}`;
         currentSettings.apiKeyStatus[keyHash] = {
+          ...currentSettings.apiKeyStatus[keyHash],
           tested: true,
           valid: isValid,
           testedAt: Date.now(),
         };
         await saveSettings(currentSettings);
+        keyQuotas = await getKeyQuotas();
+        renderApiKeys(currentSettings);
 
         // Show user feedback
         if (isValid) {
-          showMessage(
-            `✓ ${source.charAt(0).toUpperCase() + source.slice(1)} API key is valid!`,
-            "success",
-          );
+          showMessage(`✓ ${displayName} API key is valid!`, "success");
         } else {
           showMessage(
-            `✗ ${source.charAt(0).toUpperCase() + source.slice(1)} API key failed validation`,
+            `✗ ${displayName} API key failed validation`,
             "error",
           );
         }
@@ -247,8 +321,9 @@ function renderApiKeys(settings: Settings): void {
   container.querySelectorAll(".delete-btn").forEach((btn) => {
     btn.addEventListener("click", async (e) => {
       const target = e.target as HTMLButtonElement;
-      const source = target.dataset.source as "unsplash" | "pexels";
+      const source = target.dataset.source as ProviderId;
       const key = target.dataset.key!;
+      const displayName = getProvider(source)?.displayName ?? source;
 
       // Confirm deletion with enhanced dialog
       const maskedKey =
@@ -261,16 +336,16 @@ function renderApiKeys(settings: Settings): void {
             key.slice(-4);
 
       const confirmed = confirm(
-        `Are you sure you want to delete this ${source} API key?\n\nKey: ${maskedKey}\n\nThis action cannot be undone.`,
+        `Are you sure you want to delete this ${displayName} API key?\n\nKey: ${maskedKey}\n\nThis action cannot be undone.`,
       );
 
       if (!confirmed) return;
 
       try {
         const currentSettings = await getSettings();
-        currentSettings.apiKeys[source] = currentSettings.apiKeys[
-          source
-        ].filter((k) => k !== key);
+        currentSettings.apiKeys[source] = (
+          currentSettings.apiKeys[source] ?? []
+        ).filter((k) => k !== key);
 
         // Remove test status for this key
         if (currentSettings.apiKeyStatus) {
@@ -282,16 +357,10 @@ function renderApiKeys(settings: Settings): void {
 
         // Re-render the API keys list
         renderApiKeys(currentSettings);
-        showMessage(
-          `${source.charAt(0).toUpperCase() + source.slice(1)} API key deleted successfully`,
-          "success",
-        );
+        showMessage(`${displayName} API key deleted successfully`, "success");
 
         // If no keys left, show guidance message
-        const totalKeys =
-          currentSettings.apiKeys.unsplash.length +
-          currentSettings.apiKeys.pexels.length;
-        if (totalKeys === 0) {
+        if (getAllApiKeys(currentSettings).length === 0) {
           showMessage(
             "All API keys removed. Extension will use fallback images until new keys are added.",
             "info",
@@ -305,6 +374,16 @@ function renderApiKeys(settings: Settings): void {
   });
 }
 
+/**
+ * Shows the slider for whichever limit the cache budget mode uses
+ */
+function showCacheBudgetLimit(mode: CacheBudget["mode"]): void {
+  const mbRow = document.getElementById("cacheBudgetMbRow");
+  const imagesRow = document.getElementById("cacheBudgetImagesRow");
+  if (mbRow) mbRow.style.display = mode === "size" ? "" : "none";
+  if (imagesRow) imagesRow.style.display = mode === "count" ? "" : "none";
+}
+
 /**
  * Loads and displays enhanced cache statistics using improved database functions
  * Shows comprehensive information about stored images, expiration status, and source distribution
@@ -312,10 +391,20 @@ function renderApiKeys(settings: Settings): void {
  */
 async function loadCacheStats(): Promise<number | null> {
   try {
-    const [images, lastFetch, dbStats] = await Promise.all([
+    const [
+      images,
+      lastFetch,
+      dbStats,
+      retryQueueCount,
+      cacheUsage,
+      firstPaintTimings,
+    ] = await Promise.all([
       getAllValidImages(),
       getLastFetchTime(),
       getDatabaseStats(),
+      getRetryQueueCount(),
+      getCacheUsage(),
+      getFirstPaintTimings(),
     ]);
 
     const now = Date.now();
@@ -328,6 +417,11 @@ async function loadCacheStats(): Promise<number | null> {
       (img) => img.source === "unsplash",
     ).length;
     const pexelsCount = images.filter((img) => img.source === "pexels").length;
+    const dailyCount = images.filter((img) =>
+      getDailyProvider(img.source),
+    ).length;
+    const customCount = images.filter((img) => img.source === "custom").length;
+    const localCount = images.filter((img) => img.source === "local").length;
     const fallbackCount = images.filter((img) => img.source === "other").length;
 
     // Update UI elements with enhanced information
@@ -339,6 +433,57 @@ async function loadCacheStats(): Promise<number | null> {
       unsplashCount.toString();
     document.getElementById("pexelsCount")!.textContent =
       pexelsCount.toString();
+    document.getElementById("dailyCount")!.textContent = dailyCount.toString();
+    document.getElementById("customCount")!.textContent =
+      customCount.toString();
+    document.getElementById("localCount")!.textContent = localCount.toString();
+
+    const breakdownEl = document.getElementById("collectionBreakdown");
+    if (breakdownEl) {
+      breakdownEl.textContent = getCollectionBreakdown(images)
+        .map(({ label, count }) => `${label}: ${count}`)
+        .join(" · ");
+    }
+
+    const cacheSizeEl = document.getElementById("cacheSize");
+    if (cacheSizeEl) {
+      cacheSizeEl.textContent = formatBytes(cacheUsage.total.bytes);
+    }
+
+    const usageBySourceEl = document.getElementById("cacheUsageBySource");
+    if (usageBySourceEl) {
+      usageBySourceEl.textContent = getCacheUsageRows(
+        cacheUsage.bySource,
+        "source",
+      )
+        .map(({ label, count, size }) => `${label}: ${count} (${size})`)
+        .join(" · ");
+    }
+
+    const usageByKeywordEl = document.getElementById("cacheUsageByKeyword");
+    if (usageByKeywordEl) {
+      usageByKeywordEl.textContent = getCacheUsageRows(
+        cacheUsage.byKeyword,
+        "keyword",
+      )
+        .map(({ label, count, size }) => `${label}: ${count} (${size})`)
+        .join(" · ");
+    }
+
+    const transcodeSavingsEl = document.getElementById("transcodeSavings");
+    if (transcodeSavingsEl) {
+      transcodeSavingsEl.textContent = describeTranscodeSavings(cacheUsage);
+    }
+
+    const firstPaintEl = document.getElementById("firstPaintStats");
+    if (firstPaintEl) {
+      firstPaintEl.textContent = describeFirstPaint(firstPaintTimings);
+    }
+
+    const libraryCountEl = document.getElementById("localLibraryCount");
+    if (libraryCountEl) {
+      libraryCountEl.textContent = localCount.toString();
+    }
 
     // Add fallback count if element exists
     const fallbackEl = document.getElementById("fallbackCount");
@@ -346,6 +491,11 @@ async function loadCacheStats(): Promise<number | null> {
       fallbackEl.textContent = fallbackCount.toString();
     }
 
+    const retryQueueEl = document.getElementById("retryQueueCount");
+    if (retryQueueEl) {
+      retryQueueEl.textContent = retryQueueCount.toString();
+    }
+
     // Enhanced database statistics display
     const dbStatsEl = document.getElementById("dbStats");
     if (dbStatsEl && dbStats) {
@@ -428,6 +578,210 @@ async function loadCacheStats(): Promise<number | null> {
   }
 }
 
+/**
+ * Groups cached images that look alike and lists them for review
+ * Images stored before fingerprinting are hashed first; ones that cannot be
+ * decoded are left to the cache integrity scan.
+ * @returns Number of groups found
+ */
+async function findNearDuplicates(): Promise<number> {
+  const records = await getAllImageMetadata();
+
+  for (const record of records) {
+    if (record.perceptualHash) continue;
+    const image = await getImageById(record.id);
+    if (!image) continue;
+    try {
+      const perceptualHash = await computePerceptualHash(image.blob);
+      await setImageHashes(record.id, { perceptualHash });
+      record.perceptualHash = perceptualHash;
+    } catch (error) {
+      options_logger.debug(`Could not fingerprint ${record.id}:`, error);
+    }
+  }
+
+  const groups = groupNearDuplicates(
+    records.filter(
+      (record): record is FingerprintedImage & ImageMetadata =>
+        Boolean(record.perceptualHash),
+    ),
+  );
+  const byId = new Map(records.map((record) => [record.id, record]));
+  renderNearDuplicateGroups(
+    groups.map((ids) => ids.map((id) => byId.get(id)!)),
+  );
+  return groups.length;
+}
+
+/**
+ * Shows each near-duplicate group as a row of thumbnails with delete buttons
+ */
+function renderNearDuplicateGroups(groups: ImageMetadata[][]): void {
+  const container = document.getElementById("nearDuplicateGroups");
+  if (!container) return;
+  container.innerHTML = "";
+
+  groups.forEach((group) => {
+    const row = document.createElement("div");
+    row.className = "near-duplicate-group";
+
+    group.forEach((record) => {
+      const item = document.createElement("figure");
+      item.className = "near-duplicate-item";
+
+      const thumbnail = document.createElement("img");
+      thumbnail.alt = record.author;
+      getThumbnail(record.id)
+        .then(async (blob) => blob ?? (await getImageById(record.id))?.blob)
+        .then((blob) => {
+          if (!blob) return;
+          const url = URL.createObjectURL(blob);
+          thumbnail.onload = () => URL.revokeObjectURL(url);
+          thumbnail.src = url;
+        });
+
+      const caption = document.createElement("figcaption");
+      caption.textContent = getNearDuplicateCaption(record);
+
+      const deleteBtn = document.createElement("button");
+      deleteBtn.className = "btn btn-danger btn-sm";
+      deleteBtn.textContent = "Delete";
+      deleteBtn.addEventListener("click", async () => {
+        deleteBtn.disabled = true;
+        try {
+          await deleteImage(record.id);
+          item.remove();
+          // A lone image is no longer a duplicate of anything
+          if (row.querySelectorAll(".near-duplicate-item").length < 2) {
+            row.remove();
+          }
+          await loadCacheStats();
+        } catch (error) {
+          options_logger.error("Failed to delete image:", error);
+          showMessage("Failed to delete the image. Please try again.", "error");
+          deleteBtn.disabled = false;
+        }
+      });
+
+      item.append(thumbnail, caption, deleteBtn);
+      row.appendChild(item);
+    });
+
+    container.appendChild(row);
+  });
+}
+
+/**
+ * Renders an ID input for every collection kind each provider supports
+ * @param settings - Current settings containing the subscribed collections
+ */
+function renderCollectionInputs(settings: Settings): void {
+  const container = document.getElementById("collectionInputs");
+  if (!container) return;
+
+  container.innerHTML = "";
+
+  getProviders().forEach((provider) => {
+    const targets = settings.collections?.[provider.id] ?? [];
+
+    provider.collectionKinds?.forEach((kind) => {
+      const field = document.createElement("div");
+      const id = `collections-${provider.id}-${kind}`;
+
+      const label = document.createElement("label");
+      label.className = "input-label";
+      label.htmlFor = id;
+      label.textContent = `${provider.displayName} ${COLLECTION_KIND_LABELS[kind]}s`;
+
+      const input = document.createElement("input");
+      input.type = "text";
+      input.id = id;
+      input.placeholder = kind === "topic" ? "wallpapers, nature" : "1065976";
+      input.value = targets
+        .filter((target) => target.kind === kind)
+        .map((target) => target.id)
+        .join(", ");
+
+      field.append(label, input);
+      container.appendChild(field);
+    });
+  });
+}
+
+/**
+ * Reads the subscribed collections from the rendered inputs
+ */
+function readCollectionInputs(): NonNullable<Settings["collections"]> {
+  const collections: NonNullable<Settings["collections"]> = {};
+
+  getProviders().forEach((provider) => {
+    const targets = (provider.collectionKinds ?? []).flatMap((kind) =>
+      parseCollectionIds(
+        (
+          document.getElementById(
+            `collections-${provider.id}-${kind}`,
+          ) as HTMLInputElement | null
+        )?.value ?? "",
+      ).map((id) => ({ kind, id })),
+    );
+    if (targets.length > 0) collections[provider.id] = targets;
+  });
+
+  return collections;
+}
+
+/**
+ * Renders one toggle per picture-of-the-day provider
+ * @param settings - Current settings containing the enabled daily providers
+ */
+function renderDailyProviders(settings: Settings): void {
+  const container = document.getElementById("dailyProvidersList");
+  if (!container) return;
+
+  container.innerHTML = "";
+  const enabled = settings.dailyImages?.providers ?? [];
+
+  getDailyProviders().forEach((provider) => {
+    const row = document.createElement("div");
+    row.className = "setting-row";
+
+    const info = document.createElement("div");
+    info.className = "setting-info";
+    const title = document.createElement("h3");
+    title.textContent = provider.displayName;
+    const description = document.createElement("p");
+    description.textContent = `Up to ${provider.maxBackfillDays} days of history available`;
+    info.append(title, description);
+
+    const toggle = document.createElement("label");
+    toggle.className = "toggle";
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.id = `daily-${provider.id}`;
+    checkbox.checked = enabled.includes(provider.id);
+    const slider = document.createElement("span");
+    slider.className = "slider";
+    toggle.append(checkbox, slider);
+
+    row.append(info, toggle);
+    container.appendChild(row);
+  });
+
+  const backfillEl = document.getElementById(
+    "dailyBackfillDays",
+  ) as HTMLInputElement | null;
+  const backfillDays =
+    settings.dailyImages?.backfillDays ?? DEFAULT_DAILY_BACKFILL_DAYS;
+  if (backfillEl) backfillEl.value = backfillDays.toString();
+  const backfillDisplayEl = document.getElementById("dailyBackfillDisplay");
+  if (backfillDisplayEl) backfillDisplayEl.textContent = `${backfillDays} days`;
+
+  const nasaKeyEl = document.getElementById(
+    "nasaApiKey",
+  ) as HTMLInputElement | null;
+  if (nasaKeyEl) nasaKeyEl.value = settings.dailyImages?.nasaApiKey ?? "";
+}
+
 /**
  * Renders the transition effects checkboxes with current settings
  * @param settings - Current settings containing enabled transitions
@@ -534,6 +888,137 @@ async function loadHistoryStats(): Promise<void> {
   }
 }
 
+/**
+ * Mapping fields, each backed by a `feedMap_<field>` input
+ */
+const FEED_MAPPING_FIELDS = Object.keys(
+  DEFAULT_CUSTOM_FEED_MAPPING,
+) as (keyof CustomFeedMapping)[];
+
+/**
+ * Reads the custom feed card into a settings object
+ * Empty mapping inputs fall back to the default field names.
+ * @returns Custom feed settings as currently entered
+ */
+function readCustomFeedForm(): CustomFeedSettings {
+  const value = (id: string) =>
+    (document.getElementById(id) as HTMLInputElement | null)?.value.trim() ??
+    "";
+
+  const mapping = { ...DEFAULT_CUSTOM_FEED_MAPPING };
+  for (const field of FEED_MAPPING_FIELDS) {
+    const input = document.getElementById(
+      `feedMap_${field}`,
+    ) as HTMLInputElement | null;
+    // `items` may legitimately be empty (bare array feeds)
+    if (input && (input.value.trim() || field === "items")) {
+      mapping[field] = input.value.trim();
+    }
+  }
+
+  const authName = value("customFeedAuthName");
+  const authValue = value("customFeedAuthValue");
+
+  return {
+    enabled:
+      (document.getElementById("customFeedEnabled") as HTMLInputElement | null)
+        ?.checked ?? false,
+    url: value("customFeedUrl"),
+    format: (value("customFeedFormat") ||
+      "auto") as CustomFeedSettings["format"],
+    ...(authName && authValue
+      ? { authHeader: { name: authName, value: authValue } }
+      : {}),
+    mapping,
+  };
+}
+
+/**
+ * Fills the custom feed card from saved settings
+ * @param feed - Saved custom feed settings, if any
+ */
+function loadCustomFeedForm(feed: CustomFeedSettings | undefined): void {
+  const setValue = (id: string, value: string) => {
+    const el = document.getElementById(id) as HTMLInputElement | null;
+    if (el) el.value = value;
+  };
+
+  const enabledEl = document.getElementById(
+    "customFeedEnabled",
+  ) as HTMLInputElement | null;
+  if (enabledEl) enabledEl.checked = feed?.enabled ?? false;
+
+  setValue("customFeedUrl", feed?.url ?? "");
+  setValue("customFeedFormat", feed?.format ?? "auto");
+  setValue("customFeedAuthName", feed?.authHeader?.name ?? "");
+  setValue("customFeedAuthValue", feed?.authHeader?.value ?? "");
+
+  const mapping = feed?.mapping ?? DEFAULT_CUSTOM_FEED_MAPPING;
+  for (const field of FEED_MAPPING_FIELDS) {
+    setValue(`feedMap_${field}`, mapping[field]);
+  }
+}
+
+/**
+ * Asks for access to the feed's origin, which is not covered by the
+ * extension's fixed host permissions. Must run inside a user gesture.
+ * @param feedUrl - Feed address
+ * @returns True if access is (or already was) granted
+ */
+async function requestFeedPermission(feedUrl: string): Promise<boolean> {
+  let origin: string;
+  try {
+    origin = `${new URL(feedUrl).origin}/*`;
+  } catch {
+    return false;
+  }
+
+  try {
+    return await chrome.permissions.request({ origins: [origin] });
+  } catch (error) {
+    options_logger.warn("Feed host permission request failed:", error);
+    return false;
+  }
+}
+
+/** Sites of the custom feed's images that the extension cannot access */
+let missingFeedImageOrigins: string[] = [];
+
+/**
+ * Finds the sites a feed's images come from that the extension has no access
+ * to, and shows the button that grants it
+ * Only the feed's own site is requested when the feed is saved, and image
+ * downloads from any other site (e.g. a CDN) would fail.
+ * @param photos - Photos parsed from the feed
+ * @returns Host names of the sites without access
+ */
+async function checkFeedImageAccess(
+  photos: ProviderPhoto[],
+): Promise<string[]> {
+  const patterns = getImageOriginPatterns(photos);
+  const granted = await Promise.all(
+    patterns.map((origin) =>
+      chrome.permissions.contains({ origins: [origin] }),
+    ),
+  );
+  missingFeedImageOrigins = patterns.filter((_, i) => !granted[i]);
+
+  const grantBtn = document.getElementById("grantFeedImageAccessBtn");
+  if (grantBtn) {
+    grantBtn.style.display = missingFeedImageOrigins.length > 0 ? "" : "none";
+  }
+  return missingFeedImageOrigins.map(
+    (pattern) => new URL(pattern.slice(0, -"/*".length)).host,
+  );
+}
+
+/**
+ * Formats the keywords-per-refresh slider value
+ */
+function formatKeywordsPerRefresh(count: number): string {
+  return `${count} keyword${count === 1 ? "" : "s"}`;
+}
+
 /**
  * Sets up all event listeners for the options page
  * Includes enhanced validation, user feedback, and error handling
@@ -562,6 +1047,96 @@ async function setupEventListeners(): Promise<void> {
     });
   }
 
+  const keywordsPerRefreshEl = document.getElementById("keywordsPerRefresh");
+  if (keywordsPerRefreshEl) {
+    keywordsPerRefreshEl.addEventListener("input", (e) => {
+      const value = parseInt((e.target as HTMLInputElement).value);
+      const displayEl = document.getElementById("keywordsPerRefreshDisplay");
+      if (displayEl) {
+        displayEl.textContent = formatKeywordsPerRefresh(value);
+      }
+    });
+  }
+
+  const dailyBackfillEl = document.getElementById("dailyBackfillDays");
+  if (dailyBackfillEl) {
+    dailyBackfillEl.addEventListener("input", (e) => {
+      const value = (e.target as HTMLInputElement).value;
+      const displayEl = document.getElementById("dailyBackfillDisplay");
+      if (displayEl) {
+        displayEl.textContent = `${value} days`;
+      }
+    });
+  }
+
+  const retryQueueMaxAgeEl = document.getElementById("retryQueueMaxAge");
+  if (retryQueueMaxAgeEl) {
+    retryQueueMaxAgeEl.addEventListener("input", (e) => {
+      const value = (e.target as HTMLInputElement).value;
+      const displayEl = document.getElementById("retryQueueMaxAgeDisplay");
+      if (displayEl) {
+        displayEl.textContent = `${value} hours`;
+      }
+    });
+  }
+
+  const cacheBudgetModeEl = document.getElementById("cacheBudgetMode");
+  if (cacheBudgetModeEl) {
+    cacheBudgetModeEl.addEventListener("change", (e) => {
+      showCacheBudgetLimit(
+        (e.target as HTMLSelectElement).value as CacheBudget["mode"],
+      );
+    });
+  }
+
+  const cacheBudgetMbEl = document.getElementById("cacheBudgetMb");
+  if (cacheBudgetMbEl) {
+    cacheBudgetMbEl.addEventListener("input", (e) => {
+      const value = (e.target as HTMLInputElement).value;
+      const displayEl = document.getElementById("cacheBudgetMbDisplay");
+      if (displayEl) {
+        displayEl.textContent = `${value} MB`;
+      }
+    });
+  }
+
+  const cacheBudgetImagesEl = document.getElementById("cacheBudgetImages");
+  if (cacheBudgetImagesEl) {
+    cacheBudgetImagesEl.addEventListener("input", (e) => {
+      const value = (e.target as HTMLInputElement).value;
+      const displayEl = document.getElementById("cacheBudgetImagesDisplay");
+      if (displayEl) {
+        displayEl.textContent = `${value} images`;
+      }
+    });
+  }
+
+  const maxDownloadConcurrencyEl = document.getElementById(
+    "maxDownloadConcurrency",
+  );
+  if (maxDownloadConcurrencyEl) {
+    maxDownloadConcurrencyEl.addEventListener("input", (e) => {
+      const value = (e.target as HTMLInputElement).value;
+      const displayEl = document.getElementById(
+        "maxDownloadConcurrencyDisplay",
+      );
+      if (displayEl) {
+        displayEl.textContent = value;
+      }
+    });
+  }
+
+  const transcodeQualityEl = document.getElementById("transcodeQuality");
+  if (transcodeQualityEl) {
+    transcodeQualityEl.addEventListener("input", (e) => {
+      const value = (e.target as HTMLInputElement).value;
+      const displayEl = document.getElementById("transcodeQualityDisplay");
+      if (displayEl) {
+        displayEl.textContent = `${value}%`;
+      }
+    });
+  }
+
   // History max size display update with validation
   const historyMaxSizeEl = document.getElementById("historyMaxSize");
   if (historyMaxSizeEl) {
@@ -648,8 +1223,13 @@ async function setupEventListeners(): Promise<void> {
 
       if (!sourceEl || !keyInputEl) return;
 
-      const source = sourceEl.value as "unsplash" | "pexels";
       const key = keyInputEl.value.trim();
+      const provider = getProvider(sourceEl.value);
+      if (!provider) {
+        showMessage("Please select an image source", "error");
+        return;
+      }
+      const source = provider.id;
 
       // Enhanced validation
       if (!key) {
@@ -658,7 +1238,7 @@ async function setupEventListeners(): Promise<void> {
         return;
       }
 
-      if (!isApiKeyValidFormat(key)) {
+      if (!provider.isKeyFormatValid(key)) {
         showMessage(
           "API key appears invalid. Please ensure it is correct and contains only letters, numbers, underscores or dashes.",
           "error",
@@ -670,26 +1250,22 @@ async function setupEventListeners(): Promise<void> {
       try {
         const currentSettings = await getSettings();
 
-        if (currentSettings.apiKeys[source].includes(key)) {
+        const existingKeys = currentSettings.apiKeys[source] ?? [];
+        if (existingKeys.includes(key)) {
           showMessage("This API key is already added", "error");
           keyInputEl.focus();
           return;
         }
 
         // Check if this is the first API key being added
-        const wasEmpty =
-          currentSettings.apiKeys.unsplash.length === 0 &&
-          currentSettings.apiKeys.pexels.length === 0;
+        const wasEmpty = getAllApiKeys(currentSettings).length === 0;
 
-        currentSettings.apiKeys[source].push(key);
+        currentSettings.apiKeys[source] = [...existingKeys, key];
         await saveSettings(currentSettings);
 
         keyInputEl.value = "";
         renderApiKeys(currentSettings);
-        showMessage(
-          `${source.charAt(0).toUpperCase() + source.slice(1)} API key added successfully`,
-          "success",
-        );
+        showMessage(`${provider.displayName} API key added successfully`, "success");
 
         // If this was the first API key, trigger immediate fetch
         if (wasEmpty) {
@@ -738,6 +1314,14 @@ async function setupEventListeners(): Promise<void> {
     saveSettingsBtn.addEventListener("click", async () => {
       const originalText = saveSettingsBtn.textContent;
 
+      // Request feed host access before any await so the click still counts
+      // as a user gesture
+      const customFeed = readCustomFeedForm();
+      const feedPermission =
+        customFeed.enabled && customFeed.url
+          ? requestFeedPermission(customFeed.url)
+          : Promise.resolve(true);
+
       try {
         // Show loading indicator and disable button during save
         showHeaderLoading(true);
@@ -772,10 +1356,23 @@ async function setupEventListeners(): Promise<void> {
           return;
         }
 
+        const keywordsPerRefreshInput = parseInt(
+          (document.getElementById("keywordsPerRefresh") as HTMLInputElement)
+            ?.value || `${DEFAULT_KEYWORDS_PER_REFRESH}`,
+        );
+        const keywordsPerRefresh = isNaN(keywordsPerRefreshInput)
+          ? DEFAULT_KEYWORDS_PER_REFRESH
+          : Math.min(
+              MAX_KEYWORDS_PER_REFRESH,
+              Math.max(1, keywordsPerRefreshInput),
+            );
+
         currentSettings.searchPreferences = {
           unsplashKeywords,
           pexelsKeywords,
+          keywordsPerRefresh,
         };
+        currentSettings.collections = readCollectionInputs();
 
         // Validate and save auto refresh settings
         const autoRefreshEnabled =
@@ -874,6 +1471,19 @@ async function setupEventListeners(): Promise<void> {
         };
 
         // Save cache settings
+        const budgetMode =
+          (document.getElementById("cacheBudgetMode") as HTMLSelectElement)
+            ?.value === "count"
+            ? "count"
+            : "size";
+        const budgetMbInput = parseInt(
+          (document.getElementById("cacheBudgetMb") as HTMLInputElement)
+            ?.value || `${DEFAULT_CACHE_BUDGET.maxMb}`,
+        );
+        const budgetImagesInput = parseInt(
+          (document.getElementById("cacheBudgetImages") as HTMLInputElement)
+            ?.value || `${DEFAULT_CACHE_BUDGET.maxImages}`,
+        );
         currentSettings.cache = {
           permanentMode:
             (
@@ -881,6 +1491,123 @@ async function setupEventListeners(): Promise<void> {
                 "permanentCacheEnabled",
               ) as HTMLInputElement
             )?.checked ?? false,
+          budget: {
+            mode: budgetMode,
+            maxMb: isNaN(budgetMbInput)
+              ? DEFAULT_CACHE_BUDGET.maxMb
+              : Math.min(
+                  MAX_CACHE_BUDGET_MB,
+                  Math.max(MIN_CACHE_BUDGET_MB, budgetMbInput),
+                ),
+            maxImages: isNaN(budgetImagesInput)
+              ? DEFAULT_CACHE_BUDGET.maxImages
+              : Math.min(
+                  MAX_CACHE_BUDGET_IMAGES,
+                  Math.max(MIN_CACHE_BUDGET_IMAGES, budgetImagesInput),
+                ),
+          },
+        };
+
+        // Validate and save custom feed settings
+        if (customFeed.enabled) {
+          if (!/^https?:\/\/\S+$/.test(customFeed.url)) {
+            showMessage("Custom feed URL must start with http(s)://", "error");
+            return;
+          }
+          if (!(await feedPermission)) {
+            showMessage(
+              "Access to the custom feed's site was not granted",
+              "error",
+            );
+            return;
+          }
+        }
+        currentSettings.customFeed = customFeed;
+
+        // Save picture-of-the-day settings
+        const dailyProviders: DailyProviderId[] = getDailyProviders()
+          .filter(
+            (provider) =>
+              (
+                document.getElementById(
+                  `daily-${provider.id}`,
+                ) as HTMLInputElement | null
+              )?.checked,
+          )
+          .map((provider) => provider.id);
+        const backfillInput = parseInt(
+          (document.getElementById("dailyBackfillDays") as HTMLInputElement)
+            ?.value || `${DEFAULT_DAILY_BACKFILL_DAYS}`,
+        );
+        const backfillDays = isNaN(backfillInput)
+          ? DEFAULT_DAILY_BACKFILL_DAYS
+          : Math.min(MAX_DAILY_BACKFILL_DAYS, Math.max(1, backfillInput));
+        const nasaApiKey =
+          (
+            document.getElementById("nasaApiKey") as HTMLInputElement
+          )?.value.trim() ?? "";
+
+        currentSettings.dailyImages = {
+          providers: dailyProviders,
+          backfillDays,
+          ...(nasaApiKey ? { nasaApiKey } : {}),
+        };
+
+        const retryMaxAgeInput = parseInt(
+          (document.getElementById("retryQueueMaxAge") as HTMLInputElement)
+            ?.value || `${DEFAULT_RETRY_QUEUE_MAX_AGE_HOURS}`,
+        );
+        currentSettings.retryQueue = {
+          maxAgeHours: isNaN(retryMaxAgeInput)
+            ? DEFAULT_RETRY_QUEUE_MAX_AGE_HOURS
+            : Math.min(
+                MAX_RETRY_QUEUE_MAX_AGE_HOURS,
+                Math.max(1, retryMaxAgeInput),
+              ),
+        };
+
+        const maxConcurrencyInput = parseInt(
+          (
+            document.getElementById(
+              "maxDownloadConcurrency",
+            ) as HTMLInputElement
+          )?.value || `${DEFAULT_MAX_DOWNLOAD_CONCURRENCY}`,
+        );
+        const imageQuality = (
+          document.getElementById("imageQuality") as HTMLSelectElement
+        )?.value;
+        currentSettings.downloads = {
+          maxConcurrency: isNaN(maxConcurrencyInput)
+            ? DEFAULT_MAX_DOWNLOAD_CONCURRENCY
+            : Math.min(
+                MAX_DOWNLOAD_CONCURRENCY,
+                Math.max(1, maxConcurrencyInput),
+              ),
+          imageQuality:
+            imageQuality === "saver" || imageQuality === "high"
+              ? imageQuality
+              : "balanced",
+        };
+
+        const transcodeQualityInput = parseInt(
+          (document.getElementById("transcodeQuality") as HTMLInputElement)
+            ?.value || `${DEFAULT_TRANSCODE_SETTINGS.quality}`,
+        );
+        currentSettings.transcode = {
+          enabled:
+            (document.getElementById("transcodeEnabled") as HTMLInputElement)
+              ?.checked ?? false,
+          format:
+            (document.getElementById("transcodeFormat") as HTMLSelectElement)
+              ?.value === "avif"
+              ? "avif"
+              : "webp",
+          quality: isNaN(transcodeQualityInput)
+            ? DEFAULT_TRANSCODE_SETTINGS.quality
+            : Math.min(
+                MAX_TRANSCODE_QUALITY,
+                Math.max(MIN_TRANSCODE_QUALITY, transcodeQualityInput),
+              ),
         };
 
         // Save transition settings
@@ -937,6 +1664,22 @@ async function setupEventListeners(): Promise<void> {
 
         showMessage("Settings saved successfully!", "success");
 
+        // Feed images are often hosted elsewhere; warn if they can't be reached
+        if (customFeed.enabled) {
+          fetchCustomFeed(customFeed)
+            .then(checkFeedImageAccess)
+            .then((hosts) => {
+              if (hosts.length === 0) return;
+              showMessage(
+                `Custom feed images on ${hosts.join(", ")} can't be downloaded yet; use "Allow Image Hosts" to grant access`,
+                "error",
+              );
+            })
+            .catch((error) => {
+              options_logger.warn("Failed to check feed image access:", error);
+            });
+        }
+
         // Notify background script to reload settings (including log level)
         chrome.runtime.sendMessage(
           { action: "settingsUpdated", logLevel: selectedLogLevel },
@@ -1020,7 +1763,8 @@ async function setupEventListeners(): Promise<void> {
     clearCacheBtn.addEventListener("click", async () => {
       const confirmed = confirm(
         "Are you sure you want to clear the entire cache?\n\n" +
-          "This will delete all stored images and force the extension to re-download them.\n" +
+          "This will delete all downloaded images and force the extension to re-download them.\n" +
+          "Images in your local library are kept.\n" +
           "This action cannot be undone.",
       );
 
@@ -1032,7 +1776,7 @@ async function setupEventListeners(): Promise<void> {
         clearCacheBtn.textContent = "Clearing...";
         (clearCacheBtn as HTMLButtonElement).disabled = true;
 
-        await clearAllImages();
+        await clearAllImages({ keepLocal: true });
         await clearHistory(); // Also clear history to avoid broken links
         await loadCacheStats();
         await loadHistoryStats();
@@ -1051,6 +1795,157 @@ async function setupEventListeners(): Promise<void> {
     });
   }
 
+  // Local library
+  const localFilesInput = document.getElementById(
+    "localFilesInput",
+  ) as HTMLInputElement | null;
+  const localFolderInput = document.getElementById(
+    "localFolderInput",
+  ) as HTMLInputElement | null;
+
+  document.getElementById("addLocalFilesBtn")?.addEventListener("click", () => {
+    localFilesInput?.click();
+  });
+  document
+    .getElementById("addLocalFolderBtn")
+    ?.addEventListener("click", () => {
+      localFolderInput?.click();
+    });
+
+  for (const input of [localFilesInput, localFolderInput]) {
+    input?.addEventListener("change", async () => {
+      if (!input.files || input.files.length === 0) return;
+
+      try {
+        showHeaderLoading(true);
+        const result = await importLocalImages(input.files);
+        await loadCacheStats();
+
+        const details = [
+          result.duplicates > 0 ? `${result.duplicates} already cached` : "",
+          result.rejected > 0 ? `${result.rejected} unsupported` : "",
+          result.skipped > 0 ? `${result.skipped} out of space` : "",
+        ]
+          .filter(Boolean)
+          .join(", ");
+        showMessage(
+          `Added ${result.imported} image(s) to your library${details ? ` (${details})` : ""}`,
+          result.imported > 0 ? "success" : "info",
+        );
+      } catch (error) {
+        options_logger.error("Failed to import local images:", error);
+        showMessage("Failed to import images. Please try again.", "error");
+      } finally {
+        showHeaderLoading(false);
+        input.value = "";
+      }
+    });
+  }
+
+  const clearLocalLibraryBtn = document.getElementById("clearLocalLibraryBtn");
+  if (clearLocalLibraryBtn) {
+    clearLocalLibraryBtn.addEventListener("click", async () => {
+      const confirmed = confirm(
+        "Remove all images from your local library?\n\n" +
+          "The original files on your disk are not affected.",
+      );
+
+      if (!confirmed) return;
+
+      try {
+        (clearLocalLibraryBtn as HTMLButtonElement).disabled = true;
+        const removed = await clearLocalImages();
+        await loadCacheStats();
+        showMessage(`Removed ${removed} local image(s)`, "success");
+      } catch (error) {
+        options_logger.error("Failed to clear local library:", error);
+        showMessage("Failed to clear local library. Please try again.", "error");
+      } finally {
+        (clearLocalLibraryBtn as HTMLButtonElement).disabled = false;
+      }
+    });
+  }
+
+  const testCustomFeedBtn = document.getElementById("testCustomFeedBtn");
+  if (testCustomFeedBtn) {
+    testCustomFeedBtn.addEventListener("click", async () => {
+      const feed = readCustomFeedForm();
+      const resultEl = document.getElementById("customFeedTestResult");
+
+      if (!/^https?:\/\/\S+$/.test(feed.url)) {
+        showMessage("Enter a feed URL starting with http(s)://", "error");
+        return;
+      }
+
+      const permission = requestFeedPermission(feed.url);
+      const originalText = testCustomFeedBtn.textContent;
+
+      try {
+        testCustomFeedBtn.textContent = "Testing...";
+        (testCustomFeedBtn as HTMLButtonElement).disabled = true;
+
+        if (!(await permission)) {
+          showMessage("Access to the feed's site was not granted", "error");
+          return;
+        }
+
+        const photos = await fetchCustomFeed(feed);
+        const blockedHosts = await checkFeedImageAccess(photos);
+        if (resultEl) {
+          resultEl.textContent =
+            photos.length > 0
+              ? `Found ${photos.length} image(s), e.g. ${photos[0]!.url}`
+              : "Feed loaded, but no images matched the mapping";
+          if (blockedHosts.length > 0) {
+            resultEl.textContent += `. No access yet to ${blockedHosts.join(", ")}`;
+          }
+        }
+        if (blockedHosts.length > 0) {
+          showMessage(
+            "Allow access to the image hosts so the feed's images can be downloaded",
+            "info",
+          );
+        } else {
+          showMessage(
+            `Custom feed returned ${photos.length} image(s)`,
+            photos.length > 0 ? "success" : "info",
+          );
+        }
+      } catch (error) {
+        options_logger.error("Custom feed test failed:", error);
+        if (resultEl) resultEl.textContent = `Failed: ${error}`;
+        showMessage("Custom feed test failed", "error");
+      } finally {
+        testCustomFeedBtn.textContent = originalText;
+        (testCustomFeedBtn as HTMLButtonElement).disabled = false;
+      }
+    });
+  }
+
+  const grantFeedImageAccessBtn = document.getElementById(
+    "grantFeedImageAccessBtn",
+  );
+  if (grantFeedImageAccessBtn) {
+    grantFeedImageAccessBtn.addEventListener("click", async () => {
+      try {
+        // Straight from the click, so it counts as a user gesture
+        const granted = await chrome.permissions.request({
+          origins: missingFeedImageOrigins,
+        });
+        if (!granted) {
+          showMessage("Access to the image hosts was not granted", "error");
+          return;
+        }
+        missingFeedImageOrigins = [];
+        grantFeedImageAccessBtn.style.display = "none";
+        showMessage("The feed's images can now be downloaded", "success");
+      } catch (error) {
+        options_logger.error("Image host permission request failed:", error);
+        showMessage("Failed to request access to the image hosts", "error");
+      }
+    });
+  }
+
   const clearHistoryBtn = document.getElementById("clearHistoryBtn");
   if (clearHistoryBtn) {
     clearHistoryBtn.addEventListener("click", async () => {
@@ -1107,6 +2002,71 @@ async function setupEventListeners(): Promise<void> {
     });
   }
 
+  // Cache integrity scan button
+  const scanCacheBtn = document.getElementById("scanCacheBtn");
+  if (scanCacheBtn) {
+    scanCacheBtn.addEventListener("click", async () => {
+      const originalText = scanCacheBtn.textContent;
+
+      try {
+        scanCacheBtn.textContent = "Scanning...";
+        (scanCacheBtn as HTMLButtonElement).disabled = true;
+
+        // The scan runs in the service worker so it survives this page closing
+        const response = await chrome.runtime.sendMessage({
+          action: "scanCacheIntegrity",
+        });
+        if (!response?.success) {
+          throw new Error(response?.error || "No response from background");
+        }
+
+        await loadCacheStats();
+        const report = response.report as CacheScanReport;
+        const repaired =
+          report.corruptDeleted + report.corruptFlagged + report.hashMismatches;
+        showMessage(
+          describeCacheScan(report),
+          repaired > 0 ? "info" : "success",
+        );
+      } catch (error) {
+        options_logger.error("Failed to scan cache:", error);
+        showMessage("Failed to scan the cache. Please try again.", "error");
+      } finally {
+        scanCacheBtn.textContent = originalText;
+        (scanCacheBtn as HTMLButtonElement).disabled = false;
+      }
+    });
+  }
+
+  // Near-duplicate review button
+  const findNearDuplicatesBtn = document.getElementById(
+    "findNearDuplicatesBtn",
+  );
+  if (findNearDuplicatesBtn) {
+    findNearDuplicatesBtn.addEventListener("click", async () => {
+      const originalText = findNearDuplicatesBtn.textContent;
+
+      try {
+        findNearDuplicatesBtn.textContent = "Comparing...";
+        (findNearDuplicatesBtn as HTMLButtonElement).disabled = true;
+
+        const groups = await findNearDuplicates();
+        showMessage(
+          groups > 0
+            ? `Found ${groups} group(s) of similar images. Delete the copies you don't want.`
+            : "No near-duplicate images found",
+          groups > 0 ? "info" : "success",
+        );
+      } catch (error) {
+        options_logger.error("Failed to find near-duplicates:", error);
+        showMessage("Failed to compare images. Please try again.", "error");
+      } finally {
+        findNearDuplicatesBtn.textContent = originalText;
+        (findNearDuplicatesBtn as HTMLButtonElement).disabled = false;
+      }
+    });
+  }
+
   // Force Refresh Cache button
   const forceRefreshCacheBtn = document.getElementById("forceRefreshCacheBtn");
   if (forceRefreshCacheBtn) {
@@ -1233,10 +2193,18 @@ async function setupEventListeners(): Promise<void> {
               showHeaderLoading(false);
             } else if (response?.success) {
               options_logger.info("Force refresh successful!");
-              showMessage(
-                "Cache refreshed successfully! New images will be available shortly.",
-                "success",
-              );
+              const report = response.report as RefreshReport | null;
+              if (report && report.skipped > 0) {
+                showMessage(
+                  `Stored ${report.stored} new image(s); ${report.skipped} skipped for lack of storage space. Try lowering the cache budget.`,
+                  "info",
+                );
+              } else {
+                showMessage(
+                  "Cache refreshed successfully! New images will be available shortly.",
+                  "success",
+                );
+              }
 
               // Set 1-minute cooldown
               const cooldownEnd = Date.now() + 60000; // 60 seconds
@@ -1443,7 +2411,22 @@ async function init(): Promise<void> {
       });
     }
 
+    // Offer every registered provider in the "Add New API Key" form
+    const apiSourceEl = document.getElementById(
+      "apiSource",
+    ) as HTMLSelectElement;
+    if (apiSourceEl) {
+      apiSourceEl.innerHTML = "";
+      getProviders().forEach((provider) => {
+        const option = document.createElement("option");
+        option.value = provider.id;
+        option.textContent = provider.displayName;
+        apiSourceEl.appendChild(option);
+      });
+    }
+
     // Render API keys with enhanced status tracking
+    keyQuotas = await getKeyQuotas();
     renderApiKeys(settings);
 
     // Load search preferences with validation
@@ -1474,6 +2457,23 @@ async function init(): Promise<void> {
       }
     }
 
+    const keywordsPerRefresh =
+      settings.searchPreferences.keywordsPerRefresh ??
+      DEFAULT_KEYWORDS_PER_REFRESH;
+    const keywordsPerRefreshEl = document.getElementById(
+      "keywordsPerRefresh",
+    ) as HTMLInputElement | null;
+    if (keywordsPerRefreshEl) {
+      keywordsPerRefreshEl.value = keywordsPerRefresh.toString();
+    }
+    const keywordsPerRefreshDisplayEl = document.getElementById(
+      "keywordsPerRefreshDisplay",
+    );
+    if (keywordsPerRefreshDisplayEl) {
+      keywordsPerRefreshDisplayEl.textContent =
+        formatKeywordsPerRefresh(keywordsPerRefresh);
+    }
+
     // Load auto refresh settings with validation
     const autoRefreshEnabledEl = document.getElementById(
       "autoRefreshEnabled",
@@ -1579,6 +2579,115 @@ async function init(): Promise<void> {
       permanentCacheEnabledEl.checked = settings.cache?.permanentMode ?? false;
     }
 
+    const cacheBudget = settings.cache?.budget ?? DEFAULT_CACHE_BUDGET;
+    const cacheBudgetModeEl = document.getElementById(
+      "cacheBudgetMode",
+    ) as HTMLSelectElement | null;
+    if (cacheBudgetModeEl) {
+      cacheBudgetModeEl.value = cacheBudget.mode;
+    }
+    showCacheBudgetLimit(cacheBudget.mode);
+    const cacheBudgetMbEl = document.getElementById(
+      "cacheBudgetMb",
+    ) as HTMLInputElement | null;
+    if (cacheBudgetMbEl) {
+      cacheBudgetMbEl.value = cacheBudget.maxMb.toString();
+    }
+    const cacheBudgetMbDisplayEl = document.getElementById(
+      "cacheBudgetMbDisplay",
+    );
+    if (cacheBudgetMbDisplayEl) {
+      cacheBudgetMbDisplayEl.textContent = `${cacheBudget.maxMb} MB`;
+    }
+    const cacheBudgetImagesEl = document.getElementById(
+      "cacheBudgetImages",
+    ) as HTMLInputElement | null;
+    if (cacheBudgetImagesEl) {
+      cacheBudgetImagesEl.value = cacheBudget.maxImages.toString();
+    }
+    const cacheBudgetImagesDisplayEl = document.getElementById(
+      "cacheBudgetImagesDisplay",
+    );
+    if (cacheBudgetImagesDisplayEl) {
+      cacheBudgetImagesDisplayEl.textContent = `${cacheBudget.maxImages} images`;
+    }
+
+    const retryQueueMaxAge =
+      settings.retryQueue?.maxAgeHours ?? DEFAULT_RETRY_QUEUE_MAX_AGE_HOURS;
+    const retryQueueMaxAgeEl = document.getElementById(
+      "retryQueueMaxAge",
+    ) as HTMLInputElement | null;
+    if (retryQueueMaxAgeEl) {
+      retryQueueMaxAgeEl.value = retryQueueMaxAge.toString();
+    }
+    const retryQueueMaxAgeDisplayEl = document.getElementById(
+      "retryQueueMaxAgeDisplay",
+    );
+    if (retryQueueMaxAgeDisplayEl) {
+      retryQueueMaxAgeDisplayEl.textContent = `${retryQueueMaxAge} hours`;
+    }
+
+    const maxDownloadConcurrency =
+      settings.downloads?.maxConcurrency ?? DEFAULT_MAX_DOWNLOAD_CONCURRENCY;
+    const maxDownloadConcurrencyEl = document.getElementById(
+      "maxDownloadConcurrency",
+    ) as HTMLInputElement | null;
+    if (maxDownloadConcurrencyEl) {
+      maxDownloadConcurrencyEl.value = maxDownloadConcurrency.toString();
+    }
+    const maxDownloadConcurrencyDisplayEl = document.getElementById(
+      "maxDownloadConcurrencyDisplay",
+    );
+    if (maxDownloadConcurrencyDisplayEl) {
+      maxDownloadConcurrencyDisplayEl.textContent =
+        maxDownloadConcurrency.toString();
+    }
+
+    const imageQualityEl = document.getElementById(
+      "imageQuality",
+    ) as HTMLSelectElement | null;
+    if (imageQualityEl) {
+      imageQualityEl.value =
+        settings.downloads?.imageQuality ?? DEFAULT_IMAGE_QUALITY_TIER;
+    }
+    const displaySizeEl = document.getElementById("displaySize");
+    if (displaySizeEl) {
+      displaySizeEl.textContent = describeDisplaySize(await getDisplaySize());
+    }
+
+    const transcode = settings.transcode ?? DEFAULT_TRANSCODE_SETTINGS;
+    const transcodeEnabledEl = document.getElementById(
+      "transcodeEnabled",
+    ) as HTMLInputElement | null;
+    if (transcodeEnabledEl) {
+      transcodeEnabledEl.checked = transcode.enabled;
+    }
+    const transcodeFormatEl = document.getElementById(
+      "transcodeFormat",
+    ) as HTMLSelectElement | null;
+    if (transcodeFormatEl) {
+      transcodeFormatEl.value = transcode.format;
+    }
+    const transcodeQualityEl = document.getElementById(
+      "transcodeQuality",
+    ) as HTMLInputElement | null;
+    if (transcodeQualityEl) {
+      transcodeQualityEl.value = transcode.quality.toString();
+    }
+    const transcodeQualityDisplayEl = document.getElementById(
+      "transcodeQualityDisplay",
+    );
+    if (transcodeQualityDisplayEl) {
+      transcodeQualityDisplayEl.textContent = `${transcode.quality}%`;
+    }
+
+    // Load custom feed settings
+    loadCustomFeedForm(settings.customFeed);
+
+    // Load picture-of-the-day settings
+    renderDailyProviders(settings);
+    renderCollectionInputs(settings);
+
     // Load and render transition settings
     renderTransitionsList(settings);
 
@@ -5,7 +5,25 @@
  * a Node-like environment and used to drive rendering code in the UI.
  */
 
-import { Settings } from "./config";
+import {
+  CacheUsage,
+  CacheUsageBucket,
+  COLLECTION_KIND_LABELS,
+  CollectionKind,
+  DEFAULT_DISPLAY_SIZE,
+  DisplaySize,
+  FirstPaintTimings,
+  ImageData,
+  ImageMetadata,
+  KeyQuota,
+  ProviderId,
+  Settings,
+} from "./config";
+import { getProvider, getProviders } from "./providers";
+import { getHeadroom } from "./keyPool";
+import { formatRelativeTime } from "./utils";
+import { getSourceDisplayName } from "./newTabLogic";
+import type { CacheScanReport } from "./backgroundLogic";
 
 /**
  * Returns a masked version of an API key for display.
@@ -45,22 +63,18 @@ export function isApiKeyValidFormat(
 }
 
 /**
- * Returns the effective list of API keys (unsplash + pexels) with their source.
+ * Returns the effective list of API keys across all providers with their source.
  */
 export function getAllApiKeys(settings: Settings): Array<{
-  source: "unsplash" | "pexels";
+  source: ProviderId;
   key: string;
 }> {
-  return [
-    ...((settings.apiKeys?.unsplash ?? []).map((key) => ({
-      source: "unsplash" as const,
-      key,
-    })) ?? []),
-    ...((settings.apiKeys?.pexels ?? []).map((key) => ({
-      source: "pexels" as const,
+  return getProviders().flatMap((provider) =>
+    (settings.apiKeys?.[provider.id] ?? []).map((key) => ({
+      source: provider.id,
       key,
-    })) ?? []),
-  ];
+    })),
+  );
 }
 
 /**
@@ -68,7 +82,7 @@ export function getAllApiKeys(settings: Settings): Array<{
  */
 export function getApiKeyStatus(
   settings: Settings,
-  source: "unsplash" | "pexels",
+  source: ProviderId,
   key: string,
 ): {
   tested: boolean;
@@ -123,3 +137,209 @@ export function getApiKeyStatusDisplay(
     title: dateLabel,
   };
 }
+
+/**
+ * Describes an API key's remaining rate limit for display next to the key.
+ * @returns Label, CSS class and tooltip, or null if the quota is unknown
+ */
+export function getKeyQuotaDisplay(
+  quota: KeyQuota | undefined,
+  now: number,
+): { text: string; cssClass: string; title: string } | null {
+  if (!quota) return null;
+
+  if (quota.cooldownUntil && quota.cooldownUntil > now) {
+    return {
+      text: "Cooling down",
+      cssClass: "exhausted",
+      title: `Rate limited, usable again ${formatRelativeTime(quota.cooldownUntil)}`,
+    };
+  }
+
+  const headroom = getHeadroom(quota, now);
+  if (headroom === Infinity) return null;
+
+  const resetTitle =
+    quota.resetAt && quota.resetAt > now
+      ? `Resets ${formatRelativeTime(quota.resetAt)}`
+      : "Quota window has reset";
+
+  if (headroom === 0) {
+    return { text: "Exhausted", cssClass: "exhausted", title: resetTitle };
+  }
+
+  const isLow = quota.limit !== undefined && headroom < quota.limit * 0.1;
+  return {
+    text: `${headroom}${quota.limit !== undefined ? `/${quota.limit}` : ""} left`,
+    cssClass: isLow ? "low" : "ok",
+    title: resetTitle,
+  };
+}
+
+/**
+ * Parses a comma or whitespace separated list of collection IDs or topic
+ * slugs. Entries with characters the APIs never use are dropped.
+ */
+export function parseCollectionIds(input: string): string[] {
+  const ids = input
+    .split(/[\s,]+/)
+    .map((id) => id.trim())
+    .filter((id) => /^[\w-]+$/.test(id));
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Counts cached images per provider collection/topic.
+ * @returns One row per collection with a display label, largest first
+ */
+export function getCollectionBreakdown(
+  images: Pick<ImageData, "source" | "collection">[],
+): Array<{ label: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const image of images) {
+    if (!image.collection) continue;
+    const key = `${image.source}|${image.collection}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([key, count]) => {
+    const [source = "", collection = ""] = key.split("|");
+    const separator = collection.indexOf(":");
+    const kind = collection.slice(0, separator) as CollectionKind;
+    const id = collection.slice(separator + 1);
+    const providerName = getProvider(source)?.displayName ?? source;
+    const kindLabel = COLLECTION_KIND_LABELS[kind] ?? kind;
+    return { label: `${providerName} ${kindLabel.toLowerCase()} ${id}`, count };
+  }).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/**
+ * Formats a byte count for display, e.g. "1.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/**
+ * Turns a cache usage breakdown into display rows.
+ * @param buckets - Usage per source or per keyword
+ * @param kind - Which of the two the buckets are keyed by
+ * @returns One row per bucket, largest first
+ */
+export function getCacheUsageRows(
+  buckets: Record<string, CacheUsageBucket>,
+  kind: "source" | "keyword",
+): Array<{ label: string; count: number; size: string }> {
+  return Object.entries(buckets)
+    .sort(([a, x], [b, y]) => y.bytes - x.bytes || a.localeCompare(b))
+    .map(([key, { count, bytes }]) => ({
+      label:
+        kind === "source"
+          ? getSourceDisplayName(key as ImageData["source"])
+          : key === "none"
+            ? "No keyword"
+            : key,
+      count,
+      size: formatBytes(bytes),
+    }));
+}
+
+/**
+ * Describes the screen downloads are sized for, e.g.
+ * "Sized for 2560×1440 at 2× (reported 3 hours ago)"
+ */
+export function describeDisplaySize(display: DisplaySize | undefined): string {
+  if (!display) {
+    const { width, height } = DEFAULT_DISPLAY_SIZE;
+    return `Sized for ${width}×${height} until a new tab reports your screen`;
+  }
+  const { width, height, devicePixelRatio, reportedAt } = display;
+  return `Sized for ${width}×${height} at ${devicePixelRatio}× (reported ${formatRelativeTime(reportedAt).toLowerCase()})`;
+}
+
+/**
+ * Describes how much transcoding has shrunk the cache, e.g.
+ * "Transcoding saved 1.2 GB (75% smaller)"
+ * @returns An empty string when no stored image was transcoded
+ */
+export function describeTranscodeSavings(
+  usage: Pick<CacheUsage, "total" | "savedBytes">,
+): string {
+  if (usage.savedBytes <= 0) return "";
+  const percent = Math.round(
+    (usage.savedBytes / (usage.total.bytes + usage.savedBytes)) * 100,
+  );
+  return `Transcoding saved ${formatBytes(usage.savedBytes)} (${percent}% smaller)`;
+}
+
+/**
+ * Describes how quickly recent new tabs showed their wallpaper, e.g.
+ * "Wallpaper shown in 40 ms from a snapshot, 420 ms without a snapshot
+ * (median of recent new tabs)"
+ * @returns An empty string until a new tab has recorded a timing
+ */
+export function describeFirstPaint(timings: FirstPaintTimings): string {
+  const median = (samples: number[]): number => {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? sorted[middle]!
+      : Math.round((sorted[middle - 1]! + sorted[middle]!) / 2);
+  };
+
+  const parts: string[] = [];
+  if (timings.snapshot?.length) {
+    parts.push(`${median(timings.snapshot)} ms from a snapshot`);
+  }
+  if (timings.full?.length) {
+    parts.push(`${median(timings.full)} ms without a snapshot`);
+  }
+  if (parts.length === 0) return "";
+  return `Wallpaper shown in ${parts.join(", ")} (median of recent new tabs)`;
+}
+
+/**
+ * Summarises a cache integrity scan for the options page
+ */
+export function describeCacheScan(report: CacheScanReport): string {
+  const fixes = [
+    report.rehashed > 0 ? `${report.rehashed} hashed` : "",
+    report.hashMismatches > 0
+      ? `${report.hashMismatches} hash(es) corrected`
+      : "",
+    report.fingerprinted > 0 ? `${report.fingerprinted} fingerprinted` : "",
+    report.corruptDeleted > 0
+      ? `${report.corruptDeleted} corrupt image(s) deleted`
+      : "",
+    report.corruptFlagged > 0
+      ? `${report.corruptFlagged} protected image(s) unreadable`
+      : "",
+  ].filter(Boolean);
+
+  return fixes.length > 0
+    ? `Checked ${report.scanned} image(s): ${fixes.join(", ")}.`
+    : `Checked ${report.scanned} image(s); everything is intact.`;
+}
+
+/**
+ * Caption under a near-duplicate thumbnail, e.g. "Unsplash · Jane Doe · 2.1 MB"
+ */
+export function getNearDuplicateCaption(
+  image: Pick<ImageMetadata, "source" | "author" | "size">,
+): string {
+  return [
+    getSourceDisplayName(image.source),
+    image.author,
+    image.size !== undefined ? formatBytes(image.size) : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
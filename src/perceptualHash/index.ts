@@ -0,0 +1,190 @@
+/**
+ * Perceptual hashing for the random wallpaper browser extension.
+ * Fingerprints images with a dHash so near-duplicates can be found.
+ */
+
+import { PERCEPTUAL_HASH_MAX_DISTANCE } from "../config";
+
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+/**
+ * An image whose perceptual hash is known
+ */
+export interface FingerprintedImage {
+  id: string;
+  perceptualHash: string;
+}
+
+/**
+ * Converts RGBA pixels to luminance (ITU-R BT.601 weights)
+ * @param rgba - Pixel data as returned by `getImageData`
+ */
+export function toLuminance(rgba: ArrayLike<number>): number[] {
+  const luminance: number[] = [];
+  for (let i = 0; i + 3 < rgba.length; i += 4) {
+    luminance.push(
+      0.299 * rgba[i]! + 0.587 * rgba[i + 1]! + 0.114 * rgba[i + 2]!,
+    );
+  }
+  return luminance;
+}
+
+/**
+ * Computes a 64-bit dHash from 9×8 luminance values, row by row
+ * @returns The hash as 16 lowercase hex digits
+ */
+export function computeDHash(luminance: ArrayLike<number>): string {
+  if (luminance.length !== DHASH_WIDTH * DHASH_HEIGHT) {
+    throw new Error(
+      `dHash needs ${DHASH_WIDTH * DHASH_HEIGHT} pixels, got ${luminance.length}`,
+    );
+  }
+
+  let hash = "";
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = luminance[y * DHASH_WIDTH + x]!;
+      const right = luminance[y * DHASH_WIDTH + x + 1]!;
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (++bits === 4) {
+        hash += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Splits a 64-bit hex hash into two 32-bit halves for fast comparison
+ */
+function toWords(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+}
+
+function popCount(word: number): number {
+  let v = word - ((word >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function wordDistance(a: [number, number], b: [number, number]): number {
+  return popCount((a[0] ^ b[0]) >>> 0) + popCount((a[1] ^ b[1]) >>> 0);
+}
+
+/**
+ * Number of bits that differ between two perceptual hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  return wordDistance(toWords(a), toWords(b));
+}
+
+/**
+ * Finds an image that looks like the given hash
+ * @param hash - Perceptual hash of the incoming image
+ * @param candidates - Images to compare against
+ * @param maxDistance - Largest Hamming distance still counted as a match
+ * @returns The first match, or undefined if none is close enough
+ */
+export function findNearDuplicate(
+  hash: string,
+  candidates: Iterable<FingerprintedImage>,
+  maxDistance: number = PERCEPTUAL_HASH_MAX_DISTANCE,
+): FingerprintedImage | undefined {
+  const words = toWords(hash);
+  for (const candidate of candidates) {
+    if (wordDistance(words, toWords(candidate.perceptualHash)) <= maxDistance) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Groups images that look alike
+ * Matches are transitive: if A is close to B and B to C, all three share a
+ * group even when A and C are further apart.
+ * @param images - Images to group
+ * @param maxDistance - Largest Hamming distance still counted as a match
+ * @returns Ids of every group with more than one image, in input order
+ */
+export function groupNearDuplicates(
+  images: FingerprintedImage[],
+  maxDistance: number = PERCEPTUAL_HASH_MAX_DISTANCE,
+): string[][] {
+  const words = images.map((image) => toWords(image.perceptualHash));
+  const parent = images.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      if (wordDistance(words[i]!, words[j]!) <= maxDistance) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  images.forEach((image, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), image.id]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Thrown when `createImageBitmap` rejects a blob, which is then not a
+ * readable image
+ */
+class ImageDecodeError extends Error {
+  name = "ImageDecodeError";
+}
+
+/**
+ * Whether an error means the blob itself is unreadable, rather than that the
+ * context cannot decode or draw images at all
+ */
+export function isImageDecodeError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === "ImageDecodeError";
+}
+
+/**
+ * Computes the perceptual hash of an image blob
+ * Decoding doubles as a check that the blob is a readable image.
+ * @param blob - Image to fingerprint
+ * @returns Promise that resolves to the dHash as 16 hex digits
+ * @throws An error `isImageDecodeError` accepts if the blob cannot be
+ *   decoded, or another one if the context has no way to decode or draw it
+ */
+export async function computePerceptualHash(blob: Blob): Promise<string> {
+  if (typeof createImageBitmap !== "function") {
+    throw new Error("createImageBitmap is unavailable");
+  }
+  const bitmap = await createImageBitmap(blob, {
+    resizeWidth: DHASH_WIDTH,
+    resizeHeight: DHASH_HEIGHT,
+    resizeQuality: "medium",
+  }).catch((error: unknown) => {
+    throw new ImageDecodeError((error as Error)?.message ?? String(error));
+  });
+  try {
+    const canvas = new OffscreenCanvas(DHASH_WIDTH, DHASH_HEIGHT);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("2D canvas is unavailable");
+    context.drawImage(bitmap, 0, 0);
+    const { data } = context.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    return computeDHash(toLuminance(data));
+  } finally {
+    bitmap.close();
+  }
+}
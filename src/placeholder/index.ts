@@ -0,0 +1,210 @@
+/**
+ * Image placeholders for the random wallpaper browser extension.
+ * Decodes BlurHashes and picks the stand-in a new tab paints while it waits.
+ */
+
+import { AVERAGE_COLOR_SAMPLE_SIZE } from "../config";
+
+const BASE83_DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+function decode83(value: string): number {
+  let result = 0;
+  for (const char of value) {
+    result = result * 83 + BASE83_DIGITS.indexOf(char);
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Whether a value is a well-formed BlurHash
+ * The first character gives the number of components, which fixes the
+ * length of the rest.
+ */
+export function isValidBlurHash(value: unknown): value is string {
+  if (typeof value !== "string" || value.length < 6) return false;
+  for (const char of value) {
+    if (!BASE83_DIGITS.includes(char)) return false;
+  }
+  const sizeFlag = decode83(value[0]!);
+  const componentsX = (sizeFlag % 9) + 1;
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  return value.length === 4 + 2 * componentsX * componentsY;
+}
+
+/**
+ * Decodes a BlurHash into RGBA pixels
+ * @param hash - A hash accepted by `isValidBlurHash`
+ * @param width - Width to decode at
+ * @param height - Height to decode at
+ * @returns Pixel data in the layout `ImageData` expects
+ * @throws Error if the hash is malformed
+ */
+export function decodeBlurHash(
+  hash: string,
+  width: number,
+  height: number,
+): Uint8ClampedArray {
+  if (!isValidBlurHash(hash)) throw new Error(`Invalid BlurHash: ${hash}`);
+
+  const sizeFlag = decode83(hash[0]!);
+  const componentsX = (sizeFlag % 9) + 1;
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const maxValue = (decode83(hash[1]!) + 1) / 166;
+
+  const colors: Array<[number, number, number]> = [];
+  const dc = decode83(hash.slice(2, 6));
+  colors.push([
+    sRGBToLinear(dc >> 16),
+    sRGBToLinear((dc >> 8) & 255),
+    sRGBToLinear(dc & 255),
+  ]);
+  for (let i = 1; i < componentsX * componentsY; i++) {
+    const ac = decode83(hash.slice(4 + i * 2, 6 + i * 2));
+    colors.push([
+      signPow((Math.floor(ac / (19 * 19)) - 9) / 9, 2) * maxValue,
+      signPow(((Math.floor(ac / 19) % 19) - 9) / 9, 2) * maxValue,
+      signPow(((ac % 19) - 9) / 9, 2) * maxValue,
+    ]);
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis =
+            Math.cos((Math.PI * x * i) / width) *
+            Math.cos((Math.PI * y * j) / height);
+          const color = colors[i + j * componentsX]!;
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const offset = 4 * (x + y * width);
+      pixels[offset] = linearToSRGB(r);
+      pixels[offset + 1] = linearToSRGB(g);
+      pixels[offset + 2] = linearToSRGB(b);
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Size to decode a BlurHash at so it keeps the image's shape
+ * @param aspectRatio - Width over height of the image; a square is assumed
+ *   if it is unknown
+ * @param maxSize - Pixels along the longer side
+ */
+export function getBlurHashDecodeSize(
+  aspectRatio: number | undefined,
+  maxSize: number,
+): { width: number; height: number } {
+  if (!aspectRatio || !Number.isFinite(aspectRatio) || aspectRatio <= 0) {
+    return { width: maxSize, height: maxSize };
+  }
+  return aspectRatio >= 1
+    ? {
+        width: maxSize,
+        height: Math.max(1, Math.round(maxSize / aspectRatio)),
+      }
+    : {
+        width: Math.max(1, Math.round(maxSize * aspectRatio)),
+        height: maxSize,
+      };
+}
+
+/**
+ * Checks a colour supplied by a source
+ * @returns The colour as lowercase `#rrggbb`, or undefined if it is not one
+ */
+export function readHexColor(value: unknown): string | undefined {
+  return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value)
+    ? value.toLowerCase()
+    : undefined;
+}
+
+/**
+ * Average colour of RGBA pixels, ignoring transparent ones
+ * @param rgba - Pixel data as returned by `getImageData`
+ * @returns The colour as `#rrggbb`, or undefined if every pixel is
+ *   transparent
+ */
+export function averageColor(rgba: ArrayLike<number>): string | undefined {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let weight = 0;
+  for (let i = 0; i + 3 < rgba.length; i += 4) {
+    const alpha = rgba[i + 3]! / 255;
+    r += rgba[i]! * alpha;
+    g += rgba[i + 1]! * alpha;
+    b += rgba[i + 2]! * alpha;
+    weight += alpha;
+  }
+  if (weight === 0) return undefined;
+
+  return `#${[r, g, b]
+    .map((sum) =>
+      Math.round(sum / weight)
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`;
+}
+
+/**
+ * Computes the average colour of an image
+ * @param blob - Image to sample; a thumbnail does as well as the original
+ * @returns Promise that resolves to the colour as `#rrggbb`, or undefined if
+ *   the image is fully transparent
+ * @throws Error if the image cannot be decoded
+ */
+export async function computeAverageColor(
+  blob: Blob,
+): Promise<string | undefined> {
+  const bitmap = await createImageBitmap(blob, {
+    resizeWidth: AVERAGE_COLOR_SAMPLE_SIZE,
+    resizeHeight: AVERAGE_COLOR_SAMPLE_SIZE,
+    resizeQuality: "medium",
+  });
+  try {
+    const canvas = new OffscreenCanvas(
+      AVERAGE_COLOR_SAMPLE_SIZE,
+      AVERAGE_COLOR_SAMPLE_SIZE,
+    );
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("2D canvas is unavailable");
+    context.drawImage(bitmap, 0, 0);
+    const { data } = context.getImageData(
+      0,
+      0,
+      AVERAGE_COLOR_SAMPLE_SIZE,
+      AVERAGE_COLOR_SAMPLE_SIZE,
+    );
+    return averageColor(data);
+  } finally {
+    bitmap.close();
+  }
+}
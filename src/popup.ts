@@ -10,13 +10,17 @@ import {
   getHistory,
   getLastFetchTime,
   getAllValidImages,
-  getHistoryImageById,
+  getImageById,
+  getImageMetadata,
+  getThumbnail,
 } from "./db";
 import { Logger } from "./logger";
-import { ImageData } from "./config";
+import { ImageMetadata } from "./config";
 import { formatRelativeTime } from "./utils";
 import { checkOnline } from "./api";
+import { getSourceDisplayName } from "./newTabLogic";
 import {
+  requestCircuitSummaries,
   requestCurrentImageId,
   subscribeToCurrentImageUpdates,
 } from "./messaging";
@@ -65,7 +69,7 @@ function showMessage(text: string, type: "success" | "error" | "info" = "info")
   }, 2500);
 }
 
-let currentImageData: ImageData | null = null;
+let currentImageData: ImageMetadata | null = null;
 let currentBlobUrl: string | null = null;
 
 function cleanup() {
@@ -80,12 +84,12 @@ window.addEventListener("unload", cleanup);
 /**
  * Gets the most recently viewed image from history, falling back to any valid image.
  */
-async function getCurrentImage(): Promise<ImageData | null> {
+async function getCurrentImage(): Promise<ImageMetadata | null> {
   try {
     const history = await getHistory(1);
     if (history.length > 0) {
       const entry = history[0]!;
-      const imageData = await getHistoryImageById(entry.imageId);
+      const imageData = await getImageMetadata(entry.imageId);
       if (imageData) return imageData;
     }
   } catch (e) {
@@ -108,13 +112,13 @@ async function getCurrentImage(): Promise<ImageData | null> {
 
 /**
  * Synchronize the popup to a new image ID.
- * Loads the image from the database and updates the thumbnail if found.
+ * Loads the image's metadata and updates the thumbnail if found.
  */
 async function syncToCurrentImage(imageId: string): Promise<void> {
   try {
     if (currentImageData?.id === imageId) return; // already showing
 
-    const imageData = await getHistoryImageById(imageId);
+    const imageData = await getImageMetadata(imageId);
     if (imageData) {
       currentImageData = imageData;
       await loadThumbnail(imageData);
@@ -124,29 +128,27 @@ async function syncToCurrentImage(imageId: string): Promise<void> {
   }
 }
 
-function getSourceDisplayName(source: ImageData["source"]): string {
-  switch (source) {
-    case "unsplash":
-      return "Unsplash";
-    case "pexels":
-      return "Pexels";
-    default:
-      return "Wallpaper";
-  }
-}
-
-async function loadThumbnail(imageData: ImageData) {
-  cleanup();
-
+async function loadThumbnail(imageData: ImageMetadata) {
   const thumbnailEl = document.getElementById("thumbnail") as HTMLElement;
   const badgeEl = document.getElementById("sourceBadge") as HTMLElement;
   const authorEl = document.getElementById("photoAuthor") as HTMLElement;
 
-  const blobUrl = URL.createObjectURL(imageData.blob);
-  currentBlobUrl = blobUrl;
-
-  thumbnailEl.style.backgroundImage = `url('${blobUrl}')`;
-  badgeEl.textContent = getSourceDisplayName(imageData.source);
+  // The full-size blob is only loaded for images still awaiting a thumbnail
+  const thumbnail = await getThumbnail(imageData.id).catch((e) => {
+    popup_logger.debug("Could not load thumbnail", e);
+    return null;
+  });
+  const preview = thumbnail ?? (await getImageById(imageData.id))?.blob;
+  cleanup();
+  if (preview) {
+    const blobUrl = URL.createObjectURL(preview);
+    currentBlobUrl = blobUrl;
+    thumbnailEl.style.backgroundImage = `url('${blobUrl}')`;
+  }
+  badgeEl.textContent =
+    imageData.source === "other"
+      ? "Wallpaper"
+      : getSourceDisplayName(imageData.source);
 
   const authorLink = document.createElement("a");
   authorLink.href = imageData.authorUrl || "#";
@@ -178,6 +180,21 @@ async function loadStatus() {
     statusBadgeEl.className = online
       ? "status-badge online"
       : "status-badge offline";
+    statusBadgeEl.title = "";
+
+    // Sources or keys paused by the circuit breaker
+    const circuits = online ? await requestCircuitSummaries() : [];
+    if (circuits.length > 0) {
+      statusBadgeEl.textContent = `Degraded (${circuits.length} paused)`;
+      statusBadgeEl.className = "status-badge degraded";
+      statusBadgeEl.title = circuits
+        .map((circuit) =>
+          circuit.state === "half-open"
+            ? `${circuit.label}: retrying on next refresh`
+            : `${circuit.label}: paused, retry ${formatRelativeTime(circuit.retryAt ?? Date.now())}`,
+        )
+        .join("\n");
+    }
 
     if (refreshBtn) {
       refreshBtn.disabled = !online;
@@ -294,12 +311,15 @@ async function init() {
     .getElementById("refreshBtn")
     ?.addEventListener("click", handleRefresh);
 
-  document.getElementById("heartBtn")?.addEventListener("click", () => {
+  document.getElementById("heartBtn")?.addEventListener("click", async () => {
     if (!currentImageData) return;
-    const blobUrl = URL.createObjectURL(currentImageData.blob);
+    // Only the download needs the full-size image
+    const image = await getImageById(currentImageData.id);
+    if (!image) return;
+    const blobUrl = URL.createObjectURL(image.blob);
     const link = document.createElement("a");
     link.href = blobUrl;
-    link.download = `wallpaper-${currentImageData.id}.jpg`;
+    link.download = `wallpaper-${image.id}.jpg`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
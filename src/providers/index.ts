@@ -0,0 +1,34 @@
+/**
+ * Provider registry for the random wallpaper browser extension.
+ * Central list of the image sources the extension can fetch from.
+ *
+ * Adding a source means writing a `WallpaperProvider` and listing it here;
+ * the refresh in `src/api` and the options page both read this list.
+ */
+
+import { ImageSource, WallpaperProvider } from "../config";
+import { pexelsProvider } from "./pexels";
+import { unsplashProvider } from "./unsplash";
+
+/**
+ * Registered providers, in the order they are queried and displayed
+ */
+const PROVIDERS: WallpaperProvider[] = [unsplashProvider, pexelsProvider];
+
+/**
+ * Returns every registered provider
+ */
+export function getProviders(): WallpaperProvider[] {
+  return PROVIDERS;
+}
+
+/**
+ * Looks up a provider by id
+ * @param id - Provider id or image source
+ * @returns The provider, or undefined for sources without one (e.g. fallback images)
+ */
+export function getProvider(
+  id: ImageSource | string,
+): WallpaperProvider | undefined {
+  return PROVIDERS.find((provider) => provider.id === id);
+}
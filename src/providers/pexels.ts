@@ -0,0 +1,215 @@
+/**
+ * Pexels provider for the random wallpaper browser extension.
+ * Fetches landscape photos from the Pexels search, curated or collection
+ * endpoints.
+ */
+
+import {
+  API_REQUEST_TIMEOUT_MS,
+  PEXELS_IMAGES_COUNT,
+  ImageSizeTarget,
+  ResponseObserver,
+  WallpaperProvider,
+} from "../config";
+import { getRandomIndex } from "../utils";
+import { getCoverSize, getTargetPixels } from "../display";
+import { readHexColor } from "../placeholder";
+
+/**
+ * Subset of the Pexels photo object used by the extension
+ */
+interface PexelsPhoto {
+  id: number;
+  url: string;
+  width: number;
+  height: number;
+  photographer: string;
+  photographer_url: string;
+  src: { original: string; large: string; large2x: string };
+  /** Average colour as `#rrggbb` */
+  avg_color?: string | null;
+}
+
+/**
+ * Page of photos from the search or curated endpoint
+ */
+interface PexelsPhotoPage {
+  photos?: PexelsPhoto[];
+}
+
+/**
+ * Page of a collection, which may list videos as well as photos
+ */
+interface PexelsCollectionPage {
+  media?: (PexelsPhoto & { type?: string })[];
+}
+
+/**
+ * Pexels' fixed-size variants, smallest first, with the box each one scales
+ * the photo down to fit
+ */
+const SIZED_VARIANTS: Array<{
+  key: "large" | "large2x";
+  width: number;
+  height: number;
+}> = [
+  { key: "large", width: 940, height: 650 },
+  { key: "large2x", width: 1880, height: 1300 },
+];
+
+/**
+ * Picks the smallest variant of a photo that covers the target screen
+ * Screens larger than every fixed variant get the original, resized by Pexels
+ * and, below the high quality tier, compressed.
+ */
+function getSizedUrl(photo: PexelsPhoto, target: ImageSizeTarget): string {
+  const pixels = getTargetPixels(target);
+  const cover = getCoverSize(
+    photo.width,
+    photo.height,
+    pixels.width,
+    pixels.height,
+  );
+
+  for (const variant of SIZED_VARIANTS) {
+    const scale = Math.min(
+      1,
+      variant.width / photo.width,
+      variant.height / photo.height,
+    );
+    if (
+      Math.round(photo.width * scale) >= cover.width &&
+      Math.round(photo.height * scale) >= cover.height
+    ) {
+      return photo.src[variant.key];
+    }
+  }
+
+  if (cover.width >= photo.width) return photo.src.original;
+
+  const url = new URL(photo.src.original);
+  if (target.tier !== "high") {
+    url.searchParams.set("auto", "compress");
+    url.searchParams.set("cs", "tinysrgb");
+  }
+  url.searchParams.set("w", `${Math.round(cover.width / target.dpr)}`);
+  url.searchParams.set("h", `${Math.round(cover.height / target.dpr)}`);
+  url.searchParams.set("dpr", `${target.dpr}`);
+  return url.toString();
+}
+
+/**
+ * Number of collection pages a random page is picked from
+ */
+const COLLECTION_RANDOM_PAGES = 5;
+
+/**
+ * Requests a JSON document from the Pexels API
+ * @throws Error with the HTTP status on non-2xx responses
+ */
+async function getJson<T>(
+  url: string,
+  key: string,
+  onResponse?: ResponseObserver,
+): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Authorization: key },
+    signal: AbortSignal.timeout(API_REQUEST_TIMEOUT_MS),
+  });
+  onResponse?.(response);
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Picks the photos out of a collection page, which may also list videos
+ */
+function getCollectionPhotos(data: PexelsCollectionPage): PexelsPhoto[] {
+  return (data.media ?? []).filter((item) => item.type === "Photo");
+}
+
+export const pexelsProvider: WallpaperProvider<PexelsPhoto> = {
+  id: "pexels",
+  displayName: "Pexels",
+  homepageUrl: "https://pexels.com",
+  developerUrl: "https://www.pexels.com/api/",
+  batchSize: PEXELS_IMAGES_COUNT,
+
+  isKeyFormatValid(key) {
+    // Pexels issues plain alphanumeric keys
+    return /^[a-zA-Z0-9]{10,}$/.test(key);
+  },
+
+  testKey(key) {
+    // Curated endpoint is lighter than search
+    return fetch("https://api.pexels.com/v1/curated?per_page=1", {
+      headers: {
+        Authorization: key,
+        Accept: "application/json",
+      },
+    });
+  },
+
+  async fetchBatch(key, keyword, count = PEXELS_IMAGES_COUNT, onResponse) {
+    let url: string;
+    if (keyword) {
+      url = `https://api.pexels.com/v1/search?query=${encodeURIComponent(
+        keyword,
+      )}&per_page=${count}&orientation=landscape`;
+    } else {
+      url = `https://api.pexels.com/v1/curated?per_page=${count}&page=${getRandomIndex(10) + 1}`;
+    }
+
+    const data = await getJson<PexelsPhotoPage>(url, key, onResponse);
+    return data.photos ?? [];
+  },
+
+  collectionKinds: ["collection"],
+
+  async fetchCollection(
+    key,
+    target,
+    count = PEXELS_IMAGES_COUNT,
+    onResponse,
+  ) {
+    const url = `https://api.pexels.com/v1/collections/${encodeURIComponent(
+      target.id,
+    )}?type=photos&per_page=${count}`;
+
+    // Start on a random page for variety; small collections may not reach it
+    const page = getRandomIndex(COLLECTION_RANDOM_PAGES) + 1;
+    let photos = getCollectionPhotos(
+      await getJson<PexelsCollectionPage>(
+        `${url}&page=${page}`,
+        key,
+        onResponse,
+      ),
+    );
+    if (photos.length === 0 && page !== 1) {
+      photos = getCollectionPhotos(
+        await getJson<PexelsCollectionPage>(`${url}&page=1`, key, onResponse),
+      );
+    }
+    return photos;
+  },
+
+  normalizePhoto(photo, target) {
+    const color = readHexColor(photo.avg_color);
+    return {
+      id: `pexels_${photo.id}`,
+      url:
+        target && photo.src.original && photo.width > 0 && photo.height > 0
+          ? getSizedUrl(photo, target)
+          : photo.src.large2x,
+      source: "pexels",
+      downloadUrl: photo.url,
+      author: photo.photographer,
+      authorUrl: photo.photographer_url,
+      ...(color ? { color } : {}),
+    };
+  },
+};
@@ -0,0 +1,164 @@
+/**
+ * Unsplash provider for the random wallpaper browser extension.
+ * Fetches random landscape photos from the Unsplash API, optionally limited
+ * to a collection or topic.
+ */
+
+import {
+  API_REQUEST_TIMEOUT_MS,
+  UNSPLASH_IMAGES_COUNT,
+  ImageSizeTarget,
+  ResponseObserver,
+  WallpaperProvider,
+} from "../config";
+import { getRandomIndex } from "../utils";
+import { getCoverSize, getTargetPixels } from "../display";
+import { isValidBlurHash, readHexColor } from "../placeholder";
+
+/**
+ * Subset of the Unsplash photo object used by the extension
+ */
+interface UnsplashPhoto {
+  id: string;
+  width: number;
+  height: number;
+  /** `raw` is the original, which Unsplash resizes by query parameter */
+  urls: { raw: string; regular: string };
+  links: { download: string };
+  user: { name: string; links: { html: string } };
+  blur_hash?: string | null;
+  /** Average colour as `#rrggbb` */
+  color?: string | null;
+}
+
+/**
+ * Number of topic pages a random page is picked from
+ */
+const TOPIC_RANDOM_PAGES = 5;
+
+/**
+ * Requests a list of photos from the Unsplash API
+ * @throws Error with the HTTP status on non-2xx responses
+ */
+async function getPhotos(
+  url: string,
+  key: string,
+  onResponse?: ResponseObserver,
+): Promise<UnsplashPhoto[]> {
+  const response = await fetch(url, {
+    headers: { Authorization: `Client-ID ${key}` },
+    signal: AbortSignal.timeout(API_REQUEST_TIMEOUT_MS),
+  });
+  onResponse?.(response);
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+
+  return (await response.json()) as UnsplashPhoto[];
+}
+
+/**
+ * URL of a photo resized by Unsplash to just cover the target screen
+ * `w` and `h` keep the photo's own aspect ratio, so nothing is cropped, and
+ * `fit=max` stops Unsplash from scaling small photos up.
+ */
+function getSizedUrl(photo: UnsplashPhoto, target: ImageSizeTarget): string {
+  const pixels = getTargetPixels(target);
+  const cover = getCoverSize(
+    photo.width,
+    photo.height,
+    pixels.width,
+    pixels.height,
+  );
+
+  const url = new URL(photo.urls.raw);
+  url.searchParams.set("w", `${Math.round(cover.width / target.dpr)}`);
+  url.searchParams.set("h", `${Math.round(cover.height / target.dpr)}`);
+  url.searchParams.set("dpr", `${target.dpr}`);
+  url.searchParams.set("q", `${target.quality}`);
+  url.searchParams.set("fit", "max");
+  url.searchParams.set("fm", "jpg");
+  return url.toString();
+}
+
+export const unsplashProvider: WallpaperProvider<UnsplashPhoto> = {
+  id: "unsplash",
+  displayName: "Unsplash",
+  homepageUrl: "https://unsplash.com",
+  developerUrl: "https://unsplash.com/developers",
+  batchSize: UNSPLASH_IMAGES_COUNT,
+
+  isKeyFormatValid(key) {
+    return /^[a-zA-Z0-9_-]{10,}$/.test(key);
+  },
+
+  testKey(key) {
+    return fetch("https://api.unsplash.com/photos/random?count=1", {
+      headers: {
+        Authorization: `Client-ID ${key}`,
+        "Accept-Version": "v1",
+      },
+    });
+  },
+
+  async fetchBatch(key, keyword, count = UNSPLASH_IMAGES_COUNT, onResponse) {
+    let url = `https://api.unsplash.com/photos/random?count=${count}&orientation=landscape`;
+
+    if (keyword) {
+      url += `&query=${encodeURIComponent(keyword)}`;
+    }
+
+    return getPhotos(url, key, onResponse);
+  },
+
+  collectionKinds: ["collection", "topic"],
+
+  async fetchCollection(
+    key,
+    target,
+    count = UNSPLASH_IMAGES_COUNT,
+    onResponse,
+  ) {
+    const id = encodeURIComponent(target.id);
+
+    if (target.kind === "collection") {
+      return getPhotos(
+        `https://api.unsplash.com/photos/random?count=${count}&orientation=landscape&collections=${id}`,
+        key,
+        onResponse,
+      );
+    }
+
+    // Random photos only filter by topic ID, so page through the topic by slug
+    // instead. Small topics may not have that many pages; fall back to the first.
+    const url = `https://api.unsplash.com/topics/${id}/photos?per_page=${count}&orientation=landscape`;
+    const page = getRandomIndex(TOPIC_RANDOM_PAGES) + 1;
+    const photos = await getPhotos(`${url}&page=${page}`, key, onResponse);
+    return photos.length > 0 || page === 1
+      ? photos
+      : getPhotos(`${url}&page=1`, key, onResponse);
+  },
+
+  normalizePhoto(photo, target) {
+    const color = readHexColor(photo.color);
+    return {
+      id: `unsplash_${photo.id}`,
+      url:
+        target && photo.urls.raw && photo.width > 0 && photo.height > 0
+          ? getSizedUrl(photo, target)
+          : photo.urls.regular,
+      source: "unsplash",
+      downloadUrl: photo.links.download,
+      author: photo.user.name,
+      authorUrl: photo.user.links.html,
+      ...(isValidBlurHash(photo.blur_hash)
+        ? { blurHash: photo.blur_hash }
+        : {}),
+      ...(photo.width > 0 && photo.height > 0
+        ? { aspectRatio: photo.width / photo.height }
+        : {}),
+      ...(color ? { color } : {}),
+    };
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * Refresh job bookkeeping for the random wallpaper browser extension.
+ * A refresh fetches its photo list once and then works through it item by
+ * item; these helpers track which items are done so an interrupted refresh
+ * can resume.
+ *
+ * There is at most one job, saved to IndexedDB after every item and deleted
+ * by `refreshImages` in `src/backgroundLogic` once each item has an outcome.
+ */
+
+import { REFRESH_JOB_ID, REFRESH_JOB_MAX_AGE_MS } from "../config";
+import type {
+  ProviderPhoto,
+  RefreshJob,
+  RefreshJobItem,
+  RefreshJobSummary,
+} from "../config";
+
+/**
+ * Starts a job with every photo pending
+ * @param photos - Photo list returned by the providers
+ * @param permanent - Whether the images should never expire
+ * @param expiresAt - Expiry given to every stored image
+ * @param now - Current time
+ */
+export function createRefreshJob(
+  photos: ProviderPhoto[],
+  permanent: boolean,
+  expiresAt: number,
+  now: number,
+): RefreshJob {
+  return {
+    id: REFRESH_JOB_ID,
+    createdAt: now,
+    updatedAt: now,
+    expiresAt,
+    permanent,
+    items: photos.map((photo) => ({ photo, status: "pending" })),
+    cursor: 0,
+  };
+}
+
+/**
+ * Whether an unfinished job is too old to be worth resuming
+ */
+export function isRefreshJobStale(job: RefreshJob, now: number): boolean {
+  return now - job.createdAt > REFRESH_JOB_MAX_AGE_MS;
+}
+
+/**
+ * Indexes of the items still to download, starting at the cursor
+ */
+export function getPendingItems(job: RefreshJob): number[] {
+  const pending: number[] = [];
+  for (let i = job.cursor; i < job.items.length; i++) {
+    if (job.items[i]!.status === "pending") pending.push(i);
+  }
+  return pending;
+}
+
+/**
+ * Records the outcome of one item
+ * The cursor moves past every leading item that is no longer pending.
+ * @param job - Current job
+ * @param index - Item that finished
+ * @param outcome - New status, and the error for a failed item
+ * @param now - Current time
+ * @returns Updated job
+ */
+export function updateRefreshJobItem(
+  job: RefreshJob,
+  index: number,
+  outcome: Omit<RefreshJobItem, "photo">,
+  now: number,
+): RefreshJob {
+  const items = job.items.map((item, i) =>
+    i === index ? { photo: item.photo, ...outcome } : item,
+  );
+
+  let cursor = job.cursor;
+  while (cursor < items.length && items[cursor]!.status !== "pending") {
+    cursor++;
+  }
+
+  return { ...job, items, cursor, updatedAt: now };
+}
+
+/**
+ * Counts the job's items by status, and the failed ones by cause
+ * Counted from the saved items, so a resumed job includes earlier runs.
+ */
+export function summarizeRefreshJob(job: RefreshJob): RefreshJobSummary {
+  const summary = {
+    pending: 0,
+    done: 0,
+    failed: 0,
+    skippedForSpace: 0,
+    permanentFailure: 0,
+  };
+  for (const item of job.items) {
+    summary[item.status]++;
+    if (item.skippedForSpace) summary.skippedForSpace++;
+    if (item.permanentFailure) summary.permanentFailure++;
+  }
+  return summary;
+}
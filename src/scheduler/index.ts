@@ -0,0 +1,145 @@
+/**
+ * Download scheduler for the random wallpaper browser extension.
+ * Runs queued tasks with a bounded number in flight, starting higher priority
+ * tasks first and same-priority tasks in the order they were queued.
+ *
+ * `src/api` owns the one shared instance and resizes it to the detected
+ * connection speed before queueing each download.
+ */
+
+import {
+  DOWNLOAD_CONCURRENCY_BY_SPEED,
+  MAX_DOWNLOAD_CONCURRENCY,
+} from "../config";
+import type {
+  ConnectionSpeed,
+  DownloadPriority,
+  DownloadProgress,
+} from "../config";
+
+/**
+ * Rank of each priority; higher starts first
+ */
+const PRIORITY_RANK: Record<DownloadPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+interface QueuedTask {
+  run: () => Promise<void>;
+  rank: number;
+}
+
+/**
+ * Picks the concurrency for a connection speed, capped by the user's limit
+ * @param speed - Detected connection speed
+ * @param maxConcurrency - Configured limit
+ */
+export function getConcurrencyForSpeed(
+  speed: ConnectionSpeed,
+  maxConcurrency: number,
+): number {
+  return clampConcurrency(
+    Math.min(DOWNLOAD_CONCURRENCY_BY_SPEED[speed], maxConcurrency),
+  );
+}
+
+/**
+ * Keeps a concurrency value within 1..MAX_DOWNLOAD_CONCURRENCY
+ */
+function clampConcurrency(value: number): number {
+  if (isNaN(value)) return 1;
+  return Math.min(MAX_DOWNLOAD_CONCURRENCY, Math.max(1, Math.floor(value)));
+}
+
+/**
+ * Bounded, priority-ordered task queue shared by every image download
+ */
+export class DownloadScheduler {
+  private queue: QueuedTask[] = [];
+  private active = 0;
+  private done = 0;
+  private failed = 0;
+  private maxConcurrency: number;
+
+  constructor(maxConcurrency: number) {
+    this.maxConcurrency = clampConcurrency(maxConcurrency);
+  }
+
+  /**
+   * Changes how many tasks may run at once
+   * Lowering it lets running tasks finish; raising it starts queued ones.
+   */
+  setMaxConcurrency(maxConcurrency: number): void {
+    this.maxConcurrency = clampConcurrency(maxConcurrency);
+    this.pump();
+  }
+
+  /**
+   * Queues a task
+   * @param task - Work to run once a slot is free
+   * @param priority - Start order relative to other queued tasks
+   * @returns Promise that settles with the task's own result
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    priority: DownloadPriority = "normal",
+  ): Promise<T> {
+    if (this.active === 0 && this.queue.length === 0) {
+      this.done = 0;
+      this.failed = 0;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const run = async () => {
+        try {
+          const result = await task();
+          this.done++;
+          resolve(result);
+        } catch (error) {
+          this.failed++;
+          reject(error);
+        }
+      };
+
+      const entry = { run, rank: PRIORITY_RANK[priority] };
+      // Insert after every task of the same or higher priority
+      const index = this.queue.findIndex((queued) => queued.rank < entry.rank);
+      if (index === -1) {
+        this.queue.push(entry);
+      } else {
+        this.queue.splice(index, 0, entry);
+      }
+
+      this.pump();
+    });
+  }
+
+  /**
+   * Current queue and completion counts
+   */
+  getProgress(): DownloadProgress {
+    return {
+      queued: this.queue.length,
+      active: this.active,
+      done: this.done,
+      failed: this.failed,
+      maxConcurrency: this.maxConcurrency,
+    };
+  }
+
+  /**
+   * Starts queued tasks while slots are free
+   */
+  private pump(): void {
+    while (this.active < this.maxConcurrency && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      this.active++;
+      next.run().finally(() => {
+        this.active--;
+        this.pump();
+      });
+    }
+  }
+}
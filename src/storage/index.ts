@@ -4,7 +4,18 @@
  */
 
 import { Logger } from "../logger";
-import { DEFAULT_SETTINGS, Settings } from "../config";
+import {
+  CircuitBreakerState,
+  DailyFetchState,
+  DEFAULT_SETTINGS,
+  DisplaySize,
+  FirstPaintTimings,
+  KeyQuota,
+  LockLease,
+  ProviderId,
+  Settings,
+} from "../config";
+import { shouldReplaceDisplaySize } from "../display";
 
 const storage_logger = new Logger("Storage");
 
@@ -55,24 +66,230 @@ export async function saveSettings(settings: Settings): Promise<void> {
 }
 
 /**
- * Gets the last used keyword index for sequential selection
- * @returns Promise that resolves to the last keyword index
+ * Gets the largest screen a new tab has reported
+ * @returns Promise that resolves to the screen, or undefined if none was
  */
-export async function getLastKeywordIndex(): Promise<number> {
-  storage_logger.debug("Fetching last keyword index");
-  const index = await getFromStorage<number>("lastKeywordIndex");
-  storage_logger.debug(`Fetched last keyword index: ${index}`);
+export async function getDisplaySize(): Promise<DisplaySize | undefined> {
+  return getFromStorage<DisplaySize>("displaySize");
+}
+
+/**
+ * Stores a screen reported by a new tab, if it should replace the one stored
+ * Kept apart from the settings, so a report cannot overwrite settings the
+ * user changed meanwhile.
+ * @param reported - The reported screen
+ * @returns Promise that resolves to whether the stored screen was replaced
+ */
+export async function saveDisplaySize(reported: DisplaySize): Promise<boolean> {
+  const stored = await getDisplaySize();
+  if (!shouldReplaceDisplaySize(stored, reported)) return false;
+  await new Promise<void>((resolve) => {
+    chrome.storage.local.set({ displaySize: reported }, resolve);
+  });
+  return true;
+}
+
+/**
+ * Gets the rate limit state of every API key
+ * @returns Promise that resolves to the quota per `<source>_<key>`
+ */
+export async function getKeyQuotas(): Promise<Record<string, KeyQuota>> {
+  const quotas = await getFromStorage<Record<string, KeyQuota>>("keyQuotas");
+  return quotas ?? {};
+}
+
+/**
+ * Merges rate limit updates into the stored key quotas
+ * Kept apart from the settings, so a fetch saving them cannot overwrite
+ * settings the user changed while it ran.
+ * @param updates - Quota per `<source>_<key>`
+ * @returns Promise that resolves when the quotas are saved
+ */
+export async function saveKeyQuotas(
+  updates: Record<string, KeyQuota>,
+): Promise<void> {
+  const entries = Object.entries(updates);
+  if (entries.length === 0) return;
+
+  const quotas = await getKeyQuotas();
+  for (const [keyHash, quota] of entries) {
+    quotas[keyHash] = { ...quotas[keyHash], ...quota };
+  }
+
+  storage_logger.debug(`Saving rate limit state for ${entries.length} key(s)`);
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ keyQuotas: quotas }, resolve);
+  });
+}
+
+/**
+ * Gets a provider's position in its keyword rotation
+ * @param source - Provider whose rotation to read
+ * @returns Promise that resolves to the last used index, or -1 if none yet
+ */
+export async function getKeywordIndex(source: ProviderId): Promise<number> {
+  const indexes =
+    await getFromStorage<Partial<Record<ProviderId, number>>>("keywordIndexes");
+  const index = indexes?.[source];
+  storage_logger.debug(`Fetched ${source} keyword index: ${index}`);
   return index ?? -1;
 }
 
 /**
- * Saves the last used keyword index
- * @param index - The keyword index to save
- * @returns Promise that resolves when index is saved
+ * Saves a provider's position in its keyword rotation
+ * @param source - Provider whose rotation advanced
+ * @param index - The last used index
+ * @returns Promise that resolves when the index is saved
+ */
+export async function saveKeywordIndex(
+  source: ProviderId,
+  index: number,
+): Promise<void> {
+  storage_logger.debug(`Saving ${source} keyword index: ${index}`);
+  const indexes = await getFromStorage<Partial<Record<ProviderId, number>>>(
+    "keywordIndexes",
+  );
+  await new Promise<void>((resolve) => {
+    chrome.storage.local.set(
+      { keywordIndexes: { ...indexes, [source]: index } },
+      resolve,
+    );
+  });
+
+  // The single index used before rotations were kept per provider pointed
+  // into the merged Unsplash and Pexels list, so it cannot carry over
+  if (!indexes) {
+    await new Promise<void>((resolve) => {
+      chrome.storage.local.remove("lastKeywordIndex", resolve);
+    });
+  }
+}
+
+/**
+ * Gets the last day processed for each picture-of-the-day provider
+ * @returns Promise that resolves to the daily fetch state
+ */
+export async function getDailyFetchState(): Promise<DailyFetchState> {
+  const state = await getFromStorage<DailyFetchState>("dailyFetchState");
+  return state ?? {};
+}
+
+/**
+ * Saves the last day processed for each picture-of-the-day provider
+ * @param state - The daily fetch state to save
+ * @returns Promise that resolves when the state is saved
+ */
+export async function saveDailyFetchState(
+  state: DailyFetchState,
+): Promise<void> {
+  storage_logger.debug("Saving daily fetch state", state);
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ dailyFetchState: state }, resolve);
+  });
+}
+
+/**
+ * Gets the recent new-tab first-paint timings
+ * @returns Promise that resolves to the timings for each path
+ */
+export async function getFirstPaintTimings(): Promise<FirstPaintTimings> {
+  const timings = await getFromStorage<FirstPaintTimings>("firstPaintTimings");
+  return timings ?? {};
+}
+
+/**
+ * Saves the recent new-tab first-paint timings
+ * @param timings - The timings to save
+ * @returns Promise that resolves when the timings are saved
+ */
+export async function saveFirstPaintTimings(
+  timings: FirstPaintTimings,
+): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ firstPaintTimings: timings }, resolve);
+  });
+}
+
+/**
+ * Gets the persisted circuit breaker state
+ * @returns Promise that resolves to every breaker that is not plainly closed
+ */
+export async function getCircuitBreakers(): Promise<CircuitBreakerState> {
+  const circuits = await getFromStorage<CircuitBreakerState>("circuitBreakers");
+  return circuits ?? {};
+}
+
+/**
+ * Saves the circuit breaker state
+ * @param circuits - Breakers to persist
+ * @returns Promise that resolves when the state is saved
+ */
+export async function saveCircuitBreakers(
+  circuits: CircuitBreakerState,
+): Promise<void> {
+  storage_logger.debug("Saving circuit breaker state", circuits);
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ circuitBreakers: circuits }, resolve);
+  });
+}
+
+/**
+ * Prefix of the storage keys holding lock leases, one key per lock
+ */
+const LOCK_LEASE_PREFIX = "lockLease:";
+
+/**
+ * Gets the lease recorded for a lock
+ * @param name - Lock name
+ * @returns Promise that resolves to the lease, or undefined if none is recorded
+ */
+export async function getLockLease(name: string): Promise<LockLease | undefined> {
+  return getFromStorage<LockLease>(`${LOCK_LEASE_PREFIX}${name}`);
+}
+
+/**
+ * Gets every recorded lock lease, for diagnostics
+ * @returns Promise that resolves to the leases, stale ones included
+ */
+export async function getLockLeases(): Promise<LockLease[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(null, (result: Record<string, unknown>) => {
+      resolve(
+        Object.entries(result)
+          .filter(([key]) => key.startsWith(LOCK_LEASE_PREFIX))
+          .map(([, lease]) => lease as LockLease),
+      );
+    });
+  });
+}
+
+/**
+ * Records or renews a lock lease
+ * @param lease - Lease to store under its lock name
+ * @returns Promise that resolves when the lease is saved
+ */
+export async function saveLockLease(lease: LockLease): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set(
+      { [`${LOCK_LEASE_PREFIX}${lease.name}`]: lease },
+      resolve,
+    );
+  });
+}
+
+/**
+ * Removes a lock lease if it still belongs to the given acquisition
+ * @param name - Lock name
+ * @param token - Token of the acquisition releasing the lock
+ * @returns Promise that resolves once the lease is gone or found to be taken over
  */
-export async function saveLastKeywordIndex(index: number): Promise<void> {
-  storage_logger.debug(`Saving new keyword index: ${index}`);
+export async function removeLockLease(
+  name: string,
+  token: string,
+): Promise<void> {
+  const lease = await getLockLease(name);
+  if (lease?.token !== token) return;
   return new Promise((resolve) => {
-    chrome.storage.local.set({ lastKeywordIndex: index }, resolve);
+    chrome.storage.local.remove(`${LOCK_LEASE_PREFIX}${name}`, resolve);
   });
 }
@@ -0,0 +1,152 @@
+/**
+ * Image transcoding for the random wallpaper browser extension.
+ * Re-encodes images as WebP or AVIF at screen size, and makes thumbnails.
+ */
+
+import {
+  SNAPSHOT_QUALITY,
+  THUMBNAIL_QUALITY,
+  THUMBNAIL_WIDTH,
+} from "../config";
+import type { TranscodeFormat, TranscodeSettings } from "../config";
+import { getCoverSize } from "../display";
+
+const MIME_TYPES: Record<TranscodeFormat, string> = {
+  webp: "image/webp",
+  avif: "image/avif",
+};
+
+/**
+ * MIME types to try encoding to, preferred first
+ * AVIF falls back to WebP, which every supported browser can encode.
+ */
+export function getEncodeTypes(format: TranscodeFormat): string[] {
+  return format === "avif"
+    ? [MIME_TYPES.avif, MIME_TYPES.webp]
+    : [MIME_TYPES.webp];
+}
+
+/**
+ * Size of an image's thumbnail
+ * Thumbnails are `THUMBNAIL_WIDTH` wide whatever the image's shape, so
+ * previews can crop them like the new tab crops the wallpaper. Images
+ * narrower than that are left alone.
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ */
+export function getThumbnailSize(
+  width: number,
+  height: number,
+): { width: number; height: number } {
+  const scale = Math.min(1, THUMBNAIL_WIDTH / width);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Draws a decoded image onto a canvas of the given size
+ * @throws Error if the 2D context is unavailable
+ */
+function drawScaled(
+  bitmap: ImageBitmap,
+  size: { width: number; height: number },
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("2D canvas is unavailable");
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, size.width, size.height);
+  return canvas;
+}
+
+/**
+ * Re-encodes an image at screen size in the configured format
+ * @param blob - Image as downloaded
+ * @param settings - Format and quality to encode at
+ * @param screen - Size to cover, in device pixels
+ * @returns Promise that resolves to the re-encoded image, or null if it would
+ *   not be smaller than the original
+ * @throws Error if the image cannot be decoded or no format can be encoded
+ */
+export async function transcodeImage(
+  blob: Blob,
+  settings: Omit<TranscodeSettings, "enabled">,
+  screen: { width: number; height: number },
+): Promise<Blob | null> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = drawScaled(
+      bitmap,
+      getCoverSize(bitmap.width, bitmap.height, screen.width, screen.height),
+    );
+
+    for (const type of getEncodeTypes(settings.format)) {
+      const encoded = await canvas.convertToBlob({
+        type,
+        quality: settings.quality / 100,
+      });
+      // Browsers that cannot encode a type return a PNG instead
+      if (encoded.type !== type) continue;
+      return encoded.size < blob.size ? encoded : null;
+    }
+    throw new Error(`${settings.format} encoding is not supported`);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Scales an image down and encodes it as WebP
+ * Browsers that cannot encode WebP get a PNG instead.
+ * @param getSize - Size to draw at, given the image's own size
+ * @param quality - Encoder quality in percent
+ * @throws Error if the image cannot be decoded
+ */
+async function resizeToWebp(
+  blob: Blob,
+  getSize: (width: number, height: number) => { width: number; height: number },
+  quality: number,
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = drawScaled(bitmap, getSize(bitmap.width, bitmap.height));
+    return await canvas.convertToBlob({
+      type: MIME_TYPES.webp,
+      quality: quality / 100,
+    });
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Makes a small WebP preview of an image
+ * @param blob - Image to preview
+ * @returns Promise that resolves to the thumbnail
+ * @throws Error if the image cannot be decoded
+ */
+export function createThumbnail(blob: Blob): Promise<Blob> {
+  return resizeToWebp(blob, getThumbnailSize, THUMBNAIL_QUALITY);
+}
+
+/**
+ * Renders an image at just the size that covers a screen
+ * Unlike `transcodeImage`, the result is kept even when it is larger than
+ * the original: it exists to decode quickly, not to save space.
+ * @param blob - Image to render
+ * @param screen - Size to cover, in device pixels
+ * @returns Promise that resolves to the snapshot
+ * @throws Error if the image cannot be decoded
+ */
+export function createSnapshot(
+  blob: Blob,
+  screen: { width: number; height: number },
+): Promise<Blob> {
+  return resizeToWebp(
+    blob,
+    (width, height) => getCoverSize(width, height, screen.width, screen.height),
+    SNAPSHOT_QUALITY,
+  );
+}
@@ -3,7 +3,16 @@
  * Supports various transition types (fade, slide, wipe, ripple, pixel dissolve, blur, pixelate, zoom, curtain, film burn, glitch).
  */
 
-import { TransitionOptions, TransitionType } from "../config";
+import {
+  BLURHASH_DECODE_SIZE,
+  TransitionOptions,
+  TransitionType,
+} from "../config";
+import {
+  decodeBlurHash,
+  getBlurHashDecodeSize,
+  isValidBlurHash,
+} from "../placeholder";
 
 export const Easing = {
   linear: (t: number) => t,
@@ -76,6 +85,9 @@ export class CanvasTransitionManager {
 
   private tempCanvas: HTMLCanvasElement | null = null;
 
+  /** Decoded BlurHash or average colour shown until the first image is in */
+  private placeholder: HTMLCanvasElement | string | null = null;
+
   private _coverCache: CoverCacheEntry | null = null;
   private _blockCache: BlockCacheEntry | null = null;
 
@@ -99,6 +111,8 @@ export class CanvasTransitionManager {
       this._blockCache = null;
       if (!this.isTransitioning && this.currentImage) {
         this.renderImage(this.currentImage);
+      } else if (!this.isTransitioning && this.placeholder) {
+        this.paintBackground();
       }
     };
     window.addEventListener("resize", this.resizeHandler);
@@ -116,11 +130,13 @@ export class CanvasTransitionManager {
     if (opacity !== 1) this.ctx.globalAlpha = 1;
   }
 
-  private getCoverDimensions(img: HTMLImageElement): CoverDims {
+  private getCoverDimensions(
+    img: HTMLImageElement | HTMLCanvasElement,
+  ): CoverDims {
     const cw = this.canvas.width;
     const ch = this.canvas.height;
-    const iw = img.naturalWidth;
-    const ih = img.naturalHeight;
+    const iw = "naturalWidth" in img ? img.naturalWidth : img.width;
+    const ih = "naturalHeight" in img ? img.naturalHeight : img.height;
 
     const c = this._coverCache;
     if (
@@ -258,6 +274,7 @@ export class CanvasTransitionManager {
     this.isTransitioning = false;
     this.currentImage = this.nextImage;
     this.nextImage = null;
+    this.placeholder = null;
     this.animationFrameId = null;
     if (this.currentImage) this.renderImage(this.currentImage);
   }
@@ -265,12 +282,53 @@ export class CanvasTransitionManager {
   private paintBackground(): void {
     if (this.currentImage) {
       this.renderImage(this.currentImage);
+    } else if (this.placeholder && typeof this.placeholder !== "string") {
+      const dims = this.getCoverDimensions(this.placeholder);
+      this.ctx.drawImage(this.placeholder, dims.dx, dims.dy, dims.dw, dims.dh);
     } else {
-      this.ctx.fillStyle = "#121212";
+      this.ctx.fillStyle = this.placeholder ?? "#121212";
       this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     }
   }
 
+  /**
+   * Paints a stand-in for the first image while it loads and decodes
+   * The next transition starts from it instead of from black. Ignored once
+   * an image is showing, so later transitions start from that image.
+   * The BlurHash is decoded in the image's proportions and cropped to cover
+   * the screen as the image will be.
+   * @param placeholder - The image's BlurHash and/or average colour
+   */
+  showPlaceholder(placeholder: {
+    blurHash?: string;
+    color?: string;
+    aspectRatio?: number;
+  }): void {
+    if (this.currentImage) return;
+
+    if (isValidBlurHash(placeholder.blurHash)) {
+      const { width, height } = getBlurHashDecodeSize(
+        placeholder.aspectRatio,
+        BLURHASH_DECODE_SIZE,
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      const pixels = ctx.createImageData(width, height);
+      pixels.data.set(decodeBlurHash(placeholder.blurHash, width, height));
+      ctx.putImageData(pixels, 0, 0);
+      this.placeholder = canvas;
+    } else if (placeholder.color) {
+      this.placeholder = placeholder.color;
+    } else {
+      return;
+    }
+
+    if (!this.isTransitioning) this.paintBackground();
+  }
+
   private renderFade(progress: number): void {
     if (!this.nextImage) return;
     this.paintBackground();
@@ -789,6 +847,7 @@ export class CanvasTransitionManager {
     this.currentImage = null;
     this.nextImage = null;
     this.tempCanvas = null;
+    this.placeholder = null;
     this._coverCache = null;
     this._blockCache = null;
   }
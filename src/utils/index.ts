@@ -6,7 +6,11 @@
 import {
   IMAGE_EXPIRY_HOURS,
   PERMANENT_CACHE_EXPIRY_MS,
+  RETRY_QUEUE_BASE_BACKOFF_MS,
+  RETRY_QUEUE_MAX_BACKOFF_MS,
   Settings,
+  ProviderPhoto,
+  RetryQueueEntry,
 } from "../config";
 
 /**
@@ -35,15 +39,42 @@ export function getRandomIndex(max: number): number {
 }
 
 /**
- * Checks if any API keys are configured in the extension settings
+ * Picks a uniformly random id, preferring ids outside an avoid set
+ * Falls back to the whole list when every id is to be avoided.
+ * @param ids - Candidate ids
+ * @param avoid - Ids to skip if possible, e.g. recently viewed images
+ * @returns A random id, or null if there are no candidates
+ */
+export function pickRandomId(
+  ids: readonly string[],
+  avoid: ReadonlySet<string> = new Set(),
+): string | null {
+  const fresh = avoid.size > 0 ? ids.filter((id) => !avoid.has(id)) : ids;
+  const pool = fresh.length > 0 ? fresh : ids;
+  if (pool.length === 0) return null;
+  return pool[getRandomIndex(pool.length)]!;
+}
+
+/**
+ * Whether the custom feed is enabled and has an address to fetch
+ * @param settings - Extension settings
+ */
+export function isCustomFeedActive(settings: Settings): boolean {
+  return Boolean(settings.customFeed?.enabled && settings.customFeed.url);
+}
+
+/**
+ * Checks if any API keys (or an active custom feed) are configured
  * Used to determine if the extension can fetch images from external sources
- * @returns Promise that resolves to true if at least one API key is configured
+ * @returns Promise that resolves to true if at least one remote source is configured
  */
 export async function areApiKeysConfigured(
   settings: Settings,
 ): Promise<boolean> {
   return (
-    settings.apiKeys.unsplash.length > 0 || settings.apiKeys.pexels.length > 0
+    Object.values(settings.apiKeys ?? {}).some(
+      (keys) => Array.isArray(keys) && keys.length > 0,
+    ) || isCustomFeedActive(settings)
   );
 }
 
@@ -63,6 +94,45 @@ export async function computeExpiry(
     : now + IMAGE_EXPIRY_HOURS * 60 * 60 * 1000;
 }
 
+/**
+ * Wait before the next queued retry of a failed download
+ * Doubles with every attempt, up to RETRY_QUEUE_MAX_BACKOFF_MS
+ * @param attempts - Queued retries already made
+ * @returns Delay in milliseconds
+ */
+export function getRetryQueueBackoff(attempts: number): number {
+  return Math.min(
+    RETRY_QUEUE_MAX_BACKOFF_MS,
+    RETRY_QUEUE_BASE_BACKOFF_MS * Math.pow(2, attempts),
+  );
+}
+
+/**
+ * Builds the retry queue entry for a photo whose download just failed
+ * @param photo - Photo that could not be downloaded
+ * @param permanent - Whether the image should never expire once downloaded
+ * @param now - Time of the failure
+ * @param error - Failure message, if known
+ * @param retryAt - When the server asked to be tried again, if it did
+ */
+export function createRetryEntry(
+  photo: ProviderPhoto,
+  permanent: boolean,
+  now: number,
+  error?: string,
+  retryAt?: number,
+): RetryQueueEntry {
+  return {
+    id: photo.id,
+    photo,
+    permanent,
+    attempts: 0,
+    firstFailedAt: now,
+    nextAttemptAt: Math.max(now + getRetryQueueBackoff(0), retryAt ?? 0),
+    ...(error ? { lastError: error } : {}),
+  };
+}
+
 /**
  * Formats a timestamp into a human-readable relative time string
  * Handles various time units from seconds to years with proper pluralization